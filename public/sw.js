@@ -1,4 +1,272 @@
-// Minimaler Service Worker, nur um die App installierbar zu machen.
-// Später können wir Caching/Offline-Funktion ergänzen.
-self.addEventListener('install', () => self.skipWaiting());
-self.addEventListener('activate', (event) => event.waitUntil(self.clients.claim()));
+// Service Worker: App-Shell offline, Bilder-Cache, Offline-Seite und
+// nachgeholte Suchen (Background Sync). Kein Build-Schritt – reines JS.
+
+const VERSION = 'v5';
+const SHELL_CACHE = `clofind-shell-${VERSION}`;
+// Besuchte Seiten (/s/<id>, /product/<id>, …) – getrennt von der Shell, damit sie begrenzt bleiben
+const PAGE_CACHE = 'clofind-pages';
+const STATIC_CACHE = 'clofind-static';
+const IMAGE_CACHE = 'clofind-images';
+
+// Muss zu LOCALES/DEFAULT_LOCALE in src/lib/i18n/config.ts passen
+const LOCALES = ['de', 'en'];
+const DEFAULT_LOCALE = 'de';
+
+const SHELL_URLS = [
+  ...LOCALES.flatMap((l) => [`/${l}`, `/${l}/offline`, `/${l}/favorites`, `/${l}/alerts`]),
+  '/site.webmanifest',
+  '/favicon.ico',
+  '/icon-192.png',
+  '/icon-512.png',
+];
+
+/** Sprache aus dem Pfad (/en/…), sonst aus dem Browser. */
+function localeOf(pathname) {
+  const first = pathname.split('/')[1];
+  if (LOCALES.includes(first)) return first;
+  const browser = (self.navigator.language ?? '').slice(0, 2).toLowerCase();
+  return LOCALES.includes(browser) ? browser : DEFAULT_LOCALE;
+}
+
+const NOTIFICATION_TEXT = {
+  de: {
+    many: (count, hits) => `${count} Offline-Suchen abgeschlossen – ${hits} Treffer.`,
+    one: (name, hits) => `Offline-Suche „${name}“ abgeschlossen – ${hits} Treffer.`,
+  },
+  en: {
+    many: (count, hits) => `${count} offline searches finished – ${hits} matches.`,
+    one: (name, hits) => `Offline search “${name}” finished – ${hits} matches.`,
+  },
+};
+
+const PAGE_MAX_ENTRIES = 40;
+const STATIC_MAX_ENTRIES = 300;
+const IMAGE_MAX_ENTRIES = 150;
+const IMAGE_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Muss zu src/lib/offline/searchQueue.ts und src/lib/history/db.ts passen
+const DB_NAME = 'clofind';
+const QUEUE_STORE = 'searchQueue';
+const SYNC_TAG = 'search-queue';
+const QUEUE_MESSAGE = 'search-queue';
+
+/* ---------------- Lebenszyklus ---------------- */
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(caches.open(SHELL_CACHE).then((cache) => cache.addAll(SHELL_URLS)));
+  // Kein skipWaiting: ein Update wartet, bis die Seite „Neu laden“ bestätigt
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    (async () => {
+      const names = await caches.keys();
+      await Promise.all(
+        names.filter((n) => n.startsWith('clofind-shell-') && n !== SHELL_CACHE).map((n) => caches.delete(n))
+      );
+      await self.clients.claim();
+    })()
+  );
+});
+
+self.addEventListener('message', (event) => {
+  if (event.data?.type === 'SKIP_WAITING') self.skipWaiting();
+});
+
+/* ---------------- Caching ---------------- */
+
+/** Älteste Einträge entfernen (Cache-Schlüssel liegen in Einfügereihenfolge vor). */
+async function trimCache(name, maxEntries) {
+  const cache = await caches.open(name);
+  const keys = await cache.keys();
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - maxEntries)).map((k) => cache.delete(k)));
+}
+
+/** Zu alt? Nur prüfbar, wenn die Antwort lesbar ist (nicht opaque). */
+function isExpired(response, maxAgeMs) {
+  const date = response.headers.get('date');
+  return Boolean(date) && Date.now() - new Date(date).getTime() > maxAgeMs;
+}
+
+async function networkFirstPage(event) {
+  const { request } = event;
+  const { pathname } = new URL(request.url);
+  const shell = await caches.open(SHELL_CACHE);
+  const pages = await caches.open(PAGE_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      // Shell-Seiten aktuell halten; alles andere landet im begrenzten Seiten-Cache
+      const copy = response.clone();
+      event.waitUntil(
+        SHELL_URLS.includes(pathname)
+          ? shell.put(pathname, copy)
+          : pages.put(request, copy).then(() => trimCache(PAGE_CACHE, PAGE_MAX_ENTRIES))
+      );
+    }
+    return response;
+  } catch {
+    // Gleiche Seite ohne Query (?h=…, Filter) ist für die App-Shell gleichwertig
+    return (
+      (await shell.match(request, { ignoreSearch: true })) ??
+      (await pages.match(request, { ignoreSearch: true })) ??
+      (await shell.match(`/${localeOf(pathname)}/offline`)) ??
+      new Response('Offline', { status: 503, headers: { 'Content-Type': 'text/plain; charset=utf-8' } })
+    );
+  }
+}
+
+async function staleWhileRevalidate(event) {
+  const cache = await caches.open(STATIC_CACHE);
+  const cached = await cache.match(event.request);
+  const update = fetch(event.request)
+    .then(async (response) => {
+      if (response.ok) {
+        await cache.put(event.request, response.clone());
+        await trimCache(STATIC_CACHE, STATIC_MAX_ENTRIES);
+      }
+      return response;
+    });
+  if (cached) {
+    event.waitUntil(update.catch(() => {}));
+    return cached;
+  }
+  return update;
+}
+
+async function cacheFirstImage(event) {
+  const cache = await caches.open(IMAGE_CACHE);
+  const cached = await cache.match(event.request);
+  if (cached && !isExpired(cached, IMAGE_MAX_AGE_MS)) return cached;
+  try {
+    const response = await fetch(event.request);
+    // Nur lesbare Antworten: opaque (fremde Shops ohne CORS) belegt je Eintrag mehrere MB Quota
+    if (response.ok) {
+      event.waitUntil(
+        cache.put(event.request, response.clone()).then(() => trimCache(IMAGE_CACHE, IMAGE_MAX_ENTRIES))
+      );
+    }
+    return response;
+  } catch (e) {
+    if (cached) return cached;
+    throw e;
+  }
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+  const sameOrigin = url.origin === self.location.origin;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirstPage(event));
+    return;
+  }
+  if (sameOrigin && url.pathname.startsWith('/_next/static/')) {
+    event.respondWith(staleWhileRevalidate(event));
+    return;
+  }
+  if (request.destination === 'image') {
+    event.respondWith(cacheFirstImage(event));
+  }
+  // Alles andere (API, HMR, …) direkt ans Netz
+});
+
+/* ---------------- Nachgeholte Suchen ---------------- */
+
+function openDb() {
+  return new Promise((resolve, reject) => {
+    // Ohne Version: die Seite legt die Stores an, der Worker nutzt nur, was da ist
+    const req = indexedDB.open(DB_NAME);
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function storeRequest(db, mode, fn) {
+  return new Promise((resolve, reject) => {
+    const req = fn(db.transaction(QUEUE_STORE, mode).objectStore(QUEUE_STORE));
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+async function replayQueue() {
+  const db = await openDb();
+  try {
+    if (!db.objectStoreNames.contains(QUEUE_STORE)) return;
+    const pending = (await storeRequest(db, 'readonly', (s) => s.getAll())).filter((q) => q.status === 'pending');
+    const finished = [];
+
+    for (const q of pending) {
+      const fd = new FormData();
+      fd.append('file', q.blob, 'crop');
+      if (q.query) fd.append('query', q.query);
+      for (const id of q.feedback?.positive ?? []) fd.append('positive_id', String(id));
+      for (const id of q.feedback?.negative ?? []) fd.append('negative_id', String(id));
+      // Netzwerkfehler → Promise scheitert → der Browser versucht den Sync später erneut
+      const r = await fetch('/api/search', { method: 'POST', body: fd, headers: q.headers ?? {} });
+      if (r.status === 429 || r.status >= 500) throw new Error(`Suche vorübergehend nicht möglich (${r.status})`);
+
+      const body = await r.json().catch(() => null);
+      const done = r.ok
+        ? { ...q, status: 'done', results: Array.isArray(body?.results) ? body.results : [] }
+        : { ...q, status: 'failed', error: body?.error?.message ?? `Fehler ${r.status}` };
+      await storeRequest(db, 'readwrite', (s) => s.put(done));
+      finished.push(done);
+    }
+
+    if (finished.length) await announce(finished);
+  } finally {
+    db.close();
+  }
+}
+
+/** Offene Tabs übernehmen die Ergebnisse selbst; sonst Benachrichtigung (falls erlaubt). */
+async function announce(finished) {
+  const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+  for (const c of windows) c.postMessage({ type: QUEUE_MESSAGE, count: finished.length });
+  if (windows.some((c) => c.visibilityState === 'visible')) return;
+  if (self.Notification?.permission !== 'granted') return;
+
+  const hits = finished.reduce((n, q) => n + (q.results?.length ?? 0), 0);
+  const first = finished.find((q) => q.sessionId);
+  const locale = LOCALES.includes(finished[0].locale) ? finished[0].locale : localeOf('/');
+  const text = NOTIFICATION_TEXT[locale];
+  await self.registration.showNotification('CloFind', {
+    body: finished.length > 1 ? text.many(finished.length, hits) : text.one(finished[0].regionName, hits),
+    icon: '/icon-192.png',
+    tag: SYNC_TAG,
+    data: { url: first ? `/${first.locale ?? locale}?h=${encodeURIComponent(first.sessionId)}` : `/${locale}` },
+  });
+}
+
+self.addEventListener('sync', (event) => {
+  if (event.tag === SYNC_TAG) event.waitUntil(replayQueue());
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = event.notification.data?.url ?? '/';
+  const target = new URL(url, self.location.origin);
+  event.waitUntil(
+    (async () => {
+      const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+      // Genau diese Seite (samt ?h=…) offen → nur nach vorn holen
+      const same = windows.find((c) => c.url === target.href);
+      if (same) {
+        await same.focus();
+        return;
+      }
+      // Sonst einen Tab derselben Seite mit anderer Suche umleiten; klappt das nicht (nicht kontrolliert), neuer Tab
+      const other = windows.find((c) => new URL(c.url).pathname === target.pathname);
+      const moved = other ? await other.navigate(target.href).catch(() => null) : null;
+      if (moved) {
+        await moved.focus();
+        return;
+      }
+      await self.clients.openWindow(url);
+    })()
+  );
+});
@@ -0,0 +1,273 @@
+'use client';
+/* eslint-disable @next/next/no-img-element */
+
+import Link from 'next/link';
+import { useEffect, useId, useMemo, useState } from 'react';
+import { useI18n } from '@/app/_components/I18nProvider';
+import OutboundLink from '@/app/_components/OutboundLink';
+import SiteHeader from '@/app/_components/SiteHeader';
+import { Toast, useToaster } from '@/app/_components/Toast';
+import { MAX_PRICE_IDS, pricesViaProxy } from '@/lib/api/prices';
+import { productHref } from '@/lib/api/product';
+import { fmtPrice } from '@/lib/format';
+import { useWatches } from '@/lib/watches/useWatches';
+import { checkPriceWatches, currentPrice, type PriceAlert, type PriceWatch } from '@/lib/watches/watches';
+
+const fmtDateTime = (ts: number, locale: string) =>
+  new Intl.DateTimeFormat(locale, { dateStyle: 'medium', timeStyle: 'short' }).format(ts);
+
+const alertId = (w: PriceWatch, a: PriceAlert) => `${w.key}:${a.at}`;
+
+/** Preisverlauf als kleine Linie, das Ziel gestrichelt. */
+function Sparkline({ watch }: { watch: PriceWatch }) {
+  const W = 160;
+  const H = 40;
+  const points = watch.history;
+  const values = [...points.map((p) => p.price), watch.target];
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const x = (i: number) => (points.length > 1 ? (i / (points.length - 1)) * W : W / 2);
+  const y = (v: number) => (max === min ? H / 2 : H - 2 - ((v - min) / (max - min)) * (H - 4));
+  const last = points[points.length - 1];
+
+  return (
+    <svg viewBox={`0 0 ${W} ${H}`} width={W} height={H} className="overflow-visible" aria-hidden>
+      <line x1={0} x2={W} y1={y(watch.target)} y2={y(watch.target)} stroke="#f59e0b" strokeDasharray="3 3" />
+      <polyline
+        points={points.map((p, i) => `${x(i)},${y(p.price)}`).join(' ')}
+        fill="none"
+        stroke="#111827"
+        strokeWidth={1.5}
+        strokeLinejoin="round"
+      />
+      {last && <circle cx={x(points.length - 1)} cy={y(last.price)} r={3} fill="#111827" />}
+    </svg>
+  );
+}
+
+function WatchCard({
+  watch: w,
+  onTarget,
+  onRemove,
+}: {
+  watch: PriceWatch;
+  onTarget: (target: number) => void;
+  onRemove: () => void;
+}) {
+  const { t, intl, href } = useI18n();
+  const id = useId();
+  const [target, setTarget] = useState(String(w.target));
+  const price = (v: number) => fmtPrice(v, w.currency ?? 'EUR', { locale: intl });
+  const now = currentPrice(w);
+  const lowest = Math.min(...w.history.map((p) => p.price));
+  const title = w.title ?? t('common.product', { id: w.product_id });
+  const value = Number(target.replace(',', '.'));
+  const changed = target.trim() !== '' && Number.isFinite(value) && value > 0 && value !== w.target;
+
+  return (
+    <li className="rounded-2xl border bg-white p-4 shadow-sm">
+      <div className="flex gap-3">
+        <div className="h-16 w-16 shrink-0 overflow-hidden rounded-lg bg-gray-100">
+          {w.image_url && <img src={w.image_url} alt="" className="h-full w-full object-cover" />}
+        </div>
+        <div className="min-w-0 flex-1">
+          <Link href={href(productHref(w.product_id))} className="line-clamp-2 text-sm font-medium text-gray-900 hover:underline">
+            {title}
+          </Link>
+          <div className="mt-0.5 text-xs text-gray-600">
+            {w.merchant ? `${w.merchant} • ` : ''}
+            {now !== null && t('alerts.current', { price: price(now) })}
+          </div>
+          <div className="mt-0.5 text-xs text-gray-500">
+            {w.checkedAt ? t('alerts.checkedAt', { date: fmtDateTime(w.checkedAt, intl) }) : t('alerts.neverChecked')}
+          </div>
+        </div>
+      </div>
+
+      <div className="mt-3 flex items-end justify-between gap-3">
+        <Sparkline watch={w} />
+        <div className="text-right text-xs text-gray-600">
+          <div>{t('alerts.lowest', { price: price(lowest) })}</div>
+          <div className="text-amber-700">{t('alerts.target', { price: price(w.target) })}</div>
+        </div>
+      </div>
+
+      <form
+        className="mt-3 flex items-center gap-2"
+        onSubmit={(e: React.FormEvent) => {
+          e.preventDefault();
+          if (changed) onTarget(value);
+        }}
+      >
+        <label htmlFor={id} className="text-xs text-gray-700">{t('watch.targetLabel', { currency: w.currency ?? 'EUR' })}</label>
+        <input
+          id={id}
+          type="number"
+          inputMode="decimal"
+          min="0"
+          step="0.01"
+          value={target}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => setTarget(e.target.value)}
+          className="w-24 rounded-lg border px-2 py-1 text-sm"
+        />
+        <button type="submit" disabled={!changed} className="rounded-lg border px-2 py-1 text-xs hover:bg-gray-50 disabled:opacity-50">
+          {t('watch.save')}
+        </button>
+      </form>
+
+      <details className="mt-3 text-xs text-gray-600">
+        <summary className="cursor-pointer">{t('alerts.history', { count: w.history.length })}</summary>
+        <ol className="mt-2 space-y-1">
+          {[...w.history].reverse().map((p) => (
+            <li key={p.at} className="flex justify-between gap-3">
+              <span>{fmtDateTime(p.at, intl)}</span>
+              <span className={`tabular-nums ${p.price <= w.target ? 'font-medium text-emerald-700' : ''}`}>{price(p.price)}</span>
+            </li>
+          ))}
+        </ol>
+      </details>
+
+      <div className="mt-3 flex items-center justify-between gap-3 text-sm">
+        {w.deeplink ? (
+          <OutboundLink href={w.deeplink} hit={w} source="alerts" className="text-blue-600 underline">
+            {t('common.toShop')}
+          </OutboundLink>
+        ) : <span />}
+        <button type="button" onClick={onRemove} className="rounded-lg border border-red-200 px-2 py-1 text-xs text-red-600 hover:bg-red-50">
+          {t('watch.stop')}
+        </button>
+      </div>
+    </li>
+  );
+}
+
+/** Preisalarme: Meldungen (neueste zuerst) und alle beobachteten Angebote mit Preisverlauf. */
+export default function AlertsPage() {
+  const { watches, ready, remove, setTarget, markSeen } = useWatches();
+  const toast = useToaster();
+  const { t, intl, href } = useI18n();
+  const [checking, setChecking] = useState(false);
+  // Beim Öffnen Ungelesenes merken (bleibt hervorgehoben) und als gesehen markieren
+  const [fresh, setFresh] = useState<Set<string> | null>(null);
+
+  useEffect(() => {
+    if (!ready || fresh) return;
+    setFresh(new Set(watches.flatMap((w) => w.alerts.filter((a) => !a.seen).map((a) => alertId(w, a)))));
+    void markSeen().catch(() => {});
+  }, [ready, fresh, watches, markSeen]);
+
+  const alerts = useMemo(
+    () => watches.flatMap((w) => w.alerts.map((a) => ({ w, a }))).sort((x, y) => y.a.at - x.a.at),
+    [watches]
+  );
+
+  async function checkNow() {
+    setChecking(true);
+    try {
+      const drops = await checkPriceWatches((ids) => pricesViaProxy(ids), { minAgeMs: 0, batchSize: MAX_PRICE_IDS });
+      await markSeen();
+      toast.show(drops.length ? t('alerts.checkedDrops', { count: drops.length }) : t('alerts.checkedNone'), drops.length ? 'ok' : 'info');
+    } catch {
+      toast.show(t('alerts.checkFailed'), 'err');
+    } finally {
+      setChecking(false);
+    }
+  }
+
+  async function saveTarget(w: PriceWatch, target: number) {
+    try {
+      await setTarget(w.key, target);
+      toast.show(t('alerts.targetSaved'), 'ok', 1400);
+    } catch {
+      toast.show(t('watch.failed'), 'err');
+    }
+  }
+
+  async function stop(w: PriceWatch) {
+    try {
+      await remove(w.key);
+      toast.show(t('watch.removed'), 'info', 1400);
+    } catch {
+      toast.show(t('watch.failed'), 'err');
+    }
+  }
+
+  return (
+    <>
+      <Toast msg={toast.msg} type={toast.type} />
+
+      <SiteHeader>
+        <Link href={href('/')} className="rounded-xl bg-black px-4 py-2 text-sm font-medium text-white hover:bg-gray-900">
+          {t('common.imageSearch')}
+        </Link>
+      </SiteHeader>
+
+      <main className="container mx-auto w-full max-w-screen-2xl px-6 py-8">
+        <div className="mb-6 flex flex-wrap items-center justify-between gap-3">
+          <h1 className="text-lg font-semibold text-gray-900">{t('alerts.title')}</h1>
+          <button
+            type="button"
+            onClick={() => void checkNow()}
+            disabled={checking || !watches.length}
+            className="rounded-xl border px-3 py-1.5 text-sm hover:bg-gray-50 disabled:opacity-60"
+          >
+            {checking ? t('alerts.checking') : t('alerts.checkNow')}
+          </button>
+        </div>
+
+        {!ready ? null : !watches.length ? (
+          <div className="rounded-xl border bg-white p-6 text-center text-gray-600">
+            {t('alerts.emptyBefore')}
+            <Link href={href('/')} className="text-blue-600 underline">{t('common.toImageSearch')}</Link>
+          </div>
+        ) : (
+          <div className="grid gap-8 lg:grid-cols-[minmax(0,1fr)_minmax(0,2fr)]">
+            <section aria-labelledby="alerts-list">
+              <h2 id="alerts-list" className="mb-3 text-sm font-medium text-gray-900">{t('alerts.alertsTitle')}</h2>
+              {alerts.length ? (
+                <ul className="space-y-2">
+                  {alerts.map(({ w, a }) => {
+                    const price = (v: number) => fmtPrice(v, w.currency ?? 'EUR', { locale: intl });
+                    return (
+                      <li
+                        key={alertId(w, a)}
+                        className={`rounded-xl border p-3 text-sm ${fresh?.has(alertId(w, a)) ? 'border-emerald-300 bg-emerald-50' : 'bg-white'}`}
+                      >
+                        <div className="font-medium text-gray-900">{w.title ?? t('common.product', { id: w.product_id })}</div>
+                        <div className="mt-0.5 text-gray-700">
+                          {t('alerts.dropped', { previous: price(a.previous), price: price(a.price), target: price(a.target) })}
+                        </div>
+                        <div className="mt-0.5 text-xs text-gray-500">
+                          {w.merchant ? `${w.merchant} • ` : ''}
+                          {fmtDateTime(a.at, intl)}
+                        </div>
+                      </li>
+                    );
+                  })}
+                </ul>
+              ) : (
+                <p className="text-sm text-gray-500">{t('alerts.noAlerts')}</p>
+              )}
+            </section>
+
+            <section aria-labelledby="alerts-watches">
+              <h2 id="alerts-watches" className="mb-3 text-sm font-medium text-gray-900">
+                {t('alerts.watchesTitle', { count: watches.length })}
+              </h2>
+              <ul className="grid gap-4 sm:grid-cols-2">
+                {watches.map((w) => (
+                  <WatchCard
+                    key={w.key}
+                    watch={w}
+                    onTarget={(target) => void saveTarget(w, target)}
+                    onRemove={() => void stop(w)}
+                  />
+                ))}
+              </ul>
+            </section>
+          </div>
+        )}
+      </main>
+    </>
+  );
+}
@@ -0,0 +1,184 @@
+'use client';
+
+import Link from 'next/link';
+import { useEffect, useMemo, useState } from 'react';
+import FavoriteButton from '@/app/_components/FavoriteButton';
+import FilterBadges from '@/app/_components/FilterBadges';
+import FilterPanel from '@/app/_components/FilterPanel';
+import { useI18n } from '@/app/_components/I18nProvider';
+import ResultCard from '@/app/_components/ResultCard';
+import ResultGrid from '@/app/_components/ResultGrid';
+import SiteHeader from '@/app/_components/SiteHeader';
+import SortSelect from '@/app/_components/SortSelect';
+import { Toast, useToaster } from '@/app/_components/Toast';
+import { productHref } from '@/lib/api/product';
+import { convertHits, originalHit } from '@/lib/currency/currency';
+import { useCurrency } from '@/lib/currency/useCurrency';
+import { priceChange, type Favorite } from '@/lib/favorites/favorites';
+import { useFavorites } from '@/lib/favorites/useFavorites';
+import { fmtPrice } from '@/lib/format';
+import { rememberHits } from '@/lib/recentHits';
+import { dedupeHits, defaultFilters, filterHits, sortHits, type Filters, type SortKey } from '@/lib/results';
+
+const fmtDate = (ts: number, locale: string) => new Intl.DateTimeFormat(locale, { dateStyle: 'medium' }).format(ts);
+
+function PriceChange({ fav }: { fav: Favorite }) {
+  const { t, intl } = useI18n();
+  const diff = priceChange(fav);
+  if (diff === null || !fav.lastSeen) {
+    return <div className="mt-2 text-xs text-gray-500">{t('favorites.savedOn', { date: fmtDate(fav.savedAt, intl) })}</div>;
+  }
+  const seen = fmtDate(fav.lastSeen.at, intl);
+  if (diff === 0) {
+    return <div className="mt-2 text-xs text-gray-500">{t('favorites.unchanged', { date: seen })}</div>;
+  }
+  const cheaper = diff < 0;
+  return (
+    <div className={`mt-2 text-xs font-medium ${cheaper ? 'text-emerald-700' : 'text-red-600'}`}>
+      {cheaper ? '↓' : '↑'} {fmtPrice(Math.abs(diff), fav.currency ?? 'EUR', { locale: intl })}{' '}
+      {t(cheaper ? 'favorites.cheaper' : 'favorites.pricier')} ·{' '}
+      {t('favorites.now', { price: fmtPrice(fav.lastSeen.price, fav.lastSeen.currency ?? 'EUR', { locale: intl }) })}
+      <span className="font-normal text-gray-500">{t('favorites.seen', { date: seen })}</span>
+    </div>
+  );
+}
+
+export default function FavoritesPage() {
+  const { favorites, ready, remove } = useFavorites();
+  const toast = useToaster();
+  const currency = useCurrency();
+  const { t, href } = useI18n();
+
+  const [sortBy, setSortBy] = useState<SortKey>('relevance');
+  const [filters, setFiltersState] = useState<Filters>(defaultFilters);
+  const setFilters = (patch: Partial<Filters>) => setFiltersState((f) => ({ ...f, ...patch }));
+  const [selected, setSelected] = useState<Set<string>>(() => new Set());
+
+  const priced = useMemo(
+    () => convertHits(dedupeHits(favorites), currency.table, currency.display),
+    [favorites, currency.table, currency.display]
+  );
+  // „Relevanz“ heißt hier: zuletzt gemerkt zuerst (Reihenfolge aus listFavorites)
+  const visible = useMemo(() => filterHits(sortHits(priced, sortBy), filters), [priced, sortBy, filters]);
+
+  // Detailseite zeigt gemerkte Produkte auch ohne /products im Backend
+  useEffect(() => { rememberHits(favorites); }, [favorites]);
+
+  // Auswahl auf noch vorhandene Favoriten beschränken (z. B. nach Löschen in anderem Tab)
+  const selectedKeys = favorites.filter((f) => selected.has(f.key)).map((f) => f.key);
+  const allVisibleSelected = visible.length > 0 && visible.every((f) => selected.has(f.key));
+
+  const toggleSelected = (key: string) =>
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+
+  const toggleAllVisible = () =>
+    setSelected(allVisibleSelected ? new Set() : new Set(visible.map((f) => f.key)));
+
+  async function removeKeys(keys: string[]) {
+    if (!keys.length) return;
+    try {
+      await remove(keys);
+      setSelected((prev) => new Set([...prev].filter((k) => !keys.includes(k))));
+      toast.show(keys.length > 1 ? t('favorites.removedMany', { count: keys.length }) : t('favorites.removedOne'), 'info', 1400);
+    } catch {
+      toast.show(t('favorites.removeFailed'), 'err');
+    }
+  }
+
+  return (
+    <>
+      <Toast msg={toast.msg} type={toast.type} />
+
+      <SiteHeader>
+        <Link
+          href={href('/')}
+          className="rounded-xl bg-black px-4 py-2 text-sm font-medium text-white hover:bg-gray-900"
+        >
+          {t('common.imageSearch')}
+        </Link>
+      </SiteHeader>
+
+      <main className="container mx-auto grid w-full max-w-screen-2xl grid-cols-1 gap-8 px-6 py-8 md:grid-cols-[320px_1fr] lg:grid-cols-[360px_1fr]">
+        <aside className="md:sticky md:top-16">
+          <FilterPanel filters={filters} onChange={setFilters} hits={priced} currency={currency.display} />
+        </aside>
+
+        <section>
+          <div className="mb-4 flex flex-wrap items-start justify-between gap-3">
+            <h2 className="text-lg font-semibold text-gray-900">
+              {t('favorites.title')}{' '}
+              <span className="ml-2 text-sm font-normal text-gray-500">
+                {t('favorites.counts', { shown: visible.length, total: favorites.length })}
+              </span>
+            </h2>
+
+            <div className="flex flex-col items-end gap-2 sm:flex-row sm:items-center sm:gap-3">
+              <FilterBadges filters={filters} onChange={setFilters} />
+              <SortSelect value={sortBy} onChange={setSortBy} />
+            </div>
+          </div>
+
+          {favorites.length > 0 && (
+            <div className="mb-4 flex flex-wrap items-center gap-3 rounded-xl border bg-white/90 px-4 py-2 text-sm">
+              <label className="flex items-center gap-2">
+                <input type="checkbox" checked={allVisibleSelected} onChange={toggleAllVisible} />
+                {t('favorites.selectAllVisible')}
+              </label>
+              <span className="text-gray-500">{t('favorites.selectedCount', { count: selectedKeys.length })}</span>
+              <button
+                onClick={() => void removeKeys(selectedKeys)}
+                disabled={!selectedKeys.length}
+                className="ml-auto rounded-xl border border-red-200 px-3 py-1.5 text-red-600 hover:bg-red-50 disabled:opacity-50"
+              >
+                {t('favorites.removeSelected')}
+              </button>
+            </div>
+          )}
+
+          {!ready ? null : visible.length ? (
+            <ResultGrid label={t('common.favorites')}>
+              {visible.map((f) => (
+                <ResultCard
+                  key={f.key}
+                  hit={f}
+                  href={href(productHref(f.product_id))}
+                  className={selected.has(f.key) ? 'ring-2 ring-black' : ''}
+                  actions={
+                    <>
+                      <label
+                        className="flex h-9 w-9 cursor-pointer items-center justify-center rounded-full bg-white/90 shadow"
+                        title={t('favorites.select')}
+                      >
+                        <input type="checkbox" checked={selected.has(f.key)} onChange={() => toggleSelected(f.key)} />
+                      </label>
+                      <FavoriteButton active onToggle={() => void removeKeys([f.key])} />
+                    </>
+                  }
+                >
+                  {/* Preisänderung in Shop-Währung – so wurde sie auch gemessen */}
+                  <PriceChange fav={originalHit(f)} />
+                </ResultCard>
+              ))}
+            </ResultGrid>
+          ) : (
+            <div className="rounded-xl border bg-white p-6 text-center text-gray-600">
+              {favorites.length ? (
+                t('favorites.noMatch')
+              ) : (
+                <>
+                  {t('favorites.emptyBefore')}
+                  <Link href={href('/')} className="text-blue-600 underline">{t('common.toImageSearch')}</Link>
+                </>
+              )}
+            </div>
+          )}
+        </section>
+      </main>
+    </>
+  );
+}
@@ -0,0 +1,63 @@
+// src/app/[locale]/layout.tsx
+import '../globals.css';
+import ConsentBanner from '@/app/_components/ConsentBanner';
+import I18nProvider from '@/app/_components/I18nProvider';
+import PriceWatchChecker from '@/app/_components/PriceWatchChecker';
+import RegisterSW from '@/app/_components/RegisterSW';
+import type { Metadata, Viewport } from 'next';
+import { Geist, Geist_Mono } from 'next/font/google';
+import { notFound } from 'next/navigation';
+import { LOCALES, isLocale, localePath } from '@/lib/i18n/config';
+import { createI18n, resolveLocale } from '@/lib/i18n/i18n';
+
+const geistSans = Geist({ subsets: ['latin'], variable: '--font-geist-sans' });
+const geistMono = Geist_Mono({ subsets: ['latin'], variable: '--font-geist-mono' });
+
+type Props = { params: Promise<{ locale: string }> };
+
+/**
+ * Ab Next 13+/15 gehört themeColor in den viewport-Export (nicht metadata).
+ * Außerdem erzwingen wir "light" – kein automatisches Dark-Theme in Safari.
+ */
+export const viewport: Viewport = {
+  themeColor: '#ffffff',
+  colorScheme: 'light',
+  width: 'device-width',
+  initialScale: 1,
+  viewportFit: 'cover',
+};
+
+export const generateStaticParams = () => LOCALES.map((locale) => ({ locale }));
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const locale = resolveLocale((await params).locale);
+  const { t } = createI18n(locale);
+  return {
+    title: { default: t('meta.title'), template: '%s | CloFind' },
+    description: t('meta.description'),
+    icons: { icon: '/favicon.ico' },
+    manifest: '/site.webmanifest',
+    alternates: { languages: Object.fromEntries(LOCALES.map((l) => [l, localePath(l, '/')])) },
+  };
+}
+
+/** Wurzel-Layout je Sprache: `<html lang>` und die Übersetzungen für Client-Komponenten. */
+export default async function RootLayout({ children, params }: Props & { children: React.ReactNode }) {
+  const { locale } = await params;
+  if (!isLocale(locale)) notFound();
+
+  return (
+    <html lang={locale} suppressHydrationWarning>
+      <body
+        className={`${geistSans.className} ${geistMono.variable} ${geistSans.variable} min-h-screen bg-white text-gray-900 antialiased`}
+      >
+        <I18nProvider locale={locale}>
+          <RegisterSW />
+          <PriceWatchChecker />
+          <ConsentBanner />
+          <div className="flex min-h-screen flex-col">{children}</div>
+        </I18nProvider>
+      </body>
+    </html>
+  );
+}
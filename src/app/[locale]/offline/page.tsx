@@ -0,0 +1,34 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import SiteHeader from '@/app/_components/SiteHeader';
+import { createI18n, resolveLocale } from '@/lib/i18n/i18n';
+
+type Props = { params: Promise<{ locale: string }> };
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const { t } = createI18n(resolveLocale((await params).locale));
+  return { title: t('meta.offline') };
+}
+
+/** Fallback des Service Workers für Seiten, die offline nicht im Cache liegen. */
+export default async function OfflinePage({ params }: Props) {
+  const { t, href } = createI18n(resolveLocale((await params).locale));
+  return (
+    <>
+      <SiteHeader />
+      <main className="container mx-auto flex w-full max-w-screen-2xl flex-1 flex-col items-center px-6 py-16 text-center">
+        <div className="flex h-14 w-14 items-center justify-center rounded-2xl border bg-gray-50 text-2xl">📡</div>
+        <h1 className="mt-4 text-2xl font-bold text-gray-900">{t('offline.title')}</h1>
+        <p className="mt-2 max-w-md text-sm text-gray-600">{t('offline.body')}</p>
+        <div className="mt-6 flex gap-3">
+          <Link href={href('/')} className="rounded-xl bg-black px-5 py-2.5 text-sm font-medium text-white hover:bg-gray-900">
+            {t('common.toImageSearch')}
+          </Link>
+          <Link href={href('/favorites')} className="rounded-xl border px-5 py-2.5 text-sm font-medium hover:bg-gray-50">
+            {t('common.favorites')}
+          </Link>
+        </div>
+      </main>
+    </>
+  );
+}
@@ -0,0 +1,255 @@
+'use client';
+/* eslint-disable @next/next/no-img-element */
+
+import Link from 'next/link';
+import { use, useEffect, useMemo, useState } from 'react';
+import FavoriteButton from '@/app/_components/FavoriteButton';
+import LoadMore from '@/app/_components/LoadMore';
+import OfferList from '@/app/_components/OfferList';
+import OutboundLink from '@/app/_components/OutboundLink';
+import ResultCard, { labelClass } from '@/app/_components/ResultCard';
+import ResultGrid from '@/app/_components/ResultGrid';
+import SiteHeader from '@/app/_components/SiteHeader';
+import SortSelect from '@/app/_components/SortSelect';
+import { useI18n } from '@/app/_components/I18nProvider';
+import { Toast, useToaster } from '@/app/_components/Toast';
+import {
+  isAbortError, productHref, productViaProxy, similarViaProxy, type Hit, type ProductDetail,
+} from '@/lib/api';
+import { demoHeadersFromSearch } from '@/lib/demo/scenario';
+import { convertHits } from '@/lib/currency/currency';
+import { useCurrency } from '@/lib/currency/useCurrency';
+import { useFavorites } from '@/lib/favorites/useFavorites';
+import { fmtPrice } from '@/lib/format';
+import { groupOffers } from '@/lib/grouping';
+import { labelName } from '@/lib/i18n/labels';
+import { recallOffers, rememberHits } from '@/lib/recentHits';
+import { PAGE_SIZE, dedupeHits, sortHits, type SortKey } from '@/lib/results';
+
+/** Aus den zuletzt gesehenen Treffern – damit die Seite ohne /products-Endpoint funktioniert. */
+function fromRecent(id: number): ProductDetail | null {
+  const offers = recallOffers(id);
+  if (!offers.length) return null;
+  return { product_id: id, title: offers[0].title, image_url: offers.find((o) => o.image_url)?.image_url ?? null, offers };
+}
+
+export default function ProductPage({ params }: { params: Promise<{ locale: string; id: string }> }) {
+  const id = Number(use(params).id);
+  const toast = useToaster();
+  const { intl, t, href, errorText } = useI18n();
+  const favorites = useFavorites();
+  const currency = useCurrency();
+
+  const [product, setProduct] = useState<ProductDetail | null>(null);
+  const [productLoading, setProductLoading] = useState(true);
+
+  const [similar, setSimilar] = useState<Hit[]>([]);
+  const [similarLoading, setSimilarLoading] = useState(false);
+  const [similarError, setSimilarError] = useState<unknown>(null);
+  const [sortBy, setSortBy] = useState<SortKey>('relevance');
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+
+  const demoHeaders = useMemo(
+    () => (typeof window !== 'undefined' ? demoHeadersFromSearch(window.location.search) : {}),
+    []
+  );
+
+  // Erst das Bekannte zeigen, dann mit dem Backend ergänzen (mehr Angebote, frische Preise)
+  useEffect(() => {
+    if (!Number.isSafeInteger(id)) { setProductLoading(false); return; }
+    const ctrl = new AbortController();
+    const known = fromRecent(id);
+    setProduct(known);
+    setProductLoading(true);
+    productViaProxy(id, { signal: ctrl.signal, headers: demoHeaders })
+      .then((p) => {
+        const offers = dedupeHits([...p.offers, ...(known?.offers ?? [])]);
+        setProduct({ ...p, title: p.title ?? known?.title ?? null, image_url: p.image_url ?? known?.image_url ?? null, offers });
+      })
+      .catch(() => {
+        // Kein /products im Backend oder Fehler → bleibt bei den bekannten Angeboten
+      })
+      .finally(() => { if (!ctrl.signal.aborted) setProductLoading(false); });
+    return () => ctrl.abort();
+  }, [id, demoHeaders]);
+
+  const imageUrl = product?.image_url ?? null;
+
+  // „Mehr davon“ – erst wenn die Details da sind, steht fest, welches Bild als Fallback dient
+  useEffect(() => {
+    if (!Number.isSafeInteger(id) || productLoading) return;
+    const ctrl = new AbortController();
+    setSimilarLoading(true);
+    setSimilarError(null);
+    setVisibleCount(PAGE_SIZE);
+    similarViaProxy(id, { imageUrl, signal: ctrl.signal, headers: demoHeaders })
+      .then((data) => {
+        const hits = data.results.filter((h) => h.product_id !== id);
+        setSimilar(hits);
+        rememberHits(hits);
+      })
+      .catch((e: unknown) => { if (!isAbortError(e)) setSimilarError(e); })
+      .finally(() => { if (!ctrl.signal.aborted) setSimilarLoading(false); });
+    return () => ctrl.abort();
+  }, [id, imageUrl, productLoading, demoHeaders]);
+
+  const { table, display } = currency;
+  const offers = useMemo(
+    () => sortHits(convertHits(product?.offers ?? [], table, display), 'priceAsc'),
+    [product, table, display]
+  );
+  const best = offers[0] ?? null;
+  const sortedSimilar = useMemo(
+    () => sortHits(groupOffers(convertHits(dedupeHits(similar), table, display)), sortBy),
+    [similar, sortBy, table, display]
+  );
+  const visibleSimilar = sortedSimilar.slice(0, visibleCount);
+
+  const toggleFavorite = async (h: Hit) => {
+    try {
+      const saved = await favorites.toggle(h);
+      toast.show(saved ? t('favorite.added') : t('favorite.removed'), saved ? 'ok' : 'info', 1400);
+    } catch {
+      toast.show(t('favorite.saveFailed'), 'err');
+    }
+  };
+
+  const title = product?.title ?? t('common.product', { id });
+
+  return (
+    <>
+      <Toast msg={toast.msg} type={toast.type} />
+
+      <SiteHeader>
+        <Link href={href('/')} className="rounded-xl bg-black px-4 py-2 text-sm font-medium text-white hover:bg-gray-900">
+          {t('common.imageSearch')}
+        </Link>
+      </SiteHeader>
+
+      <main className="container mx-auto w-full max-w-screen-2xl px-6 py-8">
+        {!product && productLoading ? (
+          <div className="grid gap-8 md:grid-cols-2">
+            <div className="aspect-[4/3] w-full animate-pulse rounded-2xl bg-gray-200" />
+            <div className="space-y-3">
+              <div className="h-7 w-2/3 animate-pulse rounded bg-gray-200" />
+              <div className="h-4 w-1/3 animate-pulse rounded bg-gray-200" />
+            </div>
+          </div>
+        ) : !product ? (
+          <div className="mx-auto max-w-md rounded-xl border bg-white p-6 text-center text-gray-600">
+            {t('product.unknown')}
+            <Link href={href('/')} className="text-blue-600 underline">{t('common.toImageSearch')}</Link>
+          </div>
+        ) : (
+          <section className="grid gap-8 md:grid-cols-2">
+            <div className="overflow-hidden rounded-2xl border bg-gray-100">
+              {product.image_url ? (
+                <img src={product.image_url} alt={title} className="h-full max-h-[70vh] w-full object-contain" />
+              ) : (
+                <div className="aspect-[4/3] w-full" />
+              )}
+            </div>
+
+            <div>
+              <div className="flex items-start justify-between gap-4">
+                <h1 className="text-2xl font-bold text-gray-900">{title}</h1>
+                {best && <FavoriteButton active={favorites.isFavorite(best)} onToggle={() => void toggleFavorite(best)} />}
+              </div>
+              {best && (
+                <div className="mt-2 flex flex-wrap items-center gap-3 text-sm text-gray-600">
+                  <span className={`rounded-full px-2 py-0.5 text-xs ${labelClass(best.label)}`}>{labelName(best.label, t)}</span>
+                  <span>{t('common.score', { score: Number.isFinite(best.score) ? best.score.toFixed(3) : '-' })}</span>
+                  <span>{t('common.productId', { id: product.product_id })}</span>
+                </div>
+              )}
+              {best && (
+                <div className="mt-4 text-3xl font-semibold text-gray-900">
+                  {offers.length > 1 && <span className="mr-2 text-base font-normal text-gray-500">{t('price.from')}</span>}
+                  {fmtPrice(best.price, best.currency ?? 'EUR', { locale: intl, original: best.original })}
+                </div>
+              )}
+
+              <h2 className="mt-8 text-sm font-medium text-gray-900">
+                {t('offers.count', { count: offers.length })}
+              </h2>
+              <ul className="mt-2 divide-y rounded-xl border bg-white">
+                {offers.map((o, i) => (
+                  <li key={`${o.merchant ?? 'm'}-${o.deeplink ?? i}`} className="flex items-center justify-between gap-3 px-4 py-3 text-sm">
+                    <div>
+                      <div className="font-medium text-gray-900">{o.merchant ?? t('common.unknownShop')}</div>
+                      <div className="text-gray-600">
+                        {fmtPrice(o.price, o.currency ?? 'EUR', { locale: intl, original: o.original })}
+                        {o.unknownCurrency && <span className="ml-1 text-xs text-amber-700">· {t('price.unknownCurrency')}</span>}
+                      </div>
+                    </div>
+                    {o.deeplink ? (
+                      <OutboundLink
+                        href={o.deeplink}
+                        hit={o}
+                        source="product"
+                        className="rounded-xl bg-black px-4 py-1.5 text-sm font-medium text-white hover:bg-gray-900"
+                      >
+                        {t('common.toShop')}
+                      </OutboundLink>
+                    ) : (
+                      <span className="text-xs text-gray-400">{t('common.noLink')}</span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </section>
+        )}
+
+        {!productLoading && Number.isSafeInteger(id) && (
+          <section className="mt-12">
+            <div className="mb-4 flex flex-wrap items-center justify-between gap-3">
+              <h2 className="text-lg font-semibold text-gray-900">
+                {t('product.moreLikeThis')}{' '}
+                {!similarLoading && (
+                  <span className="ml-2 text-sm font-normal text-gray-500">({sortedSimilar.length})</span>
+                )}
+              </h2>
+              <SortSelect id="similar-sort" value={sortBy} onChange={setSortBy} />
+            </div>
+
+            {similarLoading ? (
+              <ul className="grid gap-6 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4">
+                {Array.from({ length: 4 }).map((_, i) => (
+                  <li key={i} className="rounded-2xl border bg-white p-4">
+                    <div className="aspect-[4/3] w-full rounded-lg bg-gray-200 animate-pulse" />
+                    <div className="mt-3 h-4 w-2/3 rounded bg-gray-200 animate-pulse" />
+                  </li>
+                ))}
+              </ul>
+            ) : similarError ? (
+              <div className="mx-auto w-full max-w-md rounded-xl border border-red-300 bg-red-50 p-3 text-sm text-red-700">
+                {errorText(similarError)}
+              </div>
+            ) : visibleSimilar.length ? (
+              <>
+                <ResultGrid label={t('product.moreLikeThis')}>
+                  {visibleSimilar.map((r) => (
+                    <ResultCard
+                      key={r.groupKey}
+                      hit={r}
+                      href={href(productHref(r.product_id))}
+                      actions={<FavoriteButton active={favorites.isFavorite(r.offers[0])} onToggle={() => void toggleFavorite(r.offers[0])} />}
+                    >
+                      <OfferList group={r} />
+                    </ResultCard>
+                  ))}
+                </ResultGrid>
+                {visibleCount < sortedSimilar.length && (
+                  <LoadMore onMore={() => setVisibleCount((n) => n + PAGE_SIZE)} shown={visibleSimilar.length} className="mt-6" />
+                )}
+              </>
+            ) : (
+              <div className="rounded-xl border bg-white p-6 text-center text-gray-600">{t('product.noSimilar')}</div>
+            )}
+          </section>
+        )}
+      </main>
+    </>
+  );
+}
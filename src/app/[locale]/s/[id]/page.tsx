@@ -0,0 +1,58 @@
+/* eslint-disable @next/next/no-img-element */
+
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import SharedResults from '@/app/_components/SharedResults';
+import SiteHeader from '@/app/_components/SiteHeader';
+import { createI18n, resolveLocale } from '@/lib/i18n/i18n';
+import { loadShare } from '@/lib/server/shareStore';
+import { viewFromQuery } from '@/lib/viewState';
+
+export const dynamic = 'force-dynamic';
+
+type Props = { params: Promise<{ locale: string; id: string }> };
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const { locale, id } = await params;
+  const { t } = createI18n(resolveLocale(locale));
+  const share = await loadShare(id);
+  return { title: share ? t('meta.shared', { name: share.name }) : t('meta.shareNotFound'), robots: { index: false } };
+}
+
+/** Schreibgeschützte Ergebnisansicht eines geteilten Links. */
+export default async function SharedResultsPage({ params }: Props) {
+  const { locale, id } = await params;
+  const { t, intl, href } = createI18n(resolveLocale(locale));
+  const share = await loadShare(id);
+  if (!share) notFound();
+
+  const view = viewFromQuery(new URLSearchParams(share.view));
+  const created = new Intl.DateTimeFormat(intl, { dateStyle: 'medium', timeStyle: 'short' }).format(share.createdAt);
+
+  return (
+    <>
+      <SiteHeader>
+        <Link href={href('/')} className="rounded-xl bg-black px-4 py-2 text-sm font-medium text-white hover:bg-gray-900">
+          {t('share.ownSearch')}
+        </Link>
+      </SiteHeader>
+
+      <main className="container mx-auto grid w-full max-w-screen-2xl grid-cols-1 gap-8 px-6 py-8 md:grid-cols-[320px_1fr] lg:grid-cols-[360px_1fr]">
+        <aside className="md:sticky md:top-16">
+          <div className="rounded-2xl border bg-white/90 p-4 shadow-sm">
+            <div className="text-sm font-medium text-gray-900">{t('share.title', { name: share.name })}</div>
+            <img
+              src={`/api/share/${share.id}/image`}
+              alt={t('share.imageAlt')}
+              className="mt-3 w-full rounded-lg border bg-white object-contain"
+            />
+            <div className="mt-2 text-xs text-gray-500">{t('share.sharedOn', { date: created })}</div>
+          </div>
+        </aside>
+
+        <SharedResults results={share.results} view={view} />
+      </main>
+    </>
+  );
+}
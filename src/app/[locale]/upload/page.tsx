@@ -0,0 +1,1029 @@
+'use client';
+/* eslint-disable @next/next/no-img-element */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import CameraCapture, { canUseCamera } from '@/app/_components/CameraCapture';
+import ColorPanel from '@/app/_components/ColorPanel';
+import CompareBar, { useCompareActions } from '@/app/_components/CompareBar';
+import CompareDialog from '@/app/_components/CompareDialog';
+import CropModal from '@/app/_components/CropModal';
+import FeedbackBar, { RankBadge, VoteButtons, useFeedbackActions } from '@/app/_components/Feedback';
+import FavoriteButton from '@/app/_components/FavoriteButton';
+import FilterBadges from '@/app/_components/FilterBadges';
+import FilterPanel from '@/app/_components/FilterPanel';
+import HistoryDrawer from '@/app/_components/HistoryDrawer';
+import OfferList from '@/app/_components/OfferList';
+import RefineForm from '@/app/_components/RefineForm';
+import ResultCard from '@/app/_components/ResultCard';
+import ResultGrid from '@/app/_components/ResultGrid';
+import LoadMore from '@/app/_components/LoadMore';
+import SiteHeader from '@/app/_components/SiteHeader';
+import SortSelect from '@/app/_components/SortSelect';
+import { useRegionPaging, useRegionSearch } from '@/app/_components/useRegionSearch';
+import { Toast, useToaster } from '@/app/_components/Toast';
+import WatchButton, { useWatchActions } from '@/app/_components/WatchButton';
+import { useI18n } from '@/app/_components/I18nProvider';
+import {
+  createShare, detectViaProxy, fetchImageFromUrl, looksLikeUrl, productHref, shareUrl, type DetectionBox, type Hit,
+} from '@/lib/api';
+import { track } from '@/lib/analytics/analytics';
+import type { UploadSource } from '@/lib/analytics/events';
+import { applyColorView, type ColorView } from '@/lib/colors/colors';
+import { paletteFromBlob } from '@/lib/colors/hitColors';
+import { useHitPalettes } from '@/lib/colors/useHitPalettes';
+import { demoHeadersFromSearch } from '@/lib/demo/scenario';
+import {
+  PREPROCESS_DEFAULTS, cropForUpload, formatBytes, isHeic, isSupportedImage, normalizeSource, preprocessForUpload,
+  savedPercent,
+} from '@/lib/image/preprocess';
+import { sourceBounds } from '@/lib/image/cropEdit';
+import { getHistoryEntry, newSessionId, type HistoryEntry } from '@/lib/history/history';
+import { useHistoryAutosave, type HistorySession } from '@/lib/history/useHistoryAutosave';
+import { convertHits, originalHit } from '@/lib/currency/currency';
+import { useCurrency } from '@/lib/currency/useCurrency';
+import { emptyFeedback, rankMap, rankMovement, toggleVote, voteOf } from '@/lib/feedback';
+import { groupOffers } from '@/lib/grouping';
+import { garmentName } from '@/lib/i18n/labels';
+import { rememberHits } from '@/lib/recentHits';
+import { parseRefinement } from '@/lib/refine';
+import { useFavorites } from '@/lib/favorites/useFavorites';
+import {
+  MAX_REGIONS, boxToCrop, createRegion, defaultCropFor, isUntouchedCrop, nextRegionName, pixelToPercentCropWithSize,
+  toPixelCrop, type Region,
+} from '@/lib/regions';
+import {
+  PAGE_SIZE, dedupeHits, defaultFilters, filterHits, restoreFilters, sortHits, type Filters, type SortKey,
+} from '@/lib/results';
+import { viewFromQuery, viewToQueryString, writeViewToQuery, type ViewState } from '@/lib/viewState';
+
+/* ---------------- Page ---------------- */
+
+const EMPTY_HITS: Hit[] = [];
+const DEFAULT_FILTERS = defaultFilters();
+
+export default function UploadPage() {
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const cameraInputRef = useRef<HTMLInputElement | null>(null);
+
+  // Weitere Bildquellen: URL und Kamera
+  const [imageUrlInput, setImageUrlInput] = useState('');
+  const [urlLoading, setUrlLoading] = useState(false);
+  const [cameraOpen, setCameraOpen] = useState(false);
+
+  // Verlauf: jede Bild-Sitzung ist ein Eintrag, der bei Änderungen aktualisiert wird
+  const [session, setSession] = useState<HistorySession | null>(null);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const sessionId = session?.id ?? null;
+
+  // Ansicht aus der Adresszeile (Reload, Zurück): gilt für die nächste neue Suche
+  const initialViewRef = useRef<ViewState | null>(null);
+  const urlInitRef = useRef(false);
+  const [sharing, setSharing] = useState(false);
+
+  // Bildquelle
+  const [file, setFile] = useState<File | null>(null);
+  const [originalUrl, setOriginalUrl] = useState<string | null>(null);
+  const [originalBytes, setOriginalBytes] = useState<number | null>(null);
+
+  // Zuschneiden (nur Modal)
+  const modalImgRef = useRef<HTMLImageElement | null>(null);
+  const [modalOpen, setModalOpen] = useState(false);
+
+  // Vorschläge aus der Kleidungserkennung (optional, Fallback: Standard-Box)
+  const [suggestions, setSuggestions] = useState<DetectionBox[]>([]);
+  const [detecting, setDetecting] = useState(false);
+  const detectCtrlRef = useRef<AbortController | null>(null);
+
+  // Bereiche: jeder mit eigenem Crop, eigener Suche und eigener Ansicht
+  const [regions, setRegions] = useState<Region[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const active = regions.find((r) => r.id === activeId) ?? regions[0] ?? null;
+
+  const patchRegion = useCallback((id: string, patch: Partial<Region> | ((r: Region) => Partial<Region>)) => {
+    setRegions((prev) => prev.map((r) => (r.id === id ? { ...r, ...(typeof patch === 'function' ? patch(r) : patch) } : r)));
+  }, []);
+
+  // Sicht auf den aktiven Bereich (Namen wie vor den Bereichen, damit das Markup gleich bleibt)
+  const results = active?.results ?? EMPTY_HITS;
+  const loading = regions.some((r) => r.loading);
+  const activeLoading = active?.loading ?? false;
+  const error = active?.error ?? null;
+  const sortBy = active?.sortBy ?? 'relevance';
+  const visibleCount = active?.visibleCount ?? PAGE_SIZE;
+  const filters = active?.filters ?? DEFAULT_FILTERS;
+  const cropPreviewUrl = active?.previewUrl ?? null;
+  const uploadStats = active?.uploadStats ?? null;
+  // Gedrehte Ausschnitte haben ein anderes Format als ihr Rahmen im Original
+  const previewSize = uploadStats ?? active?.cropPx ?? null;
+
+  const patchActive = (patch: Partial<Region> | ((r: Region) => Partial<Region>)) => {
+    if (active) patchRegion(active.id, patch);
+  };
+  const setSortBy = (v: SortKey) => {
+    patchActive({ sortBy: v });
+    track({ type: 'sort_change', sort: v });
+  };
+  const setFilters = (patch: Partial<Filters>) => {
+    patchActive((r) => ({ filters: { ...r.filters, ...patch } }));
+    trackFilterChange(Object.keys(patch));
+  };
+  const setColorView = (v: ColorView | null) => {
+    patchActive({ colorView: v });
+    trackFilterChange(['color']);
+  };
+
+  // Schieberegler und Tippen nur einmal melden, wenn sie zur Ruhe kommen
+  const filterTrackRef = useRef<{ facets: Set<string>; timer: number } | null>(null);
+  const shownRef = useRef(0);
+  const trackFilterChange = (keys: string[]) => {
+    const pending = filterTrackRef.current ?? { facets: new Set<string>(), timer: 0 };
+    for (const k of keys) pending.facets.add(k === 'priceMin' || k === 'priceMax' ? 'price' : k);
+    window.clearTimeout(pending.timer);
+    pending.timer = window.setTimeout(() => {
+      filterTrackRef.current = null;
+      track({ type: 'filter_change', facets: [...pending.facets], shown: shownRef.current });
+    }, 1000);
+    filterTrackRef.current = pending;
+  };
+
+  const toast = useToaster();
+  const showToast = toast.show;
+  const { intl, t, href, errorText } = useI18n();
+  const favorites = useFavorites();
+  const watches = useWatchActions(showToast);
+  const currency = useCurrency();
+
+  const toggleFavorite = async (h: Hit) => {
+    try {
+      const saved = await favorites.toggle(h);
+      toast.show(saved ? t('favorite.added') : t('favorite.removed'), saved ? 'ok' : 'info', 1400);
+    } catch {
+      toast.show(t('favorite.saveFailed'), 'err');
+    }
+  };
+
+  // ?demo=… aus der Adresszeile an Suche und Erkennung weiterreichen
+  const demoHeaders = useMemo(
+    () => (typeof window !== 'undefined' ? demoHeadersFromSearch(window.location.search) : {}),
+    []
+  );
+
+  useEffect(() => () => detectCtrlRef.current?.abort(), []);
+
+  useEffect(() => {
+    return () => {
+      if (originalUrl) URL.revokeObjectURL(originalUrl);
+    };
+  }, [originalUrl]);
+
+  // Previews beim Verlassen der Seite freigeben
+  const regionsRef = useRef<Region[]>([]);
+  useEffect(() => { regionsRef.current = regions; }, [regions]);
+  useEffect(() => () => {
+    for (const r of regionsRef.current) if (r.previewUrl) URL.revokeObjectURL(r.previewUrl);
+  }, []);
+
+  // Suchen, Blättern und Offline-Warteschlange der Bereiche
+  const { client: searchClient, search: searchRegion, loadPage } = useRegionSearch({
+    sessionId, regionsRef, patch: patchRegion, show: showToast, demoHeaders,
+  });
+
+  /* --------- Vorschläge (Kleidungserkennung) --------- */
+
+  const runDetection = useCallback(async (source: File) => {
+    detectCtrlRef.current?.abort();
+    const ctrl = new AbortController();
+    detectCtrlRef.current = ctrl;
+    setSuggestions([]);
+    setDetecting(true);
+    try {
+      const small = await preprocessForUpload(source, { ...PREPROCESS_DEFAULTS, maxEdge: 640 });
+      const { boxes } = await detectViaProxy(small.blob, { signal: ctrl.signal, headers: demoHeaders });
+      if (ctrl.signal.aborted) return;
+      setSuggestions(boxes);
+
+      // Beste Box vorauswählen – aber nur, solange der Nutzer noch nichts gezogen hat
+      const best = boxes[0];
+      if (best) {
+        setRegions((prev) =>
+          prev.length === 1 && !prev[0].cropPx && isUntouchedCrop(prev[0].crop)
+            ? [{ ...prev[0], crop: boxToCrop(best), garment: best.label, name: garmentName(best.label, t) }]
+            : prev
+        );
+      }
+    } catch {
+      // Kein /detect im Backend (404) oder Fehler → Standard-Box bleibt
+    } finally {
+      if (detectCtrlRef.current === ctrl) setDetecting(false);
+    }
+  }, [demoHeaders, t]);
+
+  /* --------- Upload --------- */
+
+  const handleFiles = useCallback(async (files: FileList | File[] | null, source: UploadSource = 'file') => {
+    const picked = files?.[0] ?? null;
+    if (!picked) return;
+    if (!isSupportedImage(picked)) { showToast(t('upload.toast.notAnImage'), 'err'); return; }
+
+    // EXIF-Drehung anwenden, HEIC umwandeln, sehr große Fotos verkleinern
+    let f: File;
+    try {
+      if (isHeic(picked)) showToast(t('upload.toast.convertingHeic'), 'info', 4000);
+      f = await normalizeSource(picked);
+    } catch {
+      showToast(t('upload.toast.unreadable'), 'err');
+      return;
+    }
+    track({ type: 'upload', source, bytes: picked.size, mime: picked.type });
+
+    // Das alte Original gibt der Effekt zu originalUrl frei
+    for (const r of regionsRef.current) if (r.previewUrl) URL.revokeObjectURL(r.previewUrl);
+
+    // Noch laufende Suchen gehören zum alten Bild
+    searchClient.cancel();
+
+    const url = URL.createObjectURL(f);
+    const first = { ...createRegion(t('regions.defaultName', { n: 1 })), ...initialViewRef.current };   // Crop erst nach onLoad setzen
+    initialViewRef.current = null;
+    setFile(f);
+    setOriginalBytes(picked.size);
+    setOriginalUrl(url);
+    setRegions([first]);
+    setActiveId(first.id);
+    setSession({ id: newSessionId(), createdAt: Date.now() });
+    setModalOpen(true);
+    void runDetection(f);
+  }, [searchClient, runDetection, showToast, t]);
+
+  const onDrop = (e: React.DragEvent<HTMLDivElement>) => { e.preventDefault(); handleFiles(e.dataTransfer.files, 'drop'); };
+  const onDragOver = (e: React.DragEvent<HTMLDivElement>) => { e.preventDefault(); };
+
+  /* --------- Weitere Quellen: URL, Zwischenablage, Kamera --------- */
+
+  const loadFromUrl = useCallback(async (url: string) => {
+    if (!looksLikeUrl(url)) { showToast(t('upload.toast.invalidUrl'), 'err'); return; }
+    setUrlLoading(true);
+    try {
+      const f = await fetchImageFromUrl(url);
+      setImageUrlInput('');
+      await handleFiles([f], 'url');
+    } catch (e: unknown) {
+      showToast(errorText(e), 'err', 3000);
+    } finally {
+      setUrlLoading(false);
+    }
+  }, [handleFiles, showToast, t, errorText]);
+
+  // Strg+V überall: Bild aus der Zwischenablage oder eine kopierte Bild-URL
+  useEffect(() => {
+    const onPaste = (ev: ClipboardEvent) => {
+      if (cameraOpen) return;
+      const data = ev.clipboardData;
+      if (!data) return;
+      const img = Array.from(data.files).find((f) => isSupportedImage(f));
+      if (img) {
+        ev.preventDefault();
+        void handleFiles([img], 'paste');
+        return;
+      }
+      const target = ev.target as HTMLElement | null;
+      const editable = target?.closest('input, textarea, [contenteditable="true"]');
+      const text = data.getData('text/plain');
+      if (!editable && looksLikeUrl(text)) {
+        ev.preventDefault();
+        void loadFromUrl(text);
+      }
+    };
+    window.addEventListener('paste', onPaste);
+    return () => window.removeEventListener('paste', onPaste);
+  }, [cameraOpen, handleFiles, loadFromUrl]);
+
+  const closeCamera = useCallback(() => setCameraOpen(false), []);
+  const onCameraError = useCallback((msg: string) => showToast(msg, 'err', 3000), [showToast]);
+
+  const openCamera = () => {
+    // Ohne getUserMedia (z. B. alte WebViews): System-Kamera über <input capture>
+    if (canUseCamera()) setCameraOpen(true);
+    else cameraInputRef.current?.click();
+  };
+
+  /* --------- Helpers: URL sicherstellen --------- */
+
+  const ensureImageUrl = useCallback(() => {
+    if (!file) return;
+    // wenn ObjectURL evtl. „tot“ ist → neue erzeugen
+    const newUrl = URL.createObjectURL(file);
+    setOriginalUrl((old) => {
+      if (old && old.startsWith('blob:')) {
+        try { URL.revokeObjectURL(old); } catch {}
+      }
+      return newUrl;
+    });
+  }, [file]);
+
+  /* --------- Bereiche im Modal --------- */
+
+  const addRegion = () => {
+    if (regions.length >= MAX_REGIONS) return;
+    const name = nextRegionName(regions, (n) => t('regions.defaultName', { n }));
+    const r = createRegion(name, defaultCropFor(regions.length));
+    setRegions((prev) => [...prev, r]);
+    setActiveId(r.id);
+  };
+
+  const removeRegion = (id: string) => {
+    if (regions.length <= 1) return;
+    const gone = regions.find((r) => r.id === id);
+    if (gone?.previewUrl) URL.revokeObjectURL(gone.previewUrl);
+    searchClient.cancel(id);
+    const rest = regions.filter((r) => r.id !== id);
+    setRegions(rest);
+    if (activeId === id) setActiveId(rest[0].id);
+  };
+
+  /** Modal schließen; nie bestätigte Bereiche verwerfen, sofern ein bestätigter bleibt. */
+  const closeModal = useCallback(() => {
+    setModalOpen(false);
+    setRegions((prev) => {
+      if (!prev.some((r) => r.cropPx)) return prev;
+      return prev.filter((r) => r.cropPx);
+    });
+  }, []);
+
+  /** Bild im Modal geladen: Bereiche ohne Rahmen bekommen ihren gespeicherten oder einen Standard-Rahmen. */
+  const initRegionCrops = useCallback((img: HTMLImageElement) => {
+    setRegions((prev) => prev.map((r, i) => {
+      if (r.crop) return r;
+      return {
+        ...r,
+        crop: r.cropPx
+          ? pixelToPercentCropWithSize(r.cropPx, img.naturalWidth, img.naturalHeight)
+          : defaultCropFor(i),
+      };
+    }));
+  }, []);
+
+  /* --------- Suche --------- */
+
+  const confirmAndSearch = useCallback(async () => {
+    const imgEl = modalImgRef.current;
+    const drafts = regions.filter((r) => r.crop);
+    if (!file || !imgEl || !drafts.length) return;
+    try {
+      // Alle Ausschnitte schneiden, dann parallel suchen
+      const prepared = await Promise.all(drafts.map(async (r) => {
+        const px = r.transform ? sourceBounds(r.transform, imgEl.naturalWidth, imgEl.naturalHeight) : toPixelCrop(r.crop!, imgEl);
+        const out = await cropForUpload(imgEl, r.transform ?? px, originalBytes ?? file.size);
+        return { id: r.id, px, out, url: URL.createObjectURL(out.blob), spec: r };
+      }));
+      for (const r of drafts) if (r.previewUrl) URL.revokeObjectURL(r.previewUrl);
+      track({ type: 'crop_confirm', regions: drafts.length });
+      setRegions((prev) => prev.map((r) => {
+        const p = prepared.find((x) => x.id === r.id);
+        if (!p) return r;
+        const palette = p.out.palette ?? [];
+        // Bezugsfarbe aus dem alten Crop gibt es im neuen evtl. nicht mehr → dessen Hauptfarbe
+        const colorView = r.colorView && palette.length && !palette.some((c) => c.hex === r.colorView!.hex)
+          ? { ...r.colorView, hex: palette[0].hex }
+          : r.colorView;
+        // Neuer Ausschnitt → andere Treffer; Text, Filter und Feedback ändern nur die Reihenfolge,
+        // dabei bleibt der Vergleich stehen (die Auswahl sind ohnehin Momentaufnahmen)
+        return {
+          ...r, cropPx: p.px, previewUrl: p.url, blob: p.out.blob, uploadStats: p.out, palette, colorView,
+          results: [], page: null, visibleCount: PAGE_SIZE, compare: [],
+        };
+      }));
+
+      toast.show(
+        drafts.length > 1 ? t('upload.toast.searchStartedMany', { count: drafts.length }) : t('upload.toast.searchStarted'),
+        'info',
+        1400
+      );
+
+      const settled = await Promise.allSettled(prepared.map((p) => searchRegion(p.id, p.out.blob, p.spec)));
+      if (settled.every((s) => s.status === 'fulfilled' && s.value === null)) return;
+
+      const failed = settled.filter((s): s is PromiseRejectedResult => s.status === 'rejected');
+      const total = settled.reduce((n, s) => n + (s.status === 'fulfilled' && typeof s.value === 'number' ? s.value : 0), 0);
+      track({ type: 'search_done', regions: settled.length, hits: total, failed: failed.length });
+      if (failed.length === settled.length) {
+        toast.show(errorText(failed[0].reason), 'err', 2600);
+        return;
+      }
+      setModalOpen(false);
+      if (settled.some((s) => s.status === 'fulfilled' && s.value === 'queued')) {
+        toast.show(t('upload.toast.queued'), 'info', 3500);
+        return;
+      }
+      if (failed.length) toast.show(t('upload.toast.partlyFailed', { failed: failed.length, total: settled.length }), 'err', 2600);
+      else if (!total) toast.show(t('upload.toast.noHits'), 'info');
+      else toast.show(t('upload.toast.hits', { count: total }), 'ok');
+    } catch (e: unknown) {
+      toast.show(errorText(e), 'err', 2600);
+    }
+  }, [file, regions, originalBytes, searchRegion, toast, t, errorText]);
+
+  async function resubmitWithSameCrop() {
+    if (!file || !active) return;
+    const id = active.id;
+    try {
+      toast.show(t('upload.toast.searching'), 'info', 1200);
+      let payload: Blob | null = active.blob;
+      if (!payload) {
+        const prepared = await preprocessForUpload(file);
+        patchRegion(id, { uploadStats: { ...prepared, originalBytes: originalBytes ?? prepared.originalBytes } });
+        payload = prepared.blob;
+      }
+      if ((await searchRegion(id, payload, active)) === 'queued') {
+        toast.show(t('upload.toast.queued'), 'info', 3500);
+      }
+    } catch (e: unknown) {
+      toast.show(errorText(e), 'err');
+    }
+  }
+
+  /** Textverfeinerung: Preisgrenzen und bekannte Händler werden Filter, der Rest geht mit dem Crop ans Backend. */
+  async function refineActive(input: string): Promise<string> {
+    if (!active?.blob) return input;
+    const known = [...new Set(dedupedResults.map((h) => h.merchant).filter((m): m is string => Boolean(m)))];
+    const parsed = parseRefinement(input, known);
+    const patch: Partial<Filters> = {};
+    if (parsed.priceMin !== undefined) patch.priceMin = String(parsed.priceMin);
+    if (parsed.priceMax !== undefined) patch.priceMax = String(parsed.priceMax);
+    if (parsed.merchants.length) patch.merchants = [...new Set([...active.filters.merchants, ...parsed.merchants])];
+    const filters = { ...active.filters, ...patch };
+
+    patchRegion(active.id, { filters, query: parsed.text });
+    if (Object.keys(patch).length) trackFilterChange(Object.keys(patch));
+    try {
+      toast.show(t('upload.toast.searching'), 'info', 1200);
+      if ((await searchRegion(active.id, active.blob, { ...active, filters, query: parsed.text })) === 'queued') {
+        toast.show(t('upload.toast.queued'), 'info', 3500);
+      }
+    } catch (e: unknown) {
+      toast.show(errorText(e), 'err');
+    }
+    return parsed.text;
+  }
+
+  // Relevanz-Feedback: Stimme ändern sucht sofort neu, „Rückgängig“ ohne neue Anfrage
+  const feedback = useFeedbackActions(active, {
+    search: searchRegion, cancel: searchClient.cancel, patch: patchRegion, show: showToast,
+  });
+
+  /* --------- Verlauf --------- */
+
+  useHistoryAutosave(session, file, originalBytes, regions, activeId, loading);
+
+  // Farben wiederhergestellter Crops nachträglich bestimmen (neue bringt cropForUpload gleich mit)
+  const paletteJobsRef = useRef(new Set<string>());
+  useEffect(() => {
+    for (const r of regions) {
+      if (r.palette || !r.blob || paletteJobsRef.current.has(r.id)) continue;
+      paletteJobsRef.current.add(r.id);
+      void paletteFromBlob(r.blob).catch(() => []).then((palette) => {
+        paletteJobsRef.current.delete(r.id);
+        patchRegion(r.id, { palette });
+      });
+    }
+  }, [regions, patchRegion]);
+
+  /** Eintrag genau so wiederherstellen, wie er war – optional neu gegen das Backend suchen. */
+  const restoreHistory = useCallback((entry: HistoryEntry, rerun: boolean, view?: ViewState) => {
+    searchClient.cancel();
+    detectCtrlRef.current?.abort();
+    for (const r of regionsRef.current) if (r.previewUrl) URL.revokeObjectURL(r.previewUrl);
+
+    const f = new File([entry.image], entry.imageName, { type: entry.image.type });
+    const restored: Region[] = entry.regions.map((h) => ({
+      ...createRegion(h.name),
+      id: h.id,
+      cropPx: h.cropPx,
+      transform: h.transform ?? null,
+      blob: h.cropBlob,
+      previewUrl: URL.createObjectURL(h.cropBlob),
+      filters: restoreFilters(h.filters),
+      sortBy: h.sortBy,
+      query: h.query ?? '',
+      feedback: h.feedback ?? emptyFeedback(),
+      colorView: h.colorView ?? null,
+      results: rerun ? [] : h.results,
+      page: rerun ? null : h.page ?? null,
+    }));
+
+    setFile(f);
+    setOriginalBytes(entry.originalBytes);
+    setOriginalUrl(URL.createObjectURL(f));
+    setSuggestions([]);
+    const activeRegionId = restored.some((r) => r.id === entry.activeRegionId) ? entry.activeRegionId : restored[0]?.id ?? null;
+    const next = view ? restored.map((r) => (r.id === activeRegionId ? { ...r, ...view } : r)) : restored;
+    setRegions(next);
+    setActiveId(activeRegionId);
+    setSession({ id: entry.id, createdAt: entry.createdAt });
+    setModalOpen(false);
+    setHistoryOpen(false);
+
+    if (rerun) {
+      showToast(t('upload.toast.searching'), 'info', 1200);
+      for (const r of next) {
+        searchRegion(r.id, r.blob!, r).catch((e: unknown) => showToast(errorText(e), 'err'));
+      }
+    }
+  }, [searchClient, searchRegion, showToast, t, errorText]);
+
+  /* --------- Ansicht in der URL --------- */
+
+  // Einmalig beim Laden: ?h= stellt die Sitzung aus dem Verlauf wieder her, Filter/Sortierung darüber
+  useEffect(() => {
+    if (urlInitRef.current) return;
+    urlInitRef.current = true;
+    const q = new URLSearchParams(window.location.search);
+    const view = viewFromQuery(q);
+    initialViewRef.current = view;
+    const h = q.get('h');
+    if (!h) return;
+    getHistoryEntry(h)
+      .then((entry) => {
+        if (!entry) return;
+        initialViewRef.current = null;
+        restoreHistory(entry, false, view);
+      })
+      .catch(() => {});
+  }, [restoreHistory]);
+
+  // Aktive Ansicht + Sitzung spiegeln; replaceState, damit Filterklicks die Zurück-Taste nicht fluten
+  const activeRegionId = active?.id ?? null;
+  useEffect(() => {
+    if (!activeRegionId) return;
+    const q = writeViewToQuery(new URLSearchParams(window.location.search), { sortBy, filters, visibleCount });
+    if (sessionId) q.set('h', sessionId);
+    else q.delete('h');
+    const next = q.toString();
+    if (next === window.location.search.replace(/^\?/, '')) return;
+    window.history.replaceState(window.history.state, '', next ? `?${next}` : window.location.pathname);
+  }, [activeRegionId, sessionId, sortBy, filters, visibleCount]);
+
+  async function shareActive() {
+    if (!active?.blob) return;
+    setSharing(true);
+    try {
+      const id = await createShare({
+        crop: active.blob,
+        name: active.name,
+        results: active.results,
+        view: viewToQueryString({ sortBy, filters, visibleCount }),
+      });
+      const url = shareUrl(id);
+      try {
+        await navigator.clipboard.writeText(url);
+        toast.show(t('upload.toast.linkCopied'), 'ok');
+      } catch {
+        // Kein Clipboard-Zugriff (z. B. http, alter Browser) → Link zum Kopieren anzeigen
+        window.prompt(t('upload.toast.sharePrompt'), url);
+      }
+    } catch (e: unknown) {
+      toast.show(errorText(e), 'err');
+    } finally {
+      setSharing(false);
+    }
+  }
+
+  /* --------- Dedupe + Sort + Filter + Pagination --------- */
+
+  const dedupedResults = useMemo(() => dedupeHits(results), [results]);
+  // Plätze in der Reihenfolge des Backends – Vergleich mit der Suche vor dem letzten Feedback
+  const rankNow = useMemo(() => rankMap(results), [results]);
+  // Für die Detailseite (/product/[id]) merken – auch wiederhergestellte Treffer
+  useEffect(() => { rememberHits(dedupedResults); }, [dedupedResults]);
+  // Filter wirken auf einzelne Angebote, Sortierung und Seiten auf Produktgruppen
+  // Sortieren und Preisfilter laufen auf dem umgerechneten Preis
+  const pricedResults = useMemo(
+    () => convertHits(dedupedResults, currency.table, currency.display),
+    [dedupedResults, currency.table, currency.display]
+  );
+  const filteredResults = useMemo(() => filterHits(pricedResults, filters), [pricedResults, filters]);
+  // Farbe: Trefferbilder erst analysieren, wenn jemand danach filtert oder ordnet
+  const colorView = active?.colorView ?? null;
+  const colorOn = colorView !== null;
+  const colorImageUrls = useMemo(
+    () => (colorOn ? [...new Set(filteredResults.flatMap((h) => (h.image_url ? [h.image_url] : [])))] : []),
+    [colorOn, filteredResults]
+  );
+  const { palettes: hitPalettes, pending: colorPending } = useHitPalettes(colorImageUrls);
+  const colorResults = useMemo(
+    () => (colorView ? applyColorView(filteredResults, colorView, (h) => (h.image_url ? hitPalettes.get(h.image_url) : null)) : filteredResults),
+    [filteredResults, colorView, hitPalettes]
+  );
+  const groupedResults = useMemo(() => sortHits(groupOffers(colorResults), sortBy), [colorResults, sortBy]);
+  useEffect(() => { shownRef.current = groupedResults.length; }, [groupedResults]);
+
+  const visibleResults = groupedResults.slice(0, visibleCount);
+
+  // Vergleich: Auswahl je Bereich
+  const compare = useCompareActions(active, { patch: patchRegion, show: showToast });
+  // Weiterblättern und neue erste Seite bei geänderten Filtern
+  const { nextOffset, canLoadMore, showMore } = useRegionPaging(active, groupedResults.length, { loadPage, patch: patchRegion });
+
+  /* ---------------- Render ---------------- */
+
+  const hasImage = Boolean(originalUrl);
+
+  return (
+    <>
+      <Toast msg={toast.msg} type={toast.type} />
+
+      {/* NAVBAR */}
+      <SiteHeader>
+        <button
+          onClick={() => setHistoryOpen(true)}
+          className="rounded-xl border px-4 py-2 text-sm font-medium hover:bg-gray-50"
+        >
+          {t('header.history')}
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="rounded-xl bg-black px-4 py-2 text-sm font-medium text-white hover:bg-gray-900"
+        >
+          {t('common.imageSearch')}
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/*,.heic,.heif"
+          style={{ display: 'none' }}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => handleFiles(e.target.files)}
+        />
+        <input
+          ref={cameraInputRef}
+          type="file"
+          accept="image/*"
+          capture="environment"
+          style={{ display: 'none' }}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => handleFiles(e.target.files, 'camera')}
+        />
+      </SiteHeader>
+
+      {historyOpen && (
+        <HistoryDrawer
+          currentId={sessionId}
+          onClose={() => setHistoryOpen(false)}
+          onOpen={(e) => restoreHistory(e, false)}
+          onRerun={(e) => restoreHistory(e, true)}
+          // Aktuelle Sitzung gelöscht → nicht sofort wieder anlegen
+          onDeleted={(id) => { if (id === null || id === sessionId) setSession(null); }}
+        />
+      )}
+
+      {compare.open && (
+        <CompareDialog
+          items={compare.priced}
+          reference={{ url: cropPreviewUrl, name: active?.name ?? '' }}
+          onRemove={compare.remove}
+          onClose={() => compare.setOpen(false)}
+        />
+      )}
+
+      {cameraOpen && (
+        <CameraCapture
+          onClose={closeCamera}
+          onError={onCameraError}
+          onCapture={(f) => { setCameraOpen(false); void handleFiles([f], 'camera'); }}
+        />
+      )}
+
+      {/* Start-Ansicht */}
+      {!hasImage && (
+        <main className="container mx-auto min-h-[calc(100vh-64px)] w-full max-w-screen-2xl px-6 py-12 flex flex-col items-center">
+          <section className="w-full max-w-2xl text-center">
+            <h1 className="text-[32px] sm:text-[44px] font-extrabold leading-tight text-black">
+              {t('home.headline')}<span className="bg-orange-200/60 px-1">{t('home.headlineHighlight')}</span>
+            </h1>
+            <p className="mt-3 text-[15px] text-gray-600">
+              {t('home.intro')}
+            </p>
+
+            <div
+              className="mt-8 w-full rounded-2xl border border-dashed border-gray-300 bg-white/70 p-8 shadow-sm hover:shadow transition"
+              onDragOver={onDragOver}
+              onDrop={onDrop}
+            >
+              <div className="flex flex-col items-center gap-3">
+                <div className="flex h-11 w-11 items-center justify-center rounded-xl border bg-gray-50">📷</div>
+                <div className="text-lg font-medium">{t('common.imageSearch')}</div>
+                <p className="text-sm text-gray-500">{t('home.dropHint')}</p>
+
+                <button
+                  onClick={() => fileInputRef.current?.click()}
+                  className="mt-3 inline-flex items-center gap-2 rounded-xl bg-black px-5 py-2.5 text-white text-sm shadow hover:bg-gray-900 active:scale-[0.99]"
+                >
+                  {t('home.chooseImage')}
+                </button>
+                <button
+                  onClick={openCamera}
+                  className="inline-flex items-center gap-2 rounded-xl border px-5 py-2 text-sm hover:bg-gray-50"
+                >
+                  {t('home.takePhoto')}
+                </button>
+              </div>
+
+              <form
+                className="mt-6 flex w-full flex-col gap-2 border-t pt-5 sm:flex-row"
+                onSubmit={(e: React.FormEvent<HTMLFormElement>) => { e.preventDefault(); void loadFromUrl(imageUrlInput); }}
+              >
+                <input
+                  type="url"
+                  inputMode="url"
+                  placeholder={t('home.urlPlaceholder')}
+                  value={imageUrlInput}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => setImageUrlInput(e.target.value)}
+                  className="min-w-0 flex-1 rounded-xl border px-3 py-2 text-sm"
+                />
+                <button
+                  type="submit"
+                  disabled={urlLoading || !imageUrlInput.trim()}
+                  className="rounded-xl bg-black px-4 py-2 text-sm font-medium text-white disabled:opacity-60"
+                >
+                  {urlLoading ? t('home.urlLoading') : t('home.searchByUrl')}
+                </button>
+              </form>
+              <p className="mt-3 text-xs text-gray-500">
+                {t('home.pasteTipBefore')}
+                <kbd className="rounded bg-gray-100 px-1">{t('home.pasteTipKey')}</kbd>+<kbd className="rounded bg-gray-100 px-1">V</kbd>
+                {t('home.pasteTipAfter')}
+              </p>
+            </div>
+
+            {error && (
+              <div className="mx-auto mt-6 w-full max-w-md rounded-xl border border-red-300 bg-red-50 p-3 text-sm text-red-700">
+                {error}
+              </div>
+            )}
+          </section>
+        </main>
+      )}
+
+      {/* Ergebnis-Ansicht */}
+      {hasImage && (
+        <main className="container mx-auto grid w-full max-w-screen-2xl grid-cols-1 gap-8 px-6 py-8 md:grid-cols-[320px_1fr] lg:grid-cols-[360px_1fr]">
+          {/* LEFT SIDEBAR */}
+          <aside className="md:sticky md:top-16">
+            <div className="rounded-2xl border bg-white/90 p-4 shadow-sm">
+              <div className="text-sm font-medium text-gray-900">
+                {t('upload.selectedArea')}
+                {regions.length > 1 && active && <span className="font-normal text-gray-500"> – {active.name}</span>}
+              </div>
+
+              <div className="mt-3">
+                {cropPreviewUrl ? (
+                  <div
+                    className="w-full rounded-lg border bg-white overflow-hidden"
+                    style={{ aspectRatio: previewSize ? `${previewSize.width} / ${previewSize.height}` : '1 / 1' }}
+                  >
+                    <img
+                      src={cropPreviewUrl}
+                      alt={t('upload.selectedArea')}
+                      className="h-full w-full object-contain"
+                      width={previewSize?.width ?? undefined}
+                      height={previewSize?.height ?? undefined}
+                      decoding="async"
+                      loading="eager"
+                    />
+                  </div>
+                ) : (
+                  <div className="h-48 w-full rounded-lg border bg-gray-100" />
+                )}
+
+                {uploadStats && (
+                  <div className="mt-2 text-xs text-gray-500">
+                    {t('upload.uploadStats', {
+                      size: formatBytes(uploadStats.bytes, intl),
+                      width: uploadStats.width,
+                      height: uploadStats.height,
+                    })}
+                    {savedPercent(uploadStats) > 0 &&
+                      t('upload.uploadSaved', {
+                        percent: savedPercent(uploadStats),
+                        size: formatBytes(uploadStats.originalBytes, intl),
+                      })}
+                  </div>
+                )}
+
+                {active?.blob && (
+                  <ColorPanel
+                    palette={active.palette}
+                    view={colorView}
+                    onChange={setColorView}
+                    pending={colorPending}
+                    total={colorImageUrls.length}
+                  />
+                )}
+
+                <div className="mt-3 flex flex-wrap gap-2">
+                  <button
+                    onClick={() => {
+                      // Sicherstellen, dass wir eine gültige URL haben
+                      if (!originalUrl) ensureImageUrl();
+                      setRegions((prev) => prev.map((r) => ({ ...r, crop: undefined }))); // wird im onLoad gesetzt
+                      setModalOpen(true);
+                    }}
+                    className="rounded-xl border px-3 py-1.5 text-sm hover:bg-gray-50"
+                  >
+                    {t('upload.changeCrop')}
+                  </button>
+                  <button
+                    onClick={resubmitWithSameCrop}
+                    disabled={activeLoading}
+                    className="rounded-xl bg-black px-4 py-1.5 text-sm font-medium text-white disabled:opacity-60"
+                  >
+                    {t('upload.searchAgain')}
+                  </button>
+                  <button
+                    onClick={() => void shareActive()}
+                    disabled={sharing || activeLoading || !active?.blob || !results.length}
+                    className="rounded-xl border px-3 py-1.5 text-sm hover:bg-gray-50 disabled:opacity-60"
+                  >
+                    {sharing ? t('upload.sharing') : t('upload.share')}
+                  </button>
+                </div>
+
+                {active?.blob && (
+                  <RefineForm key={active.id} initial={active.query} onSubmit={refineActive} disabled={activeLoading} />
+                )}
+              </div>
+            </div>
+
+            {/* Filter-Panel */}
+            <FilterPanel filters={filters} onChange={setFilters} hits={pricedResults} currency={currency.display} className="mt-6" />
+          </aside>
+
+          {/* RIGHT CONTENT – unten Platz für die Vergleichsleiste */}
+          <section className={compare.items.length ? 'pb-24' : ''}>
+            {/* Tabs pro Bereich */}
+            {regions.length > 1 && (
+              <div role="tablist" aria-label={t('upload.areasTabs')} className="mb-4 flex flex-wrap gap-2 border-b pb-3">
+                {regions.map((r) => (
+                  <button
+                    key={r.id}
+                    role="tab"
+                    aria-selected={r.id === active?.id}
+                    onClick={() => setActiveId(r.id)}
+                    className={`inline-flex items-center gap-2 rounded-xl border px-2 py-1 text-sm ${
+                      r.id === active?.id ? 'border-black bg-black text-white' : 'hover:bg-gray-50'
+                    }`}
+                  >
+                    {r.previewUrl ? (
+                      <img src={r.previewUrl} alt="" className="h-7 w-7 rounded object-cover" />
+                    ) : (
+                      <span className="h-7 w-7 rounded bg-gray-200" />
+                    )}
+                    <span>{r.name}</span>
+                    <span className={r.id === active?.id ? 'text-white/70' : 'text-gray-500'}>
+                      {r.loading ? '…' : r.queued ? '⏳' : r.error ? '!' : r.results.length}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            )}
+
+            {/* Toolbar */}
+            <div className="mb-4 flex flex-wrap items-start justify-between gap-3">
+              <h2 className="text-lg font-semibold text-gray-900">
+                {t('common.results')}{' '}
+                <span className="ml-2 text-sm font-normal text-gray-500">
+                  {t('common.resultCounts', {
+                    groups: groupedResults.length,
+                    shown: colorResults.length,
+                    total: dedupedResults.length,
+                  })}
+                </span>
+              </h2>
+
+              <div className="flex flex-col items-end gap-2 sm:flex-row sm:items-center sm:gap-3">
+                <FilterBadges filters={filters} onChange={setFilters} />
+                <SortSelect value={sortBy} onChange={setSortBy} />
+              </div>
+            </div>
+
+            {active && (
+              <FeedbackBar
+                feedback={active.feedback}
+                canUndo={active.feedbackUndo.length > 0}
+                onUndo={feedback.undo}
+                onReset={() => void feedback.apply(emptyFeedback())}
+                disabled={!active.blob}
+                className="mb-4"
+              />
+            )}
+
+            {activeLoading ? (
+              <ul className="grid gap-6 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4">
+                {Array.from({ length: 8 }).map((_, i) => (
+                  <li key={i} className="rounded-2xl border bg-white p-4">
+                    <div className="aspect-[4/3] w-full rounded-lg bg-gray-200 animate-pulse" />
+                    <div className="mt-3 h-4 w-2/3 rounded bg-gray-200 animate-pulse" />
+                    <div className="mt-2 h-3 w-1/2 rounded bg-gray-200 animate-pulse" />
+                    <div className="mt-2 h-3 w-1/3 rounded bg-gray-200 animate-pulse" />
+                  </li>
+                ))}
+              </ul>
+            ) : active?.queued ? (
+              <div className="rounded-xl border border-amber-300 bg-amber-50 p-6 text-center text-amber-800">
+                {t('upload.offlineQueued')}
+              </div>
+            ) : visibleResults.length ? (
+              <>
+                <ResultGrid label={t('common.results')}>
+                  {visibleResults.map((r) => (
+                    <ResultCard
+                      key={r.groupKey}
+                      hit={r}
+                      href={href(productHref(r.product_id))}
+                      className={compare.keys.has(r.groupKey) ? 'ring-2 ring-black' : ''}
+                      badge={<RankBadge movement={rankMovement(active?.rankBefore ?? null, rankNow, r.product_id)} />}
+                      actions={
+                        <>
+                          <label
+                            className="flex h-9 cursor-pointer items-center gap-1.5 rounded-full bg-white/90 px-3 text-xs shadow"
+                            title={t('compare.selectTitle')}
+                          >
+                            <input type="checkbox" checked={compare.keys.has(r.groupKey)} onChange={() => compare.toggle(r)} />
+                            {t('compare.select')}
+                          </label>
+                          {/* Merken und Beobachten gelten einem Angebot – dem günstigsten der Gruppe */}
+                          <FavoriteButton active={favorites.isFavorite(r.offers[0])} onToggle={() => void toggleFavorite(r.offers[0])} />
+                        </>
+                      }
+                    >
+                      <OfferList group={r} />
+                      <WatchButton
+                        hit={originalHit(r.offers[0])}
+                        watch={watches.watchOf(r.offers[0])}
+                        onWatch={(target) => void watches.watch(r.offers[0], target)}
+                        onStop={() => void watches.stop(r.offers[0])}
+                      />
+                      {active?.blob && (
+                        <VoteButtons
+                          vote={voteOf(active.feedback, r.product_id)}
+                          onVote={(v) => void feedback.apply(toggleVote(active.feedback, r.product_id, v))}
+                        />
+                      )}
+                    </ResultCard>
+                  ))}
+                </ResultGrid>
+
+                {canLoadMore && (
+                  <LoadMore onMore={showMore} shown={visibleResults.length} loading={active?.loadingMore} className="mt-6" />
+                )}
+              </>
+            ) : (
+              <>
+                <div className="rounded-xl border bg-white p-6 text-center text-gray-600">
+                  {t('upload.empty')}
+                </div>
+                {/* Backend filtert nicht mit → weiterblättern, bis etwas passt */}
+                {nextOffset !== null && (
+                  <LoadMore onMore={showMore} shown={results.length} loading={active?.loadingMore} className="mt-6" />
+                )}
+              </>
+            )}
+
+            {error && (
+              <div className="mx-auto mt-6 w-full max-w-md rounded-xl border border-red-300 bg-red-50 p-3 text-sm text-red-700">
+                {error}
+              </div>
+            )}
+          </section>
+
+          <CompareBar
+            items={compare.items}
+            onOpen={() => compare.setOpen(true)}
+            onRemove={compare.remove}
+            onClear={compare.clear}
+          />
+        </main>
+      )}
+
+      {/* Zuschneiden im Modal */}
+      {modalOpen && (
+        <CropModal
+          regions={regions}
+          active={active}
+          src={originalUrl}
+          imgRef={modalImgRef}
+          suggestions={suggestions}
+          detecting={detecting}
+          busy={loading}
+          canSearch={Boolean(file)}
+          onPatch={patchRegion}
+          onSelect={setActiveId}
+          onAdd={addRegion}
+          onRemove={removeRegion}
+          onImageLoad={initRegionCrops}
+          onImageError={ensureImageUrl}
+          onConfirm={() => void confirmAndSearch()}
+          onClose={closeModal}
+        />
+      )}
+    </>
+  );
+}
@@ -0,0 +1,124 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useI18n } from '@/app/_components/I18nProvider';
+import type { Translate } from '@/lib/i18n/translate';
+
+type Facing = 'environment' | 'user';
+
+/** Browser mit getUserMedia? Sonst fällt die Seite auf <input capture> zurück. */
+export const canUseCamera = () =>
+  typeof navigator !== 'undefined' && typeof navigator.mediaDevices?.getUserMedia === 'function';
+
+function cameraError(e: unknown, t: Translate): string {
+  const name = e instanceof DOMException ? e.name : '';
+  if (name === 'NotAllowedError' || name === 'SecurityError') return t('camera.denied');
+  if (name === 'NotFoundError' || name === 'OverconstrainedError') return t('camera.notFound');
+  if (name === 'NotReadableError') return t('camera.busy');
+  return t('camera.failed');
+}
+
+export default function CameraCapture({
+  onCapture,
+  onClose,
+  onError,
+}: {
+  onCapture: (file: File) => void;
+  onClose: () => void;
+  onError: (msg: string) => void;
+}) {
+  const { t } = useI18n();
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const [facing, setFacing] = useState<Facing>('environment');
+  const [ready, setReady] = useState(false);
+
+  const stop = useCallback(() => {
+    streamRef.current?.getTracks().forEach((t) => t.stop());
+    streamRef.current = null;
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    setReady(false);
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: { ideal: facing }, width: { ideal: 1920 }, height: { ideal: 1080 } }, audio: false })
+      .then((stream) => {
+        if (cancelled) { stream.getTracks().forEach((t) => t.stop()); return; }
+        stop();
+        streamRef.current = stream;
+        if (videoRef.current) {
+          videoRef.current.srcObject = stream;
+          void videoRef.current.play().catch(() => {});
+        }
+      })
+      .catch((e: unknown) => {
+        if (cancelled) return;
+        onError(cameraError(e, t));
+        onClose();
+      });
+    return () => { cancelled = true; };
+  }, [facing, onClose, onError, stop, t]);
+
+  // Kamera beim Schließen sicher freigeben (LED aus)
+  useEffect(() => stop, [stop]);
+
+  const capture = () => {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth) return;
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    // Frontkamera wird gespiegelt angezeigt – gespeichert wird das ungespiegelte Bild
+    ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+    canvas.toBlob((b) => {
+      if (!b) { onError(t('camera.photoFailed')); return; }
+      stop();
+      onCapture(new File([b], `kamera-${Date.now()}.jpg`, { type: 'image/jpeg' }));
+    }, 'image/jpeg', 0.92);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50">
+      <div className="absolute inset-0 bg-black/80" onClick={onClose} />
+      <div className="absolute left-1/2 top-1/2 w-[95vw] max-w-2xl -translate-x-1/2 -translate-y-1/2 rounded-2xl bg-white shadow-2xl">
+        <div className="border-b px-6 py-4 text-center">
+          <h3 className="text-lg font-semibold text-gray-900">{t('camera.title')}</h3>
+        </div>
+        <div className="px-6 py-5">
+          <div className="relative flex aspect-[4/3] w-full items-center justify-center overflow-hidden rounded-xl bg-black">
+            <video
+              ref={videoRef}
+              playsInline
+              muted
+              onLoadedData={() => setReady(true)}
+              className={`h-full w-full object-contain ${facing === 'user' ? '-scale-x-100' : ''}`}
+            />
+            {!ready && <span className="absolute text-sm text-white/70">{t('camera.starting')}</span>}
+          </div>
+        </div>
+        <div className="flex items-center justify-center gap-3 border-t px-6 py-4">
+          <button onClick={onClose} className="rounded-xl border px-5 py-2.5 text-base font-medium hover:bg-gray-50">
+            {t('common.cancel')}
+          </button>
+          <button
+            onClick={() => setFacing((f) => (f === 'environment' ? 'user' : 'environment'))}
+            className="rounded-xl border px-4 py-2.5 text-base hover:bg-gray-50"
+            title={t('camera.switch')}
+          >
+            🔄
+          </button>
+          <button
+            onClick={capture}
+            disabled={!ready}
+            className="rounded-xl bg-black px-6 py-3 text-base font-semibold text-white shadow hover:bg-gray-900 disabled:opacity-60"
+          >
+            {t('camera.capture')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+'use client';
+
+import { useI18n } from '@/app/_components/I18nProvider';
+import { COLOR_MODES, type ColorMode, type ColorView, type Swatch } from '@/lib/colors/colors';
+
+/**
+ * Hauptfarben des gewählten Bereichs als Farbfelder. Ein Feld wählt die Bezugsfarbe,
+ * darunter, ob Treffer danach geordnet oder auf gleiche/andere Farben beschränkt werden.
+ */
+export default function ColorPanel({
+  palette,
+  view,
+  onChange,
+  pending,
+  total,
+}: {
+  /** null, solange die Farben noch bestimmt werden. */
+  palette: Swatch[] | null;
+  view: ColorView | null;
+  onChange: (next: ColorView | null) => void;
+  /** Trefferbilder, deren Farben noch fehlen, von `total`. */
+  pending: number;
+  total: number;
+}) {
+  const { t } = useI18n();
+  if (palette === null) return <div className="mt-4 h-7 w-40 animate-pulse rounded bg-gray-100" />;
+  if (!palette.length) return null;
+
+  const setMode = (mode: ColorMode | null) => onChange(mode ? { hex: view?.hex ?? palette[0].hex, mode } : null);
+
+  return (
+    <div className="mt-4">
+      <div className="text-xs font-medium text-gray-700">{t('colors.title')}</div>
+      <div className="mt-2 flex flex-wrap gap-2">
+        {palette.map((s) => {
+          const percent = Math.round(s.share * 100);
+          const picked = view?.hex === s.hex;
+          return (
+            <button
+              key={s.hex}
+              onClick={() => onChange({ hex: s.hex, mode: view?.mode ?? 'rank' })}
+              aria-pressed={picked}
+              aria-label={t('colors.pick', { hex: s.hex, percent })}
+              title={`${s.hex} · ${percent} %`}
+              className={`h-7 w-7 rounded-full border border-black/10 ${picked ? 'ring-2 ring-black ring-offset-2' : ''}`}
+              style={{ backgroundColor: s.hex }}
+            />
+          );
+        })}
+      </div>
+
+      <div className="mt-3 flex flex-wrap gap-1" role="group" aria-label={t('colors.modeLabel')}>
+        {[null, ...COLOR_MODES].map((m) => (
+          <button
+            key={m ?? 'off'}
+            onClick={() => setMode(m)}
+            aria-pressed={(view?.mode ?? null) === m}
+            className={`rounded-full border px-2.5 py-0.5 text-xs ${
+              (view?.mode ?? null) === m ? 'border-black bg-black text-white' : 'hover:bg-gray-50'
+            }`}
+          >
+            {t(m ? `colors.mode.${m}` : 'colors.mode.off')}
+          </button>
+        ))}
+      </div>
+
+      {view && pending > 0 && (
+        <div className="mt-2 text-xs text-gray-500" aria-live="polite">
+          {t('colors.analyzing', { done: total - pending, total })}
+        </div>
+      )}
+    </div>
+  );
+}
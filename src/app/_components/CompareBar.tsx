@@ -0,0 +1,99 @@
+'use client';
+/* eslint-disable @next/next/no-img-element */
+
+import { useMemo, useState } from 'react';
+import { useI18n } from '@/app/_components/I18nProvider';
+import type { ShowToast } from '@/app/_components/Toast';
+import { MAX_COMPARE, compareItem, toggleCompare, type CompareItem } from '@/lib/compare';
+import { convertHits, type PricedHit } from '@/lib/currency/currency';
+import { useCurrency } from '@/lib/currency/useCurrency';
+import type { OfferGroup } from '@/lib/grouping';
+import type { PatchRegion, Region } from '@/lib/regions';
+
+const EMPTY_COMPARE: CompareItem[] = [];
+
+/**
+ * Vergleichsauswahl eines Bereichs samt Dialog-Zustand. Preise erst beim Anzeigen umrechnen –
+ * die Anzeigewährung kann wechseln; ist die Auswahl voll, gibt es einen Hinweis statt mehr.
+ */
+export function useCompareActions(region: Region | null, { patch, show }: { patch: PatchRegion; show: ShowToast }) {
+  const { t } = useI18n();
+  const currency = useCurrency();
+  const [open, setOpen] = useState(false);
+
+  const items = region?.compare ?? EMPTY_COMPARE;
+  const keys = useMemo(() => new Set(items.map((c) => c.key)), [items]);
+  const priced = useMemo(() => {
+    const hits = convertHits(items.map((c) => c.hit), currency.table, currency.display);
+    return items.map((c, i) => ({ key: c.key, hit: hits[i] }));
+  }, [items, currency.table, currency.display]);
+
+  const toggle = (g: OfferGroup<PricedHit>) => {
+    if (!region) return;
+    const next = toggleCompare(items, compareItem(g));
+    if (next) patch(region.id, { compare: next });
+    else show(t('compare.full', { max: MAX_COMPARE }), 'info');
+  };
+  const remove = (key: string) => {
+    if (region) patch(region.id, (r) => ({ compare: r.compare.filter((c) => c.key !== key) }));
+  };
+  const clear = () => {
+    if (region) patch(region.id, { compare: [] });
+  };
+
+  return { items, keys, priced, open: open && items.length > 0, setOpen, toggle, remove, clear };
+}
+
+/** Leiste am unteren Rand: ausgewählte Treffer als Miniaturen, von hier geht es in den Vergleich. */
+export default function CompareBar({
+  items,
+  onOpen,
+  onRemove,
+  onClear,
+}: {
+  items: CompareItem[];
+  onOpen: () => void;
+  onRemove: (key: string) => void;
+  onClear: () => void;
+}) {
+  const { t } = useI18n();
+  if (!items.length) return null;
+
+  return (
+    <div className="fixed inset-x-0 bottom-4 z-40 flex justify-center px-4">
+      <div className="flex max-w-full items-center gap-3 rounded-2xl border bg-white/95 px-4 py-3 shadow-xl backdrop-blur">
+        <ul className="flex gap-2">
+          {items.map((c) => (
+            <li key={c.key} className="relative">
+              {c.hit.image_url ? (
+                <img src={c.hit.image_url} alt={c.hit.title ?? ''} className="h-12 w-12 rounded-lg border object-cover" />
+              ) : (
+                <div className="h-12 w-12 rounded-lg border bg-gray-100" />
+              )}
+              <button
+                onClick={() => onRemove(c.key)}
+                title={t('compare.remove')}
+                className="absolute -right-1.5 -top-1.5 flex h-5 w-5 items-center justify-center rounded-full bg-black text-xs leading-none text-white"
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ul>
+        <span className="hidden text-xs text-gray-500 sm:inline">
+          {t('compare.selected', { count: items.length, max: MAX_COMPARE })}
+        </span>
+        <button onClick={onClear} className="rounded-xl border px-3 py-1.5 text-sm hover:bg-gray-50">
+          {t('compare.clear')}
+        </button>
+        <button
+          onClick={onOpen}
+          disabled={items.length < 2}
+          className="rounded-xl bg-black px-4 py-1.5 text-sm font-medium text-white hover:bg-gray-900 disabled:opacity-60"
+        >
+          {t('compare.open', { count: items.length })}
+        </button>
+      </div>
+    </div>
+  );
+}
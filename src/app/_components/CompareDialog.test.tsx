@@ -0,0 +1,49 @@
+import { fireEvent, render, screen } from '@testing-library/react';
+import axe from 'axe-core';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { PricedHit } from '@/lib/currency/currency';
+import CompareDialog from './CompareDialog';
+import I18nProvider from './I18nProvider';
+
+// Kontraste braucht echtes Layout – jsdom rechnet keins
+const AXE = { rules: { 'color-contrast': { enabled: false } } };
+
+const hit = (product_id: number, price: number, merchant: string): PricedHit => ({
+  product_id, score: 0.9, label: 'Exact', title: `Kleid ${product_id}`, price, currency: 'EUR', merchant,
+  deeplink: `https://shop.example/${product_id}`, image_url: null, original: null, unknownCurrency: false,
+});
+
+function Dialog({ onClose = () => {} }: { onClose?: () => void }) {
+  return (
+    <I18nProvider locale="de">
+      <CompareDialog
+        items={[{ key: 'a', hit: hit(1, 49, 'Shop A') }, { key: 'b', hit: hit(2, 39, 'Shop B') }]}
+        reference={{ url: null, name: 'Bereich 1' }}
+        onRemove={() => {}}
+        onClose={onClose}
+      />
+    </I18nProvider>
+  );
+}
+
+describe('CompareDialog', () => {
+  beforeEach(() => {
+    vi.spyOn(Element.prototype, 'getClientRects').mockReturnValue([{}] as unknown as DOMRectList);
+  });
+  afterEach(() => vi.restoreAllMocks());
+
+  it('ist ein beschrifteter modaler Dialog ohne axe-Verstöße', async () => {
+    render(<Dialog />);
+    const dialog = screen.getByRole('dialog', { name: 'Vergleich' });
+    expect(dialog.getAttribute('aria-modal')).toBe('true');
+    expect(document.activeElement).toBe(dialog);
+    expect((await axe.run(document.body, AXE)).violations).toEqual([]);
+  });
+
+  it('schließt mit Escape', () => {
+    const onClose = vi.fn();
+    render(<Dialog onClose={onClose} />);
+    fireEvent.keyDown(document.activeElement!, { key: 'Escape' });
+    expect(onClose).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,148 @@
+'use client';
+/* eslint-disable @next/next/no-img-element */
+
+import Link from 'next/link';
+import type { ReactNode } from 'react';
+import { labelClass } from '@/app/_components/ResultCard';
+import { useI18n } from '@/app/_components/I18nProvider';
+import OutboundLink from '@/app/_components/OutboundLink';
+import { useDialog } from '@/lib/a11y/useDialog';
+import { productHref } from '@/lib/api';
+import type { PricedHit } from '@/lib/currency/currency';
+import { fmtPrice } from '@/lib/format';
+import { labelName } from '@/lib/i18n/labels';
+
+/**
+ * Ausgewählte Treffer nebeneinander, Zeile für Zeile ausgerichtet (Tabelle).
+ * Links steht der eigene Ausschnitt als Referenz; Preise in der Anzeigewährung,
+ * abweichende Shop-Preise in Klammern dahinter.
+ */
+export default function CompareDialog({
+  items,
+  reference,
+  onRemove,
+  onClose,
+}: {
+  items: { key: string; hit: PricedHit }[];
+  reference: { url: string | null; name: string };
+  onRemove: (key: string) => void;
+  onClose: () => void;
+}) {
+  const { t, intl, href } = useI18n();
+
+  const dialogRef = useDialog<HTMLDivElement>(onClose);
+
+  const prices = items.map((c) => c.hit.price).filter(Number.isFinite);
+  const cheapest = prices.length > 1 ? Math.min(...prices) : NaN;
+  const bestScore = Math.max(...items.map((c) => c.hit.score));
+
+  const row = (label: string, cell: (h: PricedHit) => ReactNode, ref: ReactNode = null) => (
+    <tr className="border-t align-top">
+      {/* Leere Kopfzellen lesen Screenreader als unbeschriftete Spalte vor – ohne Beschriftung eine td */}
+      {label
+        ? <th scope="row" className="w-28 px-3 py-2 text-left text-xs font-medium text-gray-500">{label}</th>
+        : <td className="w-28" />}
+      <td className="bg-gray-50 px-3 py-2 text-sm text-gray-500">{ref}</td>
+      {items.map((c) => <td key={c.key} className="px-3 py-2 text-sm text-gray-900">{cell(c.hit)}</td>)}
+    </tr>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50">
+      <div className="absolute inset-0 bg-black/60" onClick={onClose} />
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="compare-title"
+        tabIndex={-1}
+        className="absolute left-1/2 top-1/2 flex max-h-[92vh] w-[96vw] max-w-6xl -translate-x-1/2 -translate-y-1/2 flex-col rounded-2xl bg-white shadow-2xl outline-none"
+      >
+        <div className="flex items-center justify-between border-b px-6 py-4">
+          <h3 id="compare-title" className="text-lg font-semibold text-gray-900">{t('compare.title')}</h3>
+          <button onClick={onClose} className="rounded-lg px-2 py-1 text-xl leading-none hover:bg-gray-100" title={t('common.close')}>
+            ×
+          </button>
+        </div>
+
+        <div className="overflow-auto">
+          <table className="w-full table-fixed border-collapse">
+            <thead>
+              <tr>
+                <td className="w-28" />
+                <th className="bg-gray-50 px-3 pt-3 text-left align-bottom text-xs font-medium text-gray-500">
+                  {t('compare.reference')} · {reference.name}
+                </th>
+                {items.map((c) => (
+                  <th key={c.key} className="px-3 pt-3 text-right">
+                    <button
+                      onClick={() => onRemove(c.key)}
+                      title={t('compare.remove')}
+                      className="rounded-lg px-2 text-lg leading-none text-gray-500 hover:bg-gray-100"
+                    >
+                      ×
+                    </button>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              <tr className="align-top">
+                <td className="w-28" />
+                <td className="bg-gray-50 px-3 pb-3">
+                  {reference.url && (
+                    <img src={reference.url} alt={t('compare.reference')} className="aspect-[3/4] w-full rounded-lg border object-contain" />
+                  )}
+                </td>
+                {items.map((c) => (
+                  <td key={c.key} className="px-3 pb-3">
+                    <div className="aspect-[3/4] w-full overflow-hidden rounded-lg bg-gray-100">
+                      {c.hit.image_url && <img src={c.hit.image_url} alt={c.hit.title ?? ''} className="h-full w-full object-cover" />}
+                    </div>
+                  </td>
+                ))}
+              </tr>
+              {row(t('compare.product'), (h) => (
+                <Link href={href(productHref(h.product_id))} className="font-medium hover:underline">
+                  {h.title ?? t('common.product', { id: h.product_id })}
+                </Link>
+              ))}
+              {row(t('compare.merchant'), (h) => h.merchant ?? t('common.unknownShop'))}
+              {row(t('compare.price'), (h) => (
+                <>
+                  <span className={h.price === cheapest ? 'font-semibold text-emerald-700' : ''}>
+                    {fmtPrice(h.price, h.currency ?? 'EUR', { locale: intl, original: h.original })}
+                  </span>
+                  {h.price === cheapest && <span className="ml-1 text-xs text-emerald-700">· {t('compare.cheapest')}</span>}
+                  {h.unknownCurrency && <div className="text-xs text-amber-700">{t('price.unknownCurrency')}</div>}
+                </>
+              ))}
+              {row(t('compare.label'), (h) => (
+                <span className={`rounded-full px-2 py-0.5 text-xs ${labelClass(h.label)}`}>{labelName(h.label, t)}</span>
+              ))}
+              {row(t('compare.score'), (h) => (
+                <span className={`tabular-nums ${items.length > 1 && h.score === bestScore ? 'font-semibold' : ''}`}>
+                  {Number.isFinite(h.score) ? h.score.toFixed(3) : '-'}
+                </span>
+              ))}
+              {row('', (h) =>
+                h.deeplink ? (
+                  <OutboundLink
+                    href={h.deeplink}
+                    hit={h}
+                    source="compare"
+                    className="inline-block rounded-xl bg-black px-4 py-1.5 text-sm font-medium text-white hover:bg-gray-900"
+                  >
+                    {t('common.toShop')}
+                  </OutboundLink>
+                ) : (
+                  <span className="text-xs text-gray-400">{t('common.noLink')}</span>
+                )
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
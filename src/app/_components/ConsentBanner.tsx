@@ -0,0 +1,48 @@
+'use client';
+
+import { useI18n } from '@/app/_components/I18nProvider';
+import { useConsent } from '@/lib/analytics/useConsent';
+
+/** Fragt einmal nach der Nutzungsstatistik; bis dahin (und bei „Nein“) wird nichts gemeldet. */
+export default function ConsentBanner() {
+  const { t } = useI18n();
+  const { consent, ready, enabled, setConsent } = useConsent();
+  if (!enabled || !ready || consent !== null) return null;
+
+  return (
+    <div role="region" aria-label={t('consent.title')} className="fixed bottom-4 left-4 z-50 max-w-sm rounded-2xl border bg-white p-4 shadow-xl">
+      <div className="text-sm font-medium text-gray-900">{t('consent.title')}</div>
+      <p className="mt-1 text-sm text-gray-600">{t('consent.body')}</p>
+      <div className="mt-3 flex justify-end gap-2">
+        <button onClick={() => setConsent('denied')} className="rounded-xl border px-3 py-1.5 text-sm hover:bg-gray-50">
+          {t('consent.deny')}
+        </button>
+        <button
+          onClick={() => setConsent('granted')}
+          className="rounded-xl bg-black px-3 py-1.5 text-sm font-medium text-white hover:bg-gray-900"
+        >
+          {t('consent.allow')}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+/** Kleiner Schalter in der Kopfzeile, um die Entscheidung jederzeit zu ändern. */
+export function ConsentToggle() {
+  const { t } = useI18n();
+  const { consent, ready, enabled, setConsent } = useConsent();
+  if (!enabled || !ready || consent === null) return null;
+
+  const on = consent === 'granted';
+  return (
+    <button
+      onClick={() => setConsent(on ? 'denied' : 'granted')}
+      aria-pressed={on}
+      title={on ? t('consent.turnOff') : t('consent.turnOn')}
+      className="hidden rounded-xl px-3 py-2 text-xs text-gray-500 hover:bg-gray-50 md:inline-block"
+    >
+      {on ? t('consent.statusOn') : t('consent.statusOff')}
+    </button>
+  );
+}
@@ -0,0 +1,317 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import Cropper, { type Area, type Point } from 'react-easy-crop';
+import { useI18n } from '@/app/_components/I18nProvider';
+import {
+  ASPECT_PRESETS, aspectRatio, drawTransformed, hasMask, outputToSource, type CropTransform, type MaskShape,
+} from '@/lib/image/cropEdit';
+
+const PREVIEW_EDGE = 720;
+const MASK_PREVIEW_FILL = 'rgba(239, 68, 68, 0.55)';
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 4;
+/** Pfeiltasten verschieben das Bild um so viele Pixel (react-easy-crop: mit Umschalt ein Fünftel). */
+const KEYBOARD_STEP_PX = 10;
+
+/** Drehung auf -180…180 halten, damit der Regler passt. */
+const wrapDeg = (d: number) => ((((d + 180) % 360) + 360) % 360) - 180;
+
+/**
+ * Erweiterter Zuschnitt für einen Bereich: erst drehen, zoomen und Seitenverhältnis wählen
+ * (react-easy-crop), dann Hintergrund oder andere Personen mit Pinsel/Lasso markieren.
+ * Zustand steckt komplett in `transform` – beim Wiederöffnen geht es dort weiter.
+ */
+export default function CropEditor({
+  src,
+  transform,
+  onChange,
+}: {
+  src: string;
+  transform: CropTransform;
+  onChange: (next: CropTransform) => void;
+}) {
+  const { t } = useI18n();
+  const [step, setStep] = useState<'crop' | 'mask'>('crop');
+
+  // Nur Anzeige von react-easy-crop; der Ausschnitt selbst kommt über onCropComplete in `area`
+  const [position, setPosition] = useState<Point>({ x: 0, y: 0 });
+  const [zoom, setZoom] = useState(1);
+
+  // Für Screenreader: was die letzte Taste bewirkt hat
+  const [keyStatus, setKeyStatus] = useState('');
+
+  const patch = (p: Partial<CropTransform>) => onChange({ ...transform, ...p });
+  const patchMask = (p: Partial<CropTransform['mask']>) => patch({ mask: { ...transform.mask, ...p } });
+
+  /** Alt + Pfeile zoomen (Umschalt: große Schritte), P wechselt das Seitenverhältnis; Pfeile allein schiebt react-easy-crop. */
+  const onCropKeyDown = (ev: React.KeyboardEvent<HTMLDivElement>) => {
+    if (ev.ctrlKey || ev.metaKey) return;
+    if ((ev.key === 'p' || ev.key === 'P') && !ev.altKey) {
+      ev.preventDefault();
+      const i = ASPECT_PRESETS.findIndex((p) => p.key === transform.aspect);
+      const next = ASPECT_PRESETS[(i + (ev.shiftKey ? ASPECT_PRESETS.length - 1 : 1)) % ASPECT_PRESETS.length];
+      patch({ aspect: next.key });
+      setKeyStatus(t('crop.keys.aspect', { name: t(`crop.aspect.${next.key}`) }));
+      return;
+    }
+    const dir = !ev.altKey ? 0 : ev.key === 'ArrowUp' || ev.key === 'ArrowRight' ? 1 : ev.key === 'ArrowDown' || ev.key === 'ArrowLeft' ? -1 : 0;
+    if (!dir) return;
+    ev.preventDefault();
+    ev.stopPropagation();
+    const next = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom + dir * (ev.shiftKey ? 0.5 : 0.1)));
+    setZoom(next);
+    setKeyStatus(t('crop.keys.zoom', { zoom: next.toFixed(1) }));
+  };
+
+  return (
+    <div>
+      <div className="mb-3 flex justify-center gap-1" role="tablist">
+        {(['crop', 'mask'] as const).map((s) => (
+          <button
+            key={s}
+            role="tab"
+            aria-selected={step === s}
+            onClick={() => setStep(s)}
+            className={`rounded-xl px-3 py-1 text-sm ${step === s ? 'bg-black text-white' : 'border hover:bg-gray-50'}`}
+          >
+            {s === 'crop' ? t('crop.stepCrop') : t('crop.stepMask')}
+            {s === 'mask' && hasMask(transform) && ` (${transform.mask.shapes.length})`}
+          </button>
+        ))}
+      </div>
+
+      {step === 'crop' ? (
+        <>
+          <div className="relative h-[48vh] w-full overflow-hidden rounded-xl bg-gray-900" onKeyDownCapture={onCropKeyDown}>
+            <Cropper
+              image={src}
+              crop={position}
+              zoom={zoom}
+              rotation={transform.rotation}
+              aspect={aspectRatio(transform)}
+              minZoom={MIN_ZOOM}
+              maxZoom={MAX_ZOOM}
+              keyboardStep={KEYBOARD_STEP_PX}
+              cropperProps={{ role: 'group', 'aria-label': t('crop.keys.areaAdvanced'), 'aria-describedby': 'crop-keys-hint' }}
+              showGrid
+              initialCroppedAreaPixels={transform.area}
+              onCropChange={setPosition}
+              onZoomChange={setZoom}
+              onRotationChange={(rotation) => patch({ rotation: wrapDeg(rotation) })}
+              onCropComplete={(_: Area, px: Area) => patch({ area: px })}
+            />
+          </div>
+          <p id="crop-keys-hint" className="mt-2 text-center text-xs text-gray-500">{t('crop.keys.hintAdvanced')}</p>
+          <p className="sr-only" aria-live="polite" aria-atomic="true">{keyStatus}</p>
+
+          <div className="mt-4 grid gap-4 sm:grid-cols-2">
+            <div>
+              <label htmlFor="crop-rotation" className="flex items-center justify-between text-xs font-medium text-gray-700">
+                {t('crop.rotation')}
+                <span className="font-normal tabular-nums text-gray-500">{t('crop.degrees', { deg: Math.round(transform.rotation) })}</span>
+              </label>
+              <div className="mt-2 flex items-center gap-2">
+                <button
+                  onClick={() => patch({ rotation: wrapDeg(transform.rotation - 90) })}
+                  title={t('crop.rotateLeft')}
+                  className="rounded-lg border px-2 py-0.5 text-sm hover:bg-gray-50"
+                >
+                  ↺
+                </button>
+                <input
+                  id="crop-rotation"
+                  type="range"
+                  min={-180}
+                  max={180}
+                  step={0.5}
+                  value={transform.rotation}
+                  onChange={(e) => patch({ rotation: Number(e.target.value) })}
+                  className="flex-1 accent-gray-900"
+                />
+                <button
+                  onClick={() => patch({ rotation: wrapDeg(transform.rotation + 90) })}
+                  title={t('crop.rotateRight')}
+                  className="rounded-lg border px-2 py-0.5 text-sm hover:bg-gray-50"
+                >
+                  ↻
+                </button>
+              </div>
+            </div>
+            <div>
+              <label htmlFor="crop-zoom" className="flex items-center justify-between text-xs font-medium text-gray-700">
+                {t('crop.zoom')}
+                <span className="font-normal tabular-nums text-gray-500">{zoom.toFixed(1)}×</span>
+              </label>
+              <input
+                id="crop-zoom"
+                type="range"
+                min={MIN_ZOOM}
+                max={MAX_ZOOM}
+                step={0.01}
+                value={zoom}
+                onChange={(e) => setZoom(Number(e.target.value))}
+                className="mt-3 w-full accent-gray-900"
+              />
+            </div>
+          </div>
+
+          <div className="mt-4">
+            <div className="text-xs font-medium text-gray-700">{t('crop.aspectTitle')}</div>
+            <div className="mt-2 flex flex-wrap gap-2">
+              {ASPECT_PRESETS.map((p) => (
+                <button
+                  key={p.key}
+                  onClick={() => patch({ aspect: p.key })}
+                  aria-pressed={transform.aspect === p.key}
+                  className={`rounded-full border px-3 py-0.5 text-sm ${
+                    transform.aspect === p.key ? 'border-black bg-black text-white' : 'hover:bg-gray-50'
+                  }`}
+                >
+                  {t(`crop.aspect.${p.key}`)}
+                </button>
+              ))}
+            </div>
+          </div>
+        </>
+      ) : (
+        <MaskEditor src={src} transform={transform} onMaskChange={patchMask} />
+      )}
+    </div>
+  );
+}
+
+/** Markieren auf einer Vorschau des fertigen Ausschnitts; gespeichert wird in Pixeln des Originals. */
+function MaskEditor({
+  src,
+  transform,
+  onMaskChange,
+}: {
+  src: string;
+  transform: CropTransform;
+  onMaskChange: (p: Partial<CropTransform['mask']>) => void;
+}) {
+  const { t } = useI18n();
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const [img, setImg] = useState<HTMLImageElement | null>(null);
+  const [tool, setTool] = useState<MaskShape['kind']>('brush');
+  const [brushSize, setBrushSize] = useState(28);
+  const [draft, setDraft] = useState<MaskShape | null>(null);
+
+  useEffect(() => {
+    const el = new Image();
+    el.onload = () => setImg(el);
+    el.src = src;
+    return () => { el.onload = null; };
+  }, [src]);
+
+  const { area, mask } = transform;
+  const s = Math.min(1, PREVIEW_EDGE / Math.max(area.width, area.height));
+  const width = Math.max(1, Math.round(area.width * s));
+  const height = Math.max(1, Math.round(area.height * s));
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx || !img) return;
+    const shapes = draft ? [...mask.shapes, draft] : mask.shapes;
+    drawTransformed(ctx, img, { ...transform, mask: { ...mask, shapes } }, MASK_PREVIEW_FILL);
+  }, [img, transform, mask, draft, width, height]);
+
+  const toSource = (e: React.PointerEvent<HTMLCanvasElement>): [number, number] | null => {
+    if (!img) return null;
+    const c = e.currentTarget;
+    const r = c.getBoundingClientRect();
+    const ox = ((e.clientX - r.left) * c.width) / r.width;
+    const oy = ((e.clientY - r.top) * c.height) / r.height;
+    return outputToSource(transform, img.naturalWidth, img.naturalHeight, c.width, ox, oy);
+  };
+
+  const onPointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const p = toSource(e);
+    if (!p) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDraft(tool === 'brush' ? { kind: 'brush', size: brushSize / s, points: p } : { kind: 'lasso', points: p });
+  };
+
+  const onPointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!draft) return;
+    const p = toSource(e);
+    if (!p) return;
+    const n = draft.points.length;
+    // Kleinstbewegungen auslassen, sonst wachsen die Punktlisten sehr schnell
+    if (Math.hypot(p[0] - draft.points[n - 2], p[1] - draft.points[n - 1]) < 3 / s) return;
+    setDraft({ ...draft, points: [...draft.points, ...p] });
+  };
+
+  const onPointerUp = () => {
+    if (!draft) return;
+    setDraft(null);
+    if (draft.kind === 'lasso' && draft.points.length < 6) return;
+    onMaskChange({ shapes: [...mask.shapes, draft] });
+  };
+
+  return (
+    <div>
+      <div className="flex h-[48vh] items-center justify-center rounded-xl border bg-gray-50">
+        <canvas
+          ref={canvasRef}
+          width={width}
+          height={height}
+          aria-label={t('crop.maskAlt')}
+          onPointerDown={onPointerDown}
+          onPointerMove={onPointerMove}
+          onPointerUp={onPointerUp}
+          onPointerCancel={() => setDraft(null)}
+          className="max-h-full max-w-full cursor-crosshair touch-none"
+        />
+      </div>
+      <p className="mt-2 text-center text-xs text-gray-500">
+        {mask.inverted ? t('crop.maskHintInverted') : t('crop.maskHint')}
+      </p>
+
+      <div className="mt-3 flex flex-wrap items-center justify-center gap-2 text-sm">
+        {(['brush', 'lasso'] as const).map((k) => (
+          <button
+            key={k}
+            onClick={() => setTool(k)}
+            aria-pressed={tool === k}
+            className={`rounded-xl border px-3 py-1 ${tool === k ? 'border-black bg-black text-white' : 'hover:bg-gray-50'}`}
+          >
+            {k === 'brush' ? t('crop.brush') : t('crop.lasso')}
+          </button>
+        ))}
+        {tool === 'brush' && (
+          <label className="flex items-center gap-2 text-xs text-gray-700">
+            {t('crop.brushSize')}
+            <input
+              type="range"
+              min={6}
+              max={120}
+              value={brushSize}
+              onChange={(e) => setBrushSize(Number(e.target.value))}
+              className="w-28 accent-gray-900"
+            />
+          </label>
+        )}
+        <label className="flex items-center gap-2 text-xs text-gray-700">
+          <input type="checkbox" checked={mask.inverted} onChange={(e) => onMaskChange({ inverted: e.target.checked })} />
+          {t('crop.invertMask')}
+        </label>
+        <button
+          onClick={() => onMaskChange({ shapes: mask.shapes.slice(0, -1) })}
+          disabled={!mask.shapes.length}
+          className="rounded-xl border px-3 py-1 hover:bg-gray-50 disabled:opacity-50"
+        >
+          {t('crop.undo')}
+        </button>
+        <button
+          onClick={() => onMaskChange({ shapes: [], inverted: false })}
+          disabled={!mask.shapes.length && !mask.inverted}
+          className="rounded-xl border px-3 py-1 hover:bg-gray-50 disabled:opacity-50"
+        >
+          {t('crop.clearMask')}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+import { fireEvent, render, screen } from '@testing-library/react';
+import axe from 'axe-core';
+import { createRef } from 'react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { DetectionBox } from '@/lib/api/types';
+import { createRegion } from '@/lib/regions';
+import CropModal from './CropModal';
+import I18nProvider from './I18nProvider';
+
+// Kontraste braucht echtes Layout – jsdom rechnet keins
+const AXE = { rules: { 'color-contrast': { enabled: false } } };
+
+const regions = [
+  createRegion('Bereich 1', { unit: '%', x: 10, y: 10, width: 40, height: 50 }),
+  createRegion('Bereich 2', { unit: '%', x: 55, y: 20, width: 30, height: 40 }),
+];
+const suggestions: DetectionBox[] = [{ label: 'dress', score: 0.9, x: 0.2, y: 0.1, width: 0.5, height: 0.8 }];
+
+function Modal({ onPatch = () => {}, onConfirm = () => {}, onClose = () => {} }: {
+  onPatch?: () => void;
+  onConfirm?: () => void;
+  onClose?: () => void;
+}) {
+  return (
+    <I18nProvider locale="de">
+      <CropModal
+        regions={regions}
+        active={regions[0]}
+        src="data:image/gif;base64,R0lGODlhAQABAAAAACw="
+        imgRef={createRef<HTMLImageElement>()}
+        suggestions={suggestions}
+        detecting={false}
+        busy={false}
+        canSearch
+        onPatch={onPatch}
+        onSelect={() => {}}
+        onAdd={() => {}}
+        onRemove={() => {}}
+        onImageLoad={() => {}}
+        onImageError={() => {}}
+        onConfirm={onConfirm}
+        onClose={onClose}
+      />
+    </I18nProvider>
+  );
+}
+
+describe('CropModal', () => {
+  beforeEach(() => {
+    vi.spyOn(Element.prototype, 'getClientRects').mockReturnValue([{}] as unknown as DOMRectList);
+  });
+  afterEach(() => vi.restoreAllMocks());
+
+  it('ist ein beschrifteter modaler Dialog ohne axe-Verstöße', async () => {
+    render(<Modal />);
+    const dialog = screen.getByRole('dialog', { name: 'Bild zuschneiden' });
+    expect(dialog.getAttribute('aria-modal')).toBe('true');
+    expect(document.activeElement).toBe(dialog);
+    expect((await axe.run(document.body, AXE)).violations).toEqual([]);
+  });
+
+  it('sucht mit Enter und schließt mit Escape', () => {
+    const onConfirm = vi.fn();
+    const onClose = vi.fn();
+    render(<Modal onConfirm={onConfirm} onClose={onClose} />);
+    fireEvent.keyDown(document.activeElement!, { key: 'Enter' });
+    expect(onConfirm).toHaveBeenCalledTimes(1);
+    fireEvent.keyDown(document.activeElement!, { key: 'Escape' });
+    expect(onClose).toHaveBeenCalledTimes(1);
+  });
+
+  it('übernimmt mit P den nächsten Vorschlag', () => {
+    const onPatch = vi.fn();
+    render(<Modal onPatch={onPatch} />);
+    fireEvent.keyDown(document.querySelector('.ReactCrop__crop-selection')!, { key: 'p' });
+    expect(onPatch).toHaveBeenCalledWith(regions[0].id, expect.any(Function));
+    expect(screen.getByText('Vorschlag: Kleid')).toBeTruthy();
+  });
+});
@@ -0,0 +1,329 @@
+'use client';
+/* eslint-disable @next/next/no-img-element */
+
+import { useMemo, useState, type RefObject } from 'react';
+import ReactCrop, { type Crop } from 'react-image-crop';
+import 'react-image-crop/dist/ReactCrop.css';
+import CropEditor from '@/app/_components/CropEditor';
+import { useI18n } from '@/app/_components/I18nProvider';
+import type { DetectionBox } from '@/lib/api/types';
+import { useDialog } from '@/lib/a11y/useDialog';
+import { initialTransform, sourceBounds, type CropTransform } from '@/lib/image/cropEdit';
+import { garmentName } from '@/lib/i18n/labels';
+import {
+  MAX_REGIONS, boxToCrop, isDefaultRegionName, keyboardCrop, pixelToPercentCropWithSize, sameCrop, toPixelCrop,
+  type PatchRegion, type Region,
+} from '@/lib/regions';
+
+/**
+ * Zuschneiden im Modal: Bereiche anlegen und benennen, Rahmen ziehen (oder im erweiterten
+ * Editor drehen), Vorschläge der Kleidungserkennung übernehmen. Aus dem <img> hinter `imgRef`
+ * schneidet die Seite beim Bestätigen die Ausschnitte.
+ */
+export default function CropModal({
+  regions,
+  active,
+  src,
+  imgRef,
+  suggestions,
+  detecting,
+  busy,
+  canSearch,
+  onPatch,
+  onSelect,
+  onAdd,
+  onRemove,
+  onImageLoad,
+  onImageError,
+  onConfirm,
+  onClose,
+}: {
+  regions: Region[];
+  active: Region | null;
+  src: string | null;
+  imgRef: RefObject<HTMLImageElement | null>;
+  suggestions: DetectionBox[];
+  detecting: boolean;
+  /** Es wird gerade gesucht. */
+  busy: boolean;
+  canSearch: boolean;
+  onPatch: PatchRegion;
+  onSelect: (id: string) => void;
+  onAdd: () => void;
+  onRemove: (id: string) => void;
+  onImageLoad: (img: HTMLImageElement) => void;
+  onImageError: () => void;
+  onConfirm: () => void;
+  onClose: () => void;
+}) {
+  const { t } = useI18n();
+  // Fokus bleibt im Modal, Escape schließt es
+  const modalRef = useDialog<HTMLDivElement>(onClose);
+  // Für Screenreader: was die letzte Taste am Rahmen bewirkt hat
+  const [cropStatus, setCropStatus] = useState('');
+
+  const applySuggestion = (b: DetectionBox) => {
+    if (!active) return;
+    onPatch(active.id, (r) => ({
+      crop: boxToCrop(b),
+      garment: b.label,
+      transform: null,
+      name: isDefaultRegionName(r.name) ? garmentName(b.label, t) : r.name,
+    }));
+  };
+
+  /** Aktiven Bereich in den erweiterten Editor holen (Start: sein Rahmen) bzw. zurück zum Rahmen. */
+  const setAdvanced = (on: boolean) => {
+    const img = imgRef.current;
+    if (!active?.crop || !img) return;
+    onPatch(active.id, { transform: on ? initialTransform(toPixelCrop(active.crop, img), active.garment) : null });
+  };
+
+  /** Der Umriss im Rahmen-Modus folgt dem gedrehten Ausschnitt. */
+  const changeTransform = (id: string, next: CropTransform) => {
+    const img = imgRef.current;
+    onPatch(id, img?.naturalWidth
+      ? { transform: next, crop: pixelToPercentCropWithSize(sourceBounds(next, img.naturalWidth, img.naturalHeight), img.naturalWidth, img.naturalHeight) }
+      : { transform: next });
+  };
+
+  /** Enter sucht – außer auf Schaltflächen und Links, die Enter selbst brauchen. */
+  const onModalKeyDown = (ev: React.KeyboardEvent<HTMLDivElement>) => {
+    if (ev.key !== 'Enter' || (ev.target as HTMLElement).closest('button, a, select, textarea')) return;
+    ev.preventDefault();
+    onConfirm();
+  };
+
+  /**
+   * Rahmen per Tastatur, solange der Ausschnitt fokussiert ist: Pfeile verschieben, mit Alt
+   * ändern sie die Größe, Umschalt macht große Schritte. P (Umschalt+P zurück) springt zum
+   * nächsten Vorschlag der Kleidungserkennung. Läuft vor react-image-crop, das nur pixelweise schiebt.
+   */
+  const onCropKeyDown = (ev: React.KeyboardEvent<HTMLDivElement>) => {
+    const crop = active?.crop;
+    if (!active || !crop || ev.ctrlKey || ev.metaKey) return;
+    if ((ev.key === 'p' || ev.key === 'P') && !ev.altKey) {
+      if (!suggestions.length) return;
+      ev.preventDefault();
+      const at = suggestions.findIndex((b) => sameCrop(boxToCrop(b), crop));
+      const n = suggestions.length;
+      const next = suggestions[at < 0 ? (ev.shiftKey ? n - 1 : 0) : (at + (ev.shiftKey ? n - 1 : 1)) % n];
+      applySuggestion(next);
+      setCropStatus(t('crop.keys.suggestion', { name: garmentName(next.label, t) }));
+      return;
+    }
+    if (!(ev.target as HTMLElement).classList.contains('ReactCrop__crop-selection')) return;
+    const next = keyboardCrop(crop, ev.key, { resize: ev.altKey, large: ev.shiftKey });
+    if (!next) return;
+    ev.preventDefault();
+    ev.stopPropagation();
+    onPatch(active.id, { crop: next });
+    setCropStatus(t('crop.keys.status', {
+      x: Math.round(next.x), y: Math.round(next.y), width: Math.round(next.width), height: Math.round(next.height),
+    }));
+  };
+
+  // react-image-crop ist eine PureComponent – Beschriftungen nur bei Sprachwechsel neu
+  const cropAriaLabels = useMemo(() => ({
+    cropArea: t('crop.keys.area'),
+    nwDragHandle: t('crop.handles.nw'),
+    nDragHandle: t('crop.handles.n'),
+    neDragHandle: t('crop.handles.ne'),
+    eDragHandle: t('crop.handles.e'),
+    seDragHandle: t('crop.handles.se'),
+    sDragHandle: t('crop.handles.s'),
+    swDragHandle: t('crop.handles.sw'),
+    wDragHandle: t('crop.handles.w'),
+  }), [t]);
+
+  return (
+    <div className="fixed inset-0 z-50">
+      <div className="absolute inset-0 bg-black/60" onClick={onClose} />
+      <div
+        ref={modalRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="crop-title"
+        aria-describedby="crop-hint"
+        tabIndex={-1}
+        onKeyDown={onModalKeyDown}
+        className="absolute left-1/2 top-1/2 w-[95vw] max-w-3xl -translate-x-1/2 -translate-y-1/2 rounded-2xl bg-white shadow-2xl outline-none"
+      >
+        <div className="border-b px-6 py-4 text-center">
+          <h3 id="crop-title" className="text-lg font-semibold text-gray-900">{t('crop.title')}</h3>
+          <p id="crop-hint" className="mt-1 text-sm text-gray-500">
+            {t('crop.hintBefore')}
+            <kbd className="rounded bg-gray-100 px-1">Esc</kbd>
+            {t('crop.hintEsc')}
+            <kbd className="rounded bg-gray-100 px-1">Enter</kbd>
+            {t('crop.hintEnter')}
+          </p>
+          {!active?.transform && <p className="mt-1 text-xs text-gray-500">{t('crop.keys.hint')}</p>}
+          <p className="sr-only" aria-live="polite" aria-atomic="true">{cropStatus}</p>
+        </div>
+
+        {/* Bereiche: einer ist aktiv (bearbeitbar), die anderen als Umriss */}
+        <div className="flex flex-wrap items-center gap-2 border-b px-6 py-3">
+          {regions.map((r) => (
+            <div
+              key={r.id}
+              className={`inline-flex items-center gap-1 rounded-xl border px-2 py-1 text-sm ${
+                r.id === active?.id ? 'border-black' : 'text-gray-600'
+              }`}
+            >
+              {r.id === active?.id ? (
+                <input
+                  value={r.name}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => onPatch(r.id, { name: e.target.value })}
+                  aria-label={t('crop.areaName')}
+                  className="w-28 bg-transparent outline-none"
+                />
+              ) : (
+                <button onClick={() => onSelect(r.id)}>{r.name}</button>
+              )}
+              {regions.length > 1 && (
+                <button
+                  onClick={() => onRemove(r.id)}
+                  className="px-1 font-semibold text-gray-500 hover:text-black"
+                  title={t('crop.removeArea')}
+                  aria-label={t('crop.removeArea')}
+                >
+                  ×
+                </button>
+              )}
+            </div>
+          ))}
+          {regions.length < MAX_REGIONS && (
+            <button onClick={onAdd} className="rounded-xl border border-dashed px-3 py-1 text-sm hover:bg-gray-50">
+              {t('crop.addArea')}
+            </button>
+          )}
+          {active && (
+            <div className="ml-auto inline-flex overflow-hidden rounded-xl border text-sm">
+              {([false, true] as const).map((on) => (
+                <button
+                  key={String(on)}
+                  onClick={() => setAdvanced(on)}
+                  aria-pressed={Boolean(active.transform) === on}
+                  disabled={!active.crop}
+                  className={`px-3 py-1 ${Boolean(active.transform) === on ? 'bg-black text-white' : 'hover:bg-gray-50'}`}
+                >
+                  {on ? t('crop.modeAdvanced') : t('crop.modeBox')}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {(detecting || suggestions.length > 0) && (
+          <div className="flex flex-wrap items-center gap-2 border-b px-6 py-2 text-sm">
+            <span className="text-gray-500">{t('crop.suggestions')}</span>
+            {detecting && <span className="text-gray-400">{t('crop.detecting')}</span>}
+            {suggestions.map((b, i) => (
+              <button
+                key={`${b.label}-${i}`}
+                onClick={() => applySuggestion(b)}
+                className="rounded-full border border-orange-300 bg-orange-50 px-3 py-0.5 text-orange-800 hover:bg-orange-100"
+              >
+                {garmentName(b.label, t)} {Math.round(b.score * 100)} %
+              </button>
+            ))}
+          </div>
+        )}
+
+        <div className="px-6 py-5">
+          {src ? (
+            <>
+              {active?.transform && (
+                <CropEditor
+                  key={active.id}
+                  src={src}
+                  transform={active.transform}
+                  onChange={(next) => changeTransform(active.id, next)}
+                />
+              )}
+              {/* Bleibt im erweiterten Editor versteckt stehen – aus diesem <img> wird geschnitten */}
+              <div
+                className={`relative mx-auto h-[62vh] w-full overflow-auto rounded-xl border bg-gray-50 items-center justify-center ${
+                  active?.transform ? 'hidden' : 'flex'
+                }`}
+                onKeyDownCapture={onCropKeyDown}
+              >
+                <ReactCrop
+                  crop={active?.crop}
+                  ariaLabels={cropAriaLabels}
+                  onChange={(_: Crop, pc: Crop) => { if (active) onPatch(active.id, { crop: pc }); }}
+                  keepSelection
+                  minWidth={10}
+                  minHeight={10}
+                >
+                  <img
+                    ref={imgRef}
+                    src={src}
+                    alt={t('crop.imageAlt')}
+                    className="block w-auto max-w-full h-auto max-h-[60vh] object-contain"
+                    decoding="async"
+                    loading="eager"
+                    onLoad={(e) => onImageLoad(e.currentTarget)}
+                    // Falls die ObjectURL ungültig wurde → sofort neu erzeugen
+                    onError={onImageError}
+                  />
+                  {suggestions.map((b, i) => (
+                    <button
+                      key={`s-${b.label}-${i}`}
+                      type="button"
+                      onPointerDown={(e) => e.stopPropagation()}
+                      onClick={() => applySuggestion(b)}
+                      className="absolute border-2 border-dashed border-orange-400/90 hover:bg-orange-300/20"
+                      style={{ left: `${b.x * 100}%`, top: `${b.y * 100}%`, width: `${b.width * 100}%`, height: `${b.height * 100}%` }}
+                      title={t('crop.applySuggestion', { name: garmentName(b.label, t) })}
+                    >
+                      <span className="absolute bottom-1 left-1 rounded bg-orange-500/90 px-1.5 py-0.5 text-xs text-white">
+                        {garmentName(b.label, t)}
+                      </span>
+                    </button>
+                  ))}
+                  {regions.filter((r) => r.id !== active?.id && r.crop?.unit === '%').map((r) => (
+                    <button
+                      key={r.id}
+                      type="button"
+                      onPointerDown={(e) => e.stopPropagation()}
+                      onClick={() => onSelect(r.id)}
+                      className="absolute border-2 border-dashed border-white/90 bg-black/10 text-left shadow-[0_0_0_1px_rgba(0,0,0,0.4)] hover:bg-black/20"
+                      style={{ left: `${r.crop!.x}%`, top: `${r.crop!.y}%`, width: `${r.crop!.width}%`, height: `${r.crop!.height}%` }}
+                      title={t('crop.editArea', { name: r.name })}
+                    >
+                      <span className="absolute left-1 top-1 rounded bg-black/70 px-1.5 py-0.5 text-xs text-white">{r.name}</span>
+                    </button>
+                  ))}
+                </ReactCrop>
+              </div>
+            </>
+          ) : (
+            <div className="text-sm text-gray-500 text-center">{t('crop.chooseImage')}</div>
+          )}
+        </div>
+
+        <div className="flex items-center justify-center gap-3 border-t px-6 py-4">
+          <button
+            onClick={onClose}
+            className="rounded-xl border px-5 py-2.5 text-base font-medium hover:bg-gray-50"
+          >
+            {t('common.cancel')}
+          </button>
+          <button
+            onClick={onConfirm}
+            disabled={busy || !canSearch}
+            className="rounded-xl bg-black px-6 py-3 text-base font-semibold text-white shadow hover:bg-gray-900 disabled:opacity-60"
+          >
+            {busy
+              ? t('crop.searching')
+              : regions.length > 1
+                ? t('crop.searchAreas', { count: regions.length })
+                : t('crop.cropAndSearch')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
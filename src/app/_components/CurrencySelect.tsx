@@ -0,0 +1,32 @@
+'use client';
+
+import { useI18n } from '@/app/_components/I18nProvider';
+import { currencyCodes } from '@/lib/currency/currency';
+import { useCurrency } from '@/lib/currency/useCurrency';
+
+const fmtDate = (iso: string, locale: string) => new Intl.DateTimeFormat(locale, { dateStyle: 'medium' }).format(new Date(iso));
+
+/** Anzeigewährung für alle Preise; Stand und Quelle der Kurse im Tooltip. */
+export default function CurrencySelect() {
+  const { display, setDisplay, table } = useCurrency();
+  const { t, intl } = useI18n();
+  const title = t('price.ratesFrom', {
+    date: fmtDate(table.updatedAt, intl),
+    source: t(table.source === 'backend' ? 'price.sourceBackend' : 'price.sourceStatic'),
+  });
+
+  return (
+    <label className="flex items-center gap-1 text-sm text-gray-600" title={title}>
+      <span className="sr-only">{t('common.currency')}</span>
+      <select
+        value={display}
+        onChange={(e) => setDisplay(e.target.value)}
+        className="rounded-lg border bg-white px-2 py-1.5 text-sm"
+      >
+        {currencyCodes(table).map((c) => (
+          <option key={c} value={c}>{c}</option>
+        ))}
+      </select>
+    </label>
+  );
+}
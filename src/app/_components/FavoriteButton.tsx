@@ -0,0 +1,26 @@
+'use client';
+
+import { useI18n } from '@/app/_components/I18nProvider';
+
+export default function FavoriteButton({
+  active,
+  onToggle,
+}: {
+  active: boolean;
+  onToggle: () => void;
+}) {
+  const { t } = useI18n();
+  return (
+    <button
+      type="button"
+      onClick={onToggle}
+      aria-pressed={active}
+      title={active ? t('favorite.remove') : t('favorite.add')}
+      className={`flex h-9 w-9 items-center justify-center rounded-full bg-white/90 text-lg shadow transition hover:scale-110 ${
+        active ? 'text-red-500' : 'text-gray-500'
+      }`}
+    >
+      {active ? '♥' : '♡'}
+    </button>
+  );
+}
@@ -0,0 +1,171 @@
+'use client';
+
+import { useI18n } from '@/app/_components/I18nProvider';
+import type { ShowToast } from '@/app/_components/Toast';
+import type { SearchFeedback } from '@/lib/api/search';
+import { FEEDBACK_UNDO_DEPTH, rankMap, type FeedbackSnapshot, type FeedbackVote } from '@/lib/feedback';
+import type { Region, RegionSearchSpec } from '@/lib/regions';
+import { PAGE_SIZE } from '@/lib/results';
+
+/* ---------------- Relevanz-Feedback an den Trefferkarten ---------------- */
+
+/** „Mehr davon“ / „Nicht das“ für eine Karte; die gewählte Stimme ist hervorgehoben. */
+export function VoteButtons({
+  vote,
+  onVote,
+  disabled,
+}: {
+  vote: FeedbackVote | null;
+  onVote: (vote: FeedbackVote) => void;
+  disabled?: boolean;
+}) {
+  const { t } = useI18n();
+  const button = (v: FeedbackVote, icon: string, active: string) => (
+    <button
+      type="button"
+      onClick={() => onVote(v)}
+      disabled={disabled}
+      aria-pressed={vote === v}
+      title={t(`feedback.${v}Title`)}
+      className={`flex-1 rounded-lg border px-2 py-1 text-xs disabled:opacity-60 ${vote === v ? active : 'hover:bg-gray-50'}`}
+    >
+      <span aria-hidden>{icon}</span> {t(`feedback.${v}`)}
+    </button>
+  );
+  return (
+    <div className="mt-3 flex gap-2">
+      {button('up', '👍', 'border-emerald-600 bg-emerald-50 text-emerald-800')}
+      {button('down', '👎', 'border-rose-600 bg-rose-50 text-rose-800')}
+    </div>
+  );
+}
+
+/** Auf/Ab gegenüber der Suche vor dem letzten Feedback (`movement` wie rankMovement). */
+export function RankBadge({ movement }: { movement: number | 'new' | null }) {
+  const { t } = useI18n();
+  if (movement === null) return null;
+  const [text, label, tone] =
+    movement === 'new'
+      ? [t('feedback.new'), t('feedback.newTitle'), 'bg-sky-600']
+      : movement > 0
+      ? [`▲ ${movement}`, t('feedback.movedUp', { count: movement }), 'bg-emerald-600']
+      : [`▼ ${-movement}`, t('feedback.movedDown', { count: -movement }), 'bg-rose-600'];
+  return (
+    <span className={`rounded-full px-2 py-0.5 text-xs font-medium text-white shadow ${tone}`} title={label}>
+      <span aria-hidden>{text}</span>
+      <span className="sr-only">{label}</span>
+    </span>
+  );
+}
+
+/** Zusammenfassung über der Trefferliste: wie viele Stimmen, Rückgängig, alles zurücksetzen. */
+export default function FeedbackBar({
+  feedback,
+  canUndo,
+  onUndo,
+  onReset,
+  disabled,
+  className = '',
+}: {
+  feedback: SearchFeedback;
+  canUndo: boolean;
+  onUndo: () => void;
+  onReset: () => void;
+  disabled?: boolean;
+  className?: string;
+}) {
+  const { t } = useI18n();
+  const votes = feedback.positive.length + feedback.negative.length;
+  if (!votes && !canUndo) return null;
+
+  return (
+    <div className={`flex flex-wrap items-center gap-3 rounded-xl border bg-white px-4 py-2 text-sm ${className}`} aria-live="polite">
+      <span className="text-gray-700">
+        {votes
+          ? t('feedback.summary', { up: feedback.positive.length, down: feedback.negative.length })
+          : t('feedback.none')}
+      </span>
+      <span className="ml-auto flex gap-2">
+        {canUndo && (
+          <button
+            type="button"
+            onClick={onUndo}
+            className="rounded-lg border px-3 py-1 text-xs hover:bg-gray-50"
+          >
+            {t('feedback.undo')}
+          </button>
+        )}
+        {votes > 0 && (
+          <button
+            type="button"
+            onClick={onReset}
+            disabled={disabled}
+            className="rounded-lg border px-3 py-1 text-xs hover:bg-gray-50 disabled:opacity-60"
+          >
+            {t('feedback.reset')}
+          </button>
+        )}
+      </span>
+    </div>
+  );
+}
+
+/**
+ * Relevanz-Feedback eines Bereichs: `apply` ändert die Stimmen und sucht sofort mit demselben
+ * Crop neu – die Plätze davor bleiben für die Auf/Ab-Marken, der ganze Zustand davor für
+ * „Rückgängig“. `undo` nimmt die letzte Feedback-Suche ohne neue Anfrage zurück.
+ */
+export function useFeedbackActions(
+  region: Region | null,
+  {
+    search,
+    cancel,
+    patch,
+    show,
+  }: {
+    search: (
+      id: string,
+      payload: Blob,
+      spec: RegionSearchSpec,
+      feedbackState: Pick<Region, 'rankBefore' | 'feedbackUndo'>
+    ) => Promise<number | null | 'queued'>;
+    cancel: (id: string) => void;
+    patch: (id: string, patch: Partial<Region>) => void;
+    show: ShowToast;
+  }
+) {
+  const { t, errorText } = useI18n();
+
+  async function apply(next: SearchFeedback) {
+    const r = region;
+    if (!r?.blob) return;
+    const snapshot: FeedbackSnapshot = { feedback: r.feedback, results: r.results, page: r.page, rankBefore: r.rankBefore };
+    patch(r.id, { feedback: next });
+    try {
+      const outcome = await search(r.id, r.blob, { ...r, feedback: next }, {
+        rankBefore: rankMap(r.results),
+        feedbackUndo: [...r.feedbackUndo, snapshot].slice(-FEEDBACK_UNDO_DEPTH),
+      });
+      if (outcome === 'queued') show(t('upload.toast.queued'), 'info', 3500);
+    } catch (e: unknown) {
+      show(errorText(e), 'err');
+    }
+  }
+
+  function undo() {
+    const r = region;
+    const last = r?.feedbackUndo[r.feedbackUndo.length - 1];
+    if (!r || !last) return;
+    cancel(r.id);
+    patch(r.id, {
+      ...last,
+      feedbackUndo: r.feedbackUndo.slice(0, -1),
+      loading: false,
+      loadingMore: false,
+      error: null,
+      visibleCount: PAGE_SIZE,
+    });
+  }
+
+  return { apply, undo };
+}
@@ -0,0 +1,47 @@
+'use client';
+
+import { useI18n } from '@/app/_components/I18nProvider';
+import { labelName } from '@/lib/i18n/labels';
+import type { Translate } from '@/lib/i18n/translate';
+import { defaultFilters, filterBadges, type FilterBadge, type Filters } from '@/lib/results';
+
+const badgeClass = 'inline-flex items-center gap-2 rounded-full border px-3 py-1 text-xs hover:bg-gray-50';
+
+/** Text eines Filter-Badges, z. B. „Preis: 20–∞“. */
+export function badgeText(b: FilterBadge, t: Translate): string {
+  switch (b.id) {
+    case 'labels': return t('filters.badge.labels', { value: b.buckets.map((k) => labelName(k, t)).join(', ') });
+    case 'price': return t('filters.badge.price', { value: `${b.min || '0'}–${b.max || '∞'}` });
+    case 'merchant': return t('filters.badge.merchant', { value: b.merchant || t('common.unknownShop') });
+    case 'score': return t('filters.badge.score', { value: b.min });
+  }
+}
+
+/** Aktive Filter als entfernbare Badges über der Trefferliste. */
+export default function FilterBadges({
+  filters,
+  onChange,
+}: {
+  filters: Filters;
+  onChange: (patch: Partial<Filters>) => void;
+}) {
+  const { t } = useI18n();
+  const badges = filterBadges(filters);
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {badges.map((b) => (
+        <button key={b.key} onClick={() => onChange(b.reset)} className={badgeClass} title={t(`filters.remove.${b.id}`)}>
+          {badgeText(b, t)}
+          <span className="font-semibold">×</span>
+        </button>
+      ))}
+      {badges.length > 0 && (
+        <button onClick={() => onChange(defaultFilters())} className={badgeClass} title={t('filters.clearAllTitle')}>
+          {t('filters.clearAll')}
+          <span className="font-semibold">×</span>
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,204 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { useI18n } from '@/app/_components/I18nProvider';
+import RangeSlider from '@/app/_components/RangeSlider';
+import type { Hit } from '@/lib/api/types';
+import { labelName } from '@/lib/i18n/labels';
+import { LABEL_BUCKETS, computeFacets, defaultFilters, type Filters, type PriceFacet } from '@/lib/results';
+
+/** So viele Händler stehen zugeklappt in der Liste (gewählte immer). */
+const MERCHANTS_COLLAPSED = 8;
+
+const parsed = (v: string) => (v.trim() !== '' && Number.isFinite(parseFloat(v)) ? parseFloat(v) : undefined);
+
+/** Balken des Preis-Histogramms; Bereiche außerhalb der Auswahl sind hell. */
+function PriceHistogram({ facet, lo, hi }: { facet: PriceFacet; lo: number; hi: number }) {
+  const peak = Math.max(1, ...facet.bins);
+  const width = (facet.max - facet.min) / facet.bins.length;
+  return (
+    <div className="flex h-12 items-end gap-px" aria-hidden>
+      {facet.bins.map((n, i) => {
+        const mid = facet.min + (i + 0.5) * width;
+        return (
+          <div
+            key={i}
+            className={`flex-1 rounded-t-sm ${mid >= lo && mid <= hi ? 'bg-gray-700' : 'bg-gray-200'}`}
+            style={{ height: n ? `${Math.max(8, (n / peak) * 100)}%` : 0 }}
+          />
+        );
+      })}
+    </div>
+  );
+}
+
+/**
+ * Filter-Seitenleiste für Trefferlisten. Die Facetten (Anzahl je Ähnlichkeit und Händler,
+ * Preisverteilung, Score-Spanne) kommen aus `hits` – den Treffern *vor* dem Filtern.
+ */
+export default function FilterPanel({
+  filters,
+  onChange,
+  hits,
+  currency,
+  className = '',
+}: {
+  filters: Filters;
+  onChange: (patch: Partial<Filters>) => void;
+  hits: Hit[];
+  /** Anzeigewährung, in der die Preisgrenzen gelten. */
+  currency?: string;
+  className?: string;
+}) {
+  const { t } = useI18n();
+  const [allMerchants, setAllMerchants] = useState(false);
+  const facets = useMemo(() => computeFacets(hits, filters), [hits, filters]);
+
+  const { price, score } = facets;
+  const priceLo = price ? Math.max(price.min, parsed(filters.priceMin) ?? price.min) : 0;
+  const priceHi = price ? Math.min(price.max, parsed(filters.priceMax) ?? price.max) : 0;
+  // Nur den bewegten Griff übernehmen: liegt die Grenze am Rand, weil das Backend schon gefiltert hat, bleibt sie stehen
+  const setPrice = ([lo, hi]: [number, number]) => {
+    if (!price) return;
+    const patch: Partial<Filters> = {};
+    if (lo !== priceLo) patch.priceMin = lo <= price.min ? '' : String(lo);
+    if (hi !== priceHi) patch.priceMax = hi >= price.max ? '' : String(hi);
+    onChange(patch);
+  };
+
+  // Ab 0: nach dem Mindest-Score hat das Backend schon gefiltert, die Treffer allein würden die Spur verkürzen
+  const scoreMin = score ? Math.min(0, Math.floor(score.min * 100) / 100) : 0;
+  const scoreMax = score ? Math.ceil(score.max * 100) / 100 : 1;
+  const minScore = parsed(filters.minScore);
+
+  const selected = new Set(filters.merchants);
+  const merchants = allMerchants
+    ? facets.merchants
+    : facets.merchants.filter((m, i) => i < MERCHANTS_COLLAPSED || selected.has(m.name));
+  const toggleMerchant = (name: string, on: boolean) =>
+    onChange({ merchants: on ? [...filters.merchants, name] : filters.merchants.filter((m) => m !== name) });
+
+  return (
+    <div className={`rounded-2xl border bg-white/90 p-4 shadow-sm ${className}`}>
+      <div className="text-sm font-medium text-gray-900">{t('filters.title')}</div>
+
+      <div className="mt-3">
+        <div className="text-xs font-medium text-gray-700">{t('filters.similarity')}</div>
+        <div className="mt-2 space-y-2">
+          {LABEL_BUCKETS.map((k) => (
+            <label key={k} className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={filters.labels[k]}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  onChange({ labels: { ...filters.labels, [k]: e.target.checked } })
+                }
+              />
+              <span className="flex-1">{labelName(k, t)}</span>
+              <span className="text-xs tabular-nums text-gray-500">{facets.labels[k]}</span>
+            </label>
+          ))}
+        </div>
+      </div>
+
+      {score && (
+        <div className="mt-4">
+          <label htmlFor="filter-min-score" className="flex items-center justify-between text-xs font-medium text-gray-700">
+            {t('filters.minScore')}
+            <span className="tabular-nums font-normal text-gray-500">
+              {minScore !== undefined ? `≥ ${minScore.toFixed(2)}` : t('filters.minScoreOff')}
+            </span>
+          </label>
+          <input
+            id="filter-min-score"
+            type="range"
+            min={scoreMin}
+            max={scoreMax}
+            step={0.01}
+            value={Math.min(scoreMax, Math.max(scoreMin, minScore ?? scoreMin))}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+              const v = Number(e.target.value);
+              onChange({ minScore: v <= scoreMin ? '' : v.toFixed(2) });
+            }}
+            className="mt-2 w-full accent-gray-900"
+          />
+        </div>
+      )}
+
+      <div className="mt-4">
+        <div className="text-xs font-medium text-gray-700">{currency ? t('filters.priceIn', { currency }) : t('filters.price')}</div>
+        {price ? (
+          <div className="mt-2">
+            <PriceHistogram facet={price} lo={priceLo} hi={priceHi} />
+            <RangeSlider
+              min={price.min}
+              max={price.max}
+              value={[priceLo, priceHi]}
+              onChange={setPrice}
+              labels={[t('filters.priceFrom'), t('filters.priceTo')]}
+              className="mt-1"
+            />
+          </div>
+        ) : (
+          <div className="mt-2 text-xs text-gray-500">{t('filters.noPrices')}</div>
+        )}
+        <div className="mt-2 flex items-center gap-2">
+          <input
+            type="number"
+            inputMode="decimal"
+            placeholder="min"
+            aria-label={t('filters.priceFrom')}
+            value={filters.priceMin}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => onChange({ priceMin: e.target.value })}
+            className="w-24 rounded-lg border px-2 py-1 text-sm"
+          />
+          <span className="text-gray-500">–</span>
+          <input
+            type="number"
+            inputMode="decimal"
+            placeholder="max"
+            aria-label={t('filters.priceTo')}
+            value={filters.priceMax}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => onChange({ priceMax: e.target.value })}
+            className="w-24 rounded-lg border px-2 py-1 text-sm"
+          />
+        </div>
+      </div>
+
+      <div className="mt-4">
+        <div className="text-xs font-medium text-gray-700">{t('filters.merchant')}</div>
+        {merchants.length ? (
+          <div className="mt-2 space-y-2">
+            {merchants.map((m) => (
+              <label key={m.name} className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={selected.has(m.name)}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => toggleMerchant(m.name, e.target.checked)}
+                />
+                <span className="flex-1 truncate">{m.name || t('common.unknownShop')}</span>
+                <span className="text-xs tabular-nums text-gray-500">{m.count}</span>
+              </label>
+            ))}
+          </div>
+        ) : (
+          <div className="mt-2 text-xs text-gray-500">{t('filters.noMerchants')}</div>
+        )}
+        {facets.merchants.length > MERCHANTS_COLLAPSED && (
+          <button onClick={() => setAllMerchants((v) => !v)} className="mt-2 text-xs text-blue-600 hover:underline">
+            {allMerchants ? t('filters.fewerMerchants') : t('filters.allMerchants', { count: facets.merchants.length })}
+          </button>
+        )}
+      </div>
+
+      <div className="mt-4">
+        <button
+          onClick={() => onChange(defaultFilters())}
+          className="rounded-xl border px-3 py-1.5 text-sm hover:bg-gray-50"
+        >
+          {t('filters.reset')}
+        </button>
+      </div>
+    </div>
+  );
+}
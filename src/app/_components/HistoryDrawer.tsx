@@ -0,0 +1,137 @@
+'use client';
+/* eslint-disable @next/next/no-img-element */
+
+import { useCallback, useEffect, useState } from 'react';
+import { useI18n } from '@/app/_components/I18nProvider';
+import {
+  HISTORY_MAX_BYTES, clearHistory, deleteHistoryEntry, listHistory, type HistoryEntry,
+} from '@/lib/history/history';
+import { formatBytes } from '@/lib/image/preprocess';
+
+const fmtDate = (ts: number, locale: string) =>
+  new Intl.DateTimeFormat(locale, { dateStyle: 'medium', timeStyle: 'short' }).format(ts);
+
+/**
+ * Verlauf als Seitenleiste; lädt die Einträge beim Öffnen selbst. `onDeleted` meldet
+ * gelöschte Einträge (null = alle), damit die Seite die aktuelle Sitzung nicht wieder anlegt.
+ */
+export default function HistoryDrawer({
+  currentId,
+  onClose,
+  onOpen,
+  onRerun,
+  onDeleted,
+}: {
+  currentId: string | null;
+  onClose: () => void;
+  onOpen: (entry: HistoryEntry) => void;
+  onRerun: (entry: HistoryEntry) => void;
+  onDeleted: (id: string | null) => void;
+}) {
+  const { t, intl } = useI18n();
+  const [entries, setEntries] = useState<HistoryEntry[] | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setEntries(await listHistory());
+    } catch {
+      setEntries([]);
+    }
+  }, []);
+  useEffect(() => { void refresh(); }, [refresh]);
+
+  async function remove(id: string) {
+    await deleteHistoryEntry(id).catch(() => {});
+    onDeleted(id);
+    void refresh();
+  }
+
+  async function wipe() {
+    await clearHistory().catch(() => {});
+    onDeleted(null);
+    void refresh();
+  }
+
+  // Ein Vorschaubild pro Eintrag (erster Bereich). Im Effekt erzeugen und freigeben – useMemo
+  // kann React verwerfen oder (Strict Mode) doppelt ausführen, dann blieben URLs liegen.
+  const [thumbUrls, setThumbUrls] = useState<Map<string, string>>(() => new Map());
+  useEffect(() => {
+    const urls = new Map<string, string>();
+    for (const e of entries ?? []) if (e.regions[0]) urls.set(e.id, URL.createObjectURL(e.regions[0].thumb));
+    setThumbUrls(urls);
+    return () => {
+      for (const url of urls.values()) URL.revokeObjectURL(url);
+    };
+  }, [entries]);
+
+  const used = (entries ?? []).reduce((n, e) => n + e.bytes, 0);
+
+  return (
+    <div className="fixed inset-0 z-50">
+      <div className="absolute inset-0 bg-black/40" onClick={onClose} />
+      <aside className="absolute right-0 top-0 flex h-full w-full max-w-md flex-col bg-white shadow-2xl">
+        <div className="flex items-center justify-between border-b px-5 py-4">
+          <h3 className="text-lg font-semibold text-gray-900">{t('history.title')}</h3>
+          <button onClick={onClose} className="rounded-lg px-2 py-1 text-xl leading-none hover:bg-gray-100" title={t('common.close')}>
+            ×
+          </button>
+        </div>
+
+        {!entries ? (
+          <div className="flex-1" />
+        ) : entries.length ? (
+          <ul className="flex-1 divide-y overflow-y-auto">
+            {entries.map((e) => {
+              const thumb = thumbUrls.get(e.id);
+              const hits = e.regions.reduce((n, r) => n + r.results.length, 0);
+              return (
+                <li key={e.id} className={`flex gap-3 px-5 py-3 ${e.id === currentId ? 'bg-gray-50' : ''}`}>
+                  <button onClick={() => onOpen(e)} className="shrink-0" title={t('history.openEntry')}>
+                    {thumb ? (
+                      <img src={thumb} alt="" className="h-16 w-16 rounded-lg border object-cover" />
+                    ) : (
+                      <div className="h-16 w-16 rounded-lg border bg-gray-100" />
+                    )}
+                  </button>
+                  <div className="min-w-0 flex-1">
+                    <div className="text-sm font-medium text-gray-900">{fmtDate(e.updatedAt, intl)}</div>
+                    <div className="truncate text-xs text-gray-500">
+                      {t('history.hits', { areas: e.regions.map((r) => r.name).join(', '), count: hits })}
+                    </div>
+                    <div className="mt-2 flex flex-wrap gap-2">
+                      <button onClick={() => onOpen(e)} className="rounded-lg border px-2 py-1 text-xs hover:bg-gray-50">
+                        {t('history.open')}
+                      </button>
+                      <button onClick={() => onRerun(e)} className="rounded-lg border px-2 py-1 text-xs hover:bg-gray-50">
+                        {t('history.rerun')}
+                      </button>
+                      <button
+                        onClick={() => void remove(e.id)}
+                        className="rounded-lg px-2 py-1 text-xs text-red-600 hover:bg-red-50"
+                      >
+                        {t('history.delete')}
+                      </button>
+                    </div>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        ) : (
+          <div className="flex-1 px-5 py-10 text-center text-sm text-gray-500">{t('history.empty')}</div>
+        )}
+
+        <div className="flex items-center justify-between border-t px-5 py-3 text-xs text-gray-500">
+          <span>
+            {t('history.usage', { used: formatBytes(used, intl), max: formatBytes(HISTORY_MAX_BYTES, intl) })}
+          </span>
+          {entries && entries.length > 0 && (
+            <button onClick={() => void wipe()} className="rounded-lg border px-2 py-1 hover:bg-gray-50">
+              {t('history.clear')}
+            </button>
+          )}
+        </div>
+      </aside>
+    </div>
+  );
+}
@@ -0,0 +1,19 @@
+'use client';
+
+import { createContext, useContext, useMemo, type ReactNode } from 'react';
+import type { Locale } from '@/lib/i18n/config';
+import { createI18n, type I18n } from '@/lib/i18n/i18n';
+
+const I18nContext = createContext<I18n | null>(null);
+
+/** Sprache der Seite für alle Client-Komponenten darunter (gesetzt im [locale]-Layout). */
+export default function I18nProvider({ locale, children }: { locale: Locale; children: ReactNode }) {
+  const value = useMemo(() => createI18n(locale), [locale]);
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
+
+export function useI18n(): I18n {
+  const ctx = useContext(I18nContext);
+  if (!ctx) throw new Error('useI18n() braucht einen <I18nProvider> darüber.');
+  return ctx;
+}
@@ -0,0 +1,51 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { useI18n } from '@/app/_components/I18nProvider';
+
+/**
+ * „Mehr laden“ mit unendlichem Scrollen: Kommt der Knopf in Sichtweite, wird
+ * `onMore` automatisch aufgerufen. Ändert sich `shown` (mehr Einträge sichtbar)
+ * oder endet `loading`, wird neu geprüft – so füllt sich auch ein hoher Bildschirm.
+ * Der Knopf bleibt als Fallback (ohne IntersectionObserver, Tastatur).
+ */
+export default function LoadMore({
+  onMore,
+  shown,
+  loading = false,
+  className = '',
+}: {
+  onMore: () => void;
+  shown: number;
+  loading?: boolean;
+  className?: string;
+}) {
+  const { t } = useI18n();
+  const ref = useRef<HTMLButtonElement | null>(null);
+  const onMoreRef = useRef(onMore);
+  useEffect(() => { onMoreRef.current = onMore; });
+
+  useEffect(() => {
+    const el = ref.current;
+    if (!el || loading || typeof IntersectionObserver === 'undefined') return;
+    const io = new IntersectionObserver(
+      (entries) => { if (entries.some((e) => e.isIntersecting)) onMoreRef.current(); },
+      { rootMargin: '0px 0px 600px 0px' }
+    );
+    io.observe(el);
+    return () => io.disconnect();
+  }, [loading, shown]);
+
+  return (
+    <div className={`flex justify-center ${className}`}>
+      <button
+        ref={ref}
+        onClick={onMore}
+        disabled={loading}
+        className="rounded-xl border px-5 py-2 text-sm font-medium hover:bg-gray-50 disabled:opacity-60"
+      >
+        {loading ? t('common.loading') : t('common.loadMore')}
+      </button>
+    </div>
+  );
+}
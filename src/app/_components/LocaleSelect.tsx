@@ -0,0 +1,30 @@
+'use client';
+
+import { usePathname, useRouter } from 'next/navigation';
+import { useI18n } from '@/app/_components/I18nProvider';
+import { LOCALES, LOCALE_NAMES, isLocale, switchLocalePath } from '@/lib/i18n/config';
+
+/** Sprache wechseln: gleiche Seite (samt Filtern in der Query) unter dem anderen Präfix. */
+export default function LocaleSelect() {
+  const { locale, t } = useI18n();
+  const pathname = usePathname();
+  const router = useRouter();
+
+  return (
+    <label className="flex items-center gap-1 text-sm text-gray-600">
+      <span className="sr-only">{t('common.language')}</span>
+      <select
+        value={locale}
+        onChange={(e) => {
+          const next = e.target.value;
+          if (isLocale(next)) router.push(`${switchLocalePath(pathname, next)}${window.location.search}`);
+        }}
+        className="rounded-lg border bg-white px-2 py-1.5 text-sm"
+      >
+        {LOCALES.map((l) => (
+          <option key={l} value={l}>{LOCALE_NAMES[l]}</option>
+        ))}
+      </select>
+    </label>
+  );
+}
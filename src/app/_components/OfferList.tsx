@@ -0,0 +1,46 @@
+'use client';
+
+import { useI18n } from '@/app/_components/I18nProvider';
+import OutboundLink from '@/app/_components/OutboundLink';
+import type { Hit } from '@/lib/api/types';
+import type { PriceInfo } from '@/lib/currency/currency';
+import type { OfferGroup } from '@/lib/grouping';
+import { fmtPrice } from '@/lib/format';
+
+/** Aufklappbare Angebotsliste einer Produktgruppe (per <details>, also auch ohne JS). */
+export default function OfferList({ group }: { group: OfferGroup<Hit & Partial<PriceInfo>> }) {
+  const { offers } = group;
+  const { t, intl } = useI18n();
+  if (offers.length < 2) return null;
+  const currency = group.currency ?? 'EUR';
+
+  return (
+    <details className="mt-3 rounded-lg border bg-gray-50 text-sm">
+      <summary className="cursor-pointer select-none px-3 py-2 text-gray-700">
+        {t('offers.summary', { count: offers.length, merchant: group.merchant ?? t('common.unknown') })}
+        {group.priceMax > group.priceMin && !group.mixedCurrency && (
+          <span className="text-gray-500">
+            {' '}· {fmtPrice(group.priceMin, currency, { locale: intl })}–{fmtPrice(group.priceMax, currency, { locale: intl })}
+          </span>
+        )}
+      </summary>
+      <ul className="divide-y border-t">
+        {offers.map((o, i) => (
+          <li key={`${o.merchant ?? 'm'}-${o.deeplink ?? i}`} className="flex items-center justify-between gap-2 px-3 py-1.5">
+            <span className="truncate text-gray-700">{o.merchant ?? t('common.unknownShop')}</span>
+            <span className="flex shrink-0 items-center gap-2">
+              <span className="font-medium text-gray-900" title={o.unknownCurrency ? t('price.unknownCurrency') : undefined}>
+                {fmtPrice(o.price, o.currency ?? 'EUR', { original: o.original, locale: intl })}
+              </span>
+              {o.deeplink && (
+                <OutboundLink href={o.deeplink} hit={o} source="offers" className="text-blue-600 underline">
+                  {t('common.shop')}
+                </OutboundLink>
+              )}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+}
@@ -0,0 +1,42 @@
+'use client';
+
+import type { ReactNode } from 'react';
+import { outboundHref } from '@/lib/analytics/analytics';
+import type { Hit } from '@/lib/api/types';
+
+/**
+ * Link in einen Shop (neuer Tab). Im Markup steht immer der direkte Link – erst beim
+ * Klick wird er auf /api/out umgeschrieben, wenn die Statistik erlaubt ist. So passen
+ * Server- und Browser-Render zusammen, und „Link kopieren“ liefert den Shop-Link.
+ */
+export default function OutboundLink({
+  href,
+  hit,
+  source,
+  className,
+  children,
+}: {
+  /** Der Deeplink des Shops. */
+  href: string;
+  hit: Pick<Hit, 'product_id' | 'merchant'>;
+  /** Wo geklickt wurde (card, offers, compare, product, alerts) – landet im Klick-Log. */
+  source: string;
+  className?: string;
+  children: ReactNode;
+}) {
+  const route = (e: React.MouseEvent<HTMLAnchorElement>) => {
+    e.currentTarget.href = outboundHref(href, { productId: hit.product_id, merchant: hit.merchant, source });
+  };
+  return (
+    <a
+      href={href}
+      target="_blank"
+      rel="noopener noreferrer"
+      onClick={route}
+      onAuxClick={route}
+      className={className}
+    >
+      {children}
+    </a>
+  );
+}
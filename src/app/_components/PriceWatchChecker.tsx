@@ -0,0 +1,80 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useI18n } from '@/app/_components/I18nProvider';
+import { MAX_PRICE_IDS, pricesViaProxy } from '@/lib/api/prices';
+import { fmtPrice } from '@/lib/format';
+import { checkPriceWatches, type PriceDrop } from '@/lib/watches/watches';
+
+/** So lange gilt eine Prüfung (NEXT_PUBLIC_PRICE_CHECK_MINUTES, Standard 60). */
+const PRICE_CHECK_INTERVAL_MS = (Number.parseInt(process.env.NEXT_PUBLIC_PRICE_CHECK_MINUTES ?? '', 10) || 60) * 60_000;
+// Fällig ist nur, was länger nicht geprüft wurde – der Takt selbst kostet nur einen IndexedDB-Zugriff
+const TICK_MS = 60_000;
+const PRICE_CHECK_LOCK = 'clofind-price-check';
+
+/**
+ * Prüft im Hintergrund jeder Seite die beobachteten Preise. Fällt einer unter sein Ziel,
+ * meldet der Service Worker das (falls erlaubt); die Alarmliste zeigt es ohnehin.
+ */
+export default function PriceWatchChecker() {
+  const { t, intl, href } = useI18n();
+
+  useEffect(() => {
+    const notify = async (drops: PriceDrop[]) => {
+      if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return;
+      const reg = await navigator.serviceWorker?.getRegistration();
+      if (!reg) return;
+      for (const { watch: w, alert } of drops) {
+        const price = (v: number) => fmtPrice(v, w.currency ?? 'EUR', { locale: intl });
+        await reg.showNotification(t('alerts.notificationTitle'), {
+          body: t('alerts.notificationBody', {
+            title: w.title ?? t('common.product', { id: w.product_id }),
+            merchant: w.merchant ?? '–',
+            price: price(alert.price),
+            previous: price(alert.previous),
+          }),
+          icon: '/icon-192.png',
+          tag: `price-${w.key}`,
+          data: { url: href('/alerts') },
+        });
+      }
+    };
+
+    let running = false;
+    const run = async () => {
+      if (running || !navigator.onLine) return;
+      running = true;
+      const check = async () => {
+        const drops = await checkPriceWatches((ids) => pricesViaProxy(ids), {
+          minAgeMs: PRICE_CHECK_INTERVAL_MS,
+          batchSize: MAX_PRICE_IDS,
+        });
+        if (drops.length) await notify(drops);
+      };
+      try {
+        // Nur ein Tab prüft zur selben Zeit, die anderen lassen diesen Takt aus. Doppelte Alarme
+        // verhindert checkPriceWatches ohnehin (eine Transaktion je Beobachtung), das Schloss spart die doppelte Abfrage.
+        if ('locks' in navigator) {
+          await navigator.locks.request(PRICE_CHECK_LOCK, { ifAvailable: true }, (lock) => (lock ? check() : undefined));
+        } else {
+          await check();
+        }
+      } catch {
+        // Backend nicht erreichbar – beim nächsten Takt noch einmal
+      } finally {
+        running = false;
+      }
+    };
+
+    void run();
+    const timer = window.setInterval(() => void run(), TICK_MS);
+    const onOnline = () => void run();
+    window.addEventListener('online', onOnline);
+    return () => {
+      window.clearInterval(timer);
+      window.removeEventListener('online', onOnline);
+    };
+  }, [t, intl, href]);
+
+  return null;
+}
@@ -0,0 +1,59 @@
+'use client';
+
+/**
+ * Schieberegler mit zwei Griffen (von–bis). Zwei übereinanderliegende range-Inputs,
+ * damit Tastatur und Screenreader wie gewohnt funktionieren; die Griffe überholen sich nicht.
+ */
+export default function RangeSlider({
+  min,
+  max,
+  step = 1,
+  value,
+  onChange,
+  labels,
+  className = '',
+}: {
+  min: number;
+  max: number;
+  step?: number;
+  value: [number, number];
+  onChange: (next: [number, number]) => void;
+  /** Barrierefreie Namen der beiden Griffe. */
+  labels: [string, string];
+  className?: string;
+}) {
+  const [lo, hi] = value;
+  const pct = (v: number) => (max > min ? ((v - min) / (max - min)) * 100 : 0);
+
+  return (
+    <div className={`relative h-5 ${className}`}>
+      <div className="absolute inset-x-0 top-1/2 h-1 -translate-y-1/2 rounded-full bg-gray-200" />
+      <div
+        className="absolute top-1/2 h-1 -translate-y-1/2 rounded-full bg-gray-900"
+        style={{ left: `${pct(lo)}%`, right: `${100 - pct(hi)}%` }}
+      />
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={lo}
+        aria-label={labels[0]}
+        onChange={(e: React.ChangeEvent<HTMLInputElement>) => onChange([Math.min(Number(e.target.value), hi), hi])}
+        className="range-thumbs absolute inset-0 h-5 w-full"
+        // Liegen beide Griffe rechts aufeinander, muss der untere greifbar bleiben
+        style={{ zIndex: pct(lo) > 50 ? 1 : undefined }}
+      />
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={hi}
+        aria-label={labels[1]}
+        onChange={(e: React.ChangeEvent<HTMLInputElement>) => onChange([lo, Math.max(Number(e.target.value), lo)])}
+        className="range-thumbs absolute inset-0 h-5 w-full"
+      />
+    </div>
+  );
+}
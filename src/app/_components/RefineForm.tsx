@@ -0,0 +1,71 @@
+'use client';
+
+import { useId, useState } from 'react';
+import { useI18n } from '@/app/_components/I18nProvider';
+import { MAX_QUERY_LENGTH } from '@/lib/api/search';
+
+/**
+ * Freitext zum Ausschnitt („in schwarz, unter 80 €, bei Zalando“). Preis und Händler landen
+ * in den Filtern; im Feld bleibt danach nur der Text, der mit dem Bild gesucht wurde.
+ */
+export default function RefineForm({
+  initial,
+  onSubmit,
+  disabled,
+}: {
+  /** Zuletzt gesuchter Text des Bereichs – die Seite setzt pro Bereich einen eigenen `key`. */
+  initial: string;
+  /** Sucht neu und liefert den Text, der nach dem Erkennen der Filter übrig bleibt. */
+  onSubmit: (input: string) => Promise<string>;
+  disabled?: boolean;
+}) {
+  const { t } = useI18n();
+  const id = useId();
+  const [value, setValue] = useState(initial);
+
+  const submit = async (input: string) => setValue(await onSubmit(input.trim()));
+
+  return (
+    <form
+      className="mt-4"
+      onSubmit={(e: React.FormEvent) => {
+        e.preventDefault();
+        void submit(value);
+      }}
+    >
+      <label htmlFor={id} className="text-xs font-medium text-gray-700">{t('refine.label')}</label>
+      <div className="mt-1 flex gap-2">
+        <input
+          id={id}
+          type="search"
+          enterKeyHint="search"
+          maxLength={MAX_QUERY_LENGTH}
+          value={value}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => setValue(e.target.value)}
+          placeholder={t('refine.placeholder')}
+          className="min-w-0 flex-1 rounded-lg border px-2 py-1 text-sm"
+        />
+        <button
+          type="submit"
+          disabled={disabled || (!value.trim() && !initial)}
+          className="rounded-lg border px-3 py-1 text-sm hover:bg-gray-50 disabled:opacity-60"
+        >
+          {t('refine.submit')}
+        </button>
+      </div>
+      {initial && (
+        <div className="mt-1 flex items-center gap-2 text-xs text-gray-500">
+          <span className="truncate">{t('refine.active', { text: initial })}</span>
+          <button
+            type="button"
+            onClick={() => void submit('')}
+            disabled={disabled}
+            className="shrink-0 underline hover:text-gray-900 disabled:opacity-60"
+          >
+            {t('refine.clear')}
+          </button>
+        </div>
+      )}
+    </form>
+  );
+}
@@ -1,15 +1,59 @@
 'use client';
 
-import { useEffect } from 'react';
+import { useEffect, useRef, useState } from 'react';
+import { useI18n } from '@/app/_components/I18nProvider';
 
 export default function RegisterSW() {
+  const { t } = useI18n();
+  // Neuer Worker ist installiert und wartet, bis die alte Version alle Tabs freigibt
+  const [waiting, setWaiting] = useState<ServiceWorker | null>(null);
+  const reloadingRef = useRef(false);
+
   useEffect(() => {
-    if ('serviceWorker' in navigator) {
-      navigator.serviceWorker
-        .register('/sw.js')
-        .catch((err) => console.error('SW registration failed:', err));
-    }
+    if (!('serviceWorker' in navigator)) return;
+    const sw = navigator.serviceWorker;
+
+    const track = (reg: ServiceWorkerRegistration) => {
+      if (reg.waiting && sw.controller) setWaiting(reg.waiting);
+      reg.addEventListener('updatefound', () => {
+        const installing = reg.installing;
+        installing?.addEventListener('statechange', () => {
+          // Ohne controller ist es die Erstinstallation – dann gibt es nichts zu aktualisieren
+          if (installing.state === 'installed' && sw.controller) setWaiting(installing);
+        });
+      });
+    };
+
+    const onControllerChange = () => {
+      if (!reloadingRef.current) return;
+      window.location.reload();
+    };
+    sw.addEventListener('controllerchange', onControllerChange);
+
+    sw.register('/sw.js')
+      .then(track)
+      .catch((err) => console.error('SW registration failed:', err));
+
+    return () => sw.removeEventListener('controllerchange', onControllerChange);
   }, []);
 
-  return null;
+  if (!waiting) return null;
+
+  return (
+    <div className="fixed bottom-4 left-1/2 z-[60] flex -translate-x-1/2 items-center gap-3 rounded-xl bg-gray-900 px-4 py-3 text-sm text-white shadow-lg">
+      <span>{t('sw.updateAvailable')}</span>
+      <button
+        onClick={() => {
+          reloadingRef.current = true;
+          waiting.postMessage({ type: 'SKIP_WAITING' });
+        }}
+        className="rounded-lg bg-white px-3 py-1 font-medium text-gray-900 hover:bg-gray-100"
+      >
+        {t('sw.reload')}
+      </button>
+      <button onClick={() => setWaiting(null)} className="px-1 text-white/70 hover:text-white" title={t('sw.later')}>
+        ×
+      </button>
+    </div>
+  );
 }
@@ -0,0 +1,101 @@
+'use client';
+/* eslint-disable @next/next/no-img-element */
+
+import Link from 'next/link';
+import type { ReactNode } from 'react';
+import { useI18n } from '@/app/_components/I18nProvider';
+import OutboundLink from '@/app/_components/OutboundLink';
+import type { Hit } from '@/lib/api/types';
+import type { PriceInfo } from '@/lib/currency/currency';
+import { fmtPrice } from '@/lib/format';
+import { labelName } from '@/lib/i18n/labels';
+
+export const labelClass = (label: string) =>
+  label === 'Exact'
+    ? 'bg-emerald-100 text-emerald-700'
+    : label === 'Sehr ähnlich'
+    ? 'bg-amber-100 text-amber-700'
+    : 'bg-gray-100 text-gray-700';
+
+/**
+ * Eine Trefferkarte. `actions` liegt oben rechts über dem Bild (z. B. Herz), `badge`
+ * oben links (z. B. Auf/Ab nach Feedback), `children` kommt unter den Shop-Link.
+ * Mit `href` führen Bild und Titel zur Detailseite.
+ */
+export default function ResultCard({
+  hit: r,
+  actions,
+  badge,
+  children,
+  href,
+  className = '',
+}: {
+  hit: Hit & Partial<PriceInfo>;
+  actions?: ReactNode;
+  badge?: ReactNode;
+  children?: ReactNode;
+  href?: string;
+  className?: string;
+}) {
+  const { t, intl } = useI18n();
+  const title = r.title ?? t('common.product', { id: r.product_id });
+  const image = (
+    <div className="aspect-[4/3] w-full overflow-hidden rounded-lg bg-gray-100">
+      {r.image_url ? (
+        <img
+          src={r.image_url}
+          alt={title}
+          className="h-full w-full object-cover transition-transform duration-300 group-hover:scale-105"
+        />
+      ) : null}
+    </div>
+  );
+
+  return (
+    <li className={`group relative rounded-2xl border bg-white p-4 shadow-sm transition hover:shadow-md ${className}`}>
+      {/* Bild und Titel führen zum selben Ziel – per Tastatur reicht der Titel */}
+      {href ? <Link href={href} className="block" tabIndex={-1} aria-hidden>{image}</Link> : image}
+      {actions && <div className="absolute right-6 top-6 flex gap-1">{actions}</div>}
+      {badge && <div className="absolute left-6 top-6">{badge}</div>}
+
+      <div className="mt-3">
+        <div className="flex items-center justify-between gap-3">
+          <h3 className="text-[15px] font-medium text-gray-900 line-clamp-2">
+            {href ? <Link href={href} className="hover:underline" data-grid-focus>{title}</Link> : title}
+          </h3>
+          <span className={`rounded-full px-2 py-0.5 text-xs ${labelClass(r.label)}`}>
+            <span aria-hidden>{labelName(r.label, t)}</span>
+            <span className="sr-only">{t('common.labelSr', { label: labelName(r.label, t) })}</span>
+          </span>
+        </div>
+
+        <div className="mt-1 text-sm text-gray-700">
+          {r.merchant ? `${r.merchant} • ` : ''}
+          {fmtPrice(r.price, r.currency ?? 'EUR', { original: r.original, locale: intl })}
+          {r.unknownCurrency && (
+            <span
+              className="ml-2 rounded-full bg-amber-100 px-2 py-0.5 text-xs text-amber-700"
+              title={t('price.unknownCurrencyHint')}
+            >
+              {t('price.unknownCurrency')}
+              <span className="sr-only"> – {t('price.unknownCurrencyHint')}</span>
+            </span>
+          )}
+        </div>
+        <div className="mt-2 text-xs text-gray-500">
+          <span aria-hidden>{t('common.score', { score: Number.isFinite(r.score) ? r.score.toFixed(3) : '-' })}</span>
+          <span className="sr-only">
+            {Number.isFinite(r.score) ? t('common.scoreSr', { percent: Math.round(r.score * 100) }) : t('common.scoreUnknownSr')}
+          </span>
+        </div>
+
+        {r.deeplink && (
+          <OutboundLink href={r.deeplink} hit={r} source="card" className="mt-2 inline-block text-sm text-blue-600 underline">
+            {t('common.toShop')}
+          </OutboundLink>
+        )}
+        {children}
+      </div>
+    </li>
+  );
+}
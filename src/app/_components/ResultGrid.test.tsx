@@ -0,0 +1,78 @@
+import { fireEvent, render, screen } from '@testing-library/react';
+import axe from 'axe-core';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import I18nProvider from './I18nProvider';
+import ResultGrid from './ResultGrid';
+
+const COLUMNS = 3;
+// Kontraste braucht echtes Layout – jsdom rechnet keins
+const AXE = { rules: { 'color-contrast': { enabled: false } } };
+
+/** Karten wie ResultCard: Bildlink ohne Tab-Stopp, Titel-Link als Ziel, dazu ein Eingabefeld. */
+function Grid({ count }: { count: number }) {
+  return (
+    <I18nProvider locale="de">
+      <ResultGrid label="Ergebnisse">
+        {Array.from({ length: count }, (_, i) => (
+          <li key={i}>
+            <a href={`/p/${i}`} tabIndex={-1} aria-hidden>Bild {i}</a>
+            <h3><a href={`/p/${i}`} data-grid-focus>Karte {i}</a></h3>
+            <input type="checkbox" aria-label={`Vergleichen ${i}`} />
+          </li>
+        ))}
+      </ResultGrid>
+    </I18nProvider>
+  );
+}
+
+const card = (i: number) => screen.getByRole('link', { name: `Karte ${i}` });
+const press = (key: string, opts: { shiftKey?: boolean } = {}) => fireEvent.keyDown(document.activeElement!, { key, ...opts });
+
+describe('ResultGrid', () => {
+  beforeEach(() => {
+    // jsdom rechnet kein Layout – Zeilen nach Position in der Liste vortäuschen
+    vi.spyOn(HTMLElement.prototype, 'offsetTop', 'get').mockImplementation(function (this: HTMLElement) {
+      const index = this.parentElement ? [...this.parentElement.children].indexOf(this) : 0;
+      return Math.floor(index / COLUMNS) * 300;
+    });
+  });
+  afterEach(() => vi.restoreAllMocks());
+
+  it('wechselt mit Pfeilen, Pos1 und Ende zum Titel der Nachbarkarte', () => {
+    render(<Grid count={7} />);
+    card(1).focus();
+
+    press('ArrowRight');
+    expect(document.activeElement).toBe(card(2));
+    press('ArrowDown');
+    expect(document.activeElement).toBe(card(5));
+    press('ArrowDown');
+    // Unter Karte 5 gibt es keine mehr – Fokus bleibt
+    expect(document.activeElement).toBe(card(5));
+    press('Home');
+    expect(document.activeElement).toBe(card(0));
+    press('End');
+    expect(document.activeElement).toBe(card(6));
+    press('ArrowUp');
+    expect(document.activeElement).toBe(card(3));
+  });
+
+  it('lässt Eingabefelder und Tasten mit Umschalt in Ruhe', () => {
+    render(<Grid count={4} />);
+    const checkbox = screen.getByRole('checkbox', { name: 'Vergleichen 0' });
+    checkbox.focus();
+    press('ArrowRight');
+    expect(document.activeElement).toBe(checkbox);
+
+    card(0).focus();
+    press('ArrowRight', { shiftKey: true });
+    expect(document.activeElement).toBe(card(0));
+  });
+
+  it('ist beschriftet und ohne axe-Verstöße', async () => {
+    const { container } = render(<Grid count={4} />);
+    const list = screen.getByRole('list', { name: 'Ergebnisse' });
+    expect(document.getElementById(list.getAttribute('aria-describedby')!)?.textContent).toBeTruthy();
+    expect((await axe.run(container, AXE)).violations).toEqual([]);
+  });
+});
@@ -0,0 +1,51 @@
+'use client';
+
+import { useId, type ReactNode } from 'react';
+import { useI18n } from '@/app/_components/I18nProvider';
+import { columnsOf, gridTarget } from '@/lib/a11y/gridNav';
+
+/**
+ * Raster der Trefferkarten (ResultCard). Steht der Fokus auf einem Link einer Karte,
+ * wechseln Pfeiltasten, Pos1 und Ende zur Nachbarkarte – dort auf deren Titel-Link.
+ * Eingabefelder in den Karten behalten ihre Tasten.
+ */
+export default function ResultGrid({
+  label,
+  className = '',
+  children,
+}: {
+  label: string;
+  className?: string;
+  children: ReactNode;
+}) {
+  const { t } = useI18n();
+  const hintId = useId();
+
+  const onKeyDown = (e: React.KeyboardEvent<HTMLUListElement>) => {
+    if (e.altKey || e.ctrlKey || e.metaKey || e.shiftKey) return;
+    const from = e.target as HTMLElement;
+    if (from.tagName !== 'A') return;
+    const items = [...e.currentTarget.children] as HTMLElement[];
+    const index = items.findIndex((li) => li.contains(from));
+    if (index < 0) return;
+    const next = gridTarget(index, e.key, columnsOf(items), items.length);
+    if (next === null) return;
+    e.preventDefault();
+    const card = items[next];
+    (card.querySelector<HTMLElement>('[data-grid-focus]') ?? card.querySelector<HTMLElement>('a[href]'))?.focus();
+  };
+
+  return (
+    <>
+      <p id={hintId} className="sr-only">{t('common.resultsKeyboard')}</p>
+      <ul
+        aria-label={label}
+        aria-describedby={hintId}
+        onKeyDown={onKeyDown}
+        className={`grid gap-6 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 ${className}`}
+      >
+        {children}
+      </ul>
+    </>
+  );
+}
@@ -0,0 +1,54 @@
+'use client';
+
+import { badgeText } from '@/app/_components/FilterBadges';
+import { useI18n } from '@/app/_components/I18nProvider';
+import OfferList from '@/app/_components/OfferList';
+import ResultCard from '@/app/_components/ResultCard';
+import ResultGrid from '@/app/_components/ResultGrid';
+import type { Hit } from '@/lib/api/types';
+import { convertHits } from '@/lib/currency/currency';
+import { useCurrency } from '@/lib/currency/useCurrency';
+import { groupOffers } from '@/lib/grouping';
+import { dedupeHits, filterBadges, filterHits, sortHits } from '@/lib/results';
+import type { ViewState } from '@/lib/viewState';
+
+/** Ergebnisteil eines geteilten Links – im Browser, damit die Anzeigewährung des Betrachters gilt. */
+export default function SharedResults({ results, view }: { results: Hit[]; view: ViewState }) {
+  const { table, display } = useCurrency();
+  const { t } = useI18n();
+  const all = dedupeHits(results);
+  const offers = filterHits(convertHits(all, table, display), view.filters);
+  const shown = sortHits(groupOffers(offers), view.sortBy);
+  const badges = filterBadges(view.filters);
+
+  return (
+    <section>
+      <div className="mb-4 flex flex-wrap items-start justify-between gap-3">
+        <h2 className="text-lg font-semibold text-gray-900">
+          {t('common.results')}{' '}
+          <span className="ml-2 text-sm font-normal text-gray-500">
+            {t('common.resultCounts', { groups: shown.length, shown: offers.length, total: all.length })}
+          </span>
+        </h2>
+        <div className="flex flex-wrap items-center gap-2 text-xs text-gray-600">
+          {badges.map((b) => (
+            <span key={b.key} className="rounded-full border px-3 py-1">{badgeText(b, t)}</span>
+          ))}
+          <span className="rounded-full border px-3 py-1">{t('sort.sorted', { sort: t(`sort.${view.sortBy}`) })}</span>
+        </div>
+      </div>
+
+      {shown.length ? (
+        <ResultGrid label={t('common.results')}>
+          {shown.map((r) => (
+            <ResultCard key={r.groupKey} hit={r}>
+              <OfferList group={r} />
+            </ResultCard>
+          ))}
+        </ResultGrid>
+      ) : (
+        <div className="rounded-xl border bg-white p-6 text-center text-gray-600">{t('common.noResults')}</div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,48 @@
+'use client';
+
+import Link from 'next/link';
+import type { ReactNode } from 'react';
+import { ConsentToggle } from '@/app/_components/ConsentBanner';
+import CurrencySelect from '@/app/_components/CurrencySelect';
+import { useI18n } from '@/app/_components/I18nProvider';
+import LocaleSelect from '@/app/_components/LocaleSelect';
+import { useWatches } from '@/lib/watches/useWatches';
+
+/** Kopfzeile aller Seiten; rechts seitenspezifische Aktionen. */
+export default function SiteHeader({ children }: { children?: ReactNode }) {
+  const { t, href } = useI18n();
+  const { watches, unseen } = useWatches();
+  return (
+    <header className="sticky top-0 z-40 border-b bg-white/80 backdrop-blur">
+      <div className="container mx-auto flex h-16 w-full max-w-screen-2xl items-center justify-between px-6">
+        <Link href={href('/')} className="flex items-center gap-2 text-lg font-semibold">
+          <span>👕</span>
+          <span>CloFind</span>
+        </Link>
+        <div className="flex items-center gap-2">
+          <ConsentToggle />
+          <LocaleSelect />
+          <CurrencySelect />
+          <Link href={href('/favorites')} className="rounded-xl px-3 py-2 text-sm font-medium hover:bg-gray-50">
+            {t('header.favorites')}
+          </Link>
+          {watches.length > 0 && (
+            <Link
+              href={href('/alerts')}
+              className="relative rounded-xl px-3 py-2 text-sm font-medium hover:bg-gray-50"
+              aria-label={unseen ? t('header.alertsUnseen', { count: unseen }) : undefined}
+            >
+              {t('header.alerts')}
+              {unseen > 0 && (
+                <span className="absolute -right-1 -top-1 min-w-5 rounded-full bg-red-600 px-1.5 text-center text-xs leading-5 text-white" aria-hidden>
+                  {unseen}
+                </span>
+              )}
+            </Link>
+          )}
+          {children}
+        </div>
+      </div>
+    </header>
+  );
+}
@@ -0,0 +1,31 @@
+'use client';
+
+import { useI18n } from '@/app/_components/I18nProvider';
+import { SORT_KEYS, type SortKey } from '@/lib/results';
+
+export default function SortSelect({
+  value,
+  onChange,
+  id = 'sort',
+}: {
+  value: SortKey;
+  onChange: (v: SortKey) => void;
+  id?: string;
+}) {
+  const { t } = useI18n();
+  return (
+    <div className="flex items-center gap-2">
+      <label htmlFor={id} className="text-sm text-gray-600">{t('sort.label')}</label>
+      <select
+        id={id}
+        value={value}
+        onChange={(e: React.ChangeEvent<HTMLSelectElement>) => onChange(e.target.value as SortKey)}
+        className="rounded-xl border px-3 py-1.5 text-sm"
+      >
+        {SORT_KEYS.map((k) => (
+          <option key={k} value={k}>{t(`sort.${k}`)}</option>
+        ))}
+      </select>
+    </div>
+  );
+}
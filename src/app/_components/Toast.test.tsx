@@ -0,0 +1,30 @@
+import { render, screen } from '@testing-library/react';
+import axe from 'axe-core';
+import { describe, expect, it } from 'vitest';
+import { Toast } from './Toast';
+
+// Kontraste braucht echtes Layout – jsdom rechnet keins
+const AXE = { rules: { 'color-contrast': { enabled: false } } };
+
+describe('Toast', () => {
+  it('hält beide Live-Regionen auch ohne Meldung im DOM', async () => {
+    const { container } = render(<Toast msg={null} type="info" />);
+    expect(screen.getByRole('status').textContent).toBe('');
+    expect(screen.getByRole('alert').textContent).toBe('');
+    expect((await axe.run(container, AXE)).violations).toEqual([]);
+  });
+
+  it('meldet Hinweise höflich', () => {
+    render(<Toast msg="Gespeichert" type="ok" />);
+    expect(screen.getByRole('status').textContent).toBe('Gespeichert');
+    expect(screen.getByRole('status').getAttribute('aria-live')).toBe('polite');
+    expect(screen.getByRole('alert').textContent).toBe('');
+  });
+
+  it('meldet Fehler sofort', () => {
+    render(<Toast msg="Suche fehlgeschlagen" type="err" />);
+    expect(screen.getByRole('alert').textContent).toBe('Suche fehlgeschlagen');
+    expect(screen.getByRole('alert').getAttribute('aria-live')).toBe('assertive');
+    expect(screen.getByRole('status').textContent).toBe('');
+  });
+});
@@ -0,0 +1,37 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+/* ---------------- Tiny Toaster ---------------- */
+
+export type ToastType = 'ok' | 'err' | 'info';
+
+export function useToaster() {
+  const [msg, setMsg] = useState<string | null>(null);
+  const [type, setType] = useState<ToastType>('info');
+  const timerRef = useRef<number | undefined>(undefined);
+  const show = useCallback((m: string, t: ToastType = 'info', ms = 2200) => {
+    setMsg(m); setType(t);
+    if (timerRef.current) window.clearTimeout(timerRef.current);
+    timerRef.current = window.setTimeout(() => setMsg(null), ms);
+  }, []);
+  useEffect(() => () => { if (timerRef.current) window.clearTimeout(timerRef.current); }, []);
+  return { msg, type, show };
+}
+
+export type ShowToast = ReturnType<typeof useToaster>['show'];
+
+/**
+ * Immer rendern, auch ohne Meldung: Screenreader lesen nur Änderungen in Live-Regionen vor,
+ * die schon vorher im DOM standen. Fehler kommen sofort (alert), alles andere höflich (status).
+ */
+export function Toast({ msg, type }: { msg: string | null; type: ToastType }) {
+  const colors = type === 'ok' ? 'bg-emerald-600' : type === 'err' ? 'bg-red-600' : 'bg-gray-900';
+  const bubble = msg && <div className={`${colors} text-white px-4 py-2 rounded-lg shadow`}>{msg}</div>;
+  return (
+    <div className="pointer-events-none fixed left-1/2 top-4 z-[60] -translate-x-1/2">
+      <div role="status" aria-live="polite" aria-atomic="true">{type !== 'err' && bubble}</div>
+      <div role="alert" aria-live="assertive" aria-atomic="true">{type === 'err' && bubble}</div>
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+'use client';
+
+import { useId, useState } from 'react';
+import { useI18n } from '@/app/_components/I18nProvider';
+import type { ShowToast } from '@/app/_components/Toast';
+import type { Hit } from '@/lib/api/types';
+import { originalHit } from '@/lib/currency/currency';
+import { fmtPrice } from '@/lib/format';
+import { useWatches } from '@/lib/watches/useWatches';
+import { defaultTarget, watchKey, type PriceWatch } from '@/lib/watches/watches';
+
+/**
+ * Beobachten und Beenden mit Rückmeldung per Toast. Gespeichert wird der Shop-Preis;
+ * gemeldet wird per Service Worker, falls Benachrichtigungen erlaubt sind.
+ */
+export function useWatchActions(show: ShowToast) {
+  const { t } = useI18n();
+  const { watchOf, watch: add, remove } = useWatches();
+
+  const watch = async (h: Hit, target: number) => {
+    try {
+      await add(originalHit(h), target);
+      show(t('watch.added'), 'ok', 1600);
+      if (typeof Notification !== 'undefined' && Notification.permission === 'default') {
+        void Notification.requestPermission().catch(() => {});
+      }
+    } catch {
+      show(t('watch.failed'), 'err');
+    }
+  };
+
+  const stop = async (h: Hit) => {
+    try {
+      await remove(watchKey(h));
+      show(t('watch.removed'), 'info', 1400);
+    } catch {
+      show(t('watch.failed'), 'err');
+    }
+  };
+
+  return { watchOf, watch, stop };
+}
+
+/**
+ * „Preis beobachten“ unter einer Trefferkarte: fragt nach dem Zielpreis (in der
+ * Währung des Shops) und zeigt danach, ab welchem Preis gemeldet wird.
+ */
+export default function WatchButton({
+  hit,
+  watch,
+  onWatch,
+  onStop,
+}: {
+  /** Mit Shop-Preis (nicht umgerechnet) – so wird auch geprüft. */
+  hit: Hit;
+  watch: PriceWatch | undefined;
+  onWatch: (target: number) => void;
+  onStop: () => void;
+}) {
+  const { t, intl } = useI18n();
+  const id = useId();
+  const [editing, setEditing] = useState(false);
+  const [target, setTarget] = useState('');
+  const currency = hit.currency ?? 'EUR';
+
+  const open = () => {
+    setTarget(String(watch?.target ?? defaultTarget(hit.price)));
+    setEditing(true);
+  };
+  const value = Number(target.replace(',', '.'));
+  const valid = target.trim() !== '' && Number.isFinite(value) && value > 0;
+
+  if (editing) {
+    return (
+      <form
+        className="mt-3 rounded-lg border bg-gray-50 p-2"
+        onSubmit={(e: React.FormEvent) => {
+          e.preventDefault();
+          if (!valid) return;
+          onWatch(value);
+          setEditing(false);
+        }}
+      >
+        <label htmlFor={id} className="text-xs text-gray-700">{t('watch.targetLabel', { currency })}</label>
+        <div className="mt-1 flex gap-2">
+          <input
+            id={id}
+            type="number"
+            inputMode="decimal"
+            min="0"
+            step="0.01"
+            value={target}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setTarget(e.target.value)}
+            className="w-24 rounded-lg border px-2 py-1 text-sm"
+            autoFocus
+          />
+          <button type="submit" disabled={!valid} className="rounded-lg bg-black px-3 py-1 text-xs font-medium text-white disabled:opacity-60">
+            {t('watch.save')}
+          </button>
+          <button type="button" onClick={() => setEditing(false)} className="rounded-lg border px-2 py-1 text-xs hover:bg-white">
+            {t('watch.cancel')}
+          </button>
+        </div>
+      </form>
+    );
+  }
+
+  if (watch) {
+    return (
+      <div className="mt-3 flex items-center gap-2 text-xs">
+        <button type="button" onClick={open} className="flex-1 rounded-lg border border-amber-400 bg-amber-50 px-2 py-1 text-left text-amber-800">
+          <span aria-hidden>🔔</span> {t('watch.watching', { price: fmtPrice(watch.target, currency, { locale: intl }) })}
+        </button>
+        <button type="button" onClick={onStop} className="rounded-lg border px-2 py-1 hover:bg-gray-50">
+          {t('watch.stop')}
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <button type="button" onClick={open} className="mt-3 w-full rounded-lg border px-2 py-1 text-xs hover:bg-gray-50">
+      <span aria-hidden>🔔</span> {t('watch.action')}
+    </button>
+  );
+}
@@ -0,0 +1,235 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, type RefObject } from 'react';
+import { useI18n } from '@/app/_components/I18nProvider';
+import type { ShowToast } from '@/app/_components/Toast';
+import {
+  createSearchClient, filterKey, isAbortError, isApiError, parseSearchResponse, type SearchFilters, type SearchResponse,
+} from '@/lib/api';
+import { track } from '@/lib/analytics/analytics';
+import { useCurrency } from '@/lib/currency/useCurrency';
+import { notePricesSeen } from '@/lib/favorites/favorites';
+import {
+  SEARCH_QUEUE_MESSAGE, enqueueSearch, isOfflineError, listQueuedSearches, removeQueuedSearch, replayQueue,
+  requestBackgroundSync,
+} from '@/lib/offline/searchQueue';
+import type { PatchRegion, Region, RegionPage, RegionSearchSpec } from '@/lib/regions';
+import { PAGE_SIZE, dedupeHits, toSearchFilters } from '@/lib/results';
+
+/** Blätter-Zustand aus der Antwort; ohne `search_id` kann das Backend nicht weiterblättern. */
+function pageOf(data: SearchResponse, filters: SearchFilters): RegionPage | null {
+  if (!data.search_id) return null;
+  return { searchId: data.search_id, nextOffset: data.next_offset ?? null, total: data.total ?? null, filterKey: filterKey(filters) };
+}
+
+/**
+ * Suchen der Bereiche einer Bild-Sitzung. Ein Client pro Seite: eine neue Suche bricht die
+ * vorherige desselben Bereichs ab. Offline eingereihte Suchen finden nach dem Wiederverbinden
+ * (Service Worker oder online-Event) in ihre Bereiche zurück.
+ */
+export function useRegionSearch({
+  sessionId,
+  regionsRef,
+  patch,
+  show,
+  demoHeaders,
+}: {
+  sessionId: string | null;
+  /** Aktueller Stand für Callbacks, die nicht bei jeder Änderung neu entstehen. */
+  regionsRef: RefObject<Region[]>;
+  patch: PatchRegion;
+  show: ShowToast;
+  demoHeaders: Record<string, string>;
+}) {
+  const { locale, t, errorText } = useI18n();
+  const currency = useCurrency();
+
+  const client = useMemo(() => createSearchClient({ headers: demoHeaders }), [demoHeaders]);
+  useEffect(() => () => client.cancel(), [client]);
+
+  /** Seite ab `offset` ohne neuen Upload; hat der Proxy die Suche vergessen (Ablauf, Neustart), einmal neu hochladen. */
+  const fetchPage = useCallback(
+    async (r: Region, page: RegionPage, offset: number, filters: SearchFilters): Promise<SearchResponse> => {
+      try {
+        return await client.more(page.searchId, { key: r.id, offset, filters });
+      } catch (e: unknown) {
+        if (!(isApiError(e) && e.kind === 'not-found') || !r.blob) throw e;
+        const first = await client.search(r.blob, { key: r.id, filters, query: r.query, feedback: r.feedback });
+        if (offset === 0 || !first.search_id) return first;
+        return client.more(first.search_id, { key: r.id, offset, filters });
+      }
+    },
+    [client]
+  );
+
+  /** Offline: Suche für später einreihen; der Service Worker (oder das online-Event) holt sie nach. */
+  const enqueue = useCallback(async (id: string, payload: Blob, spec: RegionSearchSpec) => {
+    await enqueueSearch({
+      sessionId,
+      regionId: id,
+      regionName: regionsRef.current.find((r) => r.id === id)?.name ?? t('regions.fallbackName'),
+      blob: payload,
+      query: spec.query,
+      feedback: spec.feedback,
+      headers: demoHeaders,
+      locale,
+    });
+    patch(id, { loading: false, error: null, queued: true, results: [] });
+    void requestBackgroundSync();
+    // Nur fragen, solange noch nicht entschieden – für die Meldung bei geschlossenem Tab
+    if (typeof Notification !== 'undefined' && Notification.permission === 'default') {
+      void Notification.requestPermission().catch(() => {});
+    }
+  }, [sessionId, regionsRef, demoHeaders, patch, locale, t]);
+
+  /**
+   * Sucht für einen Bereich (Filter, Textverfeinerung und Feedback gehen gleich ans Backend);
+   * liefert die Trefferzahl, null wenn abgelöst, 'queued' wenn offline eingereiht.
+   * Nur Feedback-Suchen geben `feedbackState` mit – jede andere Suche vergleicht nicht mehr mit früher.
+   */
+  const search = useCallback(async (
+    id: string,
+    payload: Blob,
+    spec: RegionSearchSpec,
+    feedbackState: Pick<Region, 'rankBefore' | 'feedbackUndo'> = { rankBefore: null, feedbackUndo: [] }
+  ): Promise<number | null | 'queued'> => {
+    if (!navigator.onLine) {
+      await enqueue(id, payload, spec);
+      return 'queued';
+    }
+    patch(id, { loading: true, loadingMore: false, error: null, queued: false });
+    try {
+      const filters = toSearchFilters(spec.filters, currency.display);
+      const data = await client.search(payload, { key: id, filters, query: spec.query, feedback: spec.feedback });
+      patch(id, {
+        results: data.results, page: pageOf(data, filters), loading: false, visibleCount: PAGE_SIZE, ...feedbackState,
+      });
+      void notePricesSeen(data.results).catch(() => {});
+      return data.results.length;
+    } catch (e: unknown) {
+      // Von einer neueren Suche abgelöst → deren Zustand nicht überschreiben
+      if (isAbortError(e)) return null;
+      // Verbindung während der Suche verloren
+      if (isOfflineError(e)) {
+        await enqueue(id, payload, spec);
+        return 'queued';
+      }
+      patch(id, { error: errorText(e), loading: false });
+      throw e;
+    }
+  }, [client, patch, enqueue, errorText, currency.display]);
+
+  /**
+   * Nächste Seite anhängen (`refilter`: erste Seite mit den aktuellen Filtern ersetzen).
+   * Beides nutzt die gemerkte Suche – das Bild wird dafür nicht erneut hochgeladen.
+   */
+  const loadPage = useCallback(async (id: string, refilter = false) => {
+    const r = regionsRef.current.find((x) => x.id === id);
+    const page = r?.page;
+    if (!r || !page || r.loading || r.loadingMore || !navigator.onLine) return;
+    const offset = refilter ? 0 : page.nextOffset;
+    if (offset === null) return;
+    const filters = toSearchFilters(r.filters, currency.display);
+    patch(id, { loadingMore: true });
+    try {
+      const data = await fetchPage(r, page, offset, filters);
+      patch(id, (cur) => ({
+        results: refilter ? data.results : dedupeHits([...cur.results, ...data.results]),
+        page: pageOf(data, filters),
+        loadingMore: false,
+      }));
+      void notePricesSeen(data.results).catch(() => {});
+    } catch (e: unknown) {
+      patch(id, { loadingMore: false });
+      if (!isAbortError(e)) show(errorText(e), 'err', 2600);
+    }
+  }, [regionsRef, fetchPage, patch, show, errorText, currency.display]);
+
+  /** Fertige Suchen aus der Warteschlange in die passenden Bereiche übernehmen. */
+  const applyQueued = useCallback(async () => {
+    const items = await listQueuedSearches().catch(() => []);
+    let hits = 0;
+    let applied = 0;
+    for (const q of items) {
+      // Bereiche anderer Sitzungen bleiben liegen, bis diese wieder geöffnet werden
+      if (!regionsRef.current.some((r) => r.id === q.regionId)) continue;
+      if (q.status === 'pending') {
+        patch(q.regionId, { queued: true });
+        continue;
+      }
+      await removeQueuedSearch(q.id).catch(() => {});
+      const parsed = q.status === 'done' ? parseSearchResponse({ results: q.results }) : q.error ?? t('upload.toast.queuedFailed');
+      if (typeof parsed === 'string') {
+        patch(q.regionId, { queued: false, error: parsed });
+        continue;
+      }
+      patch(q.regionId, { queued: false, error: null, results: parsed.results, page: null, visibleCount: PAGE_SIZE });
+      void notePricesSeen(parsed.results).catch(() => {});
+      hits += parsed.results.length;
+      applied++;
+    }
+    if (applied) show(t('upload.toast.queuedDone', { count: hits }), 'ok', 3000);
+  }, [regionsRef, patch, show, t]);
+
+  // Wieder online: ohne Background Sync selbst nachholen, danach Ergebnisse übernehmen
+  useEffect(() => {
+    const onOnline = async () => {
+      if (!(await requestBackgroundSync())) {
+        await replayQueue(async (q) => (await client.search(q.blob, { key: q.regionId, query: q.query, feedback: q.feedback })).results).catch(() => 0);
+        await applyQueued();
+      }
+    };
+    const onMessage = (ev: MessageEvent) => {
+      if ((ev.data as { type?: unknown } | null)?.type === SEARCH_QUEUE_MESSAGE) void applyQueued();
+    };
+    window.addEventListener('online', onOnline);
+    navigator.serviceWorker?.addEventListener('message', onMessage);
+    return () => {
+      window.removeEventListener('online', onOnline);
+      navigator.serviceWorker?.removeEventListener('message', onMessage);
+    };
+  }, [client, applyQueued]);
+
+  // Sitzung geöffnet (z. B. über die Benachrichtigung): liegen gebliebene Ergebnisse übernehmen
+  useEffect(() => {
+    if (sessionId) void applyQueued();
+  }, [sessionId, applyQueued]);
+
+  return { client, search, loadPage };
+}
+
+/**
+ * Seiten eines Bereichs: erst den Vorrat an Gruppen zeigen und, bevor er ausgeht, die nächste
+ * Seite vom Backend holen. Geänderte Filter (oder die Anzeigewährung beim Preisfilter) gehen
+ * nach kurzer Pause als neue erste Seite ans Backend.
+ */
+export function useRegionPaging(
+  region: Region | null,
+  groups: number,
+  { loadPage, patch }: { loadPage: (id: string, refilter?: boolean) => Promise<void>; patch: PatchRegion }
+) {
+  const currency = useCurrency();
+  const id = region?.id ?? null;
+  const visibleCount = region?.visibleCount ?? PAGE_SIZE;
+  const nextOffset = region?.page?.nextOffset ?? null;
+
+  // Kurz warten, bis fertig getippt ist
+  const filtersKey = region ? filterKey(toSearchFilters(region.filters, currency.display)) : null;
+  const pageFilterKey = region?.page?.filterKey ?? null;
+  const busy = Boolean(region?.loading || region?.loadingMore);
+  useEffect(() => {
+    if (!id || busy || pageFilterKey === null || pageFilterKey === filtersKey) return;
+    const timer = window.setTimeout(() => void loadPage(id, true), 400);
+    return () => window.clearTimeout(timer);
+  }, [id, busy, filtersKey, pageFilterKey, loadPage]);
+
+  const showMore = () => {
+    if (!id) return;
+    const fromBackend = visibleCount + PAGE_SIZE >= groups && nextOffset !== null;
+    track({ type: 'load_more', shown: visibleCount, backend: fromBackend });
+    if (visibleCount < groups) patch(id, (r) => ({ visibleCount: r.visibleCount + PAGE_SIZE }));
+    if (fromBackend) void loadPage(id);
+  };
+
+  return { nextOffset, canLoadMore: visibleCount < groups || nextOffset !== null, showMore };
+}
@@ -0,0 +1,36 @@
+import { seedFromBytes } from '@/lib/demo/fixtures';
+import { demoPreamble } from '@/lib/demo/respond';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/** Stand-in für /detect: typische Outfit-Aufteilung, je Bild leicht verschoben. */
+
+const BASE_BOXES = [
+  { label: 'top', score: 0.93, x: 0.26, y: 0.14, width: 0.48, height: 0.32 },
+  { label: 'trousers', score: 0.86, x: 0.3, y: 0.44, width: 0.4, height: 0.4 },
+  { label: 'shoes', score: 0.74, x: 0.3, y: 0.84, width: 0.4, height: 0.12 },
+  { label: 'bag', score: 0.58, x: 0.66, y: 0.4, width: 0.22, height: 0.2 },
+];
+
+export async function POST(req: Request) {
+  const { scenario, response } = await demoPreamble(req);
+  if (response) return response;
+  // „Endpoint fehlt“ soll auch hier den Fallback auf die Standard-Box zeigen
+  if (scenario === 'fallback-404') return new Response('Not Found', { status: 404 });
+  if (scenario === 'bad-response') return Response.json({ boxes: 'kaputt' });
+  if (scenario === 'empty') return Response.json({ boxes: [] });
+
+  const form = await req.formData();
+  const file = form.get('file');
+  const seed = file instanceof Blob ? seedFromBytes(new Uint8Array(await file.arrayBuffer())) : 0;
+  const shift = ((seed % 7) - 3) / 100;
+
+  return Response.json({
+    boxes: BASE_BOXES.map((b, i) => ({
+      ...b,
+      x: Number((b.x + shift).toFixed(3)),
+      score: Number((b.score - ((seed >> i) % 5) / 100).toFixed(2)),
+    })),
+  });
+}
@@ -0,0 +1,13 @@
+import { demoImageSvg } from '@/lib/demo/fixtures';
+
+export const runtime = 'nodejs';
+
+/** Platzhalter-Produktbilder für den Demo-Modus. */
+export async function GET(_req: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const svg = demoImageSvg(Number.parseInt(id, 10));
+  if (!svg) return new Response('Not Found', { status: 404 });
+  return new Response(svg, {
+    headers: { 'Content-Type': 'image/svg+xml', 'Cache-Control': 'public, max-age=86400' },
+  });
+}
@@ -0,0 +1,15 @@
+import { readPriceIds } from '@/lib/api/prices';
+import { demoPrices } from '@/lib/demo/fixtures';
+import { demoPreamble } from '@/lib/demo/respond';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/** Stand-in für GET /prices?ids= des Backends – die Preise schwanken, damit Preisalarme auslösen. */
+export async function GET(req: Request) {
+  const { response } = await demoPreamble(req);
+  if (response) return response;
+
+  const ids = readPriceIds(new URL(req.url).searchParams.get('ids'));
+  return Response.json({ prices: demoPrices(ids) });
+}
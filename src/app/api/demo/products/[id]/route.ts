@@ -0,0 +1,15 @@
+import { demoProduct } from '@/lib/demo/fixtures';
+import { demoPreamble } from '@/lib/demo/respond';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/** Stand-in für GET /products/{id} des Backends. */
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { response } = await demoPreamble(req);
+  if (response) return response;
+
+  const product = demoProduct(Number((await params).id));
+  if (!product) return new Response('Not Found', { status: 404 });
+  return Response.json(product);
+}
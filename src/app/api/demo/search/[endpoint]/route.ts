@@ -0,0 +1,34 @@
+import { DEFAULT_TOPK, readFeedbackParams, readFilterParams, readQueryParam } from '@/lib/api/search';
+import { demoHits, seedFromBytes } from '@/lib/demo/fixtures';
+import { demoPreamble } from '@/lib/demo/respond';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Stand-in für die Upload-Endpoints des Python-Backends
+ * (/search/by-upload-db und /search/image). Wird vom Proxy genutzt,
+ * wenn keine API-Basis konfiguriert ist.
+ */
+
+const ENDPOINTS = ['by-upload-db', 'image'] as const;
+
+export async function POST(req: Request, { params }: { params: Promise<{ endpoint: string }> }) {
+  const { endpoint } = await params;
+  if (!(ENDPOINTS as readonly string[]).includes(endpoint)) return new Response('Not Found', { status: 404 });
+
+  const { scenario, response } = await demoPreamble(req);
+  if (response) return response;
+  if (scenario === 'fallback-404' && endpoint === 'by-upload-db') return new Response('Not Found', { status: 404 });
+  if (scenario === 'bad-response') return Response.json({ results: [{ product_id: 'kaputt', score: null }] });
+
+  const form = await req.formData();
+  const file = form.get('file');
+  const topk = Number.parseInt(String(form.get('topk') ?? DEFAULT_TOPK), 10) || DEFAULT_TOPK;
+  if (scenario === 'empty' || !(file instanceof Blob)) return Response.json({ results: [] });
+
+  // Wie das Backend: Filter schon bei der Suche anwenden, damit gefilterte Ansichten voll werden
+  const filters = readFilterParams(form);
+  const seed = seedFromBytes(new Uint8Array(await file.arrayBuffer()));
+  return Response.json({ results: demoHits(seed, topk, filters, readQueryParam(form), readFeedbackParams(form)) });
+}
@@ -0,0 +1,19 @@
+import { DEFAULT_TOPK } from '@/lib/api/search';
+import { demoSimilar } from '@/lib/demo/fixtures';
+import { demoPreamble } from '@/lib/demo/respond';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/** Stand-in für GET /search/by-product/{id}?topk= des Backends. */
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { scenario, response } = await demoPreamble(req);
+  if (response) return response;
+  if (scenario === 'bad-response') return Response.json({ results: [{ product_id: 'kaputt', score: null }] });
+  if (scenario === 'empty') return Response.json({ results: [] });
+
+  const topk = Number.parseInt(new URL(req.url).searchParams.get('topk') ?? '', 10) || DEFAULT_TOPK;
+  const results = demoSimilar(Number((await params).id), topk);
+  if (!results) return new Response('Not Found', { status: 404 });
+  return Response.json({ results });
+}
@@ -0,0 +1,42 @@
+import { detectGarments } from '@/lib/api/detect';
+import { isDemoMode } from '@/lib/api/http';
+import { DEMO_TIMEOUT_MS, forwardDemoHeaders } from '@/lib/demo/scenario';
+import { demoBaseUrl, serverEnv } from '@/lib/server/env';
+import { RateLimiter, clientKey } from '@/lib/server/rateLimit';
+import { apiErrorResponse, errorJson } from '@/lib/server/respond';
+import { readImageUpload } from '@/lib/server/upload';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Proxy für die Kleidungserkennung. Hat das Backend keinen /detect-Endpoint,
+ * kommt ein 404 zurück und der Browser bleibt bei der Standard-Box.
+ */
+
+const limiter = new RateLimiter(serverEnv.rateLimitPerMinute, 60_000);
+
+export async function POST(req: Request) {
+  const rl = limiter.check(clientKey(req.headers));
+  if (!rl.ok) {
+    return errorJson('http', 'Zu viele Anfragen – bitte kurz warten.', 429, { 'Retry-After': String(rl.retryAfterSec) });
+  }
+
+  const upload = await readImageUpload(req);
+  if (!upload.ok) return upload.response;
+
+  try {
+    const data = isDemoMode()
+      ? await detectGarments(upload.file, {
+          baseUrl: demoBaseUrl(),
+          headers: forwardDemoHeaders(req.headers),
+          timeoutMs: DEMO_TIMEOUT_MS,
+          retries: 0,
+          signal: req.signal,
+        })
+      : await detectGarments(upload.file, { timeoutMs: 10_000, retries: 1, signal: req.signal });
+    return Response.json(data);
+  } catch (e) {
+    return apiErrorResponse(e);
+  }
+}
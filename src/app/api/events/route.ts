@@ -0,0 +1,47 @@
+import { parseTrackedEvent, type TrackedEvent } from '@/lib/analytics/events';
+import { serverEnv } from '@/lib/server/env';
+import { EVENTS_MAX_BATCH, appendEvents } from '@/lib/server/eventLog';
+import { RateLimiter, clientKey } from '@/lib/server/rateLimit';
+import { errorJson } from '@/lib/server/respond';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Nimmt Nutzungs-Events an (einzeln oder als Liste, meist per sendBeacon) und hängt sie
+ * ans Log. Nur bekannte Typen und Felder landen dort; der Zeitpunkt kommt vom Server.
+ */
+
+const MAX_BODY_BYTES = 16 * 1024;
+const limiter = new RateLimiter(serverEnv.eventsRateLimitPerMinute, 60_000);
+
+export async function POST(req: Request) {
+  const rl = limiter.check(clientKey(req.headers));
+  if (!rl.ok) {
+    return errorJson('http', 'Zu viele Events – bitte kurz warten.', 429, { 'Retry-After': String(rl.retryAfterSec) });
+  }
+
+  const body = await req.text();
+  if (body.length > MAX_BODY_BYTES) return errorJson('http', 'Zu viele Events auf einmal.', 413);
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(body);
+  } catch {
+    return errorJson('http', 'Ungültige Events.', 400);
+  }
+  const events = (Array.isArray(raw) ? raw : [raw])
+    .slice(0, EVENTS_MAX_BATCH)
+    .map(parseTrackedEvent)
+    .filter((e): e is TrackedEvent => e !== null)
+    .map((e) => ({ ...e, ts: Date.now() }));
+  if (!events.length) return errorJson('http', 'Keine gültigen Events.', 400);
+
+  try {
+    await appendEvents(events);
+    return new Response(null, { status: 204 });
+  } catch (e) {
+    console.error('Events konnten nicht gespeichert werden:', e);
+    return errorJson('http', 'Events konnten nicht gespeichert werden.', 500);
+  }
+}
@@ -0,0 +1,35 @@
+import { serverEnv } from '@/lib/server/env';
+import { RateLimiter, clientKey } from '@/lib/server/rateLimit';
+import { fetchRemoteImage } from '@/lib/server/remoteImage';
+import { apiErrorResponse, errorJson } from '@/lib/server/respond';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/** Lädt ein Bild per URL serverseitig, damit der Browser nicht an CORS scheitert. */
+
+const limiter = new RateLimiter(serverEnv.rateLimitPerMinute, 60_000);
+
+export async function POST(req: Request) {
+  const rl = limiter.check(clientKey(req.headers));
+  if (!rl.ok) {
+    return errorJson('http', 'Zu viele Anfragen – bitte kurz warten.', 429, { 'Retry-After': String(rl.retryAfterSec) });
+  }
+
+  let url: unknown;
+  try {
+    ({ url } = (await req.json()) as { url?: unknown });
+  } catch {
+    return errorJson('http', 'Ungültige Anfrage.', 400);
+  }
+  if (typeof url !== 'string' || !url.trim()) return errorJson('http', 'Bitte eine Bild-URL angeben.', 400);
+
+  try {
+    const { bytes, type } = await fetchRemoteImage(url.trim());
+    return new Response(new Blob([bytes as BlobPart], { type }), {
+      headers: { 'Content-Type': type, 'Cache-Control': 'no-store' },
+    });
+  } catch (e) {
+    return apiErrorResponse(e);
+  }
+}
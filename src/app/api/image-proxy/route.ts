@@ -0,0 +1,43 @@
+import { serverEnv } from '@/lib/server/env';
+import { RateLimiter, clientKey } from '@/lib/server/rateLimit';
+import { fetchImageOnly } from '@/lib/server/remoteImage';
+import { apiErrorResponse, errorJson } from '@/lib/server/respond';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Liefert Trefferbilder vom eigenen Origin aus, damit der Browser ihre Pixel lesen darf
+ * (Farbanalyse – Shop-CDNs senden selten CORS-Header). Nur für unsere eigenen Seiten:
+ * fremde Seiten sollen den Server nicht als offenen Bild-Proxy benutzen.
+ */
+
+const limiter = new RateLimiter(serverEnv.imageProxyRateLimitPerMinute, 60_000);
+
+export async function GET(req: Request) {
+  const site = req.headers.get('sec-fetch-site');
+  if (site && site !== 'same-origin') return errorJson('http', 'Nur für eigene Seiten.', 403);
+
+  const rl = limiter.check(clientKey(req.headers));
+  if (!rl.ok) {
+    return errorJson('http', 'Zu viele Anfragen – bitte kurz warten.', 429, { 'Retry-After': String(rl.retryAfterSec) });
+  }
+
+  const url = new URL(req.url).searchParams.get('url')?.trim();
+  if (!url) return errorJson('http', 'Bitte eine Bild-URL angeben.', 400);
+
+  try {
+    const { bytes, type } = await fetchImageOnly(url, serverEnv.imageProxyMaxBytes);
+    return new Response(new Blob([bytes as BlobPart], { type }), {
+      headers: {
+        'Content-Type': type,
+        // Produktbilder ändern sich selten – der Browser-Cache spart den zweiten Abruf
+        'Cache-Control': 'private, max-age=86400',
+        'Cross-Origin-Resource-Policy': 'same-origin',
+        'X-Content-Type-Options': 'nosniff',
+      },
+    });
+  } catch (e) {
+    return apiErrorResponse(e);
+  }
+}
@@ -0,0 +1,80 @@
+import { cookies } from 'next/headers';
+import { parseTrackedEvent } from '@/lib/analytics/events';
+import { LOCALE_COOKIE } from '@/lib/i18n/config';
+import { createI18n, resolveLocale } from '@/lib/i18n/i18n';
+import { appendEvents } from '@/lib/server/eventLog';
+import { errorJson } from '@/lib/server/respond';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Klick in einen Shop: zählt ihn (für die Affiliate-Zuordnung) und leitet weiter.
+ * Direkt weitergeleitet wird nur, wenn der Klick von unseren eigenen Seiten kommt –
+ * sonst wäre das ein offener Redirect. Fremde Aufrufe bekommen eine Zwischenseite.
+ */
+
+function targetUrl(raw: string | null): URL | null {
+  if (!raw) return null;
+  try {
+    const u = new URL(raw);
+    return u.protocol === 'http:' || u.protocol === 'https:' ? u : null;
+  } catch {
+    return null;
+  }
+}
+
+function fromOwnPage(req: Request): { ok: boolean; path: string } {
+  const host = req.headers.get('x-forwarded-host') ?? req.headers.get('host');
+  let referer: URL | null = null;
+  try {
+    referer = new URL(req.headers.get('referer') ?? '');
+  } catch {
+    // Kein oder kaputter Referer – dann entscheidet Sec-Fetch-Site allein
+  }
+  const sameSite = req.headers.get('sec-fetch-site');
+  const ok = sameSite ? sameSite === 'same-origin' : Boolean(referer && host && referer.host === host);
+  return { ok, path: ok && referer ? referer.pathname : '' };
+}
+
+const escapeHtml = (s: string) =>
+  s.replace(/[&<>"']/g, (c) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[c]!);
+
+async function interstitial(target: URL): Promise<Response> {
+  const locale = resolveLocale((await cookies()).get(LOCALE_COOKIE)?.value ?? '');
+  const { t } = createI18n(locale);
+  const html = `<!doctype html>
+<html lang="${locale}"><head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="robots" content="noindex"><title>${escapeHtml(t('outbound.title'))}</title></head>
+<body style="font-family:system-ui,sans-serif;max-width:32rem;margin:4rem auto;padding:0 1.5rem;color:#111827">
+<h1 style="font-size:1.25rem">${escapeHtml(t('outbound.title'))}</h1>
+<p>${escapeHtml(t('outbound.body', { host: target.host }))}</p>
+<p><a href="${escapeHtml(target.href)}" rel="noopener noreferrer" style="color:#2563eb">${escapeHtml(t('outbound.continue', { host: target.host }))}</a></p>
+</body></html>`;
+  return new Response(html, { headers: { 'Content-Type': 'text/html; charset=utf-8', 'Cache-Control': 'no-store' } });
+}
+
+export async function GET(req: Request) {
+  const q = new URL(req.url).searchParams;
+  const target = targetUrl(q.get('url'));
+  if (!target) return errorJson('http', 'Ungültiger Link.', 400);
+
+  const origin = fromOwnPage(req);
+  if (!origin.ok) return interstitial(target);
+
+  const event = parseTrackedEvent({
+    type: 'outbound_click',
+    product_id: Number(q.get('pid')),
+    merchant: q.get('m'),
+    source: q.get('src'),
+    session: q.get('s'),
+    path: origin.path || q.get('p'),
+  });
+  try {
+    if (event) await appendEvents([event]);
+  } catch (e) {
+    // Der Shop-Besuch ist wichtiger als die Zählung
+    console.error('Klick konnte nicht gezählt werden:', e);
+  }
+  return new Response(null, { status: 302, headers: { Location: target.href, 'Cache-Control': 'no-store' } });
+}
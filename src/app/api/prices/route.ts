@@ -0,0 +1,70 @@
+import { ApiError } from '@/lib/api/errors';
+import { isDemoMode } from '@/lib/api/http';
+import { MAX_PRICE_IDS, fetchPrices, readPriceIds, type PricesOptions } from '@/lib/api/prices';
+import { fetchProduct } from '@/lib/api/product';
+import type { PriceQuote } from '@/lib/api/types';
+import { DEMO_TIMEOUT_MS, forwardDemoHeaders } from '@/lib/demo/scenario';
+import { demoBaseUrl, serverEnv } from '@/lib/server/env';
+import { RateLimiter, clientKey } from '@/lib/server/rateLimit';
+import { apiErrorResponse, errorJson } from '@/lib/server/respond';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Aktuelle Preise für die Preisbeobachtung im Browser. Hat das Backend kein
+ * /prices, kommen die Angebote aus /products/{id} – langsamer, aber genauso gut.
+ */
+
+const limiter = new RateLimiter(serverEnv.pricesRateLimitPerMinute, 60_000);
+
+function backendOptions(req: Request): PricesOptions {
+  if (!isDemoMode()) return { timeoutMs: 10_000, retries: 1, signal: req.signal };
+  return {
+    baseUrl: demoBaseUrl(),
+    headers: forwardDemoHeaders(req.headers),
+    timeoutMs: DEMO_TIMEOUT_MS,
+    retries: 0,
+    signal: req.signal,
+  };
+}
+
+/** Fallback: Angebote je Produkt; unbekannte Produkte fehlen einfach in der Antwort. */
+async function pricesFromProducts(ids: number[], opts: PricesOptions): Promise<PriceQuote[]> {
+  const settled = await Promise.allSettled(ids.map((id) => fetchProduct(id, opts)));
+  // Nur wenn gar nichts ging, ist es ein Fehler
+  const errors = settled.flatMap((s) => (s.status === 'rejected' ? [s.reason as unknown] : []));
+  const real = errors.find((e) => !(e instanceof ApiError && e.kind === 'not-found'));
+  if (real && errors.length === settled.length) throw real;
+  return settled.flatMap((s) =>
+    s.status === 'fulfilled'
+      ? s.value.offers.map((o) => ({
+          product_id: s.value.product_id, price: o.price, currency: o.currency, merchant: o.merchant, deeplink: o.deeplink,
+        }))
+      : []
+  );
+}
+
+export async function GET(req: Request) {
+  const rl = limiter.check(clientKey(req.headers));
+  if (!rl.ok) {
+    return errorJson('http', 'Zu viele Anfragen – bitte kurz warten.', 429, { 'Retry-After': String(rl.retryAfterSec) });
+  }
+
+  const ids = readPriceIds(new URL(req.url).searchParams.get('ids'));
+  if (!ids.length) return errorJson('http', `Bitte 1 bis ${MAX_PRICE_IDS} Produkt-IDs angeben.`, 400);
+
+  const opts = backendOptions(req);
+  try {
+    let prices: PriceQuote[];
+    try {
+      prices = await fetchPrices(ids, opts);
+    } catch (e) {
+      if (!(e instanceof ApiError && e.kind === 'not-found')) throw e;
+      prices = await pricesFromProducts(ids, opts);
+    }
+    return Response.json({ prices }, { headers: { 'Cache-Control': 'no-store' } });
+  } catch (e) {
+    return apiErrorResponse(e);
+  }
+}
@@ -0,0 +1,32 @@
+import { isDemoMode } from '@/lib/api/http';
+import { fetchProduct } from '@/lib/api/product';
+import { DEMO_TIMEOUT_MS, forwardDemoHeaders } from '@/lib/demo/scenario';
+import { demoBaseUrl } from '@/lib/server/env';
+import { apiErrorResponse, errorJson } from '@/lib/server/respond';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Proxy für die Produktdetails. Hat das Backend kein /products/{id}, kommt
+ * ein 404 zurück und die Detailseite zeigt, was der Browser schon kennt.
+ */
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  const id = Number((await params).id);
+  if (!Number.isSafeInteger(id) || id < 0) return errorJson('http', 'Ungültige Produkt-ID.', 400);
+
+  try {
+    const data = isDemoMode()
+      ? await fetchProduct(id, {
+          baseUrl: demoBaseUrl(),
+          headers: forwardDemoHeaders(req.headers),
+          timeoutMs: DEMO_TIMEOUT_MS,
+          retries: 0,
+          signal: req.signal,
+        })
+      : await fetchProduct(id, { timeoutMs: 10_000, retries: 1, signal: req.signal });
+    return Response.json(data);
+  } catch (e) {
+    return apiErrorResponse(e);
+  }
+}
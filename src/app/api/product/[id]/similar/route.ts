@@ -0,0 +1,76 @@
+import { ApiError } from '@/lib/api/errors';
+import { isDemoMode } from '@/lib/api/http';
+import { searchByProduct } from '@/lib/api/product';
+import { DEFAULT_TOPK, searchByUpload } from '@/lib/api/search';
+import type { SearchResponse } from '@/lib/api/types';
+import { DEMO_TIMEOUT_MS, forwardDemoHeaders } from '@/lib/demo/scenario';
+import { demoBaseUrl, serverEnv } from '@/lib/server/env';
+import { RateLimiter, clientKey } from '@/lib/server/rateLimit';
+import { fetchRemoteImage } from '@/lib/server/remoteImage';
+import { apiErrorResponse, errorJson } from '@/lib/server/respond';
+import { TtlCache } from '@/lib/server/ttlCache';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * „Mehr davon“ für ein Produkt. Bevorzugt /search/by-product/{id} im Backend;
+ * fehlt der Endpoint (404), wird das Produktbild geladen und per Upload gesucht.
+ */
+
+const cache = new TtlCache<SearchResponse>(serverEnv.cacheMaxEntries, serverEnv.cacheTtlMs);
+const limiter = new RateLimiter(serverEnv.rateLimitPerMinute, 60_000);
+
+function parseTopk(v: string | null): number {
+  const n = v ? Number.parseInt(v, 10) : NaN;
+  return Number.isFinite(n) ? Math.min(100, Math.max(1, n)) : DEFAULT_TOPK;
+}
+
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  const rl = limiter.check(clientKey(req.headers));
+  if (!rl.ok) {
+    return errorJson('http', 'Zu viele Suchen – bitte kurz warten.', 429, { 'Retry-After': String(rl.retryAfterSec) });
+  }
+
+  const id = Number((await params).id);
+  if (!Number.isSafeInteger(id) || id < 0) return errorJson('http', 'Ungültige Produkt-ID.', 400);
+  const url = new URL(req.url);
+  const topk = parseTopk(url.searchParams.get('topk'));
+  const imageUrl = url.searchParams.get('image_url');
+
+  // Demo-Modus: ohne Cache, damit Latenz und injizierte Fehler jedes Mal greifen
+  if (isDemoMode()) {
+    try {
+      const data = await searchByProduct(id, {
+        topk,
+        baseUrl: demoBaseUrl(),
+        headers: forwardDemoHeaders(req.headers),
+        timeoutMs: DEMO_TIMEOUT_MS,
+        retries: 1,
+        signal: req.signal,
+      });
+      return Response.json(data, { headers: { 'X-Demo': '1' } });
+    } catch (e) {
+      return apiErrorResponse(e);
+    }
+  }
+
+  const key = `${id}:${topk}`;
+  const cached = cache.get(key);
+  if (cached) return Response.json(cached, { headers: { 'X-Cache': 'HIT' } });
+
+  try {
+    let data: SearchResponse;
+    try {
+      data = await searchByProduct(id, { topk, signal: req.signal });
+    } catch (e) {
+      if (!(e instanceof ApiError && e.kind === 'not-found') || !imageUrl) throw e;
+      const { bytes, type } = await fetchRemoteImage(imageUrl);
+      data = await searchByUpload(new Blob([bytes as BlobPart], { type }), { topk, signal: req.signal });
+    }
+    cache.set(key, data);
+    return Response.json(data, { headers: { 'X-Cache': 'MISS' } });
+  } catch (e) {
+    return apiErrorResponse(e);
+  }
+}
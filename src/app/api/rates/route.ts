@@ -0,0 +1,34 @@
+import { ApiError } from '@/lib/api/errors';
+import type { RateTable } from '@/lib/api/types';
+import { fetchRateTable } from '@/lib/api/rates';
+import { STATIC_RATES } from '@/lib/currency/currency';
+import { serverEnv } from '@/lib/server/env';
+import { TtlCache } from '@/lib/server/ttlCache';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const cache = new TtlCache<RateTable>(1, serverEnv.ratesTtlMs);
+const CACHE_CONTROL = 'public, max-age=3600';
+
+/**
+ * Kurstabelle für die Anzeigewährung. Mit RATES_URL vom Backend (gecacht),
+ * sonst – oder wenn das Backend nicht antwortet – die mitgelieferte rates.json.
+ */
+export async function GET(req: Request) {
+  const url = serverEnv.ratesUrl;
+  if (!url) return Response.json(STATIC_RATES, { headers: { 'Cache-Control': CACHE_CONTROL } });
+
+  const cached = cache.get(url);
+  if (cached) return Response.json(cached, { headers: { 'Cache-Control': CACHE_CONTROL, 'X-Cache': 'HIT' } });
+
+  try {
+    const table = await fetchRateTable(url, { timeoutMs: 5_000, retries: 1, signal: req.signal });
+    cache.set(url, table);
+    return Response.json(table, { headers: { 'Cache-Control': CACHE_CONTROL, 'X-Cache': 'MISS' } });
+  } catch (e) {
+    console.warn('Kurstabelle nicht geladen, nutze rates.json:', e instanceof ApiError ? `${e.kind} ${e.status ?? ''}` : e);
+    // Kurz cachen, damit der nächste Aufruf es erneut versucht
+    return Response.json(STATIC_RATES, { headers: { 'Cache-Control': 'public, max-age=60' } });
+  }
+}
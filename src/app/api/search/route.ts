@@ -0,0 +1,183 @@
+import { createHash } from 'node:crypto';
+import { ApiError } from '@/lib/api/errors';
+import { isDemoMode } from '@/lib/api/http';
+import {
+  DEFAULT_TOPK, MAX_SEARCH_DEPTH, feedbackParams, fetchSearchPage, filterKey, readFeedbackParams, readFilterParams,
+  readQueryParam, searchByUpload, type SearchFeedback, type SearchOptions,
+} from '@/lib/api/search';
+import type { SearchResponse } from '@/lib/api/types';
+import { DEMO_TIMEOUT_MS, forwardDemoHeaders } from '@/lib/demo/scenario';
+import { demoBaseUrl, serverEnv } from '@/lib/server/env';
+import { RateLimiter, clientKey } from '@/lib/server/rateLimit';
+import { apiErrorResponse, errorJson } from '@/lib/server/respond';
+import { TtlCache } from '@/lib/server/ttlCache';
+import { readImageUpload } from '@/lib/server/upload';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Proxy für die Bildsuche: Der Browser spricht nur noch mit /api/search,
+ * Backend-URL und Endpoint-Fallback bleiben serverseitig. Gleiche Crops
+ * (gleicher Inhalt + Text + Feedback + topk + Filter) kommen aus dem Cache, statt neu eingebettet zu werden.
+ *
+ * POST lädt den Crop hoch und liefert die erste Seite samt `search_id`. GET blättert
+ * weiter (oder filtert neu) – über /search/page des Backends, sonst mit dem hier
+ * gemerkten Crop und größerem topk. Der Browser lädt das Bild dafür nicht erneut hoch.
+ */
+
+const cache = new TtlCache<SearchResponse>(serverEnv.cacheMaxEntries, serverEnv.cacheTtlMs);
+const inflight = new Map<string, Promise<SearchResponse>>();
+const limiter = new RateLimiter(serverEnv.rateLimitPerMinute, 60_000);
+
+/** Gemerkte Crops je `search_id` (Hash von Inhalt, Text und Feedback) und die Such-ID des Backends, falls es eine liefert. */
+type SearchSession = {
+  bytes: Buffer;
+  type: string;
+  query: string | undefined;
+  feedback: SearchFeedback | undefined;
+  backendId: string | null;
+};
+// Crops können bis maxUploadBytes groß sein – daher auch über die Summe der Bytes begrenzt
+const sessions = new TtlCache<SearchSession>(serverEnv.cacheMaxEntries, serverEnv.cacheTtlMs, {
+  maxSize: serverEnv.sessionCacheMaxBytes,
+  sizeOf: (s) => s.bytes.byteLength,
+});
+
+function parseTopk(v: FormDataEntryValue | null): number {
+  const n = typeof v === 'string' ? Number.parseInt(v, 10) : NaN;
+  return Number.isFinite(n) ? Math.min(100, Math.max(1, n)) : DEFAULT_TOPK;
+}
+
+function parseOffset(v: string | null): number | null {
+  const n = v ? Number.parseInt(v, 10) : NaN;
+  return Number.isFinite(n) && n >= 0 && n < MAX_SEARCH_DEPTH ? n : null;
+}
+
+/**
+ * Demo-Modus: das Stand-in-Backend unter /api/demo, ohne Cache (Latenz und Fehler sollen jedes Mal greifen).
+ * Sonst ohne req.signal – der Backend-Aufruf wird ggf. von mehreren Anfragen geteilt.
+ */
+function backendOptions(req: Request): SearchOptions {
+  if (!isDemoMode()) return {};
+  return {
+    baseUrl: demoBaseUrl(),
+    headers: forwardDemoHeaders(req.headers),
+    timeoutMs: DEMO_TIMEOUT_MS,
+    retries: 1,
+    signal: req.signal,
+  };
+}
+
+/**
+ * Antwort an den Browser: immer unsere `search_id`. Ohne Angabe des Backends gibt es
+ * eine weitere Seite, solange die Seite voll war und die Maximaltiefe nicht erreicht ist.
+ */
+function withPage(data: SearchResponse, searchId: string, offset: number, topk: number): SearchResponse {
+  const end = offset + topk;
+  const guessed = data.results.length >= topk && end < MAX_SEARCH_DEPTH ? end : null;
+  const next = data.next_offset !== undefined ? data.next_offset : guessed;
+  return {
+    results: data.results,
+    search_id: searchId,
+    next_offset: next !== null && next < MAX_SEARCH_DEPTH ? next : null,
+    total: data.total ?? null,
+  };
+}
+
+/** Parallele identische Anfragen teilen sich einen Backend-Aufruf; Ergebnisse landen im Cache. */
+async function cached(key: string, demo: boolean, load: () => Promise<SearchResponse>): Promise<[SearchResponse, boolean]> {
+  if (demo) return [await load(), false];
+  const hit = cache.get(key);
+  if (hit) return [hit, true];
+  let pending = inflight.get(key);
+  if (!pending) {
+    pending = load();
+    inflight.set(key, pending);
+  }
+  const data = await pending.finally(() => inflight.delete(key));
+  cache.set(key, data);
+  return [data, false];
+}
+
+const cacheHeaders = (demo: boolean, hit: boolean): HeadersInit => (demo ? { 'X-Demo': '1' } : { 'X-Cache': hit ? 'HIT' : 'MISS' });
+
+function rateLimited(req: Request): Response | null {
+  const rl = limiter.check(clientKey(req.headers));
+  if (rl.ok) return null;
+  return errorJson('http', 'Zu viele Suchen – bitte kurz warten.', 429, { 'Retry-After': String(rl.retryAfterSec) });
+}
+
+export async function POST(req: Request) {
+  const limited = rateLimited(req);
+  if (limited) return limited;
+
+  const upload = await readImageUpload(req);
+  if (!upload.ok) return upload.response;
+  const { form, file } = upload;
+
+  const topk = parseTopk(form.get('topk'));
+  const filters = readFilterParams(form);
+  const query = readQueryParam(form);
+  const feedback = readFeedbackParams(form);
+  const demo = isDemoMode();
+
+  const bytes = Buffer.from(await file.arrayBuffer());
+  // Gleiches Bild mit anderem Text oder Feedback ist eine andere Suche
+  const searchId = createHash('sha256')
+    .update(bytes)
+    .update(`\0${query ?? ''}\0${new URLSearchParams(feedbackParams(feedback))}`)
+    .digest('hex');
+
+  try {
+    const [data, hit] = await cached(`${searchId}:0:${topk}:${filterKey(filters)}`, demo, () =>
+      searchByUpload(new Blob([bytes], { type: file.type }), { ...backendOptions(req), topk, filters, query, feedback })
+    );
+    // Bei jedem Upload auffrischen – auch nach einem Cache-Treffer soll weiterblättern gehen
+    const known = sessions.get(searchId);
+    sessions.set(searchId, { bytes, type: file.type, query, feedback, backendId: data.search_id ?? known?.backendId ?? null });
+    return Response.json(withPage(data, searchId, 0, topk), { headers: cacheHeaders(demo, hit) });
+  } catch (e) {
+    return apiErrorResponse(e);
+  }
+}
+
+export async function GET(req: Request) {
+  const limited = rateLimited(req);
+  if (limited) return limited;
+
+  const q = new URL(req.url).searchParams;
+  const searchId = q.get('search_id') ?? '';
+  const offset = parseOffset(q.get('offset'));
+  if (!/^[a-f0-9]{64}$/.test(searchId) || offset === null) return errorJson('http', 'Ungültige Seitenanfrage.', 400);
+  const topk = Math.min(parseTopk(q.get('topk')), MAX_SEARCH_DEPTH - offset);
+  const filters = readFilterParams(q);
+  const demo = isDemoMode();
+
+  const session = sessions.get(searchId);
+  if (!session) return errorJson('not-found', 'Suche abgelaufen – bitte erneut suchen.', 404);
+
+  try {
+    const [data, hit] = await cached(`${searchId}:${offset}:${topk}:${filterKey(filters)}`, demo, async () => {
+      const opts = { ...backendOptions(req), topk, filters };
+      if (session.backendId) {
+        try {
+          return await fetchSearchPage(session.backendId, { ...opts, offset });
+        } catch (e) {
+          // Backend kennt die Suche nicht (mehr) oder hat kein /search/page → gleiche Einbettung neu anfragen
+          if (!(e instanceof ApiError && e.kind === 'not-found')) throw e;
+        }
+      }
+      const all = await searchByUpload(new Blob([session.bytes as BlobPart], { type: session.type }), {
+        ...opts,
+        query: session.query,
+        feedback: session.feedback,
+        topk: offset + topk,
+      });
+      return { results: all.results.slice(offset), total: all.total };
+    });
+    return Response.json(withPage(data, searchId, offset, topk), { headers: cacheHeaders(demo, hit) });
+  } catch (e) {
+    return apiErrorResponse(e);
+  }
+}
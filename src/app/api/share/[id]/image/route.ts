@@ -0,0 +1,15 @@
+import { errorJson } from '@/lib/server/respond';
+import { loadShare } from '@/lib/server/shareStore';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/** Ausschnitt eines geteilten Links; Inhalte ändern sich nie → lange cachen. */
+export async function GET(_req: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const share = await loadShare(id);
+  if (!share) return errorJson('not-found', 'Link nicht gefunden.');
+  return new Response(Buffer.from(share.image.base64, 'base64'), {
+    headers: { 'Content-Type': share.image.type, 'Cache-Control': 'public, max-age=31536000, immutable' },
+  });
+}
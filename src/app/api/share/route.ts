@@ -0,0 +1,51 @@
+import { parseSearchResponse } from '@/lib/api/types';
+import { serverEnv } from '@/lib/server/env';
+import { RateLimiter, clientKey } from '@/lib/server/rateLimit';
+import { errorJson } from '@/lib/server/respond';
+import { SHARE_MAX_RESULTS, saveShare } from '@/lib/server/shareStore';
+import { readImageUpload } from '@/lib/server/upload';
+import { viewFromQuery, viewToQueryString } from '@/lib/viewState';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/** Speichert Ausschnitt + Treffer unter einer kurzen ID für /s/[id]. */
+
+const limiter = new RateLimiter(serverEnv.rateLimitPerMinute, 60_000);
+
+export async function POST(req: Request) {
+  const rl = limiter.check(clientKey(req.headers));
+  if (!rl.ok) {
+    return errorJson('http', 'Zu viele Anfragen – bitte kurz warten.', 429, { 'Retry-After': String(rl.retryAfterSec) });
+  }
+
+  const upload = await readImageUpload(req);
+  if (!upload.ok) return upload.response;
+  const { form, file } = upload;
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(String(form.get('results') ?? '[]'));
+  } catch {
+    return errorJson('http', 'Ungültige Treffer.', 400);
+  }
+  const parsed = parseSearchResponse({ results: raw });
+  if (typeof parsed === 'string') return errorJson('http', `Ungültige Treffer: ${parsed}`, 400);
+
+  const name = String(form.get('name') ?? '').trim().slice(0, 60) || 'Suche';
+  // Über den Parser normalisieren, damit nur bekannte Ansichts-Parameter gespeichert werden
+  const view = viewToQueryString(viewFromQuery(new URLSearchParams(String(form.get('view') ?? ''))));
+
+  try {
+    const share = await saveShare({
+      name,
+      image: { type: file.type, base64: Buffer.from(await file.arrayBuffer()).toString('base64') },
+      view,
+      results: parsed.results.slice(0, SHARE_MAX_RESULTS),
+    });
+    return Response.json({ id: share.id }, { status: 201 });
+  } catch (e) {
+    console.error('Teilen fehlgeschlagen:', e);
+    return errorJson('http', 'Link konnte nicht gespeichert werden.', 500);
+  }
+}
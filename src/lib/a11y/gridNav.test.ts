@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { columnsOf, gridTarget } from './gridNav';
+
+const row = (...tops: number[]) => tops.map((offsetTop) => ({ offsetTop }) as HTMLElement);
+
+describe('columnsOf', () => {
+  it('zählt die Einträge der ersten Zeile', () => {
+    expect(columnsOf(row(0, 0, 0, 0, 320, 320))).toBe(4);
+    expect(columnsOf(row(0, 320, 640))).toBe(1);
+  });
+
+  it('liefert mindestens eine Spalte', () => {
+    expect(columnsOf([])).toBe(1);
+  });
+});
+
+describe('gridTarget', () => {
+  // 10 Karten in 4 Spalten: die letzte Zeile hat nur zwei
+  const at = (index: number, key: string) => gridTarget(index, key, 4, 10);
+
+  it('folgt den Pfeilen wie auf dem Bildschirm', () => {
+    expect(at(3, 'ArrowRight')).toBe(4);
+    expect(at(4, 'ArrowLeft')).toBe(3);
+    expect(at(3, 'ArrowDown')).toBe(7);
+    expect(at(6, 'ArrowUp')).toBe(2);
+  });
+
+  it('bleibt am Rand stehen', () => {
+    expect(at(0, 'ArrowLeft')).toBe(0);
+    expect(at(9, 'ArrowRight')).toBe(9);
+    expect(at(2, 'ArrowUp')).toBe(2);
+    // Unter Spalte 3 gibt es in der letzten Zeile keine Karte mehr
+    expect(at(7, 'ArrowDown')).toBe(7);
+    expect(at(5, 'ArrowDown')).toBe(9);
+  });
+
+  it('springt mit Pos1 und Ende an Anfang und Ende', () => {
+    expect(at(5, 'Home')).toBe(0);
+    expect(at(5, 'End')).toBe(9);
+  });
+
+  it('ignoriert andere Tasten', () => {
+    expect(at(5, 'Enter')).toBeNull();
+    expect(at(5, 'x')).toBeNull();
+  });
+});
@@ -0,0 +1,32 @@
+/* ---------------- Tastatur im Trefferraster ---------------- */
+
+/** Spalten des Rasters, wie es gerade umbricht: so viele Einträge wie in der ersten Zeile. */
+export function columnsOf(items: readonly HTMLElement[]): number {
+  const top = items[0]?.offsetTop;
+  let n = 0;
+  while (n < items.length && items[n].offsetTop === top) n++;
+  return Math.max(1, n);
+}
+
+/**
+ * Ziel-Index für eine Taste: Pfeile wie auf dem Bildschirm, Pos1/Ende an den Anfang bzw.
+ * ans Ende. null = keine Rastertaste; am Rand bleibt es beim aktuellen Eintrag.
+ */
+export function gridTarget(index: number, key: string, columns: number, count: number): number | null {
+  switch (key) {
+    case 'ArrowRight':
+      return Math.min(count - 1, index + 1);
+    case 'ArrowLeft':
+      return Math.max(0, index - 1);
+    case 'ArrowDown':
+      return index + columns < count ? index + columns : index;
+    case 'ArrowUp':
+      return index - columns >= 0 ? index - columns : index;
+    case 'Home':
+      return 0;
+    case 'End':
+      return count - 1;
+    default:
+      return null;
+  }
+}
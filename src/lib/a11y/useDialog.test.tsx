@@ -0,0 +1,90 @@
+import { fireEvent, render, screen } from '@testing-library/react';
+import axe from 'axe-core';
+import type { ReactNode } from 'react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { useDialog } from './useDialog';
+
+// Kontraste braucht echtes Layout – jsdom rechnet keins
+const AXE = { rules: { 'color-contrast': { enabled: false } } };
+
+function Dialog({ name, onClose, children }: { name: string; onClose: () => void; children?: ReactNode }) {
+  const ref = useDialog<HTMLDivElement>(onClose);
+  return (
+    <div ref={ref} role="dialog" aria-label={name} tabIndex={-1}>
+      <button type="button">{name} A</button>
+      <button type="button">{name} B</button>
+      {children}
+    </div>
+  );
+}
+
+const key = (k: string, opts: { shiftKey?: boolean } = {}) => fireEvent.keyDown(document.activeElement ?? document.body, { key: k, ...opts });
+
+describe('useDialog', () => {
+  beforeEach(() => {
+    // jsdom rechnet kein Layout – alles gilt sonst als unsichtbar
+    vi.spyOn(Element.prototype, 'getClientRects').mockReturnValue([{}] as unknown as DOMRectList);
+  });
+  afterEach(() => vi.restoreAllMocks());
+
+  it('holt den Fokus in den Dialog und gibt ihn beim Schließen zurück', () => {
+    const { rerender } = render(<button type="button">Öffnen</button>);
+    const opener = screen.getByRole('button', { name: 'Öffnen' });
+    opener.focus();
+
+    rerender(<><button type="button">Öffnen</button><Dialog name="Vergleich" onClose={() => {}} /></>);
+    expect(document.activeElement).toBe(screen.getByRole('dialog'));
+
+    rerender(<button type="button">Öffnen</button>);
+    expect(document.activeElement).toBe(opener);
+  });
+
+  it('hält Tab im Dialog', () => {
+    render(<><button type="button">Draußen</button><Dialog name="Vergleich" onClose={() => {}} /></>);
+    const [first, last] = [screen.getByRole('button', { name: 'Vergleich A' }), screen.getByRole('button', { name: 'Vergleich B' })];
+
+    last.focus();
+    key('Tab');
+    expect(document.activeElement).toBe(first);
+
+    key('Tab', { shiftKey: true });
+    expect(document.activeElement).toBe(last);
+  });
+
+  it('schließt mit Escape nur den obersten Dialog', async () => {
+    const outer = vi.fn();
+    const inner = vi.fn();
+    const { rerender } = render(<Dialog name="Zuschneiden" onClose={outer} />);
+    rerender(<Dialog name="Zuschneiden" onClose={outer}><Dialog name="Vergleich" onClose={inner} /></Dialog>);
+    expect(document.activeElement).toBe(screen.getByRole('dialog', { name: 'Vergleich' }));
+    expect((await axe.run(document.body, AXE)).violations).toEqual([]);
+
+    key('Escape');
+    expect(inner).toHaveBeenCalledTimes(1);
+    expect(outer).not.toHaveBeenCalled();
+
+    rerender(<Dialog name="Zuschneiden" onClose={outer} />);
+    key('Escape');
+    expect(outer).toHaveBeenCalledTimes(1);
+    expect(inner).toHaveBeenCalledTimes(1);
+  });
+
+  it('hält Tab im obersten Dialog', () => {
+    const { rerender } = render(<Dialog name="Zuschneiden" onClose={() => {}} />);
+    rerender(<Dialog name="Zuschneiden" onClose={() => {}}><Dialog name="Vergleich" onClose={() => {}} /></Dialog>);
+    screen.getByRole('button', { name: 'Vergleich B' }).focus();
+    key('Tab');
+    expect(document.activeElement).toBe(screen.getByRole('button', { name: 'Vergleich A' }));
+  });
+
+  it('legt gleichzeitig geöffnete verschachtelte Dialoge richtig übereinander', () => {
+    const outer = vi.fn();
+    const inner = vi.fn();
+    render(<Dialog name="Zuschneiden" onClose={outer}><Dialog name="Vergleich" onClose={inner} /></Dialog>);
+    // Effekte laufen von innen nach außen – der Fokus bleibt trotzdem im inneren
+    expect(document.activeElement).toBe(screen.getByRole('dialog', { name: 'Vergleich' }));
+    key('Escape');
+    expect(inner).toHaveBeenCalledTimes(1);
+    expect(outer).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,71 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+
+const FOCUSABLE =
+  'a[href], button:not([disabled]), input:not([disabled]), select:not([disabled]), textarea:not([disabled]), [tabindex]:not([tabindex="-1"])';
+
+/** Offene Dialoge, zuletzt geöffneter oben – nur der reagiert auf Escape und Tab. */
+const openDialogs: HTMLElement[] = [];
+
+/** Sichtbare, per Tab erreichbare Elemente in Dokumentreihenfolge. */
+const focusables = (root: HTMLElement) =>
+  [...root.querySelectorAll<HTMLElement>(FOCUSABLE)].filter((el) => el.getClientRects().length > 0);
+
+/**
+ * Fokus für einen modalen Dialog: beim Öffnen hinein (auf `[data-autofocus]`, sonst den
+ * Dialog selbst – der braucht dafür tabIndex={-1}), Tab bleibt drinnen, Escape schließt,
+ * und beim Schließen geht der Fokus dorthin zurück, wo er vorher war. Liegen Dialoge
+ * übereinander, gilt das nur für den obersten.
+ * Ohne `open` (Dialog gerade nicht gerendert) passiert nichts.
+ */
+export function useDialog<T extends HTMLElement>(onClose: () => void, open = true) {
+  const ref = useRef<T | null>(null);
+  const closeRef = useRef(onClose);
+  useEffect(() => { closeRef.current = onClose; }, [onClose]);
+
+  useEffect(() => {
+    const el = ref.current;
+    if (!open || !el) return;
+    const before = document.activeElement instanceof HTMLElement ? document.activeElement : null;
+    // Gleichzeitig geöffnete verschachtelte Dialoge: Effekte laufen von innen nach außen,
+    // der äußere gehört trotzdem darunter und lässt dem inneren den Fokus
+    const inner = openDialogs.findIndex((d) => el.contains(d));
+    if (inner < 0) {
+      (el.querySelector<HTMLElement>('[data-autofocus]') ?? el).focus();
+      openDialogs.push(el);
+    } else {
+      openDialogs.splice(inner, 0, el);
+    }
+
+    const onKey = (ev: KeyboardEvent) => {
+      if (openDialogs[openDialogs.length - 1] !== el) return;
+      if (ev.key === 'Escape') {
+        ev.preventDefault();
+        closeRef.current();
+        return;
+      }
+      if (ev.key !== 'Tab') return;
+      const items = focusables(el);
+      const current = document.activeElement;
+      if (!items.length) {
+        ev.preventDefault();
+        el.focus();
+      } else if (ev.shiftKey && (current === items[0] || !items.includes(current as HTMLElement))) {
+        ev.preventDefault();
+        items[items.length - 1].focus();
+      } else if (!ev.shiftKey && (current === items[items.length - 1] || !items.includes(current as HTMLElement))) {
+        ev.preventDefault();
+        items[0].focus();
+      }
+    };
+    document.addEventListener('keydown', onKey);
+    return () => {
+      document.removeEventListener('keydown', onKey);
+      openDialogs.splice(openDialogs.indexOf(el), 1);
+      if (before?.isConnected) before.focus();
+    };
+  }, [open]);
+
+  return ref;
+}
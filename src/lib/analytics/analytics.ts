@@ -0,0 +1,101 @@
+import type { AnalyticsEvent, TrackedEvent } from './events';
+
+/* ---------------- Nutzungsstatistik im Browser: Einwilligung, Senke, track() ---------------- */
+
+/** Eigene Routen: Events sammeln (POST) und Klicks in Shops zählen (GET, leitet weiter). */
+export const EVENTS_PATH = '/api/events';
+export const OUTBOUND_PATH = '/api/out';
+
+export type SinkName = 'console' | 'beacon' | 'none';
+export type EventSink = (e: TrackedEvent) => void;
+
+const sinkFromEnv = (v?: string): SinkName => (v === 'console' || v === 'none' ? v : 'beacon');
+
+/** Wohin Events gehen: NEXT_PUBLIC_ANALYTICS_SINK=console|beacon|none (Standard: beacon). */
+export const ANALYTICS_SINK = sinkFromEnv(process.env.NEXT_PUBLIC_ANALYTICS_SINK?.trim());
+
+function beacon(e: TrackedEvent) {
+  const body = JSON.stringify(e);
+  // sendBeacon überlebt auch das Verlassen der Seite; sonst fetch mit keepalive
+  if (typeof navigator.sendBeacon === 'function' && navigator.sendBeacon(EVENTS_PATH, new Blob([body], { type: 'application/json' }))) return;
+  void fetch(EVENTS_PATH, { method: 'POST', body, headers: { 'Content-Type': 'application/json' }, keepalive: true }).catch(() => {});
+}
+
+const SINKS: Record<SinkName, EventSink> = {
+  console: (e) => console.info('[analytics]', e),
+  beacon,
+  none: () => {},
+};
+
+/* --------- Einwilligung (lokal gespeichert, tab-übergreifend synchron) --------- */
+
+export type Consent = 'granted' | 'denied';
+
+export const CONSENT_KEY = 'clofind:analytics-consent';
+export const CONSENT_EVENT = 'clofind:analytics-consent';
+const SESSION_KEY = 'clofind:analytics-session';
+
+/** null: noch nicht gefragt (oder keine Statistik konfiguriert → es wird nie gefragt). */
+export function readConsent(): Consent | null {
+  if (ANALYTICS_SINK === 'none' || typeof localStorage === 'undefined') return null;
+  try {
+    const v = localStorage.getItem(CONSENT_KEY);
+    return v === 'granted' || v === 'denied' ? v : null;
+  } catch {
+    return null;
+  }
+}
+
+export function writeConsent(c: Consent) {
+  try {
+    localStorage.setItem(CONSENT_KEY, c);
+  } catch {
+    // Privater Modus o. Ä. – gilt dann nur bis zum Neuladen
+  }
+  if (c === 'denied') {
+    try { sessionStorage.removeItem(SESSION_KEY); } catch { /* egal */ }
+  }
+  window.dispatchEvent(new Event(CONSENT_EVENT));
+}
+
+const tracking = () => readConsent() === 'granted';
+
+/* --------- Events --------- */
+
+/** Zufällige ID pro Tab – erst nach Einwilligung, nie über Tabs oder Besuche hinweg. */
+function sessionId(): string | null {
+  try {
+    let id = sessionStorage.getItem(SESSION_KEY);
+    if (!id) {
+      id = crypto.randomUUID();
+      sessionStorage.setItem(SESSION_KEY, id);
+    }
+    return id;
+  } catch {
+    return null;
+  }
+}
+
+/** Meldet ein Event an die konfigurierte Senke – ohne Einwilligung passiert nichts. Wirft nie. */
+export function track(event: AnalyticsEvent) {
+  if (typeof window === 'undefined' || !tracking()) return;
+  try {
+    SINKS[ANALYTICS_SINK]({ ...event, ts: Date.now(), session: sessionId(), path: window.location.pathname });
+  } catch {
+    // Statistik darf die App nie stören
+  }
+}
+
+/**
+ * Link in einen Shop über /api/out, das den Klick zählt und weiterleitet.
+ * Ohne Einwilligung bleibt es der direkte Link.
+ */
+export function outboundHref(url: string, meta: { productId: number; merchant: string | null; source: string }): string {
+  if (!tracking()) return url;
+  // Seite mitgeben – der Link hat rel="noreferrer", /api/out sieht sonst keinen Referer
+  const q = new URLSearchParams({ url, pid: String(meta.productId), src: meta.source, p: window.location.pathname });
+  if (meta.merchant) q.set('m', meta.merchant);
+  const session = sessionId();
+  if (session) q.set('s', session);
+  return `${OUTBOUND_PATH}?${q}`;
+}
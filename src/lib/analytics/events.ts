@@ -0,0 +1,68 @@
+import type { SortKey } from '@/lib/results';
+
+/* ---------------- Nutzungs-Events (Browser ↔ /api/events) ---------------- */
+
+export type UploadSource = 'file' | 'drop' | 'paste' | 'url' | 'camera';
+
+/** Alles, was die App meldet. Keine Bilder, keine Suchtexte – nur Zählbares. */
+export type AnalyticsEvent =
+  | { type: 'upload'; source: UploadSource; bytes: number; mime: string }
+  | { type: 'crop_confirm'; regions: number }
+  | { type: 'search_done'; regions: number; hits: number; failed: number }
+  | { type: 'filter_change'; facets: string[]; shown: number }
+  | { type: 'sort_change'; sort: SortKey }
+  | { type: 'load_more'; shown: number; backend: boolean }
+  | { type: 'outbound_click'; product_id: number; merchant: string | null; source: string };
+
+export type EventType = AnalyticsEvent['type'];
+
+/** Umschlag, wie er im Log landet: Zeitpunkt, anonyme Sitzung (pro Tab) und Seite. */
+export type TrackedEvent = AnalyticsEvent & { ts: number; session: string | null; path: string };
+
+const EVENT_TYPES: readonly EventType[] = [
+  'upload', 'crop_confirm', 'search_done', 'filter_change', 'sort_change', 'load_more', 'outbound_click',
+];
+
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+const short = (v: unknown, max = 100) => (typeof v === 'string' ? v.slice(0, max) : '');
+const count = (v: unknown) => (typeof v === 'number' && Number.isFinite(v) ? Math.max(0, Math.round(v)) : 0);
+
+/**
+ * Prüft ein Event aus dem Browser und behält nur bekannte Felder (gekürzt).
+ * Unbekannte Typen → null; so bleibt das Log auch bei fremden Beacons sauber.
+ */
+export function parseTrackedEvent(raw: unknown): TrackedEvent | null {
+  if (!isRecord(raw) || !EVENT_TYPES.includes(raw.type as EventType)) return null;
+  const base = {
+    ts: count(raw.ts) || Date.now(),
+    session: short(raw.session, 40) || null,
+    path: short(raw.path, 200),
+  };
+  switch (raw.type as EventType) {
+    case 'upload':
+      return { ...base, type: 'upload', source: short(raw.source, 20) as UploadSource, bytes: count(raw.bytes), mime: short(raw.mime, 40) };
+    case 'crop_confirm':
+      return { ...base, type: 'crop_confirm', regions: count(raw.regions) };
+    case 'search_done':
+      return { ...base, type: 'search_done', regions: count(raw.regions), hits: count(raw.hits), failed: count(raw.failed) };
+    case 'filter_change':
+      return {
+        ...base,
+        type: 'filter_change',
+        facets: Array.isArray(raw.facets) ? raw.facets.slice(0, 10).map((f) => short(f, 20)) : [],
+        shown: count(raw.shown),
+      };
+    case 'sort_change':
+      return { ...base, type: 'sort_change', sort: short(raw.sort, 20) as SortKey };
+    case 'load_more':
+      return { ...base, type: 'load_more', shown: count(raw.shown), backend: raw.backend === true };
+    case 'outbound_click':
+      return {
+        ...base,
+        type: 'outbound_click',
+        product_id: count(raw.product_id),
+        merchant: short(raw.merchant) || null,
+        source: short(raw.source, 20),
+      };
+  }
+}
@@ -0,0 +1,28 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { ANALYTICS_SINK, CONSENT_EVENT, CONSENT_KEY, readConsent, writeConsent, type Consent } from './analytics';
+
+/**
+ * Einwilligung in die Nutzungsstatistik (tab-übergreifend synchron). `ready` erst nach
+ * dem Lesen im Browser – vorher weiß niemand, ob schon gefragt wurde.
+ */
+export function useConsent() {
+  const [consent, setConsentState] = useState<Consent | null>(null);
+  const [ready, setReady] = useState(false);
+
+  useEffect(() => {
+    const sync = () => setConsentState(readConsent());
+    sync();
+    setReady(true);
+    const onStorage = (e: StorageEvent) => { if (e.key === CONSENT_KEY) sync(); };
+    window.addEventListener(CONSENT_EVENT, sync);
+    window.addEventListener('storage', onStorage);
+    return () => {
+      window.removeEventListener(CONSENT_EVENT, sync);
+      window.removeEventListener('storage', onStorage);
+    };
+  }, []);
+
+  return { consent, ready, enabled: ANALYTICS_SINK !== 'none', setConsent: writeConsent };
+}
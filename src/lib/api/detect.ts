@@ -0,0 +1,25 @@
+import { readJson, request, requireApiBase, type RequestOptions } from './http';
+import { parseDetectResponse, type DetectResponse } from './types';
+
+/* ---------------- Kleidungserkennung (optional im Backend) ---------------- */
+
+export const DETECT_PATH = '/detect';
+export const DETECT_PROXY_PATH = '/api/detect';
+
+export type DetectOptions = RequestOptions & { baseUrl?: string; path?: string; headers?: HeadersInit };
+
+/**
+ * Liefert Vorschlagsboxen für ein Bild. Ohne baseUrl direkt ans Backend
+ * (so nutzt es der Proxy); der Browser ruft `detectViaProxy` auf.
+ */
+export async function detectGarments(blob: Blob, opts: DetectOptions = {}): Promise<DetectResponse> {
+  const base = opts.baseUrl ?? requireApiBase();
+  const form = new FormData();
+  form.set('file', blob);
+  const r = await request(`${base}${opts.path ?? DETECT_PATH}`, { method: 'POST', body: form, headers: opts.headers }, opts);
+  return readJson(r, parseDetectResponse);
+}
+
+/** Erkennung ist nur eine Hilfe: kurzes Zeitlimit, kein Retry. */
+export const detectViaProxy = (blob: Blob, opts: DetectOptions = {}) =>
+  detectGarments(blob, { baseUrl: '', path: DETECT_PROXY_PATH, timeoutMs: 8_000, retries: 0, ...opts });
@@ -0,0 +1,36 @@
+/* ---------------- Fehlerarten der Backend-Aufrufe ---------------- */
+
+export type ApiErrorKind =
+  | 'config'        // keine API-Basis konfiguriert
+  | 'network'       // fetch selbst ist gescheitert
+  | 'timeout'       // eigenes Zeitlimit überschritten
+  | 'aborted'       // bewusst abgebrochen (z. B. durch eine neuere Suche)
+  | 'unavailable'   // 503 bzw. 502/504
+  | 'not-found'     // kein passender Endpoint (404)
+  | 'bad-response'  // JSON kaputt oder Form stimmt nicht
+  | 'http';         // sonstiger HTTP-Fehler
+
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind;
+  readonly status?: number;
+  readonly detail?: string;
+
+  constructor(kind: ApiErrorKind, message: string, opts: { status?: number; detail?: string } = {}) {
+    super(message);
+    this.name = 'ApiError';
+    this.kind = kind;
+    this.status = opts.status;
+    this.detail = opts.detail;
+  }
+
+  /** Lohnt sich ein automatischer neuer Versuch? */
+  get transient(): boolean {
+    return this.kind === 'network' || this.kind === 'timeout' || this.kind === 'unavailable';
+  }
+}
+
+export const isApiError = (e: unknown): e is ApiError => e instanceof ApiError;
+export const isAbortError = (e: unknown): boolean => isApiError(e) && e.kind === 'aborted';
+
+/** Einheitlicher Text für Toast/Fehlerbox. */
+export const errorMessage = (e: unknown): string => (e instanceof Error ? e.message : String(e));
@@ -0,0 +1,107 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ApiError } from './errors';
+import { request } from './http';
+
+/** fetch-Attrappe: spielt die Antworten der Reihe nach ab (Error → fetch wirft). */
+function fakeFetch(...answers: (Response | Error)[]) {
+  return vi.fn<typeof fetch>(async () => {
+    const a = answers.shift();
+    if (!a) throw new Error('keine Antwort mehr vorgesehen');
+    if (a instanceof Error) throw a;
+    return a;
+  });
+}
+
+/** Antwortet nie – endet erst, wenn das Signal der Anfrage abbricht. */
+const hangingFetch = vi.fn<typeof fetch>((_url, init) =>
+  new Promise((_, reject) => {
+    init?.signal?.addEventListener('abort', () => reject(new DOMException('abgebrochen', 'AbortError')));
+  })
+);
+
+const fail = (p: Promise<unknown>) => p.then(() => { throw new Error('kein Fehler geworfen'); }, (e: unknown) => e as ApiError);
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+  hangingFetch.mockClear();
+});
+
+describe('request', () => {
+  it('wiederholt transiente Fehler und liefert die erste ok-Antwort', async () => {
+    const fetchImpl = fakeFetch(new TypeError('offline'), new Response('', { status: 503 }), new Response('ok'));
+    const r = await request('/x', {}, { fetchImpl, backoffMs: 0 });
+    expect(await r.text()).toBe('ok');
+    expect(fetchImpl).toHaveBeenCalledTimes(3);
+  });
+
+  it('gibt nach retries Nachversuchen auf', async () => {
+    const fetchImpl = fakeFetch(...Array.from({ length: 3 }, () => new Response('', { status: 502 })));
+    const e = await fail(request('/x', {}, { fetchImpl, retries: 2, backoffMs: 0 }));
+    expect(e.kind).toBe('unavailable');
+    expect(fetchImpl).toHaveBeenCalledTimes(3);
+  });
+
+  it('wiederholt nicht-transiente Fehler nicht', async () => {
+    const fetchImpl = fakeFetch(new Response('weg', { status: 404 }));
+    const e = await fail(request('/x', {}, { fetchImpl, backoffMs: 0 }));
+    expect([e.kind, e.status, e.detail]).toEqual(['not-found', 404, 'weg']);
+    expect(fetchImpl).toHaveBeenCalledTimes(1);
+  });
+
+  it('übernimmt Fehlerart und Text aus Fehlerkörpern der eigenen Routen', async () => {
+    const body = JSON.stringify({ error: { kind: 'bad-response', message: 'Kaputt.' } });
+    const e = await fail(request('/x', {}, { fetchImpl: fakeFetch(new Response(body, { status: 502 })), backoffMs: 0 }));
+    expect([e.kind, e.message]).toEqual(['bad-response', 'Kaputt.']);
+  });
+
+  it('wartet exponentiell länger zwischen den Versuchen', async () => {
+    vi.useFakeTimers();
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    const fetchImpl = fakeFetch(new TypeError('offline'), new TypeError('offline'), new Response('ok'));
+    const done = request('/x', {}, { fetchImpl, retries: 2, backoffMs: 100 });
+
+    await vi.advanceTimersByTimeAsync(99);
+    expect(fetchImpl).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(fetchImpl).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(199);
+    expect(fetchImpl).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(fetchImpl).toHaveBeenCalledTimes(3);
+    expect((await done).ok).toBe(true);
+  });
+
+  it('meldet überschrittene Zeitlimits als timeout und versucht es erneut', async () => {
+    vi.useFakeTimers();
+    const done = fail(request('/x', {}, { fetchImpl: hangingFetch, timeoutMs: 1000, retries: 1, backoffMs: 0 }));
+    await vi.runAllTimersAsync();
+    expect((await done).kind).toBe('timeout');
+    expect(hangingFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('bricht eine laufende Anfrage über das externe Signal ohne Nachversuch ab', async () => {
+    const ctrl = new AbortController();
+    const done = fail(request('/x', {}, { fetchImpl: hangingFetch, signal: ctrl.signal, backoffMs: 0 }));
+    ctrl.abort();
+    expect((await done).kind).toBe('aborted');
+    expect(hangingFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('bricht auch während der Wartezeit vor dem Nachversuch ab', async () => {
+    const ctrl = new AbortController();
+    const fetchImpl = fakeFetch(new TypeError('offline'));
+    const done = fail(request('/x', {}, { fetchImpl, signal: ctrl.signal, backoffMs: 60_000 }));
+    await vi.waitFor(() => expect(fetchImpl).toHaveBeenCalledTimes(1));
+    ctrl.abort();
+    expect((await done).kind).toBe('aborted');
+    expect(fetchImpl).toHaveBeenCalledTimes(1);
+  });
+
+  it('fragt bei schon abgebrochenem Signal gar nicht erst an', async () => {
+    const fetchImpl = fakeFetch();
+    const e = await fail(request('/x', {}, { fetchImpl, signal: AbortSignal.abort() }));
+    expect(e.kind).toBe('aborted');
+    expect(fetchImpl).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,135 @@
+import { ApiError, type ApiErrorKind } from './errors';
+
+/* ---------------- Gemeinsamer fetch-Wrapper ---------------- */
+
+export type RequestOptions = {
+  /** Zeitlimit pro Versuch. */
+  timeoutMs?: number;
+  /** Zusätzliche Versuche bei transienten Fehlern (Netzwerk, Timeout, 503). */
+  retries?: number;
+  /** Basis-Wartezeit für exponentielles Backoff (+ Jitter). */
+  backoffMs?: number;
+  /** Externes Abbruchsignal, z. B. von einer neueren Suche. */
+  signal?: AbortSignal;
+  fetchImpl?: typeof fetch;
+};
+
+export const DEFAULT_TIMEOUT_MS = 60_000;
+export const DEFAULT_RETRIES = 2;
+export const DEFAULT_BACKOFF_MS = 400;
+
+/**
+ * API-Basis aus der Umgebung. Serverseitig hat API_BASE Vorrang (bleibt privat),
+ * die NEXT_PUBLIC_-Namen gelten als Fallback für bestehende Setups.
+ */
+export function apiBase(): string | undefined {
+  const base = process.env.API_BASE ?? process.env.NEXT_PUBLIC_API_BASE ?? process.env.NEXT_PUBLIC_BACKEND_URL;
+  return base ? base.replace(/\/+$/, '') : undefined;
+}
+
+/** Ohne API-Basis (oder mit DEMO_MODE=1) bedient /api/demo die Suche. */
+export function isDemoMode(): boolean {
+  return process.env.DEMO_MODE === '1' || !apiBase();
+}
+
+export function requireApiBase(): string {
+  const base = apiBase();
+  if (!base) {
+    throw new ApiError('config', 'Konfiguration fehlt: API_BASE (oder NEXT_PUBLIC_API_BASE / NEXT_PUBLIC_BACKEND_URL) nicht gesetzt.');
+  }
+  return base;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) { reject(new ApiError('aborted', 'Anfrage abgebrochen.')); return; }
+    const t = setTimeout(() => { signal?.removeEventListener('abort', onAbort); resolve(); }, ms);
+    const onAbort = () => { clearTimeout(t); reject(new ApiError('aborted', 'Anfrage abgebrochen.')); };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+const KINDS: readonly ApiErrorKind[] = ['config', 'network', 'timeout', 'aborted', 'unavailable', 'not-found', 'bad-response', 'http'];
+
+/** Fehlerkörper unserer eigenen Route-Handler: `{ error: { kind, message } }`. */
+function ownRouteError(r: Response, text: string): ApiError | null {
+  try {
+    const body = JSON.parse(text) as { error?: { kind?: unknown; message?: unknown } };
+    const { kind, message } = body.error ?? {};
+    if (typeof message !== 'string' || !KINDS.includes(kind as ApiErrorKind)) return null;
+    return new ApiError(kind as ApiErrorKind, message, { status: r.status, detail: text });
+  } catch {
+    return null;
+  }
+}
+
+function statusError(r: Response, text: string): ApiError {
+  const own = ownRouteError(r, text);
+  if (own) return own;
+  if (r.status === 503 || r.status === 502 || r.status === 504) {
+    return new ApiError('unavailable', 'Bildsuche kurz nicht verfügbar – bitte später erneut versuchen.', { status: r.status, detail: text });
+  }
+  if (r.status === 404) {
+    return new ApiError('not-found', `Endpoint nicht gefunden (404). ${text}`.trim(), { status: 404, detail: text });
+  }
+  return new ApiError('http', `${r.status} ${r.statusText} – ${text}`, { status: r.status, detail: text });
+}
+
+/** Ein einzelner Versuch: fetch + Zeitlimit, Fehler als ApiError. Liefert nur ok-Responses. */
+async function attempt(url: string, init: RequestInit, opts: RequestOptions): Promise<Response> {
+  const ctrl = new AbortController();
+  let timedOut = false;
+  const to = setTimeout(() => { timedOut = true; ctrl.abort(); }, opts.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+  const onAbort = () => ctrl.abort();
+  opts.signal?.addEventListener('abort', onAbort, { once: true });
+
+  try {
+    if (opts.signal?.aborted) throw new ApiError('aborted', 'Anfrage abgebrochen.');
+    let r: Response;
+    try {
+      r = await (opts.fetchImpl ?? fetch)(url, { ...init, signal: ctrl.signal });
+    } catch {
+      if (timedOut) throw new ApiError('timeout', 'Zeitüberschreitung – der Server antwortet nicht.');
+      if (opts.signal?.aborted) throw new ApiError('aborted', 'Anfrage abgebrochen.');
+      throw new ApiError('network', 'Netzwerkfehler – bitte überprüfe deine Verbindung und versuche es erneut.');
+    }
+    if (r.ok) return r;
+    const text = await r.text().catch(() => '');
+    throw statusError(r, text);
+  } finally {
+    clearTimeout(to);
+    opts.signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+/**
+ * fetch mit Zeitlimit, Abbruch und Retry/Backoff für transiente Fehler.
+ * Nicht-transiente Fehler (404, 4xx, kaputte Antwort) werden sofort geworfen.
+ */
+export async function request(url: string, init: RequestInit = {}, opts: RequestOptions = {}): Promise<Response> {
+  const retries = opts.retries ?? DEFAULT_RETRIES;
+  const backoff = opts.backoffMs ?? DEFAULT_BACKOFF_MS;
+  for (let i = 0; ; i++) {
+    try {
+      return await attempt(url, init, opts);
+    } catch (e) {
+      if (!(e instanceof ApiError) || !e.transient || i >= retries) throw e;
+      await sleep(backoff * 2 ** i + Math.random() * backoff, opts.signal);
+    }
+  }
+}
+
+/** JSON lesen und mit einem Parser prüfen (Parser liefert Wert oder Fehlertext). */
+export async function readJson<T>(r: Response, parse: (raw: unknown) => T | string): Promise<T> {
+  let raw: unknown;
+  try {
+    raw = await r.json();
+  } catch {
+    throw new ApiError('bad-response', 'Ungültige Antwort vom Server (kein JSON).', { status: r.status });
+  }
+  const parsed = parse(raw);
+  if (typeof parsed === 'string') {
+    throw new ApiError('bad-response', `Ungültige Antwort vom Server: ${parsed}.`, { status: r.status, detail: parsed });
+  }
+  return parsed;
+}
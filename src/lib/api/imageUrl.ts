@@ -0,0 +1,36 @@
+import { request, type RequestOptions } from './http';
+
+/* ---------------- Bild per URL (über den eigenen Server) ---------------- */
+
+export const IMAGE_FROM_URL_PATH = '/api/image-from-url';
+export const IMAGE_PROXY_PATH = '/api/image-proxy';
+
+export function looksLikeUrl(text: string): boolean {
+  return /^https?:\/\/\S+$/i.test(text.trim());
+}
+
+/** Lädt das Bild hinter `url` über /api/image-from-url und liefert es als File. */
+export async function fetchImageFromUrl(url: string, opts: RequestOptions = {}): Promise<File> {
+  const r = await request(
+    IMAGE_FROM_URL_PATH,
+    { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ url: url.trim() }) },
+    { timeoutMs: 25_000, retries: 0, ...opts }
+  );
+  const blob = await r.blob();
+  let name = 'bild';
+  try {
+    name = decodeURIComponent(new URL(url).pathname.split('/').pop() || '') || name;
+  } catch {}
+  return new File([blob], name, { type: blob.type });
+}
+
+/** Adresse, unter der der Browser die Pixel eines Bildes lesen darf: eigene direkt, fremde über /api/image-proxy. */
+export function readableImageUrl(url: string): string {
+  try {
+    const u = new URL(url, window.location.href);
+    if (u.origin === window.location.origin) return u.href;
+  } catch {
+    // Kaputte Adresse – der Proxy lehnt sie ab
+  }
+  return `${IMAGE_PROXY_PATH}?url=${encodeURIComponent(url)}`;
+}
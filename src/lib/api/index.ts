@@ -0,0 +1,10 @@
+export * from './errors';
+export * from './http';
+export * from './search';
+export * from './types';
+export * from './detect';
+export * from './imageUrl';
+export * from './share';
+export * from './product';
+export * from './rates';
+export * from './prices';
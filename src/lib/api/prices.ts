@@ -0,0 +1,33 @@
+import { readJson, request, requireApiBase, type RequestOptions } from './http';
+import { parsePriceQuotes, type PriceQuote } from './types';
+
+/* ---------------- Aktuelle Preise für die Preisbeobachtung ---------------- */
+
+/** Backend: GET /prices?ids=1,2,3 → { prices: [...] } (optional – sonst fragt der Proxy /products/{id}). */
+export const PRICES_PATH = '/prices';
+export const PRICES_PROXY_PATH = '/api/prices';
+/** Mehr IDs pro Anfrage nimmt der Proxy nicht an. */
+export const MAX_PRICE_IDS = 50;
+
+export type PricesOptions = RequestOptions & { baseUrl?: string; headers?: HeadersInit };
+
+/** `ids=1,2,3` → gültige, eindeutige IDs (höchstens MAX_PRICE_IDS). */
+export function readPriceIds(raw: string | null): number[] {
+  const ids = (raw ?? '').split(',').map((v) => Number(v.trim())).filter((n) => Number.isSafeInteger(n) && n >= 0);
+  return [...new Set(ids)].slice(0, MAX_PRICE_IDS);
+}
+
+/** Ohne baseUrl direkt ans Backend (so nutzt es der Proxy). */
+export async function fetchPrices(ids: readonly number[], opts: PricesOptions = {}): Promise<PriceQuote[]> {
+  const base = opts.baseUrl ?? requireApiBase();
+  const q = new URLSearchParams({ ids: ids.join(',') });
+  const r = await request(`${base}${PRICES_PATH}?${q}`, { headers: opts.headers }, opts);
+  return readJson(r, parsePriceQuotes);
+}
+
+/** Browser → eigener Proxy. */
+export function pricesViaProxy(ids: readonly number[], opts: PricesOptions = {}): Promise<PriceQuote[]> {
+  const q = new URLSearchParams({ ids: ids.join(',') });
+  return request(`${PRICES_PROXY_PATH}?${q}`, { headers: opts.headers }, { timeoutMs: 10_000, retries: 1, ...opts })
+    .then((r) => readJson(r, parsePriceQuotes));
+}
@@ -0,0 +1,58 @@
+import { ApiError } from './errors';
+import { readJson, request, requireApiBase, type RequestOptions } from './http';
+import { DEFAULT_TOPK } from './search';
+import { parseProductDetail, parseSearchResponse, type ProductDetail, type SearchResponse } from './types';
+
+/* ---------------- Produktdetails + „Mehr davon“ ---------------- */
+
+/** Backend: GET /products/{id} und GET /search/by-product/{id}?topk= (beide optional). */
+export const PRODUCT_PATH = '/products';
+export const SIMILAR_PATH = '/search/by-product';
+export const PRODUCT_PROXY_PATH = '/api/product';
+
+export type ProductOptions = RequestOptions & { baseUrl?: string; headers?: HeadersInit };
+
+const validId = (id: number) => {
+  if (!Number.isSafeInteger(id) || id < 0) throw new ApiError('http', 'Ungültige Produkt-ID.', { status: 400 });
+  return id;
+};
+
+/** Ohne baseUrl direkt ans Backend (so nutzt es der Proxy). */
+export async function fetchProduct(id: number, opts: ProductOptions = {}): Promise<ProductDetail> {
+  const base = opts.baseUrl ?? requireApiBase();
+  const r = await request(`${base}${PRODUCT_PATH}/${validId(id)}`, { headers: opts.headers }, opts);
+  return readJson(r, parseProductDetail);
+}
+
+/** Ähnlichkeitssuche mit einem Katalogprodukt als Anfrage (kein Upload nötig). */
+export async function searchByProduct(
+  id: number,
+  opts: ProductOptions & { topk?: number } = {}
+): Promise<SearchResponse> {
+  const base = opts.baseUrl ?? requireApiBase();
+  const q = new URLSearchParams({ topk: String(opts.topk ?? DEFAULT_TOPK) });
+  const r = await request(`${base}${SIMILAR_PATH}/${validId(id)}?${q}`, { headers: opts.headers }, opts);
+  return readJson(r, parseSearchResponse);
+}
+
+/* --------- Browser → eigener Proxy --------- */
+
+export const productViaProxy = (id: number, opts: ProductOptions = {}) =>
+  request(`${PRODUCT_PROXY_PATH}/${validId(id)}`, { headers: opts.headers }, { timeoutMs: 10_000, retries: 1, ...opts })
+    .then((r) => readJson(r, parseProductDetail));
+
+/**
+ * „Mehr davon“: der Proxy fragt /search/by-product und fällt – falls das Backend
+ * den Endpoint nicht hat – auf eine Bildsuche mit `imageUrl` zurück.
+ */
+export function similarViaProxy(
+  id: number,
+  opts: ProductOptions & { topk?: number; imageUrl?: string | null } = {}
+): Promise<SearchResponse> {
+  const q = new URLSearchParams({ topk: String(opts.topk ?? DEFAULT_TOPK) });
+  if (opts.imageUrl) q.set('image_url', opts.imageUrl);
+  return request(`${PRODUCT_PROXY_PATH}/${validId(id)}/similar?${q}`, { headers: opts.headers }, { retries: 1, ...opts })
+    .then((r) => readJson(r, parseSearchResponse));
+}
+
+export const productHref = (id: number) => `/product/${id}`;
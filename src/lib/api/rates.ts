@@ -0,0 +1,17 @@
+import { readJson, request, type RequestOptions } from './http';
+import { parseRateTable, type RateTable } from './types';
+
+/* ---------------- Wechselkurse ---------------- */
+
+export const RATES_PROXY_PATH = '/api/rates';
+
+/** Server: Kurstabelle von einer frei konfigurierten URL (RATES_URL). */
+export async function fetchRateTable(url: string, opts: RequestOptions = {}): Promise<RateTable> {
+  const r = await request(url, {}, opts);
+  const table = await readJson(r, parseRateTable);
+  return { ...table, source: 'backend' };
+}
+
+/** Browser: liefert immer eine Tabelle – notfalls die mitgelieferte. */
+export const ratesViaProxy = (opts: RequestOptions = {}) =>
+  request(RATES_PROXY_PATH, {}, { timeoutMs: 5_000, retries: 1, ...opts }).then((r) => readJson(r, parseRateTable));
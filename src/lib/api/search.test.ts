@@ -0,0 +1,70 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createSearchClient } from './search';
+
+const ok = (id: number) => new Response(JSON.stringify({ results: [{ product_id: id, score: 1, label: 'Exact', price: 1 }] }));
+
+/** Anfragen bleiben offen, bis der Test sie beantwortet – oder ihr Signal abbricht. */
+function pendingFetch() {
+  const open: { url: string; resolve: (r: Response) => void; signal: AbortSignal }[] = [];
+  const fetchImpl = vi.fn<typeof fetch>((url, init) =>
+    new Promise((resolve, reject) => {
+      const signal = init!.signal!;
+      signal.addEventListener('abort', () => reject(new DOMException('abgebrochen', 'AbortError')));
+      open.push({ url: String(url), resolve, signal });
+    })
+  );
+  return { fetchImpl, open };
+}
+
+const file = new Blob(['bild'], { type: 'image/jpeg' });
+
+describe('createSearchClient', () => {
+  it('bricht die ältere Suche mit gleichem Key ab – die letzte gewinnt', async () => {
+    const { fetchImpl, open } = pendingFetch();
+    const client = createSearchClient({ fetchImpl });
+    const first = client.search(file, { key: 'r1' });
+    const second = client.search(file, { key: 'r1' });
+
+    await expect(first).rejects.toMatchObject({ kind: 'aborted' });
+    expect(open[0].signal.aborted).toBe(true);
+    open[1].resolve(ok(2));
+    expect((await second).results[0].product_id).toBe(2);
+    expect(fetchImpl).toHaveBeenCalledTimes(2);
+  });
+
+  it('lässt Suchen mit verschiedenen Keys parallel laufen', async () => {
+    const { fetchImpl, open } = pendingFetch();
+    const client = createSearchClient({ fetchImpl });
+    const a = client.search(file, { key: 'a' });
+    const b = client.search(file, { key: 'b' });
+    open[1].resolve(ok(2));
+    open[0].resolve(ok(1));
+    expect([(await a).results[0].product_id, (await b).results[0].product_id]).toEqual([1, 2]);
+  });
+
+  it('teilt sich die Keys zwischen Suche und weiteren Seiten', async () => {
+    const { fetchImpl, open } = pendingFetch();
+    const client = createSearchClient({ fetchImpl });
+    const page = client.more('s1', { key: 'r1', offset: 40 });
+    const search = client.search(file, { key: 'r1' });
+
+    await expect(page).rejects.toMatchObject({ kind: 'aborted' });
+    expect(open[0].url).toBe('/api/search?search_id=s1&offset=40&topk=40');
+    open[1].resolve(ok(3));
+    await expect(search).resolves.toMatchObject({ results: [{ product_id: 3 }] });
+  });
+
+  it('cancel ohne Key bricht alle offenen Suchen ab, ein äußeres Signal nur die eigene', async () => {
+    const { fetchImpl, open } = pendingFetch();
+    const client = createSearchClient({ fetchImpl });
+    const outer = new AbortController();
+    const a = client.search(file, { key: 'a', signal: outer.signal });
+    const b = client.search(file, { key: 'b' });
+
+    outer.abort();
+    await expect(a).rejects.toMatchObject({ kind: 'aborted' });
+    expect(open[1].signal.aborted).toBe(false);
+    client.cancel();
+    await expect(b).rejects.toMatchObject({ kind: 'aborted' });
+  });
+});
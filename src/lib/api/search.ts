@@ -0,0 +1,226 @@
+import { ApiError } from './errors';
+import { readJson, request, requireApiBase, type RequestOptions } from './http';
+import { parseSearchResponse, type SearchResponse } from './types';
+
+/* ---------------- Bildsuche ---------------- */
+
+/** Reihenfolge der Upload-Endpoints; bei 404 wird der nächste probiert. */
+export const SEARCH_PATHS = ['/search/by-upload-db', '/search/image'] as const;
+/** Weitere Seiten einer Suche: GET ?search_id=&offset=&topk= (optional im Backend). */
+export const SEARCH_PAGE_PATH = '/search/page';
+export const DEFAULT_TOPK = 40;
+/** Tiefer wird nicht geblättert – auch nicht über den Fallback mit größerem topk. */
+export const MAX_SEARCH_DEPTH = 200;
+/** Eigener Proxy (src/app/api/search) – der Browser spricht nur mit ihm (POST: Upload, GET: weitere Seiten). */
+export const SEARCH_PROXY_PATH = '/api/search';
+
+/**
+ * Filter, die das Backend schon beim Suchen anwenden kann. Preise gelten in
+ * `currency`; unbekannte Felder ignoriert das Backend, gefiltert wird im Browser ohnehin.
+ */
+export type SearchFilters = {
+  minPrice?: number;
+  maxPrice?: number;
+  currency?: string;
+  /** Genaue Händlernamen; im Query als wiederholtes `merchant`. */
+  merchants?: readonly string[];
+  labels?: readonly string[];
+  minScore?: number;
+};
+
+/** Feldnamen wie im Backend; gleich für Formular (Upload) und Query (weitere Seiten). */
+export function filterParams(f: SearchFilters = {}): [string, string][] {
+  const out: [string, string][] = [];
+  if (f.minPrice !== undefined) out.push(['min_price', String(f.minPrice)]);
+  if (f.maxPrice !== undefined) out.push(['max_price', String(f.maxPrice)]);
+  if (f.currency && (f.minPrice !== undefined || f.maxPrice !== undefined)) out.push(['price_currency', f.currency]);
+  for (const m of f.merchants ?? []) out.push(['merchant', m]);
+  if (f.labels) out.push(['labels', f.labels.join(',')]);
+  if (f.minScore !== undefined) out.push(['min_score', String(f.minScore)]);
+  return out;
+}
+
+/** Vergleichbarer Schlüssel für einen Filtersatz (Cache, „mit diesen Filtern geladen?“). */
+export const filterKey = (f: SearchFilters = {}) => new URLSearchParams(filterParams(f)).toString();
+
+/** Längste Textverfeinerung, die mit dem Crop mitgeht. */
+export const MAX_QUERY_LENGTH = 200;
+
+/** Freitext zum Bild („in schwarz“, „Damen“) aus dem Formular; leer → undefined. */
+export function readQueryParam(form: FormData): string | undefined {
+  const v = form.get('query');
+  return typeof v === 'string' && v.trim() ? v.trim().slice(0, MAX_QUERY_LENGTH) : undefined;
+}
+
+/**
+ * Relevanz-Feedback: Treffer, von denen es „mehr davon“ bzw. „nicht das“ geben soll.
+ * Im Formular als wiederholte Felder `positive_id` / `negative_id`.
+ */
+export type SearchFeedback = {
+  positive: readonly number[];
+  negative: readonly number[];
+};
+
+/** Mehr markierte Treffer je Richtung gehen nicht ans Backend (die zuletzt markierten zählen). */
+export const MAX_FEEDBACK_IDS = 20;
+
+export const hasFeedback = (f?: SearchFeedback | null): f is SearchFeedback =>
+  Boolean(f && (f.positive.length || f.negative.length));
+
+export function feedbackParams(f?: SearchFeedback | null): [string, string][] {
+  if (!f) return [];
+  return [
+    ...f.positive.slice(-MAX_FEEDBACK_IDS).map((id): [string, string] => ['positive_id', String(id)]),
+    ...f.negative.slice(-MAX_FEEDBACK_IDS).map((id): [string, string] => ['negative_id', String(id)]),
+  ];
+}
+
+/** Formular (Upload) oder Query (weitere Seiten) – beide haben get/getAll. */
+type ParamSource = {
+  get(name: string): FormDataEntryValue | null;
+  getAll(name: string): FormDataEntryValue[];
+};
+
+/** Gegenstück zu feedbackParams; ohne markierte Treffer → undefined. */
+export function readFeedbackParams(params: ParamSource): SearchFeedback | undefined {
+  const ids = (name: string) => [
+    ...new Set(
+      params.getAll(name)
+        .map((v) => (typeof v === 'string' ? Number.parseInt(v, 10) : NaN))
+        .filter(Number.isFinite)
+    ),
+  ].slice(-MAX_FEEDBACK_IDS);
+  const f = { positive: ids('positive_id'), negative: ids('negative_id') };
+  return hasFeedback(f) ? f : undefined;
+}
+
+/** Gegenstück zu filterParams – für den Proxy, der Filter aus Formular oder Query weiterreicht. */
+export function readFilterParams(params: ParamSource): SearchFilters {
+  const get = (name: string) => {
+    const v = params.get(name);
+    return typeof v === 'string' ? v : null;
+  };
+  const num = (v: string | null) => (v !== null && v.trim() !== '' && Number.isFinite(Number(v)) ? Number(v) : undefined);
+  const merchants = params.getAll('merchant').filter((v): v is string => typeof v === 'string').map((v) => v.slice(0, 100));
+  const f: SearchFilters = {
+    minPrice: num(get('min_price')),
+    maxPrice: num(get('max_price')),
+    currency: get('price_currency')?.trim().toUpperCase().slice(0, 3) || undefined,
+    merchants: merchants.length ? merchants.slice(0, 50) : undefined,
+    minScore: num(get('min_score')),
+  };
+  const labels = get('labels');
+  if (labels !== null) f.labels = labels.split(',').filter(Boolean).slice(0, 10);
+  return f;
+}
+
+export type SearchOptions = RequestOptions & {
+  topk?: number;
+  filters?: SearchFilters;
+  /** Textverfeinerung, die das Backend zusammen mit dem Bild einbettet (Feld `query`). */
+  query?: string;
+  feedback?: SearchFeedback | null;
+  baseUrl?: string;
+  paths?: readonly string[];
+  headers?: HeadersInit;
+};
+
+export type PageOptions = Omit<SearchOptions, 'paths'> & { offset: number; path?: string };
+
+/**
+ * Einzelne Suche ohne Abbruch-Logik. Ohne baseUrl geht sie direkt ans Backend
+ * (so nutzt sie der Proxy), der Browser-Client setzt baseUrl/paths auf den Proxy.
+ */
+export async function searchByUpload(blobOrFile: Blob | File, opts: SearchOptions = {}): Promise<SearchResponse> {
+  const base = opts.baseUrl ?? requireApiBase();
+  const form = new FormData();
+  form.set('file', blobOrFile);
+  form.set('topk', String(opts.topk ?? DEFAULT_TOPK));
+  for (const [k, v] of filterParams(opts.filters)) form.append(k, v);
+  if (opts.query?.trim()) form.set('query', opts.query.trim().slice(0, MAX_QUERY_LENGTH));
+  for (const [k, v] of feedbackParams(opts.feedback)) form.append(k, v);
+
+  let lastText = '';
+  for (const p of opts.paths ?? SEARCH_PATHS) {
+    try {
+      const r = await request(`${base}${p}`, { method: 'POST', body: form, headers: opts.headers }, opts);
+      return await readJson(r, parseSearchResponse);
+    } catch (e) {
+      if (e instanceof ApiError && e.kind === 'not-found') { lastText = e.detail ?? ''; continue; }
+      throw e;
+    }
+  }
+  throw new ApiError('not-found', `Kein Upload-Endpoint gefunden (404). Letzte Antwort: ${lastText}`, { status: 404, detail: lastText });
+}
+
+/**
+ * Weitere Treffer einer früheren Suche – dieselbe Einbettung, kein neuer Upload.
+ * 404 heißt: Endpoint fehlt oder `searchId` ist abgelaufen.
+ */
+export async function fetchSearchPage(searchId: string, opts: PageOptions): Promise<SearchResponse> {
+  const base = opts.baseUrl ?? requireApiBase();
+  const q = new URLSearchParams([
+    ['search_id', searchId],
+    ['offset', String(opts.offset)],
+    ['topk', String(opts.topk ?? DEFAULT_TOPK)],
+    ...filterParams(opts.filters),
+  ]);
+  const r = await request(`${base}${opts.path ?? SEARCH_PAGE_PATH}?${q}`, { headers: opts.headers }, opts);
+  return readJson(r, parseSearchResponse);
+}
+
+export type SearchClient = {
+  /**
+   * Startet eine Suche und bricht die vorherige mit gleichem `key` (falls noch
+   * offen) ab. Suchen mit verschiedenen Keys laufen parallel.
+   */
+  search: (blobOrFile: Blob | File, opts?: SearchOptions & { key?: string }) => Promise<SearchResponse>;
+  /** Nächste Seite (oder dieselbe Suche mit anderen Filtern ab `offset`); teilt sich die Keys mit `search`. */
+  more: (searchId: string, opts: PageOptions & { key?: string }) => Promise<SearchResponse>;
+  /** Bricht die Suche mit `key` (ohne Key: alle) ab; ihr Promise endet mit kind 'aborted'. */
+  cancel: (key?: string) => void;
+};
+
+const DEFAULT_KEY = 'default';
+
+/**
+ * Client mit „letzte Suche gewinnt“ pro Key: zwei schnelle Klicks auf „Erneut suchen“
+ * können sich nicht mehr überholen, weil die ältere Anfrage abgebrochen wird.
+ */
+export function createSearchClient(overrides: SearchOptions = {}): SearchClient {
+  // Der Proxy wiederholt transiente Backend-Fehler selbst → hier nur ein Nachversuch
+  const defaults: SearchOptions = { baseUrl: '', paths: [SEARCH_PROXY_PATH], retries: 1, ...overrides };
+  const current = new Map<string, AbortController>();
+
+  const cancel = (key?: string) => {
+    const keys = key === undefined ? [...current.keys()] : [key];
+    for (const k of keys) {
+      current.get(k)?.abort();
+      current.delete(k);
+    }
+  };
+
+  const run = async (key: string, outer: AbortSignal | undefined, fn: (signal: AbortSignal) => Promise<SearchResponse>) => {
+    cancel(key);
+    const ctrl = new AbortController();
+    current.set(key, ctrl);
+    const onOuterAbort = () => ctrl.abort();
+    outer?.addEventListener('abort', onOuterAbort, { once: true });
+    try {
+      return await fn(ctrl.signal);
+    } finally {
+      outer?.removeEventListener('abort', onOuterAbort);
+      if (current.get(key) === ctrl) current.delete(key);
+    }
+  };
+
+  const search = (blobOrFile: Blob | File, { key = DEFAULT_KEY, ...opts }: SearchOptions & { key?: string } = {}) =>
+    run(key, opts.signal, (signal) => searchByUpload(blobOrFile, { ...defaults, ...opts, signal }));
+
+  const more = (searchId: string, { key = DEFAULT_KEY, ...opts }: PageOptions & { key?: string }) =>
+    run(key, opts.signal, (signal) =>
+      fetchSearchPage(searchId, { ...defaults, path: defaults.paths?.[0], ...opts, signal })
+    );
+
+  return { search, more, cancel };
+}
@@ -0,0 +1,33 @@
+import { readJson, request, type RequestOptions } from './http';
+import type { Hit } from './types';
+
+/* ---------------- Ergebnisse teilen (über den eigenen Server) ---------------- */
+
+export const SHARE_PATH = '/api/share';
+
+export type ShareInput = {
+  crop: Blob;
+  name: string;
+  results: Hit[];
+  /** Ansicht als Query-String (sort, labels, min, max, merchant, n). */
+  view: string;
+};
+
+export const shareUrl = (id: string, origin = window.location.origin) => `${origin}/s/${id}`;
+
+function parseShareId(raw: unknown): { id: string } | string {
+  const id = (raw as { id?: unknown } | null)?.id;
+  return typeof id === 'string' && id ? { id } : 'id fehlt';
+}
+
+/** Speichert Ausschnitt und Treffer serverseitig; liefert die kurze ID. */
+export async function createShare(input: ShareInput, opts: RequestOptions = {}): Promise<string> {
+  const fd = new FormData();
+  fd.append('file', input.crop, 'crop');
+  fd.append('name', input.name);
+  fd.append('results', JSON.stringify(input.results));
+  fd.append('view', input.view);
+  const r = await request(SHARE_PATH, { method: 'POST', body: fd }, { timeoutMs: 20_000, retries: 0, ...opts });
+  const { id } = await readJson(r, parseShareId);
+  return id;
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { parseHit, parseSearchResponse } from './types';
+
+const raw = { product_id: 7, score: 0.9, label: 'Exact', price: 49.9 };
+
+describe('parseHit', () => {
+  it('ergänzt fehlende optionale Felder mit null', () => {
+    expect(parseHit(raw)).toEqual({
+      ...raw, title: null, currency: null, merchant: null, deeplink: null, image_url: null,
+    });
+  });
+
+  it('akzeptiert Zahlen als String (Decimal aus dem Backend)', () => {
+    const hit = parseHit({ ...raw, product_id: '7', price: '49.90', score: ' 0.9 ' });
+    expect(hit).toMatchObject({ product_id: 7, price: 49.9, score: 0.9 });
+  });
+
+  it('nennt das fehlende Pflichtfeld', () => {
+    expect(parseHit({ ...raw, product_id: undefined })).toBe('product_id fehlt');
+    expect(parseHit({ ...raw, price: '' })).toBe('price fehlt (product_id 7)');
+    expect(parseHit({ ...raw, score: Number.NaN })).toBe('score fehlt (product_id 7)');
+    expect(parseHit({ ...raw, label: 1 })).toBe('label fehlt (product_id 7)');
+  });
+
+  it('lehnt optionale Felder mit falschem Typ ab', () => {
+    expect(parseHit({ ...raw, deeplink: 42 })).toBe('deeplink hat falschen Typ (product_id 7)');
+    expect(parseHit([raw])).toBe('Treffer ist kein Objekt');
+  });
+});
+
+describe('parseSearchResponse', () => {
+  it('liest Treffer und Blätter-Angaben', () => {
+    const r = parseSearchResponse({ results: [raw], search_id: 12, next_offset: '40.0', total: 97.5 });
+    expect(r).toMatchObject({ search_id: '12', next_offset: 40, total: 97 });
+    expect(typeof r !== 'string' && r.results.map((h) => h.product_id)).toEqual([7]);
+  });
+
+  it('behandelt fehlende Treffer als leere Liste ohne weitere Seiten', () => {
+    expect(parseSearchResponse({})).toEqual({ results: [] });
+    expect(parseSearchResponse({ results: null, next_offset: null })).toEqual({ results: [], next_offset: null });
+  });
+
+  it('verwirft die ganze Antwort bei einem kaputten Treffer', () => {
+    expect(parseSearchResponse({ results: [raw, { ...raw, product_id: 8, label: null }] })).toBe('label fehlt (product_id 8)');
+  });
+
+  it('meldet falsche Typen auf oberster Ebene', () => {
+    expect(parseSearchResponse(null)).toBe('Antwort ist kein Objekt');
+    expect(parseSearchResponse({ results: {} })).toBe('results ist keine Liste');
+    expect(parseSearchResponse({ search_id: true })).toBe('search_id hat falschen Typ');
+    expect(parseSearchResponse({ next_offset: -1 })).toBe('next_offset ungültig');
+    expect(parseSearchResponse({ total: 'viele' })).toBe('total ungültig');
+  });
+});
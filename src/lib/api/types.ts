@@ -0,0 +1,230 @@
+/* ---------------- Backend-Typen + Laufzeit-Validierung ---------------- */
+
+export type Hit = {
+  product_id: number;
+  score: number;
+  label: string;
+  title: string | null;
+  price: number;
+  currency: string | null;
+  merchant: string | null;
+  deeplink: string | null;
+  image_url: string | null;
+};
+/**
+ * Eine Seite Treffer. `search_id` erlaubt weitere Seiten ohne neuen Upload;
+ * `next_offset` fehlt oder ist null, wenn es keine weiteren gibt.
+ */
+export type SearchResponse = {
+  results: Hit[];
+  search_id?: string;
+  next_offset?: number | null;
+  total?: number | null;
+};
+
+const isRecord = (v: unknown): v is Record<string, unknown> =>
+  typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const isNullableString = (v: unknown): v is string | null | undefined =>
+  v === null || v === undefined || typeof v === 'string';
+
+/** Zahl oder numerischer String (manche Backends serialisieren Decimal als String). */
+function toNumber(v: unknown): number | null {
+  if (typeof v === 'number' && Number.isFinite(v)) return v;
+  if (typeof v === 'string' && v.trim() !== '' && Number.isFinite(Number(v))) return Number(v);
+  return null;
+}
+
+/** Liefert den normalisierten Hit oder einen Fehlertext, warum er ungültig ist. */
+export function parseHit(raw: unknown): Hit | string {
+  if (!isRecord(raw)) return 'Treffer ist kein Objekt';
+  const productId = toNumber(raw.product_id);
+  if (productId === null) return 'product_id fehlt';
+  const score = toNumber(raw.score);
+  if (score === null) return `score fehlt (product_id ${productId})`;
+  const price = toNumber(raw.price);
+  if (price === null) return `price fehlt (product_id ${productId})`;
+  if (typeof raw.label !== 'string') return `label fehlt (product_id ${productId})`;
+  for (const k of ['title', 'currency', 'merchant', 'deeplink', 'image_url'] as const) {
+    if (!isNullableString(raw[k])) return `${k} hat falschen Typ (product_id ${productId})`;
+  }
+  return {
+    product_id: productId,
+    score,
+    label: raw.label,
+    title: (raw.title as string | null | undefined) ?? null,
+    price,
+    currency: (raw.currency as string | null | undefined) ?? null,
+    merchant: (raw.merchant as string | null | undefined) ?? null,
+    deeplink: (raw.deeplink as string | null | undefined) ?? null,
+    image_url: (raw.image_url as string | null | undefined) ?? null,
+  };
+}
+
+/**
+ * Prüft die Antwort des Such-Endpoints. `results` darf fehlen (= keine Treffer),
+ * ein einzelner kaputter Treffer macht aber die ganze Antwort ungültig –
+ * lieber ein klarer Fehler als halb gerenderte Karten.
+ */
+export function parseSearchResponse(raw: unknown): SearchResponse | string {
+  if (!isRecord(raw)) return 'Antwort ist kein Objekt';
+  const page = parsePageInfo(raw);
+  if (typeof page === 'string') return page;
+  if (raw.results === undefined || raw.results === null) return { results: [], ...page };
+  if (!Array.isArray(raw.results)) return 'results ist keine Liste';
+  const results: Hit[] = [];
+  for (const item of raw.results) {
+    const hit = parseHit(item);
+    if (typeof hit === 'string') return hit;
+    results.push(hit);
+  }
+  return { results, ...page };
+}
+
+/** Optionale Blätter-Angaben; fehlen sie, gibt es keine weiteren Seiten. */
+function parsePageInfo(raw: Record<string, unknown>): Omit<SearchResponse, 'results'> | string {
+  const page: Omit<SearchResponse, 'results'> = {};
+  if (raw.search_id !== undefined && raw.search_id !== null) {
+    if (typeof raw.search_id !== 'string' && typeof raw.search_id !== 'number') return 'search_id hat falschen Typ';
+    page.search_id = String(raw.search_id);
+  }
+  if (raw.next_offset !== undefined && raw.next_offset !== null) {
+    const n = toNumber(raw.next_offset);
+    if (n === null || n < 0) return 'next_offset ungültig';
+    page.next_offset = Math.floor(n);
+  } else if (raw.next_offset === null) {
+    page.next_offset = null;
+  }
+  if (raw.total !== undefined && raw.total !== null) {
+    const n = toNumber(raw.total);
+    if (n === null || n < 0) return 'total ungültig';
+    page.total = Math.floor(n);
+  }
+  return page;
+}
+
+/* --------- Kleidungserkennung --------- */
+
+/** Box relativ zum gesendeten Bild (0–1), Ursprung oben links. */
+export type DetectionBox = {
+  label: string;
+  score: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+export type DetectResponse = { boxes: DetectionBox[] };
+
+const clamp01 = (n: number) => Math.min(1, Math.max(0, n));
+
+export function parseDetectResponse(raw: unknown): DetectResponse | string {
+  if (!isRecord(raw)) return 'Antwort ist kein Objekt';
+  if (raw.boxes === undefined || raw.boxes === null) return { boxes: [] };
+  if (!Array.isArray(raw.boxes)) return 'boxes ist keine Liste';
+  const boxes: DetectionBox[] = [];
+  for (const b of raw.boxes) {
+    if (!isRecord(b) || typeof b.label !== 'string') return 'Box ohne label';
+    const [score, x, y, width, height] = [b.score, b.x, b.y, b.width, b.height].map(toNumber);
+    if (score === null || x === null || y === null || width === null || height === null) {
+      return `Box „${b.label}“ unvollständig`;
+    }
+    // Auf das Bild beschneiden; entartete Boxen verwerfen
+    const bx = clamp01(x), by = clamp01(y);
+    const bw = clamp01(x + width) - bx, bh = clamp01(y + height) - by;
+    if (bw <= 0.01 || bh <= 0.01) continue;
+    boxes.push({ label: b.label, score, x: bx, y: by, width: bw, height: bh });
+  }
+  return { boxes: boxes.sort((a, b) => b.score - a.score) };
+}
+
+/* --------- Produktdetails --------- */
+
+/** Ein Produkt mit allen bekannten Angeboten (gleiche product_id, verschiedene Shops). */
+export type ProductDetail = {
+  product_id: number;
+  title: string | null;
+  image_url: string | null;
+  offers: Hit[];
+};
+
+export function parseProductDetail(raw: unknown): ProductDetail | string {
+  if (!isRecord(raw)) return 'Antwort ist kein Objekt';
+  const productId = toNumber(raw.product_id);
+  if (productId === null) return 'product_id fehlt';
+  if (!isNullableString(raw.title) || !isNullableString(raw.image_url)) return 'title/image_url hat falschen Typ';
+  const offers: Hit[] = [];
+  for (const item of Array.isArray(raw.offers) ? raw.offers : []) {
+    const hit = parseHit(item);
+    if (typeof hit === 'string') return hit;
+    offers.push(hit);
+  }
+  return {
+    product_id: productId,
+    title: raw.title ?? null,
+    image_url: raw.image_url ?? null,
+    offers,
+  };
+}
+
+/* --------- Wechselkurse --------- */
+
+/** `rates[X]` = Einheiten von X pro 1 `base`. */
+export type RateTable = {
+  base: string;
+  rates: Record<string, number>;
+  /** ISO-Zeitpunkt der Kurse. */
+  updatedAt: string;
+  source: 'static' | 'backend';
+};
+
+export function parseRateTable(raw: unknown): RateTable | string {
+  if (!isRecord(raw)) return 'Antwort ist kein Objekt';
+  if (typeof raw.base !== 'string' || !raw.base) return 'base fehlt';
+  if (!isRecord(raw.rates)) return 'rates fehlt';
+  const rates: Record<string, number> = {};
+  for (const [code, v] of Object.entries(raw.rates)) {
+    const n = toNumber(v);
+    if (n === null || n <= 0) return `Kurs für ${code} ungültig`;
+    rates[code.toUpperCase()] = n;
+  }
+  rates[raw.base.toUpperCase()] = 1;
+  const updatedAt = typeof raw.updatedAt === 'string' && !Number.isNaN(Date.parse(raw.updatedAt)) ? raw.updatedAt : null;
+  if (!updatedAt) return 'updatedAt fehlt';
+  return { base: raw.base.toUpperCase(), rates, updatedAt, source: raw.source === 'backend' ? 'backend' : 'static' };
+}
+
+/* --------- Aktuelle Preise (Preisbeobachtung) --------- */
+
+/** Aktuelles Angebot eines Produkts; je product_id kann es mehrere Shops geben. */
+export type PriceQuote = {
+  product_id: number;
+  price: number;
+  currency: string | null;
+  merchant: string | null;
+  deeplink: string | null;
+};
+
+/** `{ prices: [...] }`; ein kaputter Eintrag macht die Antwort ungültig (wie bei den Treffern). */
+export function parsePriceQuotes(raw: unknown): PriceQuote[] | string {
+  if (!isRecord(raw)) return 'Antwort ist kein Objekt';
+  const out: PriceQuote[] = [];
+  for (const item of Array.isArray(raw.prices) ? raw.prices : []) {
+    if (!isRecord(item)) return 'Preis ist kein Objekt';
+    const productId = toNumber(item.product_id);
+    if (productId === null) return 'product_id fehlt';
+    const price = toNumber(item.price);
+    if (price === null) return `price fehlt (product_id ${productId})`;
+    for (const k of ['currency', 'merchant', 'deeplink'] as const) {
+      if (!isNullableString(item[k])) return `${k} hat falschen Typ (product_id ${productId})`;
+    }
+    out.push({
+      product_id: productId,
+      price,
+      currency: (item.currency as string | null | undefined) ?? null,
+      merchant: (item.merchant as string | null | undefined) ?? null,
+      deeplink: (item.deeplink as string | null | undefined) ?? null,
+    });
+  }
+  return out;
+}
@@ -0,0 +1,163 @@
+import type { Hit } from '@/lib/api/types';
+
+/* ---------------- Hauptfarben eines Bildes und Farbabstand ---------------- */
+
+/** Eine Hauptfarbe mit ihrem Anteil (0–1) an den gezählten Pixeln. */
+export type Swatch = { hex: string; share: number };
+
+/**
+ * Farbe als Filter oder Reihenfolge: `rank` sortiert nach Nähe, `same` zeigt nur die
+ * gleiche Farbe, `other` nur andere – für den richtigen Schnitt in anderer Farbe.
+ */
+export type ColorMode = 'rank' | 'same' | 'other';
+export type ColorView = { hex: string; mode: ColorMode };
+export const COLOR_MODES: readonly ColorMode[] = ['rank', 'same', 'other'];
+
+export const PALETTE_SIZE = 5;
+/** Bis zu diesem Abstand (ΔE) gilt eine Farbe als „gleich“ – Marine und Schwarz liegen knapp darüber. */
+export const SAME_COLOR_MAX_DELTA = 18;
+
+const SAMPLE_EDGE = 64;
+/** Pixel, die zu einer Farbe zusammengefasst werden (ΔE). */
+const MERGE_DELTA = 14;
+const MIN_SHARE = 0.04;
+/** Nur Farben mit mindestens diesem Anteil zählen beim Vergleich als Hauptfarbe. */
+const MAIN_SHARE = 0.2;
+
+type Rgb = [number, number, number];
+type Lab = [number, number, number];
+
+const hexOf = ([r, g, b]: Rgb) => `#${[r, g, b].map((v) => Math.round(v).toString(16).padStart(2, '0')).join('')}`;
+
+function rgbOf(hex: string): Rgb {
+  const n = Number.parseInt(hex.replace('#', ''), 16);
+  return [(n >> 16) & 255, (n >> 8) & 255, n & 255];
+}
+
+/** sRGB → CIE-Lab (D65). */
+function toLab([r, g, b]: Rgb): Lab {
+  const lin = (v: number) => {
+    const c = v / 255;
+    return c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+  };
+  const [lr, lg, lb] = [lin(r), lin(g), lin(b)];
+  const x = (lr * 0.4124 + lg * 0.3576 + lb * 0.1805) / 0.95047;
+  const y = lr * 0.2126 + lg * 0.7152 + lb * 0.0722;
+  const z = (lr * 0.0193 + lg * 0.1192 + lb * 0.9505) / 1.08883;
+  const f = (t: number) => (t > 0.008856 ? Math.cbrt(t) : 7.787 * t + 16 / 116);
+  return [116 * f(y) - 16, 500 * (f(x) - f(y)), 200 * (f(y) - f(z))];
+}
+
+/** Farbabstand ΔE (CIE76): unter ~2 kaum sichtbar, über ~30 klar andere Farbe. */
+const deltaE = (a: Lab, b: Lab) => Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+
+type Cluster = { sum: Rgb; count: number; lab: Lab };
+
+function addTo(c: Cluster, r: number, g: number, b: number, n: number) {
+  c.sum[0] += r * n;
+  c.sum[1] += g * n;
+  c.sum[2] += b * n;
+  c.count += n;
+}
+
+const meanOf = (c: Cluster): Rgb => [c.sum[0] / c.count, c.sum[1] / c.count, c.sum[2] / c.count];
+
+/**
+ * Einfarbiger Rand (Freisteller der Shops, weiße Maske) ist Hintergrund und zählt nicht mit.
+ * Liefert dessen Farbe, wenn der Rand zu mindestens 60 % aus ihr besteht.
+ */
+function borderBackground(data: Uint8ClampedArray, w: number, h: number): Lab | null {
+  const ring = Math.max(1, Math.round(Math.min(w, h) * 0.04));
+  const buckets = new Map<number, Cluster>();
+  let total = 0;
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      if (x >= ring && x < w - ring && y >= ring && y < h - ring) continue;
+      const i = (y * w + x) * 4;
+      if (data[i + 3] < 128) continue;
+      const key = ((data[i] >> 5) << 6) | ((data[i + 1] >> 5) << 3) | (data[i + 2] >> 5);
+      const c = buckets.get(key) ?? { sum: [0, 0, 0], count: 0, lab: [0, 0, 0] };
+      addTo(c, data[i], data[i + 1], data[i + 2], 1);
+      buckets.set(key, c);
+      total++;
+    }
+  }
+  const top = [...buckets.values()].sort((a, b) => b.count - a.count)[0];
+  return top && top.count >= total * 0.6 ? toLab(meanOf(top)) : null;
+}
+
+/** Hauptfarben aus einem (dekodierten) Bild, häufigste zuerst. Nur im Browser. */
+export function extractPalette(source: CanvasImageSource, width: number, height: number, max = PALETTE_SIZE): Swatch[] {
+  const s = Math.min(1, SAMPLE_EDGE / Math.max(width, height, 1));
+  const w = Math.max(1, Math.round(width * s));
+  const h = Math.max(1, Math.round(height * s));
+  const canvas = document.createElement('canvas');
+  canvas.width = w;
+  canvas.height = h;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return [];
+  ctx.drawImage(source, 0, 0, w, h);
+  const { data } = ctx.getImageData(0, 0, w, h);
+
+  // Fein vorsortieren (4 Bit je Kanal), dann ähnliche Töne zusammenfassen
+  const bg = borderBackground(data, w, h);
+  const buckets = new Map<number, Cluster>();
+  let counted = 0;
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] < 128) continue;
+    const key = ((data[i] >> 4) << 8) | ((data[i + 1] >> 4) << 4) | (data[i + 2] >> 4);
+    const c = buckets.get(key) ?? { sum: [0, 0, 0], count: 0, lab: [0, 0, 0] };
+    addTo(c, data[i], data[i + 1], data[i + 2], 1);
+    buckets.set(key, c);
+  }
+  const fine = [...buckets.values()];
+  for (const c of fine) c.lab = toLab(meanOf(c));
+
+  // Besteht (fast) alles aus der Randfarbe, ist sie das Kleidungsstück selbst
+  const isBg = (c: Cluster) => bg !== null && deltaE(c.lab, bg) < 10;
+  const fg = fine.reduce((n, c) => n + (isBg(c) ? 0 : c.count), 0);
+  const total = fine.reduce((n, c) => n + c.count, 0);
+  const dropBg = fg >= total * 0.1;
+
+  const clusters: Cluster[] = [];
+  for (const c of fine.sort((a, b) => b.count - a.count)) {
+    if (dropBg && isBg(c)) continue;
+    counted += c.count;
+    const near = clusters.find((k) => deltaE(k.lab, c.lab) < MERGE_DELTA);
+    if (near) {
+      addTo(near, c.sum[0] / c.count, c.sum[1] / c.count, c.sum[2] / c.count, c.count);
+    } else {
+      clusters.push({ sum: [...c.sum], count: c.count, lab: c.lab });
+    }
+  }
+  if (!counted) return [];
+
+  return clusters
+    .sort((a, b) => b.count - a.count)
+    .map((c) => ({ hex: hexOf(meanOf(c)), share: c.count / counted }))
+    .filter((c) => c.share >= MIN_SHARE)
+    .slice(0, max);
+}
+
+/** Abstand einer Farbe zu den Hauptfarben eines Bildes; null ohne Farben. */
+export function paletteDistance(hex: string, palette: Swatch[] | null | undefined): number | null {
+  if (!palette?.length) return null;
+  const main = palette.filter((p) => p.share >= MAIN_SHARE);
+  const target = toLab(rgbOf(hex));
+  return Math.min(...(main.length ? main : palette.slice(0, 1)).map((p) => deltaE(target, toLab(rgbOf(p.hex)))));
+}
+
+/**
+ * Treffer nach Farbe filtern bzw. ordnen. `paletteOf` liefert undefined, solange ein Bild
+ * noch analysiert wird, null wenn es keins gibt – solche Treffer bleiben bei `rank` am Ende
+ * stehen und fallen bei `same`/`other` heraus (ihre Farbe ist unbekannt).
+ */
+export function applyColorView<T extends Hit>(hits: T[], view: ColorView, paletteOf: (h: T) => Swatch[] | null | undefined): T[] {
+  const dist = new Map(hits.map((h) => [h, paletteDistance(view.hex, paletteOf(h))] as const));
+  const d = (h: T) => dist.get(h) ?? Infinity;
+  switch (view.mode) {
+    case 'same': return hits.filter((h) => d(h) <= SAME_COLOR_MAX_DELTA).sort((a, b) => d(a) - d(b));
+    case 'other': return hits.filter((h) => dist.get(h) != null && d(h) > SAME_COLOR_MAX_DELTA);
+    default: return [...hits].sort((a, b) => d(a) - d(b));
+  }
+}
@@ -0,0 +1,67 @@
+import { readableImageUrl } from '@/lib/api/imageUrl';
+import { extractPalette, type Swatch } from './colors';
+
+/* ---------------- Farben der Trefferbilder (nur Browser) ---------------- */
+
+const MAX_PARALLEL = 4;
+
+// Pro Bild-URL einmal je Seitenaufruf; null = ließ sich nicht laden
+const done = new Map<string, Swatch[] | null>();
+const running = new Map<string, Promise<Swatch[] | null>>();
+const waiting: (() => void)[] = [];
+let active = 0;
+
+/** Schon analysiert? undefined = noch nicht (oder läuft gerade). */
+export const cachedPalette = (imageUrl: string) => done.get(imageUrl);
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.decoding = 'async';
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Bild konnte nicht gelesen werden.'));
+    img.src = src;
+  });
+}
+
+/** Höchstens MAX_PARALLEL Bilder gleichzeitig – sonst blockieren sie Proxy und Rate-Limit. */
+async function slot<T>(fn: () => Promise<T>): Promise<T> {
+  if (active >= MAX_PARALLEL) await new Promise<void>((res) => waiting.push(res));
+  active++;
+  try {
+    return await fn();
+  } finally {
+    active--;
+    waiting.shift()?.();
+  }
+}
+
+/** Hauptfarben eines Trefferbildes (fremde Bilder über den eigenen Proxy). */
+export function analyzeHitImage(imageUrl: string): Promise<Swatch[] | null> {
+  if (done.has(imageUrl)) return Promise.resolve(done.get(imageUrl)!);
+  let p = running.get(imageUrl);
+  if (!p) {
+    p = slot(async () => {
+      const img = await loadImage(readableImageUrl(imageUrl));
+      return extractPalette(img, img.naturalWidth, img.naturalHeight);
+    })
+      .catch(() => null)
+      .then((palette) => {
+        done.set(imageUrl, palette);
+        running.delete(imageUrl);
+        return palette;
+      });
+    running.set(imageUrl, p);
+  }
+  return p;
+}
+
+/** Hauptfarben eines gespeicherten Crops (z. B. aus dem Verlauf). */
+export async function paletteFromBlob(blob: Blob): Promise<Swatch[]> {
+  const bmp = await createImageBitmap(blob);
+  try {
+    return extractPalette(bmp, bmp.width, bmp.height);
+  } finally {
+    bmp.close();
+  }
+}
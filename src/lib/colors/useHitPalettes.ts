@@ -0,0 +1,31 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { Swatch } from './colors';
+import { analyzeHitImage, cachedPalette } from './hitColors';
+
+/**
+ * Farben der Bilder unter `imageUrls`, sobald sie analysiert sind. `pending` zählt, was
+ * noch fehlt. Mit leerer Liste (Farbe aus) wird nichts geladen.
+ */
+export function useHitPalettes(imageUrls: readonly string[]) {
+  const [palettes, setPalettes] = useState<ReadonlyMap<string, Swatch[] | null>>(() => new Map());
+
+  useEffect(() => {
+    let alive = true;
+    const known = imageUrls.filter((u) => cachedPalette(u) !== undefined);
+    if (known.length) {
+      setPalettes((prev) => (known.every((u) => prev.has(u)) ? prev : new Map([...prev, ...known.map((u) => [u, cachedPalette(u)!] as const)])));
+    }
+    for (const u of imageUrls) {
+      if (cachedPalette(u) !== undefined) continue;
+      void analyzeHitImage(u).then((p) => {
+        if (alive) setPalettes((prev) => new Map(prev).set(u, p));
+      });
+    }
+    return () => { alive = false; };
+  }, [imageUrls]);
+
+  const pending = imageUrls.filter((u) => !palettes.has(u)).length;
+  return { palettes, pending };
+}
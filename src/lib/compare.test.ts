@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import type { Hit } from '@/lib/api/types';
+import type { PriceInfo } from '@/lib/currency/currency';
+import { compareItem } from './compare';
+import { groupOffers } from './grouping';
+
+const hit = (over: Partial<Hit & PriceInfo>): Hit & PriceInfo => ({
+  product_id: 1, score: 0.5, label: 'Ähnlich', title: null, price: 10, currency: 'EUR', merchant: null,
+  deeplink: null, image_url: 'https://cdn.example/kleid.jpg', original: null, unknownCurrency: false, ...over,
+});
+
+describe('compareItem', () => {
+  it('hält das günstigste Angebot fest, mit Shop-Preis und Titel der Gruppe als Ersatz', () => {
+    const [group] = groupOffers([
+      hit({ product_id: 1, score: 0.9, title: 'Rotes Kleid', price: 80, merchant: 'Shop A', deeplink: 'https://a.example/1' }),
+      hit({
+        product_id: 2, score: 0.7, price: 60, merchant: 'Shop B', deeplink: 'https://b.example/2',
+        original: { price: 690, currency: 'SEK' },
+      }),
+    ]);
+    expect(compareItem(group)).toEqual({
+      key: group.groupKey,
+      hit: {
+        product_id: 2, score: 0.7, label: 'Ähnlich', title: 'Rotes Kleid', price: 690, currency: 'SEK',
+        merchant: 'Shop B', deeplink: 'https://b.example/2', image_url: 'https://cdn.example/kleid.jpg',
+      },
+    });
+  });
+});
@@ -0,0 +1,40 @@
+import type { Hit } from '@/lib/api/types';
+import { originalHit, type PriceInfo } from '@/lib/currency/currency';
+import type { OfferGroup } from '@/lib/grouping';
+
+/* ---------------- Treffer nebeneinander vergleichen ---------------- */
+
+export const MAX_COMPARE = 4;
+
+/**
+ * Ein ausgewählter Treffer: Schlüssel seiner Produktgruppe und eine Momentaufnahme
+ * mit Originalpreis (umgerechnet wird beim Anzeigen). So bleibt er auch stehen,
+ * wenn Filter oder weitere Seiten die Liste verändern.
+ */
+export type CompareItem = { key: string; hit: Hit };
+
+/** Momentaufnahme des günstigsten Angebots; Titel und Bild nur ersatzweise von der Gruppe. */
+export function compareItem(group: OfferGroup<Hit & PriceInfo>): CompareItem {
+  const h = originalHit(group.offers[0] ?? group);
+  return {
+    key: group.groupKey,
+    hit: {
+      product_id: h.product_id,
+      score: h.score,
+      label: h.label,
+      title: h.title ?? group.title,
+      price: h.price,
+      currency: h.currency,
+      merchant: h.merchant,
+      deeplink: h.deeplink,
+      image_url: h.image_url ?? group.image_url,
+    },
+  };
+}
+
+/** Hinzufügen oder entfernen; null, wenn schon MAX_COMPARE ausgewählt sind. */
+export function toggleCompare(list: CompareItem[], item: CompareItem): CompareItem[] | null {
+  if (list.some((c) => c.key === item.key)) return list.filter((c) => c.key !== item.key);
+  if (list.length >= MAX_COMPARE) return null;
+  return [...list, item];
+}
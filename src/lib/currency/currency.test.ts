@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import type { Hit, RateTable } from '@/lib/api/types';
+import { convertHits, originalHit } from './currency';
+
+const TABLE: RateTable = {
+  base: 'EUR', rates: { EUR: 1, USD: 1.08, GBP: 0.85 }, updatedAt: '2026-10-01T00:00:00Z', source: 'static',
+};
+
+const hit = (over: Partial<Hit>): Hit => ({
+  product_id: 1, score: 0.5, label: 'Ähnlich', title: null, price: 10, currency: 'EUR',
+  merchant: null, deeplink: null, image_url: null, ...over,
+});
+
+describe('convertHits', () => {
+  it('rechnet in die Anzeigewährung um und merkt sich den Originalpreis', () => {
+    const [h] = convertHits([hit({ price: 108, currency: 'usd' })], TABLE, 'EUR');
+    expect(h).toMatchObject({ price: 100, currency: 'EUR', original: { price: 108, currency: 'usd' }, unknownCurrency: false });
+  });
+
+  it('rundet auf Cent', () => {
+    expect(convertHits([hit({ price: 10, currency: 'GBP' })], TABLE, 'USD')[0].price).toBe(12.71);
+  });
+
+  it('lässt Preise in der Anzeigewährung unverändert', () => {
+    const [h] = convertHits([hit({ price: 59.9 })], TABLE, 'EUR');
+    expect(h).toMatchObject({ price: 59.9, currency: 'EUR', original: null, unknownCurrency: false });
+  });
+
+  it('markiert fehlende und unbekannte Währungen statt sie als EUR zu nehmen', () => {
+    for (const currency of [null, 'JPY']) {
+      const [h] = convertHits([hit({ price: 10, currency })], TABLE, 'EUR');
+      expect(h.price).toBeNaN();
+      expect(h).toMatchObject({ unknownCurrency: true, original: { price: 10, currency } });
+    }
+  });
+
+  it('rechnet ohne Kurstabelle nicht um', () => {
+    expect(convertHits([hit({ price: 10, currency: 'USD' })], null, 'EUR')[0]).toMatchObject({ price: 10, currency: 'USD' });
+  });
+});
+
+describe('originalHit', () => {
+  it('stellt den Treffer wie vom Backend wieder her', () => {
+    for (const h of [hit({ price: 108, currency: 'USD' }), hit({ price: 5 }), hit({ currency: 'JPY' })]) {
+      expect(originalHit(convertHits([h], TABLE, 'EUR')[0])).toEqual(h);
+    }
+  });
+
+  it('lässt unumgerechnete Treffer in Ruhe', () => {
+    const h = hit({ price: 3 });
+    expect(originalHit(h)).toEqual(h);
+  });
+});
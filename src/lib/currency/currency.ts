@@ -0,0 +1,55 @@
+import type { Hit, RateTable } from '@/lib/api/types';
+import staticRates from './rates.json';
+
+/* ---------------- Währungen: Umrechnung in die Anzeigewährung ---------------- */
+
+export const DEFAULT_CURRENCY = 'EUR';
+
+/** Mitgelieferte Kurse – Fallback, wenn kein RATES_URL konfiguriert oder erreichbar ist. */
+export const STATIC_RATES: RateTable = { ...staticRates, source: 'static' };
+
+export type OriginalPrice = { price: number; currency: string | null };
+
+export type PriceInfo = {
+  /** Preis vor der Umrechnung; null, wenn schon in der Anzeigewährung. */
+  original: OriginalPrice | null;
+  /** Währung fehlt oder steht nicht in der Kurstabelle → nicht vergleichbar. */
+  unknownCurrency: boolean;
+};
+
+export type PricedHit<T extends Hit = Hit> = T & PriceInfo;
+
+export const currencyCodes = (table: RateTable) => Object.keys(table.rates).sort();
+
+export function convert(amount: number, from: string | null, to: string, table: RateTable): number | null {
+  const src = from ? table.rates[from.toUpperCase()] : undefined;
+  const dst = table.rates[to.toUpperCase()];
+  if (!src || !dst) return null;
+  return (amount / src) * dst;
+}
+
+/**
+ * Rechnet alle Preise in `display` um. Sortierung, Filter und Gruppen laufen
+ * danach unverändert auf `price`. Unbekannte Währungen bekommen `price = NaN`
+ * (landen beim Preis-Sortieren hinten, fallen aus Preisfiltern) und ein Flag –
+ * sie werden bewusst nicht als EUR behandelt.
+ */
+export function convertHits<T extends Hit>(hits: T[], table: RateTable | null, display: string): PricedHit<T>[] {
+  return hits.map((h) => {
+    const original = { price: h.price, currency: h.currency };
+    if (!h.currency || (table && !table.rates[h.currency.toUpperCase()])) {
+      return { ...h, price: NaN, original, unknownCurrency: true };
+    }
+    if (!table || h.currency.toUpperCase() === display) return { ...h, original: null, unknownCurrency: false };
+    const price = convert(h.price, h.currency, display, table)!;
+    return { ...h, price: Math.round(price * 100) / 100, currency: display, original, unknownCurrency: false };
+  });
+}
+
+/** Originalpreis zurückholen, z. B. bevor ein Treffer als Favorit gespeichert wird. */
+export function originalHit<T extends Hit>(h: T & Partial<PriceInfo>): T {
+  const hit: T & Partial<PriceInfo> = { ...h };
+  delete hit.original;
+  delete hit.unknownCurrency;
+  return (h.original ? { ...hit, price: h.original.price, currency: h.original.currency } : hit) as T;
+}
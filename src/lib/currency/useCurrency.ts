@@ -0,0 +1,59 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { ratesViaProxy } from '@/lib/api/rates';
+import type { RateTable } from '@/lib/api/types';
+import { DEFAULT_CURRENCY, STATIC_RATES } from './currency';
+
+const KEY = 'clofind:currency';
+const EVENT = 'clofind:currency';
+
+function readDisplay(): string {
+  if (typeof localStorage === 'undefined') return DEFAULT_CURRENCY;
+  return localStorage.getItem(KEY) || DEFAULT_CURRENCY;
+}
+
+// Eine Anfrage pro Seitenaufruf, egal wie viele Komponenten den Hook nutzen
+let tablePromise: Promise<RateTable> | null = null;
+const loadTable = () => (tablePromise ??= ratesViaProxy().catch(() => STATIC_RATES));
+
+/**
+ * Anzeigewährung (lokal gespeichert, tab-übergreifend synchron) und Kurstabelle.
+ * Bis die Tabelle da ist, gilt die mitgelieferte – Preise springen höchstens kurz.
+ */
+export function useCurrency() {
+  const [display, setDisplayState] = useState(DEFAULT_CURRENCY);
+  const [table, setTable] = useState<RateTable>(STATIC_RATES);
+
+  useEffect(() => {
+    const sync = () => setDisplayState(readDisplay());
+    sync();
+    const onStorage = (e: StorageEvent) => { if (e.key === KEY) sync(); };
+    window.addEventListener(EVENT, sync);
+    window.addEventListener('storage', onStorage);
+    return () => {
+      window.removeEventListener(EVENT, sync);
+      window.removeEventListener('storage', onStorage);
+    };
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    void loadTable().then((t) => { if (!cancelled) setTable(t); });
+    return () => { cancelled = true; };
+  }, []);
+
+  const setDisplay = useCallback((code: string) => {
+    try {
+      localStorage.setItem(KEY, code);
+    } catch {
+      // Privater Modus o. Ä. – gilt dann nur für diesen Tab
+    }
+    window.dispatchEvent(new Event(EVENT));
+    setDisplayState(code);
+  }, []);
+
+  // Gespeicherte Währung, die die aktuelle Tabelle nicht kennt → Standard
+  const known = table.rates[display] ? display : DEFAULT_CURRENCY;
+  return { display: known, setDisplay, table };
+}
@@ -0,0 +1,259 @@
+import type { SearchFeedback, SearchFilters } from '@/lib/api/search';
+import type { Hit, PriceQuote, ProductDetail } from '@/lib/api/types';
+import { STATIC_RATES, convert } from '@/lib/currency/currency';
+
+/* ---------------- Demo-Treffer für den Betrieb ohne Backend ---------------- */
+
+type Fixture = Omit<Hit, 'score' | 'label' | 'image_url'> & { color: string | null; kind: GarmentKind };
+export type GarmentKind = 'top' | 'jacket' | 'trousers' | 'dress' | 'shoes' | 'bag';
+
+/**
+ * Bewusst „unordentlich“: gemischte Währungen, fehlende Titel/Bilder/Deeplinks
+ * und doppelte Einträge – so wie das echte Backend sie auch liefert.
+ */
+const FIXTURES: Fixture[] = [
+  { product_id: 1001, kind: 'jacket', color: '#1f2937', title: 'Wollmantel Oversized, Anthrazit', price: 189.95, currency: 'EUR', merchant: 'Zalando', deeplink: 'https://example.com/zalando/1001' },
+  { product_id: 1002, kind: 'jacket', color: '#374151', title: 'Oversized Wool Coat – Charcoal', price: 1990, currency: 'SEK', merchant: 'Nelly', deeplink: 'https://example.com/nelly/1002' },
+  { product_id: 1003, kind: 'jacket', color: '#78350f', title: 'Trenchcoat aus Baumwolle', price: 129.99, currency: 'EUR', merchant: 'Mango', deeplink: 'https://example.com/mango/1003' },
+  { product_id: 1004, kind: 'top', color: '#f5f5f4', title: 'Basic T-Shirt Bio-Baumwolle', price: 12.99, currency: 'EUR', merchant: 'H&M', deeplink: 'https://example.com/hm/1004' },
+  { product_id: 1005, kind: 'top', color: '#e7e5e4', title: 'Relaxed Fit Tee', price: 19.9, currency: 'EUR', merchant: 'Uniqlo', deeplink: 'https://example.com/uniqlo/1005' },
+  { product_id: 1006, kind: 'top', color: '#0ea5e9', title: null, price: 24.0, currency: 'EUR', merchant: 'About You', deeplink: 'https://example.com/aboutyou/1006' },
+  { product_id: 1007, kind: 'trousers', color: '#1e3a8a', title: 'Straight Leg Jeans, Dark Blue', price: 59.95, currency: 'EUR', merchant: 'Levi’s', deeplink: 'https://example.com/levis/1007' },
+  { product_id: 1008, kind: 'trousers', color: '#1e40af', title: 'Straight Jeans dunkelblau', price: 49.99, currency: 'EUR', merchant: 'Otto', deeplink: null },
+  { product_id: 1009, kind: 'trousers', color: '#a8a29e', title: 'Wide Leg Chinos', price: 45.0, currency: 'GBP', merchant: 'ASOS', deeplink: 'https://example.com/asos/1009' },
+  { product_id: 1010, kind: 'dress', color: '#be123c', title: 'Midikleid mit Blumenprint', price: 79.95, currency: 'EUR', merchant: 'Zara', deeplink: 'https://example.com/zara/1010' },
+  { product_id: 1011, kind: 'dress', color: '#9f1239', title: 'Floral Midi Dress', price: 98.0, currency: 'USD', merchant: 'Everlane', deeplink: 'https://example.com/everlane/1011' },
+  { product_id: 1012, kind: 'shoes', color: '#fafafa', title: 'Ledersneaker weiß', price: 119.0, currency: 'EUR', merchant: 'Zalando', deeplink: 'https://example.com/zalando/1012' },
+  { product_id: 1013, kind: 'shoes', color: '#f4f4f5', title: 'Leather Sneaker White', price: 1299, currency: 'SEK', merchant: 'Nelly', deeplink: 'https://example.com/nelly/1013' },
+  { product_id: 1014, kind: 'shoes', color: '#111827', title: 'Chelsea Boots Leder', price: 149.9, currency: 'EUR', merchant: null, deeplink: 'https://example.com/unknown/1014' },
+  { product_id: 1015, kind: 'bag', color: '#92400e', title: 'Shopper aus Leder, Cognac', price: 89.0, currency: 'EUR', merchant: 'COS', deeplink: 'https://example.com/cos/1015' },
+  { product_id: 1016, kind: 'bag', color: '#b45309', title: 'Leather Tote', price: 120.0, currency: 'CHF', merchant: 'Manor', deeplink: 'https://example.com/manor/1016' },
+  { product_id: 1017, kind: 'top', color: '#65a30d', title: 'Strickpullover Merino', price: 69.9, currency: null, merchant: 'Hessnatur', deeplink: 'https://example.com/hessnatur/1017' },
+  { product_id: 1018, kind: 'jacket', color: '#3f6212', title: 'Feldjacke Oliv', price: 99.95, currency: 'EUR', merchant: 'Otto', deeplink: 'https://example.com/otto/1018' },
+];
+
+/** Varianten je Fixture (IDs +100, +200, …), damit die Demo mehrere Seiten füllt. */
+const VARIANT_ROUNDS = 8;
+const VARIANT_MERCHANTS = ['Zalando', 'About You', 'Otto', 'ASOS', 'Mango', 'H&M'];
+
+function variant(f: Fixture, round: number): Fixture {
+  if (round === 0) return f;
+  return {
+    ...f,
+    product_id: f.product_id + round * 100,
+    title: f.title && `${f.title} – Variante ${round + 1}`,
+    price: Number((f.price * (0.6 + ((f.product_id + round * 37) % 80) / 100)).toFixed(2)),
+    merchant: VARIANT_MERCHANTS[(f.product_id + round) % VARIANT_MERCHANTS.length],
+    deeplink: f.deeplink && `${f.deeplink}-v${round + 1}`,
+  };
+}
+
+/** Produkte ohne Bild, um den leeren Bild-Platzhalter zu zeigen. */
+const WITHOUT_IMAGE = new Set([1008, 1017]);
+
+export function demoLabel(score: number): string {
+  if (score >= 0.9) return 'Exact';
+  if (score >= 0.8) return 'Sehr ähnlich';
+  return 'Alternative';
+}
+
+/** Kleiner deterministischer PRNG (mulberry32), damit gleiche Crops gleiche Treffer liefern. */
+function rng(seed: number) {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function seedFromBytes(bytes: Uint8Array): number {
+  let h = 2166136261;
+  for (let i = 0; i < bytes.length; i += Math.max(1, Math.floor(bytes.length / 4096))) {
+    h = Math.imul(h ^ bytes[i], 16777619);
+  }
+  return h >>> 0;
+}
+
+export function demoImageUrl(productId: number): string {
+  return `/api/demo/image/${productId}`;
+}
+
+export function findFixture(productId: number): Fixture | undefined {
+  const round = Math.floor((productId - 1000) / 100);
+  if (round < 0 || round > VARIANT_ROUNDS) return undefined;
+  const base = FIXTURES.find((f) => f.product_id === productId - round * 100);
+  return base && variant(base, round);
+}
+
+function toHit(f: Fixture, score: number): Hit {
+  return {
+    product_id: f.product_id,
+    score: Number(score.toFixed(4)),
+    label: demoLabel(score),
+    title: f.title,
+    price: f.price,
+    currency: f.currency,
+    merchant: f.merchant,
+    deeplink: f.deeplink,
+    image_url: WITHOUT_IMAGE.has(f.product_id) ? null : demoImageUrl(f.product_id),
+  };
+}
+
+/** Filter wie im Backend: Preis in `currency` (mit den mitgelieferten Kursen), Label, Händler. */
+function matchesFilters(h: Hit, f: SearchFilters): boolean {
+  if (f.labels && !f.labels.includes(h.label)) return false;
+  if (f.merchants?.length && !f.merchants.includes(h.merchant ?? '')) return false;
+  if (f.minScore !== undefined && h.score < f.minScore) return false;
+  if (f.minPrice === undefined && f.maxPrice === undefined) return true;
+  const price = convert(h.price, h.currency, f.currency ?? 'EUR', STATIC_RATES);
+  if (price === null) return false;
+  return (f.minPrice === undefined || price >= f.minPrice) && (f.maxPrice === undefined || price <= f.maxPrice);
+}
+
+const KIND_WORDS: Record<GarmentKind, string[]> = {
+  top: ['top', 'shirt', 'tee', 'pullover', 'oberteil', 'sweater'],
+  jacket: ['jacke', 'mantel', 'jacket', 'coat'],
+  trousers: ['hose', 'jeans', 'chino', 'trousers', 'pants'],
+  dress: ['kleid', 'dress'],
+  shoes: ['schuh', 'sneaker', 'boots', 'shoe'],
+  bag: ['tasche', 'bag', 'shopper', 'tote'],
+};
+
+const COLOR_WORDS: Record<string, [number, number, number]> = {
+  schwarz: [17, 24, 39], black: [17, 24, 39],
+  weiß: [250, 250, 250], weiss: [250, 250, 250], white: [250, 250, 250],
+  blau: [30, 64, 175], blue: [30, 64, 175],
+  rot: [190, 18, 60], red: [190, 18, 60],
+  grün: [63, 98, 18], green: [63, 98, 18],
+  braun: [146, 64, 14], brown: [146, 64, 14],
+  grau: [168, 162, 158], grey: [168, 162, 158], gray: [168, 162, 158],
+};
+
+const hexRgb = (hex: string): [number, number, number] => {
+  const n = Number.parseInt(hex.slice(1), 16);
+  return [(n >> 16) & 255, (n >> 8) & 255, n & 255];
+};
+
+function nearColor(hex: string | null, rgb: [number, number, number]): boolean {
+  if (!hex) return false;
+  const [r, g, b] = hexRgb(hex);
+  return Math.hypot(r - rgb[0], g - rgb[1], b - rgb[2]) < 90;
+}
+
+/** Textverfeinerung grob nachgestellt: jedes Wort, das zu Titel, Art oder Farbe passt, hebt den Score. */
+function queryBoost(f: Fixture, query: string | undefined): number {
+  const words = (query ?? '').toLowerCase().split(/[^\p{L}\p{N}]+/u).filter((w) => w.length >= 3);
+  const title = (f.title ?? '').toLowerCase();
+  const matches = (w: string) =>
+    title.includes(w) ||
+    KIND_WORDS[f.kind].some((k) => k.startsWith(w) || w.startsWith(k)) ||
+    Object.entries(COLOR_WORDS).some(([c, rgb]) => w.startsWith(c) && nearColor(f.color, rgb)); // „schwarze“ → schwarz
+  return words.filter(matches).length * 0.15;
+}
+
+/** Wie ein Backend mit Feedback: Ähnliches zu „mehr davon“ steigt, zu „nicht das“ fällt; Abgelehntes ganz nach hinten. */
+function feedbackBoost(f: Fixture, feedback: SearchFeedback | undefined): number {
+  if (!feedback) return 0;
+  const likeness = (id: number) => {
+    const o = findFixture(id);
+    if (!o) return 0;
+    return (o.kind === f.kind ? 0.5 : 0) + (o.color && nearColor(f.color, hexRgb(o.color)) ? 0.5 : 0);
+  };
+  if (feedback.negative.includes(f.product_id)) return -1;
+  const up = Math.max(0, ...feedback.positive.map(likeness));
+  const down = Math.max(0, ...feedback.negative.map(likeness));
+  return up * 0.2 - down * 0.25;
+}
+
+/**
+ * Liefert `topk` Treffer, absteigend nach Score, inklusive zweier Duplikate
+ * (gleiche product_id/deeplink/image_url) wie beim echten Backend. Die Varianten
+ * liegen alle unter den Originalen – die erste Seite bleibt wie gehabt.
+ */
+export function demoHits(
+  seed: number,
+  topk: number,
+  filters: SearchFilters = {},
+  query?: string,
+  feedback?: SearchFeedback
+): Hit[] {
+  const rand = rng(seed);
+  const boosted = (f: Fixture, score: number) =>
+    Math.max(0.01, Math.min(0.99, score + queryBoost(f, query) + feedbackBoost(f, feedback)));
+  const originals = FIXTURES.map((f) => ({ f, score: boosted(f, 0.62 + rand() * 0.36) }));
+  const variants = Array.from({ length: VARIANT_ROUNDS }, (_, i) =>
+    FIXTURES.map((f) => ({ f: variant(f, i + 1), score: boosted(f, 0.3 + rand() * 0.3 - i * 0.02) }))
+  ).flat();
+  const scored = [...originals, ...variants].sort((a, b) => b.score - a.score);
+
+  const hits: Hit[] = scored.map(({ f, score }) => toHit(f, score));
+
+  const withDupes = [...hits.slice(0, 4), { ...hits[1] }, ...hits.slice(4), { ...hits[6] }];
+  return withDupes.filter((h) => matchesFilters(h, filters)).slice(0, Math.max(0, topk));
+}
+
+/** Platzhalterbild als SVG – funktioniert offline und ist same-origin. */
+export function demoImageSvg(productId: number): string | null {
+  const f = findFixture(productId);
+  if (!f) return null;
+  const fill = f.color ?? '#d4d4d8';
+  const shapes: Record<GarmentKind, string> = {
+    top: 'M110 60 L160 40 L240 40 L290 60 L330 120 L290 140 L280 110 L280 250 L120 250 L120 110 L110 140 L70 120 Z',
+    jacket: 'M110 50 L170 30 L200 60 L230 30 L290 50 L330 260 L280 260 L270 120 L270 270 L130 270 L130 120 L120 260 L70 260 Z',
+    trousers: 'M140 30 L260 30 L280 270 L215 270 L200 110 L185 270 L120 270 Z',
+    dress: 'M165 30 L235 30 L245 100 L310 270 L90 270 L155 100 Z',
+    shoes: 'M70 190 L90 130 L170 140 L220 180 L320 200 L330 240 L70 240 Z',
+    bag: 'M110 110 L290 110 L310 260 L90 260 Z M150 110 Q150 50 200 50 Q250 50 250 110',
+  };
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="400" height="300" viewBox="0 0 400 300">
+<rect width="400" height="300" fill="#f4f4f5"/>
+<path d="${shapes[f.kind]}" fill="${fill}" stroke="#52525b" stroke-width="3" stroke-linejoin="round"/>
+<text x="12" y="290" font-family="sans-serif" font-size="13" fill="#71717a">Demo #${f.product_id}</text>
+</svg>`;
+}
+
+/** Produktdetails: Angebot des Produkts selbst plus ein zweiter Shop für gerade IDs. */
+export function demoProduct(productId: number): ProductDetail | null {
+  const f = findFixture(productId);
+  if (!f) return null;
+  const own = toHit(f, 1);
+  const offers = productId % 2 === 0 && f.deeplink
+    ? [own, { ...own, merchant: 'Outlet', price: Number((f.price * 0.85).toFixed(2)), deeplink: `${f.deeplink}?outlet=1` }]
+    : [own];
+  return { product_id: f.product_id, title: f.title, image_url: own.image_url, offers };
+}
+
+/** So lange gilt ein Demo-Preis – kurz genug, um Preisalarme auszuprobieren. */
+const DEMO_PRICE_PERIOD_MS = 5 * 60_000;
+
+/** Aktuelle Preise: Angebote wie bei demoProduct, je Zeitraum mal voll, mal bis zu 30 % reduziert. */
+export function demoPrices(ids: readonly number[], now = Date.now()): PriceQuote[] {
+  const period = Math.floor(now / DEMO_PRICE_PERIOD_MS);
+  return ids.flatMap((id) => {
+    const product = demoProduct(id);
+    if (!product) return [];
+    const rand = rng(id * 7919 + period);
+    const factor = rand() < 0.5 ? 1 : 0.7 + rand() * 0.25;
+    return product.offers.map((o) => ({
+      product_id: id,
+      price: Number((o.price * factor).toFixed(2)),
+      currency: o.currency,
+      merchant: o.merchant,
+      deeplink: o.deeplink,
+    }));
+  });
+}
+
+/** „Mehr davon“: gleiche Art zuerst, das Produkt selbst nicht noch einmal. */
+export function demoSimilar(productId: number, topk: number): Hit[] | null {
+  const self = findFixture(productId);
+  if (!self) return null;
+  const rand = rng(productId);
+  return FIXTURES.filter((f) => f.product_id !== productId)
+    .map((f) => toHit(f, (f.kind === self.kind ? 0.82 : 0.6) + rand() * 0.16))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, Math.max(0, topk));
+}
@@ -0,0 +1,37 @@
+import { DEMO_TIMEOUT_MS, demoConfig, type DemoScenario } from './scenario';
+
+/* ---------------- Gemeinsamer Ablauf der Demo-Routen ---------------- */
+
+let flakyCounter = 0;
+
+function wait(ms: number, signal: AbortSignal) {
+  return new Promise<void>((resolve) => {
+    const t = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => { clearTimeout(t); resolve(); }, { once: true });
+  });
+}
+
+/**
+ * Wartet die konfigurierte Latenz ab und liefert für die allgemeinen Fehler-
+ * Szenarien gleich die passende Antwort. `response === null` heißt: Route macht
+ * normal weiter (und behandelt ggf. eigene Szenarien wie 'fallback-404').
+ */
+export async function demoPreamble(req: Request): Promise<{ scenario: DemoScenario; response: Response | null }> {
+  const { scenario, latencyMs } = demoConfig(req.headers);
+  await wait(scenario === 'timeout' ? DEMO_TIMEOUT_MS + 2_000 : latencyMs, req.signal);
+  if (req.signal.aborted) return { scenario, response: new Response(null, { status: 499 }) };
+
+  switch (scenario) {
+    case 'not-found':
+      return { scenario, response: new Response('Not Found', { status: 404 }) };
+    case 'unavailable':
+      return { scenario, response: new Response('Service Unavailable', { status: 503 }) };
+    case 'flaky':
+      if (flakyCounter++ % 2 === 0) return { scenario, response: new Response('Service Unavailable', { status: 503 }) };
+      return { scenario, response: null };
+    case 'error':
+      return { scenario, response: new Response('Internal Server Error (demo)', { status: 500 }) };
+    default:
+      return { scenario, response: null };
+  }
+}
@@ -0,0 +1,75 @@
+/* ---------------- Demo-Modus: Szenarien, Latenz, Fehlerinjektion ---------------- */
+
+export const DEMO_SCENARIOS = [
+  'ok',           // normale Treffer
+  'empty',        // leere Trefferliste
+  'fallback-404', // erster Endpoint 404 → Fallback auf /search/image
+  'not-found',    // alle Endpoints 404
+  'unavailable',  // 503
+  'flaky',        // jede zweite Anfrage 503 → Retry greift
+  'timeout',      // antwortet nicht rechtzeitig
+  'bad-response', // kaputtes JSON-Schema
+  'error',        // 500
+] as const;
+export type DemoScenario = (typeof DEMO_SCENARIOS)[number];
+
+export const DEMO_SCENARIO_HEADER = 'x-demo-scenario';
+export const DEMO_LATENCY_HEADER = 'x-demo-latency';
+
+/** Zeitlimit, das der Proxy im Demo-Modus nutzt; 'timeout' wartet länger. */
+export const DEMO_TIMEOUT_MS = 3_000;
+export const DEFAULT_DEMO_LATENCY_MS = 600;
+
+/** Kurzformen für die Adresszeile: ?demo=503, ?demo=404, ?demo=timeout … */
+const ALIASES: Record<string, DemoScenario> = {
+  '404': 'fallback-404',
+  '404-all': 'not-found',
+  '503': 'unavailable',
+  '500': 'error',
+  bad: 'bad-response',
+};
+
+export function parseScenario(v: string | null | undefined): DemoScenario | undefined {
+  if (!v) return undefined;
+  const key = v.trim().toLowerCase();
+  if (key in ALIASES) return ALIASES[key];
+  return (DEMO_SCENARIOS as readonly string[]).includes(key) ? (key as DemoScenario) : undefined;
+}
+
+export function parseLatency(v: string | null | undefined): number | undefined {
+  const n = Number.parseInt(v ?? '', 10);
+  return Number.isFinite(n) && n >= 0 ? Math.min(n, 30_000) : undefined;
+}
+
+/**
+ * Header für den Such-Client aus `?demo=…&latency=…` der Seite. Das echte
+ * Backend ignoriert sie; nur der Proxy im Demo-Modus reicht sie weiter.
+ */
+export function demoHeadersFromSearch(search: string): Record<string, string> {
+  const q = new URLSearchParams(search);
+  const headers: Record<string, string> = {};
+  const scenario = parseScenario(q.get('demo'));
+  const latency = parseLatency(q.get('latency'));
+  if (scenario) headers[DEMO_SCENARIO_HEADER] = scenario;
+  if (latency !== undefined) headers[DEMO_LATENCY_HEADER] = String(latency);
+  return headers;
+}
+
+/** Serverseitig: Header der Anfrage vor DEMO_SCENARIO / DEMO_LATENCY_MS aus der Umgebung. */
+export function demoConfig(headers: Headers): { scenario: DemoScenario; latencyMs: number } {
+  return {
+    scenario: parseScenario(headers.get(DEMO_SCENARIO_HEADER)) ?? parseScenario(process.env.DEMO_SCENARIO) ?? 'ok',
+    latencyMs:
+      parseLatency(headers.get(DEMO_LATENCY_HEADER)) ?? parseLatency(process.env.DEMO_LATENCY_MS) ?? DEFAULT_DEMO_LATENCY_MS,
+  };
+}
+
+/** Die Demo-Header, die der Proxy an /api/demo weiterreicht. */
+export function forwardDemoHeaders(headers: Headers): Record<string, string> {
+  const out: Record<string, string> = {};
+  for (const h of [DEMO_SCENARIO_HEADER, DEMO_LATENCY_HEADER]) {
+    const v = headers.get(h);
+    if (v) out[h] = v;
+  }
+  return out;
+}
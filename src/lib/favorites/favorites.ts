@@ -0,0 +1,94 @@
+import type { Hit } from '@/lib/api/types';
+import { STORES, del, get, getAll, hasIndexedDb, put } from '@/lib/history/db';
+
+/* ---------------- Favoriten (Merkliste) ---------------- */
+
+/** Stand eines Favoriten beim letzten Auftauchen in einer Suche. */
+export type SeenPrice = { price: number; currency: string | null; at: number };
+
+/** Schnappschuss des Treffers zum Zeitpunkt des Merkens. */
+export type Favorite = Hit & {
+  key: string;
+  savedAt: number;
+  lastSeen?: SeenPrice;
+};
+
+/** Gleiches Produkt beim gleichen Shop-Link = derselbe Favorit. */
+export const favoriteKey = (h: Hit) => `${h.product_id}:${h.deeplink ?? ''}`;
+
+const channel = () =>
+  typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel('clofind-favorites') : null;
+
+/** Andere Tabs (und Hooks im selben Tab) über Änderungen informieren. */
+function notifyChange() {
+  const ch = channel();
+  ch?.postMessage('changed');
+  ch?.close();
+  if (typeof window !== 'undefined') window.dispatchEvent(new Event('clofind:favorites'));
+}
+
+/** Änderungen aus diesem und anderen Tabs abonnieren; liefert die Abmeldung. */
+export function subscribeFavorites(onChange: () => void): () => void {
+  const ch = channel();
+  if (ch) ch.onmessage = onChange;
+  window.addEventListener('clofind:favorites', onChange);
+  return () => {
+    ch?.close();
+    window.removeEventListener('clofind:favorites', onChange);
+  };
+}
+
+export async function listFavorites(): Promise<Favorite[]> {
+  if (!hasIndexedDb()) return [];
+  const all = await getAll<Favorite>(STORES.favorites);
+  return all.sort((a, b) => b.savedAt - a.savedAt);
+}
+
+export async function addFavorite(hit: Hit): Promise<void> {
+  const fav: Favorite = {
+    key: favoriteKey(hit),
+    savedAt: Date.now(),
+    product_id: hit.product_id,
+    title: hit.title,
+    price: hit.price,
+    currency: hit.currency,
+    merchant: hit.merchant,
+    image_url: hit.image_url,
+    deeplink: hit.deeplink,
+    label: hit.label,
+    score: hit.score,
+  };
+  await put(STORES.favorites, fav);
+  notifyChange();
+}
+
+export async function removeFavorites(keys: string | string[]): Promise<void> {
+  await del(STORES.favorites, keys);
+  notifyChange();
+}
+
+/**
+ * Gemerkte Produkte in neuen Treffern wiedererkennen und ihren aktuellen Preis
+ * festhalten – daraus zeigt /favorites die Preisänderung seit dem Merken.
+ */
+export async function notePricesSeen(hits: Hit[]): Promise<void> {
+  if (!hasIndexedDb() || !hits.length) return;
+  const at = Date.now();
+  let changed = false;
+  for (const h of hits) {
+    const fav = await get<Favorite>(STORES.favorites, favoriteKey(h));
+    if (!fav || !Number.isFinite(h.price)) continue;
+    await put(STORES.favorites, { ...fav, lastSeen: { price: h.price, currency: h.currency, at } });
+    changed = true;
+  }
+  if (changed) notifyChange();
+}
+
+/** Preisänderung seit dem Merken (nur bei gleicher Währung), sonst null. */
+export function priceChange(f: Favorite): number | null {
+  const seen = f.lastSeen;
+  if (!seen || !Number.isFinite(f.price)) return null;
+  if ((seen.currency ?? 'EUR') !== (f.currency ?? 'EUR')) return null;
+  const diff = seen.price - f.price;
+  return Math.abs(diff) < 0.005 ? 0 : diff;
+}
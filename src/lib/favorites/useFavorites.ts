@@ -0,0 +1,44 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import type { Hit } from '@/lib/api/types';
+import { originalHit } from '@/lib/currency/currency';
+import {
+  addFavorite, favoriteKey, listFavorites, removeFavorites, subscribeFavorites, type Favorite,
+} from './favorites';
+
+/** Favoriten als React-State, tab-übergreifend synchron. */
+export function useFavorites() {
+  const [favorites, setFavorites] = useState<Favorite[]>([]);
+  const [ready, setReady] = useState(false);
+
+  const refresh = useCallback(async () => {
+    try {
+      setFavorites(await listFavorites());
+    } catch {
+      setFavorites([]);
+    } finally {
+      setReady(true);
+    }
+  }, []);
+
+  useEffect(() => {
+    void refresh();
+    return subscribeFavorites(() => void refresh());
+  }, [refresh]);
+
+  const keys = useMemo(() => new Set(favorites.map((f) => f.key)), [favorites]);
+  const isFavorite = useCallback((h: Hit) => keys.has(favoriteKey(h)), [keys]);
+
+  /** Merken bzw. entfernen; liefert den neuen Zustand. Gespeichert wird der Shop-Preis, nicht der umgerechnete. */
+  const toggle = useCallback(async (h: Hit): Promise<boolean> => {
+    if (keys.has(favoriteKey(h))) {
+      await removeFavorites(favoriteKey(h));
+      return false;
+    }
+    await addFavorite(originalHit(h));
+    return true;
+  }, [keys]);
+
+  return { favorites, ready, isFavorite, toggle, remove: removeFavorites };
+}
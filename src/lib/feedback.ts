@@ -0,0 +1,61 @@
+import type { SearchFeedback } from '@/lib/api/search';
+import type { Hit } from '@/lib/api/types';
+import type { RegionPage } from '@/lib/regions';
+
+/* ---------------- Relevanz-Feedback: „mehr davon“ / „nicht das“ ---------------- */
+
+export type FeedbackVote = 'up' | 'down';
+
+/** Zustand vor einer Feedback-Suche – „Rückgängig“ stellt ihn ohne neue Anfrage wieder her. */
+export type FeedbackSnapshot = {
+  feedback: SearchFeedback;
+  results: Hit[];
+  page: RegionPage | null;
+  rankBefore: ReadonlyMap<number, number> | null;
+};
+
+/** So viele Schritte lassen sich zurücknehmen. */
+export const FEEDBACK_UNDO_DEPTH = 10;
+
+export const emptyFeedback = (): SearchFeedback => ({ positive: [], negative: [] });
+
+export function voteOf(f: SearchFeedback, productId: number): FeedbackVote | null {
+  if (f.positive.includes(productId)) return 'up';
+  if (f.negative.includes(productId)) return 'down';
+  return null;
+}
+
+/** Stimme setzen; dieselbe Stimme noch einmal nimmt sie zurück. */
+export function toggleVote(f: SearchFeedback, productId: number, vote: FeedbackVote): SearchFeedback {
+  const same = voteOf(f, productId) === vote;
+  const positive = f.positive.filter((id) => id !== productId);
+  const negative = f.negative.filter((id) => id !== productId);
+  if (!same) (vote === 'up' ? positive : negative).push(productId);
+  return { positive, negative };
+}
+
+/** Platz je product_id (erstes Vorkommen) in der Reihenfolge des Backends. */
+export function rankMap(hits: readonly Hit[]): Map<number, number> {
+  const ranks = new Map<number, number>();
+  hits.forEach((h, i) => {
+    if (!ranks.has(h.product_id)) ranks.set(h.product_id, i);
+  });
+  return ranks;
+}
+
+/**
+ * Wie weit ein Treffer gegenüber der Suche vor dem Feedback gewandert ist:
+ * positiv = nach oben, 'new' = vorher nicht dabei, null = unverändert bzw. kein Vergleich.
+ */
+export function rankMovement(
+  before: ReadonlyMap<number, number> | null,
+  now: ReadonlyMap<number, number>,
+  productId: number
+): number | 'new' | null {
+  if (!before) return null;
+  const was = before.get(productId);
+  const is = now.get(productId);
+  if (is === undefined) return null;
+  if (was === undefined) return 'new';
+  return was === is ? null : was - is;
+}
@@ -0,0 +1,36 @@
+import type { OriginalPrice } from '@/lib/currency/currency';
+
+/* ---------------- Formatierung ---------------- */
+
+const plain = (value: number, locale: string) =>
+  new Intl.NumberFormat(locale, { minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(value);
+
+function money(value: number, currency: string | null, locale: string): string {
+  // Ohne Währung nur die Zahl – den Hinweis zeigt die Karte übersetzt (price.unknownCurrency)
+  if (!currency) return plain(value, locale);
+  try {
+    return new Intl.NumberFormat(locale, { style: 'currency', currency, maximumFractionDigits: 2 }).format(value);
+  } catch {
+    // Kein gültiger ISO-Code (z. B. „EURO“) – Zahl plus Code statt Absturz
+    return `${plain(value, locale)} ${currency}`;
+  }
+}
+
+export type PriceFormatOptions = {
+  locale?: string;
+  /** Preis vor der Umrechnung – wird in Klammern dahinter gezeigt. */
+  original?: OriginalPrice | null;
+};
+
+/**
+ * Preis in `currency`; mit `original` zusätzlich der Shop-Preis („12,34 € (129,00 kr)“).
+ * Ist `value` keine Zahl (unbekannte Währung), bleibt nur der Originalpreis mit Hinweis.
+ */
+export function fmtPrice(value?: number, currency = 'EUR', opts: PriceFormatOptions = {}): string {
+  const locale = opts.locale ?? 'de-DE';
+  const { original } = opts;
+  if (typeof value !== 'number') return '';
+  if (Number.isNaN(value)) return original ? money(original.price, original.currency, locale) : '';
+  const shown = money(value, currency, locale);
+  return original ? `${shown} (${money(original.price, original.currency, locale)})` : shown;
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import type { Hit } from '@/lib/api/types';
+import { groupOffers } from './grouping';
+
+const hit = (over: Partial<Hit>): Hit => ({
+  product_id: 1, score: 0.5, label: 'Ähnlich', title: null, price: 10, currency: 'EUR',
+  merchant: null, deeplink: null, image_url: null, ...over,
+});
+
+describe('groupOffers', () => {
+  // Dasselbe Kleid bei zwei Shops, über das gleiche Bild erkannt – aber mit verschiedenen Produkt-IDs
+  const best = hit({
+    product_id: 1, score: 0.95, label: 'Exact', title: 'Rotes Sommerkleid', price: 79, merchant: 'Shop A',
+    deeplink: 'https://a.example/kleid', image_url: 'https://cdn.example/kleid_400x400.jpg',
+  });
+  const cheap = hit({
+    product_id: 2, score: 0.8, title: 'Kleid rot', price: 59, merchant: 'Shop B',
+    deeplink: 'https://b.example/k', image_url: 'https://cdn.example/kleid.jpg?w=800',
+  });
+
+  it('fasst gleiche Produkte verschiedener Shops zusammen', () => {
+    const [group, ...rest] = groupOffers([best, cheap, hit({ product_id: 3, score: 0.3, title: 'Jeans' })]);
+    expect(rest).toHaveLength(1);
+    expect(group.offers.map((o) => o.product_id)).toEqual([2, 1]);
+    expect([group.priceMin, group.priceMax]).toEqual([59, 79]);
+    expect(group.mixedCurrency).toBe(false);
+  });
+
+  it('nimmt alle Angebotsfelder von genau einem Angebot, dem günstigsten', () => {
+    const [group] = groupOffers([best, cheap]);
+    expect(group).toMatchObject({ product_id: 2, price: 59, merchant: 'Shop B', deeplink: 'https://b.example/k' });
+  });
+
+  it('zeigt Titel, Bild, Score und Label des besten Treffers', () => {
+    const [group] = groupOffers([best, cheap]);
+    expect(group).toMatchObject({ title: 'Rotes Sommerkleid', image_url: best.image_url, score: 0.95, label: 'Exact' });
+  });
+
+  it('behält die Reihenfolge der Relevanz und einen stabilen Schlüssel', () => {
+    const groups = groupOffers([hit({ product_id: 7, title: 'Jeans blau' }), best, cheap]);
+    expect(groups.map((g) => g.product_id)).toEqual([7, 2]);
+    expect(groups[1].groupKey).toBe(groupOffers([cheap, best])[0].groupKey);
+  });
+
+  it('markiert Gruppen mit verschiedenen Währungen', () => {
+    const [group] = groupOffers([best, { ...cheap, currency: 'SEK' }]);
+    expect(group.mixedCurrency).toBe(true);
+  });
+});
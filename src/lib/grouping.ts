@@ -0,0 +1,110 @@
+import type { Hit } from '@/lib/api/types';
+import { sortHits } from '@/lib/results';
+
+/* ---------------- Gleiche Produkte verschiedener Shops zusammenfassen ---------------- */
+
+/**
+ * Eine Gruppe ist selbst ein Hit (damit Sortierung und Karten unverändert
+ * funktionieren): alle Angebotsfelder (Produkt-ID, Preis, Händler, Link samt
+ * Originalpreis) vom günstigsten Angebot, nur Titel, Bild, Score und Label zur
+ * Anzeige vom besten Treffer. Die Gruppe kann verschiedene Produkt-IDs vereinen –
+ * Aktionen für ein Angebot (Merken, Beobachten, Vergleichen) gehören an `offers[i]`.
+ */
+export type OfferGroup<T extends Hit = Hit> = T & {
+  groupKey: string;
+  /** Alle Angebote, aufsteigend nach Preis (ohne vergleichbaren Preis am Ende). */
+  offers: T[];
+  priceMin: number;
+  priceMax: number;
+  /** Angebote in verschiedenen Währungen – Spanne nur bedingt aussagekräftig. */
+  mixedCurrency: boolean;
+};
+
+/** Scores so nah beieinander, dass es sehr wahrscheinlich dasselbe Bild ist. */
+const SCORE_EPS = 0.02;
+/** Anteil gemeinsamer Titelwörter (bezogen auf den kürzeren Titel). */
+const TITLE_OVERLAP = 0.6;
+
+const STOP_WORDS = new Set(['und', 'mit', 'aus', 'von', 'der', 'die', 'das', 'für', 'the', 'and', 'with', 'for', 'in', 'of']);
+
+export function titleTokens(title: string | null): Set<string> {
+  if (!title) return new Set();
+  const words = title
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((w) => w.length > 1 && !STOP_WORDS.has(w));
+  return new Set(words);
+}
+
+function titleOverlap(a: Set<string>, b: Set<string>): number {
+  if (!a.size || !b.size) return 0;
+  let shared = 0;
+  for (const w of a) if (b.has(w)) shared++;
+  return shared / Math.min(a.size, b.size);
+}
+
+/** Bild-URL ohne Query und typische Größen-Suffixe (…_400x400.jpg, /w_800/). */
+export function normalizeImageUrl(url: string | null): string | null {
+  if (!url) return null;
+  try {
+    const u = new URL(url, 'http://local');
+    const path = u.pathname
+      .replace(/[_-]\d{2,4}x\d{2,4}(?=\.\w+$)/, '')
+      .replace(/\/[wh]_\d+(,[wh]_\d+)*\//g, '/');
+    return `${u.host}${path}`.toLowerCase();
+  } catch {
+    return url;
+  }
+}
+
+function sameProduct(a: Hit, b: Hit, ta: Set<string>, tb: Set<string>): boolean {
+  if (a.product_id === b.product_id) return true;
+  const ia = normalizeImageUrl(a.image_url);
+  if (ia && ia === normalizeImageUrl(b.image_url)) return true;
+  return Math.abs(a.score - b.score) <= SCORE_EPS && titleOverlap(ta, tb) >= TITLE_OVERLAP;
+}
+
+/** Reihenfolge der Gruppen = Reihenfolge ihres ersten Treffers (Relevanz bleibt erhalten). */
+export function groupOffers<T extends Hit>(hits: T[]): OfferGroup<T>[] {
+  const parent = hits.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  const tokens = hits.map((h) => titleTokens(h.title));
+
+  // n ≤ topk (max. 100) → paarweiser Vergleich ist billig genug
+  for (let i = 0; i < hits.length; i++) {
+    for (let j = i + 1; j < hits.length; j++) {
+      if (find(i) !== find(j) && sameProduct(hits[i], hits[j], tokens[i], tokens[j])) parent[find(j)] = find(i);
+    }
+  }
+
+  const buckets = new Map<number, T[]>();
+  hits.forEach((h, i) => {
+    const root = find(i);
+    const list = buckets.get(root);
+    if (list) list.push(h);
+    else buckets.set(root, [h]);
+  });
+
+  return [...buckets.values()].map((members) => {
+    const offers = sortHits(members, 'priceAsc');
+    const best = members.reduce((a, b) => (b.score > a.score ? b : a));
+    const cheapest = offers[0];
+    const prices = offers.map((o) => o.price).filter(Number.isFinite);
+    // Fehlende Währung zählt als eigene – nicht stillschweigend als EUR
+    const currencies = new Set(offers.filter((o) => Number.isFinite(o.price)).map((o) => o.currency ?? '?'));
+    return {
+      ...cheapest,
+      score: best.score,
+      label: best.label,
+      title: best.title ?? offers.find((o) => o.title)?.title ?? null,
+      image_url: best.image_url ?? offers.find((o) => o.image_url)?.image_url ?? null,
+      groupKey: `${best.product_id}-${best.deeplink ?? best.image_url ?? ''}`,
+      offers,
+      priceMin: prices.length ? Math.min(...prices) : NaN,
+      priceMax: prices.length ? Math.max(...prices) : NaN,
+      mixedCurrency: currencies.size > 1,
+    };
+  });
+}
@@ -0,0 +1,114 @@
+/* ---------------- Kleiner Promise-Wrapper um IndexedDB ---------------- */
+
+const DB_NAME = 'clofind';
+const DB_VERSION = 4;
+
+/** Object Stores dieser App; neue Stores → DB_VERSION erhöhen. */
+export const STORES = {
+  history: 'history',
+  favorites: 'favorites',
+  searchQueue: 'searchQueue',
+  priceWatches: 'priceWatches',
+} as const;
+export type StoreName = (typeof STORES)[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const hasIndexedDb = () => typeof indexedDB !== 'undefined';
+
+export function openDb(): Promise<IDBDatabase> {
+  if (!hasIndexedDb()) return Promise.reject(new Error('IndexedDB nicht verfügbar.'));
+  dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains(STORES.history)) {
+        db.createObjectStore(STORES.history, { keyPath: 'id' }).createIndex('updatedAt', 'updatedAt');
+      }
+      if (!db.objectStoreNames.contains(STORES.favorites)) {
+        db.createObjectStore(STORES.favorites, { keyPath: 'key' }).createIndex('savedAt', 'savedAt');
+      }
+      // Wird auch vom Service Worker (public/sw.js) gelesen und geschrieben
+      if (!db.objectStoreNames.contains(STORES.searchQueue)) {
+        db.createObjectStore(STORES.searchQueue, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(STORES.priceWatches)) {
+        db.createObjectStore(STORES.priceWatches, { keyPath: 'key' }).createIndex('createdAt', 'createdAt');
+      }
+    };
+    req.onsuccess = () => {
+      const db = req.result;
+      // Ein anderer Tab (neuere Version) will upgraden: Verbindung freigeben, sonst bleibt er blockiert.
+      // Der nächste Zugriff öffnet dann neu.
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+    req.onerror = () => { dbPromise = null; reject(req.error); };
+  });
+  return dbPromise;
+}
+
+const wrap = <T>(req: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+export async function getAll<T>(store: StoreName): Promise<T[]> {
+  const db = await openDb();
+  return wrap(db.transaction(store).objectStore(store).getAll() as IDBRequest<T[]>);
+}
+
+export async function get<T>(store: StoreName, key: IDBValidKey): Promise<T | undefined> {
+  const db = await openDb();
+  return wrap(db.transaction(store).objectStore(store).get(key) as IDBRequest<T | undefined>);
+}
+
+export async function put<T>(store: StoreName, value: T): Promise<void> {
+  const db = await openDb();
+  await wrap(db.transaction(store, 'readwrite').objectStore(store).put(value));
+}
+
+/**
+ * Lesen, ändern und schreiben in einer readwrite-Transaktion – andere Tabs können nicht
+ * dazwischen schreiben. `fn` läuft synchron in der Transaktion; undefined = nichts schreiben.
+ */
+export async function update<T>(
+  store: StoreName,
+  key: IDBValidKey,
+  fn: (current: T | undefined) => T | undefined
+): Promise<T | undefined> {
+  const db = await openDb();
+  const tx = db.transaction(store, 'readwrite');
+  const os = tx.objectStore(store);
+  let next: T | undefined;
+  const req = os.get(key) as IDBRequest<T | undefined>;
+  req.onsuccess = () => {
+    next = fn(req.result);
+    if (next !== undefined) os.put(next);
+  };
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+  return next;
+}
+
+export async function del(store: StoreName, keys: IDBValidKey | IDBValidKey[]): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(store, 'readwrite');
+  for (const k of Array.isArray(keys) ? keys : [keys]) tx.objectStore(store).delete(k);
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+export async function clear(store: StoreName): Promise<void> {
+  const db = await openDb();
+  await wrap(db.transaction(store, 'readwrite').objectStore(store).clear());
+}
@@ -0,0 +1,136 @@
+import type { PixelCrop } from 'react-image-crop';
+import type { SearchFeedback } from '@/lib/api/search';
+import type { Hit } from '@/lib/api/types';
+import type { ColorView } from '@/lib/colors/colors';
+import type { CropTransform } from '@/lib/image/cropEdit';
+import { makeThumbnail } from '@/lib/image/preprocess';
+import type { Region, RegionPage } from '@/lib/regions';
+import type { Filters, SortKey } from '@/lib/results';
+import { STORES, clear, del, get, getAll, put } from './db';
+
+/* ---------------- Lokaler Suchverlauf ---------------- */
+
+export const HISTORY_MAX_ENTRIES = 40;
+export const HISTORY_MAX_BYTES = 60 * 1024 * 1024;
+
+export type HistoryRegion = {
+  id: string;
+  name: string;
+  cropPx: PixelCrop;
+  /** Drehung, Seitenverhältnis und Maske; fehlt bei älteren Einträgen. */
+  transform?: CropTransform | null;
+  /** Der hochgeladene Crop – reicht für „Erneut suchen“ ohne Original. */
+  cropBlob: Blob;
+  thumb: Blob;
+  filters: Filters;
+  sortBy: SortKey;
+  /** Textverfeinerung; fehlt bei älteren Einträgen. */
+  query?: string;
+  /** Relevanz-Feedback der Suche; fehlt bei älteren Einträgen. */
+  feedback?: SearchFeedback;
+  colorView?: ColorView | null;
+  results: Hit[];
+  /** Fehlt bei älteren Einträgen; ist die Suche im Proxy abgelaufen, wird der Crop neu hochgeladen. */
+  page?: RegionPage | null;
+};
+
+export type HistoryEntry = {
+  id: string;
+  createdAt: number;
+  updatedAt: number;
+  image: Blob;
+  imageName: string;
+  originalBytes: number;
+  regions: HistoryRegion[];
+  activeRegionId: string | null;
+  /** Geschätzter Speicherbedarf für das Limit. */
+  bytes: number;
+};
+
+function entryBytes(e: Omit<HistoryEntry, 'bytes'>): number {
+  return e.image.size + e.regions.reduce(
+    (n, r) => n + r.cropBlob.size + r.thumb.size + JSON.stringify(r.results).length * 2,
+    0
+  );
+}
+
+export const newSessionId = () => `h${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+
+// Thumbnails nur einmal pro Crop rechnen
+const thumbs = new WeakMap<Blob, Promise<Blob>>();
+function thumbFor(blob: Blob): Promise<Blob> {
+  let t = thumbs.get(blob);
+  if (!t) {
+    t = makeThumbnail(blob, 160);
+    thumbs.set(blob, t);
+  }
+  return t;
+}
+
+export async function listHistory(): Promise<HistoryEntry[]> {
+  const all = await getAll<HistoryEntry>(STORES.history);
+  return all.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export const getHistoryEntry = (id: string) => get<HistoryEntry>(STORES.history, id);
+
+/**
+ * Speichert (bzw. aktualisiert) eine Sitzung. Berücksichtigt werden nur
+ * Bereiche, die schon gesucht wurden. Danach werden die Limits durchgesetzt.
+ */
+export async function saveSession(args: {
+  id: string;
+  createdAt: number;
+  image: File;
+  originalBytes: number;
+  regions: Region[];
+  activeRegionId: string | null;
+}): Promise<void> {
+  const searched = args.regions.filter((r): r is Region & { cropPx: PixelCrop; blob: Blob } => Boolean(r.cropPx && r.blob));
+  if (!searched.length) return;
+
+  const regions: HistoryRegion[] = await Promise.all(searched.map(async (r) => ({
+    id: r.id,
+    name: r.name,
+    cropPx: r.cropPx,
+    transform: r.transform,
+    cropBlob: r.blob,
+    thumb: await thumbFor(r.blob),
+    filters: r.filters,
+    sortBy: r.sortBy,
+    query: r.query,
+    feedback: r.feedback,
+    colorView: r.colorView,
+    results: r.results,
+    page: r.page,
+  })));
+
+  const entry = {
+    id: args.id,
+    createdAt: args.createdAt,
+    updatedAt: Date.now(),
+    image: args.image,
+    imageName: args.image.name,
+    originalBytes: args.originalBytes,
+    regions,
+    activeRegionId: args.activeRegionId,
+  };
+  await put(STORES.history, { ...entry, bytes: entryBytes(entry) });
+  await enforceLimits();
+}
+
+/** Älteste Einträge löschen, bis Anzahl und Größe wieder passen. */
+export async function enforceLimits(maxEntries = HISTORY_MAX_ENTRIES, maxBytes = HISTORY_MAX_BYTES): Promise<void> {
+  const all = await listHistory();
+  let total = all.reduce((n, e) => n + e.bytes, 0);
+  const drop: string[] = [];
+  for (let i = all.length - 1; i >= 0 && (all.length - drop.length > maxEntries || total > maxBytes); i--) {
+    drop.push(all[i].id);
+    total -= all[i].bytes;
+  }
+  if (drop.length) await del(STORES.history, drop);
+}
+
+export const deleteHistoryEntry = (id: string) => del(STORES.history, id);
+
+export const clearHistory = () => clear(STORES.history);
@@ -0,0 +1,36 @@
+'use client';
+
+import { useEffect } from 'react';
+import type { Region } from '@/lib/regions';
+import { saveSession } from './history';
+
+/** Eine Bild-Sitzung = ein Verlaufseintrag, der bei Änderungen aktualisiert wird. */
+export type HistorySession = { id: string; createdAt: number };
+
+/**
+ * Gesuchte Bereiche (inkl. Filter/Sortierung) verzögert in den Verlauf schreiben, sobald
+ * nichts mehr lädt (`busy`). Fehler bleiben still – wie die anderen IndexedDB-Schreibzugriffe.
+ */
+export function useHistoryAutosave(
+  session: HistorySession | null,
+  image: File | null,
+  originalBytes: number | null,
+  regions: Region[],
+  activeRegionId: string | null,
+  busy: boolean
+) {
+  useEffect(() => {
+    if (!session || !image || busy || !regions.some((r) => r.cropPx && r.blob)) return;
+    const timer = window.setTimeout(() => {
+      saveSession({
+        id: session.id,
+        createdAt: session.createdAt,
+        image,
+        originalBytes: originalBytes ?? image.size,
+        regions,
+        activeRegionId,
+      }).catch(() => {});
+    }, 800);
+    return () => window.clearTimeout(timer);
+  }, [session, image, originalBytes, regions, activeRegionId, busy]);
+}
@@ -0,0 +1,50 @@
+/* ---------------- Sprachen und Sprachpräfix in der URL ---------------- */
+
+/** Neue Sprache: Katalog unter messages/ anlegen und hier eintragen. */
+export const LOCALES = ['de', 'en'] as const;
+export type Locale = (typeof LOCALES)[number];
+
+export const DEFAULT_LOCALE: Locale = 'de';
+
+/** Zuletzt benutzte Sprache – setzt die Middleware, liest sie bei Pfaden ohne Präfix. */
+export const LOCALE_COOKIE = 'clofind-locale';
+
+/** BCP-47-Tag für Intl (Zahlen, Preise, Datum). */
+export const INTL_LOCALES: Record<Locale, string> = { de: 'de-DE', en: 'en-GB' };
+
+/** Name jeder Sprache in ihr selbst – für den Umschalter. */
+export const LOCALE_NAMES: Record<Locale, string> = { de: 'Deutsch', en: 'English' };
+
+export const isLocale = (v: unknown): v is Locale => LOCALES.includes(v as Locale);
+
+/** Accept-Language auswerten: unterstützte Sprache mit dem höchsten q-Wert („en-US“ zählt als „en“). */
+export function matchLocale(header: string | null): Locale | null {
+  if (!header) return null;
+  const ranked = header
+    .split(',')
+    .map((part) => {
+      const [tag, ...params] = part.trim().split(';');
+      const q = params.map((p) => p.trim()).find((p) => p.startsWith('q='));
+      return { lang: tag.split('-')[0].toLowerCase(), q: q ? Number(q.slice(2)) || 0 : 1 };
+    })
+    .filter((x) => x.q > 0)
+    .sort((a, b) => b.q - a.q);
+  return ranked.map((x) => x.lang).find(isLocale) ?? null;
+}
+
+/** Sprache aus dem ersten Pfadsegment („/en/favorites“ → „en“). */
+export function localeFromPath(pathname: string): Locale | null {
+  const first = pathname.split('/')[1];
+  return isLocale(first) ? first : null;
+}
+
+/** Pfad mit Sprachpräfix; `path` beginnt mit „/“ und darf Query/Hash enthalten. */
+export const localePath = (locale: Locale, path: string) =>
+  path === '/' ? `/${locale}` : path.startsWith('/?') ? `/${locale}${path.slice(1)}` : `/${locale}${path}`;
+
+/** Gleiche Seite in einer anderen Sprache. */
+export function switchLocalePath(pathname: string, locale: Locale): string {
+  const current = localeFromPath(pathname);
+  const rest = current ? pathname.slice(current.length + 1) || '/' : pathname;
+  return localePath(locale, rest);
+}
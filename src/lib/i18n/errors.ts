@@ -0,0 +1,24 @@
+import { ApiError } from '@/lib/api/errors';
+import type { Translate } from './translate';
+
+/**
+ * Fehlertext in der Sprache der Seite. ApiErrors werden über Art und Status
+ * übersetzt – deren `message` ist deutsch und für Logs gedacht.
+ */
+export function localizeError(e: unknown, t: Translate): string {
+  if (!(e instanceof ApiError)) return e instanceof Error && e.message ? e.message : t('errors.unknown');
+  switch (e.kind) {
+    case 'config': return t('errors.config');
+    case 'network': return t('errors.network');
+    case 'timeout': return t('errors.timeout');
+    case 'aborted': return t('errors.aborted');
+    case 'unavailable': return t('errors.unavailable');
+    case 'not-found': return t('errors.notFound');
+    case 'bad-response': return t('errors.badResponse');
+  }
+  if (e.status === 400) return t('errors.badRequest');
+  if (e.status === 413) return t('errors.tooLarge');
+  if (e.status === 415) return t('errors.unsupported');
+  if (e.status === 429) return t('errors.rateLimited');
+  return t('errors.http', { status: e.status ?? '?' });
+}
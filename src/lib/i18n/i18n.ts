@@ -0,0 +1,29 @@
+import { DEFAULT_LOCALE, INTL_LOCALES, isLocale, localePath, type Locale } from './config';
+import { localizeError } from './errors';
+import { createTranslator, type Translate } from './translate';
+
+/* ---------------- Alles, was eine Seite für ihre Sprache braucht ---------------- */
+
+export type I18n = {
+  locale: Locale;
+  /** BCP-47-Tag für Intl – an fmtPrice, formatBytes und Datumsformate durchreichen. */
+  intl: string;
+  t: Translate;
+  /** Interner Link mit Sprachpräfix („/favorites“ → „/en/favorites“). */
+  href: (path: string) => string;
+  errorText: (e: unknown) => string;
+};
+
+export function createI18n(locale: Locale): I18n {
+  const t = createTranslator(locale);
+  return {
+    locale,
+    intl: INTL_LOCALES[locale],
+    t,
+    href: (path) => localePath(locale, path),
+    errorText: (e) => localizeError(e, t),
+  };
+}
+
+/** `[locale]` aus den Route-Params; Unbekanntes hat das Layout schon mit 404 beantwortet. */
+export const resolveLocale = (value: string): Locale => (isLocale(value) ? value : DEFAULT_LOCALE);
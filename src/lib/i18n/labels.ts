@@ -0,0 +1,33 @@
+import { normalizeBucket, type LabelBucket } from '@/lib/results';
+import type { MessageKey, Translate } from './translate';
+
+/* ---------------- Anzeigenamen für Werte aus dem Backend ---------------- */
+
+/** Das Backend liefert die Labels auf Deutsch; angezeigt wird die Übersetzung. */
+const BUCKET_KEYS: Record<LabelBucket, MessageKey> = {
+  Exact: 'labels.exact',
+  'Sehr ähnlich': 'labels.verySimilar',
+  Alternative: 'labels.alternative',
+};
+
+export const labelName = (label: string | undefined, t: Translate) => t(BUCKET_KEYS[normalizeBucket(label)]);
+
+const GARMENT_KEYS: Record<string, MessageKey> = {
+  top: 'garments.top',
+  shirt: 'garments.top',
+  jacket: 'garments.jacket',
+  coat: 'garments.coat',
+  trousers: 'garments.trousers',
+  pants: 'garments.trousers',
+  skirt: 'garments.skirt',
+  dress: 'garments.dress',
+  shoes: 'garments.shoes',
+  bag: 'garments.bag',
+  hat: 'garments.hat',
+};
+
+/** Anzeigename für ein Label der Kleidungserkennung; Unbekanntes bleibt wie es ist. */
+export function garmentName(label: string, t: Translate): string {
+  const key = GARMENT_KEYS[label.toLowerCase()];
+  return key ? t(key) : label;
+}
@@ -0,0 +1,434 @@
+/* ---------------- Deutsch (Referenzkatalog – andere Sprachen müssen dieselben Schlüssel haben) ---------------- */
+
+const de = {
+  meta: {
+    title: 'CloFind – Bildsuche für Mode',
+    description: 'Finde ähnliche Outfits per Bild-Upload – visuelle Produktsuche mit CloFind.',
+    offline: 'Offline',
+    shared: 'Geteilt: {name}',
+    shareNotFound: 'Link nicht gefunden',
+  },
+
+  common: {
+    imageSearch: 'Bildsuche',
+    toImageSearch: 'Zur Bildsuche',
+    favorites: 'Favoriten',
+    close: 'Schließen',
+    cancel: 'Abbrechen',
+    loadMore: 'Mehr laden',
+    loading: 'Lädt …',
+    toShop: 'Zum Shop',
+    shop: 'Shop',
+    noLink: 'kein Link',
+    unknownShop: 'Unbekannter Shop',
+    unknown: 'unbekannt',
+    product: 'Produkt {id}',
+    productId: 'Produkt-ID {id}',
+    score: 'Score: {score}',
+    results: 'Ergebnisse',
+    resultCounts: '({groups} Produkte · {shown} von {total} Angeboten)',
+    noResults: 'Keine Ergebnisse.',
+    language: 'Sprache',
+    currency: 'Währung',
+    resultsKeyboard: 'Auf einem Link einer Karte wechseln die Pfeiltasten zur Nachbarkarte, Pos1 und Ende zur ersten bzw. letzten.',
+    labelSr: 'Übereinstimmung: {label}',
+    scoreSr: 'Ähnlichkeit {percent} Prozent',
+    scoreUnknownSr: 'Ähnlichkeit unbekannt',
+  },
+
+  header: {
+    favorites: '♥ Favoriten',
+    history: 'Verlauf',
+    alerts: '🔔 Preisalarme',
+    alertsUnseen: { one: 'Preisalarme – 1 neue Meldung', other: 'Preisalarme – {count} neue Meldungen' },
+  },
+
+  labels: {
+    exact: 'Exakt',
+    verySimilar: 'Sehr ähnlich',
+    alternative: 'Alternative',
+  },
+
+  garments: {
+    top: 'Oberteil',
+    jacket: 'Jacke',
+    coat: 'Mantel',
+    trousers: 'Hose',
+    skirt: 'Rock',
+    dress: 'Kleid',
+    shoes: 'Schuhe',
+    bag: 'Tasche',
+    hat: 'Mütze',
+  },
+
+  sort: {
+    label: 'Sortieren:',
+    sorted: 'Sortiert: {sort}',
+    relevance: 'Relevanz',
+    priceAsc: 'Preis: aufsteigend',
+    priceDesc: 'Preis: absteigend',
+    scoreDesc: 'Ähnlichkeit: hoch → niedrig',
+    scoreAsc: 'Ähnlichkeit: niedrig → hoch',
+  },
+
+  colors: {
+    title: 'Farben im Ausschnitt',
+    pick: 'Farbe {hex} ({percent} %) als Bezug wählen',
+    modeLabel: 'Treffer nach Farbe',
+    mode: {
+      off: 'Egal',
+      rank: 'Ähnlichste zuerst',
+      same: 'Nur gleiche Farbe',
+      other: 'Andere Farben',
+    },
+    analyzing: 'Farben der Treffer: {done} von {total} geprüft …',
+  },
+  refine: {
+    label: 'Suche verfeinern',
+    placeholder: 'z. B. in schwarz, unter 80 €, bei Zalando',
+    submit: 'Suchen',
+    active: 'Gesucht mit „{text}“',
+    clear: 'Text entfernen',
+  },
+  feedback: {
+    up: 'Mehr davon',
+    down: 'Nicht das',
+    upTitle: 'Mehr Treffer wie diesen – sucht sofort neu',
+    downTitle: 'Solche Treffer weniger – sucht sofort neu',
+    new: 'Neu',
+    newTitle: 'Neu in den Treffern seit dem letzten Feedback',
+    movedUp: { one: '1 Platz nach oben', other: '{count} Plätze nach oben' },
+    movedDown: { one: '1 Platz nach unten', other: '{count} Plätze nach unten' },
+    summary: 'Feedback: {up} × mehr davon, {down} × nicht das',
+    none: 'Kein Feedback mehr.',
+    undo: 'Rückgängig',
+    reset: 'Feedback zurücksetzen',
+  },
+  filters: {
+    title: 'Filter',
+    price: 'Preis',
+    priceIn: 'Preis ({currency})',
+    similarity: 'Ähnlichkeit',
+    merchant: 'Händler',
+    noMerchants: 'Keine Händler in den Treffern.',
+    allMerchants: 'Alle {count} anzeigen',
+    fewerMerchants: 'Weniger anzeigen',
+    priceFrom: 'Preis ab',
+    priceTo: 'Preis bis',
+    noPrices: 'Keine Preise in den Treffern.',
+    minScore: 'Mindest-Score',
+    minScoreOff: 'aus',
+    reset: 'Filter zurücksetzen',
+    clearAll: 'Alle löschen',
+    clearAllTitle: 'Alle Filter entfernen',
+    badge: {
+      labels: 'Ähnlichkeit: {value}',
+      price: 'Preis: {value}',
+      merchant: 'Händler: {value}',
+      score: 'Score ≥ {value}',
+    },
+    remove: {
+      labels: 'Ähnlichkeit zurücksetzen',
+      price: 'Preis-Filter entfernen',
+      merchant: 'Händler-Filter entfernen',
+      score: 'Mindest-Score entfernen',
+    },
+  },
+
+  price: {
+    from: 'ab',
+    unknownCurrency: 'Währung unbekannt',
+    unknownCurrencyHint: 'Der Shop nennt keine (bekannte) Währung – der Preis wurde nicht umgerechnet und nicht verglichen.',
+    ratesFrom: 'Kurse vom {date} ({source})',
+    sourceBackend: 'Backend',
+    sourceStatic: 'mitgeliefert',
+  },
+
+  offers: {
+    count: { one: '1 Angebot', other: '{count} Angebote' },
+    summary: '{count} Angebote · günstigster: {merchant}',
+  },
+
+  favorite: {
+    add: 'Zu Favoriten hinzufügen',
+    remove: 'Aus Favoriten entfernen',
+    added: 'Zu Favoriten hinzugefügt.',
+    removed: 'Aus Favoriten entfernt.',
+    saveFailed: 'Favoriten konnten nicht gespeichert werden.',
+  },
+
+  compare: {
+    title: 'Vergleich',
+    select: 'Vergleichen',
+    selectTitle: 'Zum Vergleich auswählen',
+    selected: '{count} von {max} ausgewählt',
+    open: 'Vergleichen ({count})',
+    clear: 'Auswahl aufheben',
+    remove: 'Aus dem Vergleich entfernen',
+    full: 'Höchstens {max} Treffer vergleichen.',
+    reference: 'Dein Ausschnitt',
+    product: 'Produkt',
+    merchant: 'Händler',
+    price: 'Preis',
+    label: 'Ähnlichkeit',
+    score: 'Score',
+    cheapest: 'günstigster',
+  },
+
+  home: {
+    headline: 'Finde die Kleidung, ',
+    headlineHighlight: 'die du suchst.',
+    intro: 'Lade ein Foto hoch, wähle den Bereich und entdecke ähnliche Produkte.',
+    dropHint: 'Bild hierher ziehen oder klicken, um zu wählen',
+    chooseImage: 'Bild auswählen',
+    takePhoto: '📸 Foto aufnehmen',
+    urlPlaceholder: 'Bild-URL einfügen, z. B. aus einem Shop oder von Instagram',
+    urlLoading: 'Lädt …',
+    searchByUrl: 'Per URL suchen',
+    pasteTipBefore: 'Tipp: Mit ',
+    pasteTipKey: 'Strg',
+    pasteTipAfter: ' fügst du einen Screenshot oder eine Bild-URL direkt ein.',
+  },
+
+  upload: {
+    selectedArea: 'Gewählter Bereich',
+    uploadStats: 'Upload: {size} ({width}×{height})',
+    uploadSaved: ' · {percent} % kleiner als das Original ({size})',
+    changeCrop: 'Ausschnitt ändern',
+    searchAgain: 'Erneut suchen',
+    share: 'Teilen',
+    sharing: 'Teilen …',
+    areasTabs: 'Bereiche',
+    offlineQueued: 'Du bist offline. Die Suche wird automatisch gestartet, sobald du wieder online bist.',
+    empty: 'Keine Ergebnisse. Passe Filter oder Ausschnitt an.',
+    toast: {
+      notAnImage: 'Bitte ein Bild auswählen.',
+      convertingHeic: 'HEIC-Bild wird umgewandelt …',
+      unreadable: 'Dieses Bild kann nicht gelesen werden.',
+      invalidUrl: 'Bitte eine gültige Bild-URL (http/https) eingeben.',
+      searchStarted: 'Suche gestartet …',
+      searchStartedMany: 'Suche für {count} Bereiche gestartet …',
+      searching: 'Suche läuft …',
+      queued: 'Offline – die Suche startet automatisch, sobald du wieder online bist.',
+      partlyFailed: '{failed} von {total} Suchen fehlgeschlagen.',
+      noHits: 'Keine Treffer gefunden.',
+      hits: { one: '1 Treffer gefunden.', other: '{count} Treffer gefunden.' },
+      queuedDone: 'Offline-Suche abgeschlossen: {count} Treffer.',
+      queuedFailed: 'Suche fehlgeschlagen.',
+      linkCopied: 'Link kopiert.',
+      sharePrompt: 'Link zum Teilen:',
+    },
+  },
+
+  crop: {
+    title: 'Bild zuschneiden',
+    hintBefore: 'Ziehe die runden Griffe. ',
+    hintEsc: ' schließt, ',
+    hintEnter: ' startet die Suche.',
+    areaName: 'Name des Bereichs',
+    removeArea: 'Bereich entfernen',
+    addArea: '+ Bereich',
+    suggestions: 'Vorschläge:',
+    detecting: 'Erkenne Kleidung …',
+    applySuggestion: 'Vorschlag übernehmen: {name}',
+    editArea: '{name} bearbeiten',
+    chooseImage: 'Bitte ein Bild wählen.',
+    imageAlt: 'Zuschneiden',
+    searching: 'Suchen…',
+    searchAreas: '✔︎ {count} Bereiche suchen',
+    cropAndSearch: '✔︎ Zuschneiden & Suchen',
+    modeBox: 'Rahmen',
+    modeAdvanced: 'Drehen & Maske',
+    stepCrop: 'Ausschnitt',
+    stepMask: 'Maske',
+    rotation: 'Drehung',
+    degrees: '{deg}°',
+    rotateLeft: '90° nach links drehen',
+    rotateRight: '90° nach rechts drehen',
+    zoom: 'Zoom',
+    aspectTitle: 'Seitenverhältnis',
+    aspect: {
+      free: 'Wie gezogen',
+      top: 'Oberteil · 4:5',
+      dress: 'Kleid · 1:2',
+      trousers: 'Hose · 2:5',
+      square: 'Rock, Tasche · 1:1',
+      shoes: 'Schuhe · 3:2',
+    },
+    maskAlt: 'Ausschnitt mit Maske – zum Markieren darauf malen',
+    maskHint: 'Male über Hintergrund oder andere Personen – diese Flächen werden vor der Suche weiß abgedeckt.',
+    maskHintInverted: 'Umrande das Kleidungsstück – alles andere wird vor der Suche weiß abgedeckt.',
+    brush: 'Pinsel',
+    lasso: 'Lasso',
+    brushSize: 'Größe',
+    invertMask: 'Nur Markiertes behalten',
+    undo: 'Rückgängig',
+    clearMask: 'Maske löschen',
+    keys: {
+      hint: 'Tastatur: Pfeile verschieben den Rahmen, Alt + Pfeile ändern die Größe, mit Umschalt in großen Schritten, P wechselt den Vorschlag.',
+      hintAdvanced: 'Tastatur: Pfeile verschieben das Bild, Alt + Pfeile zoomen, P wechselt das Seitenverhältnis.',
+      area: 'Ausschnitt – Pfeile verschieben, Alt + Pfeile ändern die Größe, P wechselt den Vorschlag',
+      areaAdvanced: 'Ausschnitt – Pfeile verschieben das Bild, Alt + Pfeile zoomen, P wechselt das Seitenverhältnis',
+      status: 'Rahmen bei {x} %, {y} %, {width} × {height} % des Bildes',
+      suggestion: 'Vorschlag: {name}',
+      aspect: 'Seitenverhältnis: {name}',
+      zoom: 'Zoom {zoom}×',
+    },
+    handles: {
+      nw: 'Griff oben links',
+      n: 'Griff oben',
+      ne: 'Griff oben rechts',
+      e: 'Griff rechts',
+      se: 'Griff unten rechts',
+      s: 'Griff unten',
+      sw: 'Griff unten links',
+      w: 'Griff links',
+    },
+  },
+
+  regions: {
+    /** Standardname neuer Bereiche; `{n}` ist die laufende Nummer. */
+    defaultName: 'Bereich {n}',
+    fallbackName: 'Bereich',
+  },
+
+  history: {
+    title: 'Verlauf',
+    openEntry: 'Suche öffnen',
+    open: 'Öffnen',
+    rerun: 'Erneut suchen',
+    delete: 'Löschen',
+    hits: '{areas} · {count} Treffer',
+    empty: 'Noch keine Suchen gespeichert.',
+    usage: '{used} von {max} belegt',
+    clear: 'Verlauf löschen',
+  },
+
+  camera: {
+    title: 'Foto aufnehmen',
+    starting: 'Kamera wird gestartet …',
+    switch: 'Kamera wechseln',
+    capture: '📸 Auslösen',
+    denied: 'Kamerazugriff wurde nicht erlaubt.',
+    notFound: 'Keine Kamera gefunden.',
+    busy: 'Die Kamera wird gerade von einer anderen App benutzt.',
+    failed: 'Kamera konnte nicht gestartet werden.',
+    photoFailed: 'Foto konnte nicht erstellt werden.',
+  },
+
+  favorites: {
+    title: 'Favoriten',
+    counts: '({shown} von {total})',
+    savedOn: 'Gemerkt am {date}',
+    unchanged: 'Preis unverändert (zuletzt gesehen {date})',
+    cheaper: 'günstiger',
+    pricier: 'teurer',
+    now: 'jetzt {price}',
+    seen: ' (gesehen {date})',
+    select: 'Auswählen',
+    selectAllVisible: 'Alle sichtbaren auswählen',
+    selectedCount: '{count} ausgewählt',
+    removeSelected: 'Auswahl entfernen',
+    removedMany: '{count} Favoriten entfernt.',
+    removedOne: 'Favorit entfernt.',
+    removeFailed: 'Favoriten konnten nicht entfernt werden.',
+    noMatch: 'Keine Favoriten passen zu den Filtern.',
+    emptyBefore: 'Noch keine Favoriten. Tippe in den Suchergebnissen auf ♡, um Produkte zu merken. ',
+  },
+
+  watch: {
+    action: 'Preis beobachten',
+    targetLabel: 'Melden ab höchstens ({currency})',
+    save: 'Beobachten',
+    cancel: 'Abbrechen',
+    watching: 'Beobachtet · Ziel ≤ {price}',
+    stop: 'Nicht mehr beobachten',
+    added: 'Preis wird beobachtet.',
+    removed: 'Beobachtung beendet.',
+    failed: 'Beobachtung konnte nicht gespeichert werden.',
+  },
+
+  alerts: {
+    title: 'Preisalarme',
+    checkNow: 'Jetzt prüfen',
+    checking: 'Prüfe …',
+    checkedDrops: { one: '1 Preis unter dem Ziel.', other: '{count} Preise unter dem Ziel.' },
+    checkedNone: 'Keine neuen Preisrutsche.',
+    checkFailed: 'Preise konnten nicht geprüft werden.',
+    emptyBefore: 'Noch nichts beobachtet. Unter jedem Treffer: „Preis beobachten“. ',
+    alertsTitle: 'Meldungen',
+    noAlerts: 'Noch kein Preis unter dem Ziel.',
+    dropped: 'Jetzt {price} statt {previous} (Ziel ≤ {target})',
+    watchesTitle: { one: '1 beobachtetes Angebot', other: '{count} beobachtete Angebote' },
+    current: 'aktuell {price}',
+    lowest: 'Tiefstpreis {price}',
+    target: 'Ziel ≤ {price}',
+    targetSaved: 'Ziel gespeichert.',
+    checkedAt: 'Zuletzt geprüft: {date}',
+    neverChecked: 'Noch nicht geprüft',
+    history: { one: '1 Preis im Verlauf', other: '{count} Preise im Verlauf' },
+    notificationTitle: 'Preis gefallen',
+    notificationBody: '{title} bei {merchant}: jetzt {price} statt {previous}',
+  },
+
+  product: {
+    unknown: 'Dieses Produkt ist nicht (mehr) bekannt. ',
+    moreLikeThis: 'Mehr davon',
+    noSimilar: 'Keine ähnlichen Produkte gefunden.',
+  },
+
+  share: {
+    title: 'Geteilte Suche – {name}',
+    imageAlt: 'Gesuchter Bereich',
+    sharedOn: 'Geteilt am {date}',
+    ownSearch: 'Eigene Suche',
+  },
+
+  consent: {
+    title: 'Nutzungsstatistik',
+    body: 'Dürfen wir zählen, wie CloFind genutzt wird – Uploads, Filter und Klicks in Shops? Ohne Bilder und ohne persönliche Daten.',
+    allow: 'Erlauben',
+    deny: 'Ablehnen',
+    statusOn: 'Statistik: an',
+    statusOff: 'Statistik: aus',
+    turnOn: 'Nutzungsstatistik erlauben',
+    turnOff: 'Nutzungsstatistik abschalten',
+  },
+
+  outbound: {
+    title: 'Weiter zum Shop',
+    body: 'Dieser Link führt zu {host}.',
+    continue: 'Weiter zu {host}',
+  },
+
+  offline: {
+    title: 'Du bist offline',
+    body: 'Diese Seite ist ohne Verbindung nicht verfügbar. Favoriten und Verlauf funktionieren weiter, und Suchen, die du offline startest, werden automatisch nachgeholt.',
+  },
+
+  sw: {
+    updateAvailable: 'Neue Version verfügbar.',
+    reload: 'Neu laden',
+    later: 'Später',
+  },
+
+  errors: {
+    config: 'Die Bildsuche ist nicht konfiguriert.',
+    network: 'Netzwerkfehler – bitte überprüfe deine Verbindung und versuche es erneut.',
+    timeout: 'Zeitüberschreitung – der Server antwortet nicht.',
+    aborted: 'Anfrage abgebrochen.',
+    unavailable: 'Bildsuche kurz nicht verfügbar – bitte später erneut versuchen.',
+    notFound: 'Nicht gefunden – das Backend kennt diese Anfrage nicht.',
+    badResponse: 'Ungültige Antwort vom Server.',
+    badRequest: 'Die Anfrage wurde abgelehnt. Bitte Eingabe prüfen.',
+    tooLarge: 'Bild ist zu groß.',
+    unsupported: 'Dieses Bildformat wird nicht unterstützt.',
+    rateLimited: 'Zu viele Anfragen – bitte kurz warten.',
+    http: 'Fehler vom Server ({status}).',
+    unknown: 'Unbekannter Fehler.',
+  },
+};
+
+export default de;
+
+export type Messages = typeof de;
@@ -0,0 +1,433 @@
+import type { Messages } from './de';
+
+/* ---------------- English ---------------- */
+
+const en: Messages = {
+  meta: {
+    title: 'CloFind – visual search for fashion',
+    description: 'Find similar outfits by uploading a photo – visual product search with CloFind.',
+    offline: 'Offline',
+    shared: 'Shared: {name}',
+    shareNotFound: 'Link not found',
+  },
+
+  common: {
+    imageSearch: 'Image search',
+    toImageSearch: 'Go to image search',
+    favorites: 'Favourites',
+    close: 'Close',
+    cancel: 'Cancel',
+    loadMore: 'Load more',
+    loading: 'Loading …',
+    toShop: 'View in shop',
+    shop: 'Shop',
+    noLink: 'no link',
+    unknownShop: 'Unknown shop',
+    unknown: 'unknown',
+    product: 'Product {id}',
+    productId: 'Product ID {id}',
+    score: 'Score: {score}',
+    results: 'Results',
+    resultCounts: '({groups} products · {shown} of {total} offers)',
+    noResults: 'No results.',
+    language: 'Language',
+    currency: 'Currency',
+    resultsKeyboard: 'On a link in a card, arrow keys move to the neighbouring card, Home and End to the first and last.',
+    labelSr: 'Match: {label}',
+    scoreSr: 'Similarity {percent} percent',
+    scoreUnknownSr: 'Similarity unknown',
+  },
+
+  header: {
+    favorites: '♥ Favourites',
+    history: 'History',
+    alerts: '🔔 Price alerts',
+    alertsUnseen: { one: 'Price alerts – 1 new alert', other: 'Price alerts – {count} new alerts' },
+  },
+
+  labels: {
+    exact: 'Exact',
+    verySimilar: 'Very similar',
+    alternative: 'Alternative',
+  },
+
+  garments: {
+    top: 'Top',
+    jacket: 'Jacket',
+    coat: 'Coat',
+    trousers: 'Trousers',
+    skirt: 'Skirt',
+    dress: 'Dress',
+    shoes: 'Shoes',
+    bag: 'Bag',
+    hat: 'Hat',
+  },
+
+  sort: {
+    label: 'Sort:',
+    sorted: 'Sorted: {sort}',
+    relevance: 'Relevance',
+    priceAsc: 'Price: low to high',
+    priceDesc: 'Price: high to low',
+    scoreDesc: 'Similarity: high → low',
+    scoreAsc: 'Similarity: low → high',
+  },
+
+  colors: {
+    title: 'Colours in the crop',
+    pick: 'Use colour {hex} ({percent} %) as reference',
+    modeLabel: 'Results by colour',
+    mode: {
+      off: 'Any',
+      rank: 'Closest first',
+      same: 'Same colour only',
+      other: 'Other colours',
+    },
+    analyzing: 'Result colours: {done} of {total} checked …',
+  },
+  refine: {
+    label: 'Refine search',
+    placeholder: 'e.g. in black, under €80, at Zalando',
+    submit: 'Search',
+    active: 'Searched with “{text}”',
+    clear: 'Remove text',
+  },
+  feedback: {
+    up: 'More like this',
+    down: 'Not this',
+    upTitle: 'More results like this one – searches again right away',
+    downTitle: 'Fewer results like this one – searches again right away',
+    new: 'New',
+    newTitle: 'New in the results since the last feedback',
+    movedUp: { one: 'Moved up 1 place', other: 'Moved up {count} places' },
+    movedDown: { one: 'Moved down 1 place', other: 'Moved down {count} places' },
+    summary: 'Feedback: {up} × more like this, {down} × not this',
+    none: 'No feedback left.',
+    undo: 'Undo',
+    reset: 'Reset feedback',
+  },
+  filters: {
+    title: 'Filters',
+    price: 'Price',
+    priceIn: 'Price ({currency})',
+    similarity: 'Similarity',
+    merchant: 'Shop',
+    noMerchants: 'No shops in the results.',
+    allMerchants: 'Show all {count}',
+    fewerMerchants: 'Show fewer',
+    priceFrom: 'Price from',
+    priceTo: 'Price up to',
+    noPrices: 'No prices in the results.',
+    minScore: 'Minimum score',
+    minScoreOff: 'off',
+    reset: 'Reset filters',
+    clearAll: 'Clear all',
+    clearAllTitle: 'Remove all filters',
+    badge: {
+      labels: 'Similarity: {value}',
+      price: 'Price: {value}',
+      merchant: 'Shop: {value}',
+      score: 'Score ≥ {value}',
+    },
+    remove: {
+      labels: 'Reset similarity',
+      price: 'Remove price filter',
+      merchant: 'Remove shop filter',
+      score: 'Remove minimum score',
+    },
+  },
+
+  price: {
+    from: 'from',
+    unknownCurrency: 'Unknown currency',
+    unknownCurrencyHint: 'The shop gives no (known) currency – this price was neither converted nor compared.',
+    ratesFrom: 'Rates from {date} ({source})',
+    sourceBackend: 'backend',
+    sourceStatic: 'bundled',
+  },
+
+  offers: {
+    count: { one: '1 offer', other: '{count} offers' },
+    summary: '{count} offers · cheapest: {merchant}',
+  },
+
+  favorite: {
+    add: 'Add to favourites',
+    remove: 'Remove from favourites',
+    added: 'Added to favourites.',
+    removed: 'Removed from favourites.',
+    saveFailed: 'Favourites could not be saved.',
+  },
+
+  compare: {
+    title: 'Compare',
+    select: 'Compare',
+    selectTitle: 'Select for comparison',
+    selected: '{count} of {max} selected',
+    open: 'Compare ({count})',
+    clear: 'Clear selection',
+    remove: 'Remove from comparison',
+    full: 'You can compare up to {max} results.',
+    reference: 'Your crop',
+    product: 'Product',
+    merchant: 'Shop',
+    price: 'Price',
+    label: 'Similarity',
+    score: 'Score',
+    cheapest: 'cheapest',
+  },
+
+  home: {
+    headline: 'Find the clothes ',
+    headlineHighlight: "you're looking for.",
+    intro: 'Upload a photo, pick the area and discover similar products.',
+    dropHint: 'Drag an image here or click to choose',
+    chooseImage: 'Choose image',
+    takePhoto: '📸 Take photo',
+    urlPlaceholder: 'Paste an image URL, e.g. from a shop or Instagram',
+    urlLoading: 'Loading …',
+    searchByUrl: 'Search by URL',
+    pasteTipBefore: 'Tip: press ',
+    pasteTipKey: 'Ctrl',
+    pasteTipAfter: ' to paste a screenshot or image URL directly.',
+  },
+
+  upload: {
+    selectedArea: 'Selected area',
+    uploadStats: 'Upload: {size} ({width}×{height})',
+    uploadSaved: ' · {percent} % smaller than the original ({size})',
+    changeCrop: 'Change crop',
+    searchAgain: 'Search again',
+    share: 'Share',
+    sharing: 'Sharing …',
+    areasTabs: 'Areas',
+    offlineQueued: "You're offline. The search will start automatically once you're back online.",
+    empty: 'No results. Adjust the filters or the crop.',
+    toast: {
+      notAnImage: 'Please choose an image.',
+      convertingHeic: 'Converting HEIC image …',
+      unreadable: "This image can't be read.",
+      invalidUrl: 'Please enter a valid image URL (http/https).',
+      searchStarted: 'Search started …',
+      searchStartedMany: 'Search started for {count} areas …',
+      searching: 'Searching …',
+      queued: "Offline – the search will start automatically once you're back online.",
+      partlyFailed: '{failed} of {total} searches failed.',
+      noHits: 'No matches found.',
+      hits: { one: '1 match found.', other: '{count} matches found.' },
+      queuedDone: 'Offline search finished: {count} matches.',
+      queuedFailed: 'Search failed.',
+      linkCopied: 'Link copied.',
+      sharePrompt: 'Link to share:',
+    },
+  },
+
+  crop: {
+    title: 'Crop image',
+    hintBefore: 'Drag the round handles. ',
+    hintEsc: ' closes, ',
+    hintEnter: ' starts the search.',
+    areaName: 'Area name',
+    removeArea: 'Remove area',
+    addArea: '+ Area',
+    suggestions: 'Suggestions:',
+    detecting: 'Detecting clothes …',
+    applySuggestion: 'Use suggestion: {name}',
+    editArea: 'Edit {name}',
+    chooseImage: 'Please choose an image.',
+    imageAlt: 'Crop',
+    searching: 'Searching…',
+    searchAreas: '✔︎ Search {count} areas',
+    cropAndSearch: '✔︎ Crop & search',
+    modeBox: 'Frame',
+    modeAdvanced: 'Rotate & mask',
+    stepCrop: 'Crop',
+    stepMask: 'Mask',
+    rotation: 'Rotation',
+    degrees: '{deg}°',
+    rotateLeft: 'Rotate 90° left',
+    rotateRight: 'Rotate 90° right',
+    zoom: 'Zoom',
+    aspectTitle: 'Aspect ratio',
+    aspect: {
+      free: 'As drawn',
+      top: 'Top · 4:5',
+      dress: 'Dress · 1:2',
+      trousers: 'Trousers · 2:5',
+      square: 'Skirt, bag · 1:1',
+      shoes: 'Shoes · 3:2',
+    },
+    maskAlt: 'Crop with mask – paint on it to mark areas',
+    maskHint: 'Paint over the background or other people – these areas are covered in white before searching.',
+    maskHintInverted: 'Outline the garment – everything else is covered in white before searching.',
+    brush: 'Brush',
+    lasso: 'Lasso',
+    brushSize: 'Size',
+    invertMask: 'Keep only marked areas',
+    undo: 'Undo',
+    clearMask: 'Clear mask',
+    keys: {
+      hint: 'Keyboard: arrows move the box, Alt + arrows resize it, Shift for large steps, P cycles the suggestions.',
+      hintAdvanced: 'Keyboard: arrows move the image, Alt + arrows zoom, P cycles the aspect ratio.',
+      area: 'Crop – arrows move, Alt + arrows resize, P cycles the suggestions',
+      areaAdvanced: 'Crop – arrows move the image, Alt + arrows zoom, P cycles the aspect ratio',
+      status: 'Box at {x} %, {y} %, {width} × {height} % of the image',
+      suggestion: 'Suggestion: {name}',
+      aspect: 'Aspect ratio: {name}',
+      zoom: 'Zoom {zoom}×',
+    },
+    handles: {
+      nw: 'Top left handle',
+      n: 'Top handle',
+      ne: 'Top right handle',
+      e: 'Right handle',
+      se: 'Bottom right handle',
+      s: 'Bottom handle',
+      sw: 'Bottom left handle',
+      w: 'Left handle',
+    },
+  },
+
+  regions: {
+    defaultName: 'Area {n}',
+    fallbackName: 'Area',
+  },
+
+  history: {
+    title: 'History',
+    openEntry: 'Open search',
+    open: 'Open',
+    rerun: 'Search again',
+    delete: 'Delete',
+    hits: '{areas} · {count} matches',
+    empty: 'No saved searches yet.',
+    usage: '{used} of {max} used',
+    clear: 'Clear history',
+  },
+
+  camera: {
+    title: 'Take photo',
+    starting: 'Starting camera …',
+    switch: 'Switch camera',
+    capture: '📸 Capture',
+    denied: 'Camera access was not allowed.',
+    notFound: 'No camera found.',
+    busy: 'The camera is being used by another app.',
+    failed: 'The camera could not be started.',
+    photoFailed: 'The photo could not be created.',
+  },
+
+  favorites: {
+    title: 'Favourites',
+    counts: '({shown} of {total})',
+    savedOn: 'Saved on {date}',
+    unchanged: 'Price unchanged (last seen {date})',
+    cheaper: 'cheaper',
+    pricier: 'more expensive',
+    now: 'now {price}',
+    seen: ' (seen {date})',
+    select: 'Select',
+    selectAllVisible: 'Select all visible',
+    selectedCount: '{count} selected',
+    removeSelected: 'Remove selected',
+    removedMany: '{count} favourites removed.',
+    removedOne: 'Favourite removed.',
+    removeFailed: 'Favourites could not be removed.',
+    noMatch: 'No favourites match the filters.',
+    emptyBefore: 'No favourites yet. Tap ♡ in the search results to save products. ',
+  },
+
+  watch: {
+    action: 'Watch price',
+    targetLabel: 'Alert at or below ({currency})',
+    save: 'Watch',
+    cancel: 'Cancel',
+    watching: 'Watching · target ≤ {price}',
+    stop: 'Stop watching',
+    added: 'Price is being watched.',
+    removed: 'Stopped watching.',
+    failed: 'Could not save the price watch.',
+  },
+
+  alerts: {
+    title: 'Price alerts',
+    checkNow: 'Check now',
+    checking: 'Checking …',
+    checkedDrops: { one: '1 price below target.', other: '{count} prices below target.' },
+    checkedNone: 'No new price drops.',
+    checkFailed: 'Could not check prices.',
+    emptyBefore: 'Nothing watched yet. Below every result: “Watch price”. ',
+    alertsTitle: 'Alerts',
+    noAlerts: 'No price below target yet.',
+    dropped: 'Now {price} instead of {previous} (target ≤ {target})',
+    watchesTitle: { one: '1 watched offer', other: '{count} watched offers' },
+    current: 'now {price}',
+    lowest: 'Lowest {price}',
+    target: 'Target ≤ {price}',
+    targetSaved: 'Target saved.',
+    checkedAt: 'Last checked: {date}',
+    neverChecked: 'Not checked yet',
+    history: { one: '1 price in history', other: '{count} prices in history' },
+    notificationTitle: 'Price dropped',
+    notificationBody: '{title} at {merchant}: now {price} instead of {previous}',
+  },
+
+  product: {
+    unknown: 'This product is not (or no longer) known. ',
+    moreLikeThis: 'More like this',
+    noSimilar: 'No similar products found.',
+  },
+
+  share: {
+    title: 'Shared search – {name}',
+    imageAlt: 'Searched area',
+    sharedOn: 'Shared on {date}',
+    ownSearch: 'Start your own search',
+  },
+
+  consent: {
+    title: 'Usage statistics',
+    body: 'May we count how CloFind is used – uploads, filters and clicks through to shops? No images and no personal data.',
+    allow: 'Allow',
+    deny: 'Decline',
+    statusOn: 'Statistics: on',
+    statusOff: 'Statistics: off',
+    turnOn: 'Allow usage statistics',
+    turnOff: 'Turn off usage statistics',
+  },
+
+  outbound: {
+    title: 'Continue to shop',
+    body: 'This link leads to {host}.',
+    continue: 'Continue to {host}',
+  },
+
+  offline: {
+    title: "You're offline",
+    body: "This page isn't available without a connection. Favourites and history keep working, and searches you start offline will run automatically later.",
+  },
+
+  sw: {
+    updateAvailable: 'A new version is available.',
+    reload: 'Reload',
+    later: 'Later',
+  },
+
+  errors: {
+    config: 'Image search is not configured.',
+    network: 'Network error – please check your connection and try again.',
+    timeout: 'Timed out – the server is not responding.',
+    aborted: 'Request cancelled.',
+    unavailable: 'Image search is briefly unavailable – please try again later.',
+    notFound: "Not found – the backend doesn't know this request.",
+    badResponse: 'Invalid response from the server.',
+    badRequest: 'The request was rejected. Please check your input.',
+    tooLarge: 'The image is too large.',
+    unsupported: 'This image format is not supported.',
+    rateLimited: 'Too many requests – please wait a moment.',
+    http: 'Server error ({status}).',
+    unknown: 'Unknown error.',
+  },
+};
+
+export default en;
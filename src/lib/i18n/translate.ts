@@ -0,0 +1,38 @@
+import { INTL_LOCALES, type Locale } from './config';
+import de, { type Messages } from './messages/de';
+import en from './messages/en';
+
+/* ---------------- Übersetzen: Schlüssel → Text mit {Platzhaltern} ---------------- */
+
+export type { Messages };
+
+export const MESSAGES: Record<Locale, Messages> = { de, en };
+
+/** Mengenabhängiger Text; gewählt wird über `vars.count`. */
+type Plural = { one: string; other: string };
+
+/** Alle Pfade zu Texten im Katalog, z. B. „filters.badge.price“. */
+type Leaves<T, P extends string = ''> = {
+  [K in keyof T & string]: T[K] extends string | Plural ? `${P}${K}` : Leaves<T[K], `${P}${K}.`>;
+}[keyof T & string];
+
+export type MessageKey = Leaves<Messages>;
+export type MessageVars = Record<string, string | number>;
+export type Translate = (key: MessageKey, vars?: MessageVars) => string;
+
+const isPlural = (v: unknown): v is Plural =>
+  typeof v === 'object' && v !== null && typeof (v as Plural).one === 'string' && typeof (v as Plural).other === 'string';
+
+export function createTranslator(locale: Locale): Translate {
+  const messages = MESSAGES[locale];
+  const plurals = new Intl.PluralRules(INTL_LOCALES[locale]);
+
+  return (key, vars = {}) => {
+    let v: unknown = messages;
+    for (const part of key.split('.')) v = (v as Record<string, unknown> | undefined)?.[part];
+    if (isPlural(v)) v = plurals.select(Number(vars.count ?? 0)) === 'one' ? v.one : v.other;
+    // Fehlender Schlüssel fällt auf – lieber den Schlüssel zeigen als nichts
+    if (typeof v !== 'string') return key;
+    return v.replace(/\{(\w+)\}/g, (match, name: string) => (name in vars ? String(vars[name]) : match));
+  };
+}
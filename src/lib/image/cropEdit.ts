@@ -0,0 +1,170 @@
+import type { PixelCrop } from 'react-image-crop';
+
+/* ---------------- Erweiterter Zuschnitt: Drehung, Zoom, Seitenverhältnis, Maske ---------------- */
+
+export type Area = { x: number; y: number; width: number; height: number };
+
+/**
+ * Pinselstrich oder Lasso. Punkte als [x0, y0, x1, y1, …] in Pixeln des ungedrehten Bildes –
+ * so bleibt die Maske am Stoff kleben, auch wenn danach gedreht oder verschoben wird.
+ */
+export type MaskShape =
+  | { kind: 'brush'; size: number; points: number[] }
+  | { kind: 'lasso'; points: number[] };
+
+export type CropMask = {
+  shapes: MaskShape[];
+  /** Umgekehrt: ausgeblendet wird alles außerhalb der Formen (Lasso um das Kleidungsstück). */
+  inverted: boolean;
+};
+
+export type AspectPreset = 'free' | 'top' | 'dress' | 'trousers' | 'square' | 'shoes';
+
+export type CropTransform = {
+  /** Drehung in Grad (im Uhrzeigersinn). */
+  rotation: number;
+  aspect: AspectPreset;
+  /** Ausschnitt in Pixeln des gedrehten Bildes (croppedAreaPixels von react-easy-crop); der Zoom steckt darin. */
+  area: Area;
+  mask: CropMask;
+};
+
+/** Ausgeblendete Flächen und beim Drehen frei werdende Ecken: weiß wie die Freisteller der Shops. */
+export const MASK_FILL = '#ffffff';
+
+/** Breite / Höhe je Kleidungsart; `free` behält das Verhältnis des gezogenen Rahmens. */
+export const ASPECT_PRESETS: { key: AspectPreset; ratio: number | null; garments: string[] }[] = [
+  { key: 'free', ratio: null, garments: [] },
+  { key: 'top', ratio: 4 / 5, garments: ['top', 'shirt', 'jacket', 'coat'] },
+  { key: 'dress', ratio: 1 / 2, garments: ['dress'] },
+  { key: 'trousers', ratio: 2 / 5, garments: ['trousers', 'pants'] },
+  { key: 'square', ratio: 1, garments: ['skirt', 'bag', 'hat'] },
+  { key: 'shoes', ratio: 3 / 2, garments: ['shoes'] },
+];
+
+/** Vorauswahl aus dem Label der Kleidungserkennung; ohne Erkennung bleibt der Rahmen wie er ist. */
+export function presetForGarment(label: string | null | undefined): AspectPreset {
+  const l = label?.toLowerCase() ?? '';
+  return ASPECT_PRESETS.find((p) => p.garments.includes(l))?.key ?? 'free';
+}
+
+export function aspectRatio(t: CropTransform): number {
+  return ASPECT_PRESETS.find((p) => p.key === t.aspect)?.ratio ?? t.area.width / Math.max(1, t.area.height);
+}
+
+/** Start im Editor: der bisherige Rahmen, ungedreht und ohne Maske. */
+export function initialTransform(px: PixelCrop, garment: string | null): CropTransform {
+  return {
+    rotation: 0,
+    aspect: presetForGarment(garment),
+    area: { x: px.x, y: px.y, width: px.width, height: px.height },
+    mask: { shapes: [], inverted: false },
+  };
+}
+
+export const hasMask = (t: CropTransform) => t.mask.shapes.length > 0;
+
+const rad = (deg: number) => (deg * Math.PI) / 180;
+
+/** Umgebendes Rechteck des gedrehten Bildes – darin liegen die Koordinaten von `area`. */
+export function rotatedSize(w: number, h: number, deg: number): { width: number; height: number } {
+  const r = rad(deg);
+  return {
+    width: Math.abs(Math.cos(r) * w) + Math.abs(Math.sin(r) * h),
+    height: Math.abs(Math.sin(r) * w) + Math.abs(Math.cos(r) * h),
+  };
+}
+
+/** Punkt im gedrehten Bild → Punkt im Original (w × h). */
+function toSource(t: CropTransform, w: number, h: number, bx: number, by: number): [number, number] {
+  const bb = rotatedSize(w, h, t.rotation);
+  const r = -rad(t.rotation);
+  const dx = bx - bb.width / 2;
+  const dy = by - bb.height / 2;
+  return [dx * Math.cos(r) - dy * Math.sin(r) + w / 2, dx * Math.sin(r) + dy * Math.cos(r) + h / 2];
+}
+
+/** Punkt auf einer Ausgabe der Breite `outW` (z. B. der Masken-Vorschau) → Pixel im Original. */
+export function outputToSource(t: CropTransform, w: number, h: number, outW: number, ox: number, oy: number): [number, number] {
+  const s = t.area.width / outW;
+  return toSource(t, w, h, t.area.x + ox * s, t.area.y + oy * s);
+}
+
+/** Achsenparalleler Rahmen um den gedrehten Ausschnitt, in Pixeln des Originals (für `cropPx` und den Umriss). */
+export function sourceBounds(t: CropTransform, w: number, h: number): PixelCrop {
+  const { x, y, width, height } = t.area;
+  const corners = [[x, y], [x + width, y], [x, y + height], [x + width, y + height]].map(([cx, cy]) => toSource(t, w, h, cx, cy));
+  const xs = corners.map((c) => c[0]);
+  const ys = corners.map((c) => c[1]);
+  const x0 = Math.max(0, Math.floor(Math.min(...xs)));
+  const y0 = Math.max(0, Math.floor(Math.min(...ys)));
+  const x1 = Math.min(w, Math.ceil(Math.max(...xs)));
+  const y1 = Math.min(h, Math.ceil(Math.max(...ys)));
+  return { unit: 'px', x: x0, y: y0, width: Math.max(1, x1 - x0), height: Math.max(1, y1 - y0) };
+}
+
+function traceShape(ctx: CanvasRenderingContext2D, shape: MaskShape) {
+  const p = shape.points;
+  if (p.length < 2) return;
+  ctx.beginPath();
+  if (shape.kind === 'brush' && p.length === 2) {
+    // Einzelner Tupfer – Linien der Länge 0 zeichnen manche Browser nicht
+    ctx.arc(p[0], p[1], shape.size / 2, 0, Math.PI * 2);
+    ctx.fill();
+    return;
+  }
+  ctx.moveTo(p[0], p[1]);
+  for (let i = 2; i < p.length; i += 2) ctx.lineTo(p[i], p[i + 1]);
+  if (shape.kind === 'lasso') {
+    ctx.closePath();
+    ctx.fill();
+  } else {
+    ctx.lineWidth = shape.size;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.stroke();
+  }
+}
+
+/**
+ * Zeichnet den gedrehten Ausschnitt formatfüllend auf `ctx.canvas` und deckt die Maske
+ * mit `maskFill` ab (Upload: weiß, Vorschau: halbtransparent).
+ */
+export function drawTransformed(ctx: CanvasRenderingContext2D, img: CanvasImageSource & { naturalWidth: number; naturalHeight: number }, t: CropTransform, maskFill: string = MASK_FILL) {
+  const { width: outW, height: outH } = ctx.canvas;
+  const w = img.naturalWidth;
+  const h = img.naturalHeight;
+  const bb = rotatedSize(w, h, t.rotation);
+  const s = outW / t.area.width;
+
+  // Ausgabe ← gedrehtes Bild ← Original
+  const place = (c: CanvasRenderingContext2D) => {
+    c.setTransform(s, 0, 0, s, -t.area.x * s, -t.area.y * s);
+    c.translate(bb.width / 2, bb.height / 2);
+    c.rotate(rad(t.rotation));
+    c.translate(-w / 2, -h / 2);
+  };
+
+  ctx.save();
+  ctx.fillStyle = MASK_FILL;
+  ctx.fillRect(0, 0, outW, outH);
+  place(ctx);
+  ctx.drawImage(img, 0, 0, w, h);
+  ctx.restore();
+
+  if (!hasMask(t)) return;
+  const layer = document.createElement('canvas');
+  layer.width = outW;
+  layer.height = outH;
+  const m = layer.getContext('2d');
+  if (!m) return;
+  place(m);
+  m.fillStyle = m.strokeStyle = '#000';
+  for (const shape of t.mask.shapes) traceShape(m, shape);
+  // Formen einfärben (bzw. umgekehrt: alles außer den Formen)
+  m.setTransform(1, 0, 0, 1, 0, 0);
+  m.globalCompositeOperation = t.mask.inverted ? 'source-out' : 'source-in';
+  m.fillStyle = maskFill;
+  m.fillRect(0, 0, outW, outH);
+  ctx.drawImage(layer, 0, 0);
+}
@@ -0,0 +1,43 @@
+// @vitest-environment node
+// jsdoms Blob kann kein arrayBuffer(); der Parser braucht kein DOM
+import { describe, expect, it } from 'vitest';
+import { readExifOrientation } from './preprocess';
+
+/** Minimales JPEG: SOI + APP1 mit einem Big-Endian-IFD, das nur das Orientation-Tag trägt. */
+function jpegWithOrientation(o: number): Uint8Array<ArrayBuffer> {
+  const tiff = [
+    0x4d, 0x4d, 0x00, 0x2a, 0x00, 0x00, 0x00, 0x08, // "MM", 42, IFD ab Byte 8
+    0x00, 0x01, // ein Eintrag
+    0x01, 0x12, 0x00, 0x03, 0x00, 0x00, 0x00, 0x01, 0x00, o, 0x00, 0x00,
+    0x00, 0x00, 0x00, 0x00, // kein weiteres IFD
+  ];
+  const app1 = [0x45, 0x78, 0x69, 0x66, 0x00, 0x00, ...tiff];
+  const size = app1.length + 2;
+  return new Uint8Array([0xff, 0xd8, 0xff, 0xe1, size >> 8, size & 0xff, ...app1, 0xff, 0xda]);
+}
+
+const blob = (bytes: Uint8Array<ArrayBuffer>) => new Blob([bytes], { type: 'image/jpeg' });
+
+describe('readExifOrientation', () => {
+  it('liest das Orientation-Tag', async () => {
+    expect(await readExifOrientation(blob(jpegWithOrientation(6)))).toBe(6);
+  });
+
+  it('liefert 1 ohne JPEG-Signatur', async () => {
+    expect(await readExifOrientation(blob(new Uint8Array([0x89, 0x50, 0x4e, 0x47])))).toBe(1);
+  });
+
+  it('liefert 1 statt RangeError bei abgeschnittenen Headern', async () => {
+    const full = jpegWithOrientation(6);
+    // Alle Schnittstellen bis vor den Tag-Wert (Byte 30/31): im "Exif"-Kennzeichen, im TIFF-Header, im IFD
+    for (let len = 4; len < 32; len++) {
+      await expect(readExifOrientation(blob(full.slice(0, len)))).resolves.toBe(1);
+    }
+  });
+
+  it('liefert 1, wenn der IFD-Offset hinter das Dateiende zeigt', async () => {
+    const bytes = jpegWithOrientation(6);
+    bytes[19] = 0xff; // IFD-Offset (letztes Byte) → weit hinter die Daten
+    expect(await readExifOrientation(blob(bytes))).toBe(1);
+  });
+});
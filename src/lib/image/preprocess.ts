@@ -0,0 +1,268 @@
+import type { PixelCrop } from 'react-image-crop';
+import { extractPalette, type Swatch } from '@/lib/colors/colors';
+import { MASK_FILL, drawTransformed, type CropTransform } from './cropEdit';
+
+/* ---------------- Bild-Vorverarbeitung vor dem Upload (nur Browser) ---------------- */
+
+export type OutputFormat = 'jpeg' | 'webp';
+
+export type PreprocessOptions = {
+  /** Längste Kante des hochgeladenen Crops (Embedding-Modell braucht nicht mehr). */
+  maxEdge: number;
+  /** Längste Kante des Originals im Zuschneide-Dialog. */
+  sourceMaxEdge: number;
+  format: OutputFormat;
+  quality: number;
+};
+
+export type PreprocessResult = {
+  blob: Blob;
+  width: number;
+  height: number;
+  /** Größe der Eingabe (bei Crops: des ursprünglich gewählten Fotos). */
+  originalBytes: number;
+  bytes: number;
+  /** Hauptfarben – nur bei Crops, die dafür ohnehin schon auf dem Canvas liegen. */
+  palette?: Swatch[];
+};
+
+const envInt = (v: string | undefined, fallback: number) => {
+  const n = Number.parseInt(v ?? '', 10);
+  return Number.isFinite(n) && n > 0 ? n : fallback;
+};
+
+export const PREPROCESS_DEFAULTS: PreprocessOptions = {
+  maxEdge: envInt(process.env.NEXT_PUBLIC_UPLOAD_MAX_EDGE, 1024),
+  sourceMaxEdge: 2048,
+  format: process.env.NEXT_PUBLIC_UPLOAD_FORMAT === 'webp' ? 'webp' : 'jpeg',
+  quality: Math.min(1, Math.max(0.5, Number(process.env.NEXT_PUBLIC_UPLOAD_QUALITY) || 0.88)),
+};
+
+/* --------- HEIC --------- */
+
+export function isHeic(file: Blob & { name?: string }): boolean {
+  return /image\/hei[cf]/i.test(file.type) || /\.hei[cf]$/i.test(file.name ?? '');
+}
+
+/** Akzeptiert alles mit image/* plus HEIC-Dateien, denen der Browser keinen Typ gibt. */
+export const isSupportedImage = (file: File) => file.type.startsWith('image/') || isHeic(file);
+
+/** HEIC können nur Safari-Versionen selbst dekodieren → per heic2any (lazy) nach JPEG. */
+async function decodeableBlob(file: Blob & { name?: string }): Promise<Blob> {
+  if (!isHeic(file)) return file;
+  const { default: heic2any } = await import('heic2any');
+  const out = await heic2any({ blob: file, toType: 'image/jpeg', quality: 0.95 });
+  return Array.isArray(out) ? out[0] : out;
+}
+
+/* --------- EXIF-Orientierung --------- */
+
+/** Liest das Orientation-Tag (1–8) aus einem JPEG; 1 wenn keins da ist. */
+export async function readExifOrientation(blob: Blob): Promise<number> {
+  const view = new DataView(await blob.slice(0, 128 * 1024).arrayBuffer());
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return 1;
+
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    const size = view.getUint16(offset + 2);
+    if (marker === 0xffe1 && offset + 8 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966) { // "Exif"
+      // Abgeschnittene oder kaputte Header: lieber ohne Drehung weiter als die Vorverarbeitung abbrechen
+      const tiff = offset + 10;
+      if (tiff + 8 > view.byteLength) return 1;
+      const little = view.getUint16(tiff) === 0x4949;
+      const ifd = tiff + view.getUint32(tiff + 4, little);
+      if (ifd + 2 > view.byteLength) return 1;
+      const entries = view.getUint16(ifd, little);
+      for (let i = 0; i < entries; i++) {
+        const entry = ifd + 2 + i * 12;
+        if (entry + 10 > view.byteLength) return 1;
+        if (view.getUint16(entry, little) === 0x0112) {
+          const o = view.getUint16(entry + 8, little);
+          return o >= 1 && o <= 8 ? o : 1;
+        }
+      }
+      return 1;
+    }
+    if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) break; // Bilddaten erreicht
+    offset += 2 + size;
+  }
+  return 1;
+}
+
+/** Wendet der Browser die EXIF-Orientierung bei <img>/drawImage schon selbst an? */
+const browserAutoOrients = () =>
+  typeof CSS !== 'undefined' && typeof CSS.supports === 'function' && CSS.supports('image-orientation', 'from-image');
+
+function applyOrientation(ctx: CanvasRenderingContext2D, o: number, w: number, h: number) {
+  switch (o) {
+    case 2: ctx.transform(-1, 0, 0, 1, w, 0); break;
+    case 3: ctx.transform(-1, 0, 0, -1, w, h); break;
+    case 4: ctx.transform(1, 0, 0, -1, 0, h); break;
+    case 5: ctx.transform(0, 1, 1, 0, 0, 0); break;
+    case 6: ctx.transform(0, 1, -1, 0, h, 0); break;
+    case 7: ctx.transform(0, -1, -1, 0, h, w); break;
+    case 8: ctx.transform(0, -1, 1, 0, 0, w); break;
+    default: break;
+  }
+}
+
+/* --------- Canvas-Helfer --------- */
+
+/**
+ * Weiß grundieren: Alles wird als JPEG neu kodiert, transparente PNG/WebP (freigestellte
+ * Shop-Bilder) bekämen sonst schwarzen Hintergrund – das verfälscht die Suche.
+ */
+function fillBackground(ctx: CanvasRenderingContext2D) {
+  ctx.fillStyle = MASK_FILL;
+  ctx.fillRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+}
+
+function smoothContext(canvas: HTMLCanvasElement): CanvasRenderingContext2D {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas context not available');
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  return ctx;
+}
+
+/** Skalierung, sodass die längste Kante höchstens `maxEdge` ist (nie hochskalieren). */
+export function fitScale(w: number, h: number, maxEdge: number): number {
+  return Math.min(1, maxEdge / Math.max(w, h, 1));
+}
+
+/**
+ * Kodiert das Canvas neu. Dabei fallen alle Metadaten (EXIF, GPS) weg.
+ * Kann der Browser kein WebP schreiben, liefert toBlob PNG → dann JPEG.
+ */
+export async function encodeCanvas(canvas: HTMLCanvasElement, format: OutputFormat, quality: number): Promise<Blob> {
+  const toBlob = (type: string) =>
+    new Promise<Blob | null>((res) => canvas.toBlob(res, type, quality));
+  if (format === 'webp') {
+    const webp = await toBlob('image/webp');
+    if (webp && webp.type === 'image/webp') return webp;
+  }
+  const jpeg = await toBlob('image/jpeg');
+  if (!jpeg) throw new Error('Bild konnte nicht kodiert werden.');
+  return jpeg;
+}
+
+function loadImage(url: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.decoding = 'async';
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Bild konnte nicht gelesen werden.'));
+    img.src = url;
+  });
+}
+
+/**
+ * Zeichnet ein Bild aufrecht (EXIF angewendet) und verkleinert auf `maxEdge`.
+ * Bevorzugt createImageBitmap mit imageOrientation, sonst <img> + manuelle Drehung.
+ */
+async function drawUpright(blob: Blob, maxEdge: number): Promise<HTMLCanvasElement> {
+  const canvas = document.createElement('canvas');
+
+  if (typeof createImageBitmap === 'function') {
+    try {
+      const bmp = await createImageBitmap(blob, { imageOrientation: 'from-image' });
+      const s = fitScale(bmp.width, bmp.height, maxEdge);
+      canvas.width = Math.max(1, Math.round(bmp.width * s));
+      canvas.height = Math.max(1, Math.round(bmp.height * s));
+      const ctx = smoothContext(canvas);
+      fillBackground(ctx);
+      ctx.drawImage(bmp, 0, 0, canvas.width, canvas.height);
+      bmp.close();
+      return canvas;
+    } catch {
+      // ältere Browser: Optionen nicht unterstützt → Fallback unten
+    }
+  }
+
+  const orientation = browserAutoOrients() ? 1 : await readExifOrientation(blob);
+  const url = URL.createObjectURL(blob);
+  try {
+    const img = await loadImage(url);
+    const s = fitScale(img.naturalWidth, img.naturalHeight, maxEdge);
+    const w = Math.max(1, Math.round(img.naturalWidth * s));
+    const h = Math.max(1, Math.round(img.naturalHeight * s));
+    const swap = orientation >= 5;
+    canvas.width = swap ? h : w;
+    canvas.height = swap ? w : h;
+    const ctx = smoothContext(canvas);
+    fillBackground(ctx);
+    applyOrientation(ctx, orientation, w, h);
+    ctx.drawImage(img, 0, 0, w, h);
+    return canvas;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/* --------- Öffentliche Pipeline --------- */
+
+/**
+ * Für das Foto im Zuschneide-Dialog: HEIC → JPEG, EXIF-Drehung anwenden,
+ * auf `sourceMaxEdge` verkleinern. ReactCrop sieht damit dasselbe wie der Nutzer.
+ */
+export async function normalizeSource(file: File, opts: PreprocessOptions = PREPROCESS_DEFAULTS): Promise<File> {
+  const canvas = await drawUpright(await decodeableBlob(file), opts.sourceMaxEdge);
+  const blob = await encodeCanvas(canvas, 'jpeg', 0.92);
+  const name = file.name.replace(/\.[^.]+$/, '') + '.jpg';
+  return new File([blob], name, { type: blob.type, lastModified: file.lastModified });
+}
+
+/**
+ * Crop aus dem (bereits aufrechten) Bild schneiden und für den Upload verkleinern.
+ * Mit einem CropTransform wird vorher gedreht und die Maske weiß abgedeckt.
+ */
+export async function cropForUpload(
+  img: HTMLImageElement,
+  crop: PixelCrop | CropTransform,
+  originalBytes: number,
+  opts: PreprocessOptions = PREPROCESS_DEFAULTS
+): Promise<PreprocessResult> {
+  const area = 'area' in crop ? crop.area : crop;
+  const s = fitScale(area.width, area.height, opts.maxEdge);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(area.width * s));
+  canvas.height = Math.max(1, Math.round(area.height * s));
+  const ctx = smoothContext(canvas);
+  if ('area' in crop) {
+    drawTransformed(ctx, img, crop);
+  } else {
+    ctx.drawImage(
+      img,
+      crop.x, crop.y, crop.width, crop.height,
+      0, 0, canvas.width, canvas.height
+    );
+  }
+  const blob = await encodeCanvas(canvas, opts.format, opts.quality);
+  const palette = extractPalette(canvas, canvas.width, canvas.height);
+  return { blob, width: canvas.width, height: canvas.height, originalBytes, bytes: blob.size, palette };
+}
+
+/** Ganzes Bild für den Upload vorbereiten (z. B. „Erneut suchen“ ohne Crop). */
+export async function preprocessForUpload(blob: Blob, opts: PreprocessOptions = PREPROCESS_DEFAULTS): Promise<PreprocessResult> {
+  const canvas = await drawUpright(await decodeableBlob(blob), opts.maxEdge);
+  const out = await encodeCanvas(canvas, opts.format, opts.quality);
+  return { blob: out, width: canvas.width, height: canvas.height, originalBytes: blob.size, bytes: out.size };
+}
+
+/** Kleines Vorschaubild (z. B. für den Verlauf). */
+export async function makeThumbnail(blob: Blob, edge = 160): Promise<Blob> {
+  const canvas = await drawUpright(blob, edge);
+  return encodeCanvas(canvas, 'jpeg', 0.8);
+}
+
+export function formatBytes(n: number, locale = 'de-DE'): string {
+  const fmt = (v: number) => new Intl.NumberFormat(locale, { maximumFractionDigits: v < 10 ? 1 : 0 }).format(v);
+  if (n < 1024) return `${n} B`;
+  if (n < 1024 * 1024) return `${fmt(n / 1024)} KB`;
+  return `${fmt(n / (1024 * 1024))} MB`;
+}
+
+/** Ersparnis in Prozent (0–100), nie negativ. */
+export const savedPercent = (r: Pick<PreprocessResult, 'originalBytes' | 'bytes'>) =>
+  r.originalBytes > 0 ? Math.max(0, Math.round((1 - r.bytes / r.originalBytes) * 100)) : 0;
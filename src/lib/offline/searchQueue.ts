@@ -0,0 +1,100 @@
+import { isApiError } from '@/lib/api/errors';
+import type { SearchFeedback } from '@/lib/api/search';
+import type { Hit } from '@/lib/api/types';
+import type { Locale } from '@/lib/i18n/config';
+import { STORES, del, getAll, hasIndexedDb, put } from '@/lib/history/db';
+
+/* ---------------- Offline-Warteschlange für Suchen ---------------- */
+
+/**
+ * Suchen ohne Verbindung landen hier und werden nachgeholt – per Background
+ * Sync im Service Worker (public/sw.js, gleiche Feldnamen!) oder, wo es das
+ * nicht gibt, von der Seite selbst beim „online“-Event.
+ */
+
+export const SEARCH_QUEUE_SYNC_TAG = 'search-queue';
+/** Nachricht des Service Workers, wenn Ergebnisse bereitliegen. */
+export const SEARCH_QUEUE_MESSAGE = 'search-queue';
+
+const QUEUE_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+export type QueuedSearch = {
+  id: string;
+  sessionId: string | null;
+  regionId: string;
+  regionName: string;
+  blob: Blob;
+  /** Textverfeinerung zum Crop (Feld `query`). */
+  query?: string;
+  /** Relevanz-Feedback (Felder `positive_id` / `negative_id`). */
+  feedback?: SearchFeedback;
+  /** z. B. Demo-Header, damit die Wiederholung dasselbe Szenario trifft. */
+  headers: Record<string, string>;
+  /** Sprache der Seite, die gesucht hat – für Benachrichtigung und Link des Service Workers. */
+  locale?: Locale;
+  createdAt: number;
+  status: 'pending' | 'done' | 'failed';
+  results?: Hit[];
+  error?: string;
+};
+
+/** Netzwerkfehler, während der Browser offline ist → einreihen statt Fehler zeigen. */
+export const isOfflineError = (e: unknown) =>
+  typeof navigator !== 'undefined' && !navigator.onLine && isApiError(e) && e.kind === 'network';
+
+export async function enqueueSearch(
+  input: Pick<QueuedSearch, 'sessionId' | 'regionId' | 'regionName' | 'blob' | 'query' | 'feedback' | 'headers' | 'locale'>
+): Promise<QueuedSearch> {
+  // Pro Bereich nur die letzte Suche
+  const stale = (await listQueuedSearches()).filter((q) => q.regionId === input.regionId).map((q) => q.id);
+  if (stale.length) await del(STORES.searchQueue, stale);
+  const item: QueuedSearch = { ...input, id: `q${Date.now().toString(36)}`, createdAt: Date.now(), status: 'pending' };
+  await put(STORES.searchQueue, item);
+  return item;
+}
+
+/** Alle Einträge; zu alte (Sitzung nie wieder geöffnet) werden dabei entfernt. */
+export async function listQueuedSearches(): Promise<QueuedSearch[]> {
+  if (!hasIndexedDb()) return [];
+  const all = await getAll<QueuedSearch>(STORES.searchQueue);
+  const cutoff = Date.now() - QUEUE_MAX_AGE_MS;
+  const expired = all.filter((q) => q.createdAt < cutoff).map((q) => q.id);
+  if (expired.length) await del(STORES.searchQueue, expired);
+  return all.filter((q) => q.createdAt >= cutoff);
+}
+
+export const removeQueuedSearch = (id: string) => del(STORES.searchQueue, id);
+
+type SyncRegistration = ServiceWorkerRegistration & { sync?: { register(tag: string): Promise<void> } };
+
+/** Background Sync anmelden; false, wenn der Browser das nicht kann (dann selbst nachholen). */
+export async function requestBackgroundSync(): Promise<boolean> {
+  if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) return false;
+  try {
+    const reg = (await navigator.serviceWorker.ready) as SyncRegistration;
+    if (!reg.sync) return false;
+    await reg.sync.register(SEARCH_QUEUE_SYNC_TAG);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Offene Suchen selbst nachholen (Fallback ohne Background Sync).
+ * Bricht beim ersten Netzwerkfehler ab – der Rest bleibt für den nächsten Versuch.
+ */
+export async function replayQueue(run: (q: QueuedSearch) => Promise<Hit[]>): Promise<number> {
+  let finished = 0;
+  for (const q of await listQueuedSearches()) {
+    if (q.status !== 'pending') continue;
+    try {
+      await put(STORES.searchQueue, { ...q, status: 'done', results: await run(q) });
+    } catch (e) {
+      if (isApiError(e) && (e.transient || e.kind === 'aborted')) break;
+      await put(STORES.searchQueue, { ...q, status: 'failed', error: e instanceof Error ? e.message : String(e) });
+    }
+    finished++;
+  }
+  return finished;
+}
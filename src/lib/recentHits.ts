@@ -0,0 +1,45 @@
+import type { Hit } from '@/lib/api/types';
+import { dedupeHits } from '@/lib/results';
+
+/* ---------------- Zuletzt gesehene Treffer (für /product/[id]) ---------------- */
+
+/**
+ * Die Detailseite soll sofort etwas zeigen – auch wenn das Backend kein
+ * /products/{id} hat. Dafür merken wir uns die Angebote aus den letzten Suchen.
+ */
+
+const KEY = 'clofind:recent-hits';
+const MAX_PRODUCTS = 300;
+
+type Entry = [productId: number, offers: Hit[]];
+
+function load(): Entry[] {
+  try {
+    const raw = JSON.parse(localStorage.getItem(KEY) ?? '[]') as unknown;
+    return Array.isArray(raw) ? (raw as Entry[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function rememberHits(hits: Hit[]) {
+  if (typeof localStorage === 'undefined' || !hits.length) return;
+  const byId = new Map(load());
+  for (const h of hits) {
+    const offers = byId.get(h.product_id) ?? [];
+    // Neu einsortieren, damit die Reihenfolge „zuletzt gesehen“ bleibt
+    byId.delete(h.product_id);
+    byId.set(h.product_id, dedupeHits([h, ...offers]));
+  }
+  const entries = [...byId].slice(-MAX_PRODUCTS);
+  try {
+    localStorage.setItem(KEY, JSON.stringify(entries));
+  } catch {
+    // Speicher voll – dann eben ohne Vorab-Anzeige
+  }
+}
+
+export function recallOffers(productId: number): Hit[] {
+  if (typeof localStorage === 'undefined') return [];
+  return load().find(([id]) => id === productId)?.[1] ?? [];
+}
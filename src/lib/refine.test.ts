@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { parseRefinement } from './refine';
+
+const MERCHANTS = ['Zalando', 'About You', 'You'];
+
+describe('parseRefinement', () => {
+  it('macht aus Preisgrenze und Händler Filter, der Rest bleibt Text', () => {
+    expect(parseRefinement('in schwarz, unter 80 €, bei Zalando', MERCHANTS)).toEqual({
+      text: 'in schwarz', priceMax: 80, merchants: ['Zalando'],
+    });
+  });
+
+  it('liest Spannen in beiden Schreibweisen und sortiert die Grenzen', () => {
+    expect(parseRefinement('zwischen 120 € und 40 €', [])).toMatchObject({ priceMin: 40, priceMax: 120, text: '' });
+    expect(parseRefinement('Damen 30–50 EUR', [])).toMatchObject({ priceMin: 30, priceMax: 50, text: 'Damen' });
+  });
+
+  it('versteht Dezimal- und Tausendertrenner', () => {
+    expect(parseRefinement('bis 79,90 €', []).priceMax).toBe(79.9);
+    expect(parseRefinement('ab 1.000,50 €', []).priceMin).toBe(1000.5);
+    expect(parseRefinement('under $1,000.50', []).priceMax).toBe(1000.5);
+  });
+
+  it('hält Zahlen ohne Währung für Größen – außer nach einem Preiswort', () => {
+    expect(parseRefinement('Größe 38 bis 40', [])).toEqual({ text: 'Größe 38 bis 40', merchants: [] });
+    expect(parseRefinement('Preis bis 80', [])).toEqual({ text: '', priceMax: 80, merchants: [] });
+  });
+
+  it('nimmt längere Händlernamen zuerst und nur ganze Wörter', () => {
+    expect(parseRefinement('von About You', MERCHANTS).merchants).toEqual(['About You']);
+    expect(parseRefinement('Youngster-Look', MERCHANTS)).toEqual({ text: 'Youngster-Look', merchants: [] });
+  });
+});
@@ -0,0 +1,98 @@
+/* ---------------- Textverfeinerung: Freitext zum Bild plus erkannte Filter ---------------- */
+
+/**
+ * Ergebnis für z. B. „in schwarz, unter 80 €, bei Zalando“: Preisgrenzen und bekannte
+ * Händler werden zu Filtern, der Rest („in schwarz“) geht als Text mit dem Bild ans Backend.
+ */
+export type Refinement = {
+  text: string;
+  priceMin?: number;
+  priceMax?: number;
+  /** Schreibweise wie in den Treffern. */
+  merchants: string[];
+};
+
+// Preise gelten in der Anzeigewährung – ein anderes Währungszeichen wird nur überlesen.
+// Mit Tausendertrennern („1.000,50“, „1 000“, „1,000.50“) oder schlicht („80“, „79,90“).
+const NUM = String.raw`(\d{1,3}(?:[.\s]\d{3})+(?:,\d{1,2})?|\d{1,3}(?:,\d{3})+(?:\.\d{1,2})?|\d+(?:[.,]\d{1,2})?)(?![.,]?\d)`;
+const CUR = String.raw`(?:\s*(?:€|euros?|eur|\$|usd|£|gbp|chf|sek|kr)(?![\p{L}]))`;
+const PRE = String.raw`(?:(?:€|\$|£)\s*)?`;
+const PRICE = `${PRE}${NUM}${CUR}?`;
+const START = String.raw`(?<![\p{L}\p{N}])`;
+
+// Ohne Währung könnte jede Zahl auch eine Größe sein („Größe 38 bis 40“, „30–40“) – Preis ist sie
+// nur mit Währungszeichen oder einem Preiswort davor („Preis bis 80“)
+const CURRENCY_MARK = new RegExp(String.raw`[€$£]|(?<![\p{L}])(?:euros?|eur|usd|gbp|chf|sek|kr)(?![\p{L}])`, 'iu');
+const PRICE_WORD = /(?<![\p{L}])(?:preis\w*|price\w*|kostet|kosten|costs?)[\s:]*$/iu;
+
+const RANGE = [
+  new RegExp(String.raw`${START}(?:zwischen|between)\s+${PRICE}\s+(?:und|and)\s+${PRICE}`, 'giu'),
+  new RegExp(String.raw`${START}${PRE}${NUM}\s*[-–]\s*${PRE}${NUM}${CUR}`, 'giu'),
+];
+const MAX = new RegExp(
+  String.raw`${START}(?:unter|bis(?:\s+zu)?|höchstens|max(?:imal)?\.?|under|below|up\s+to|less\s+than|<|≤)\s*${PRICE}`,
+  'giu'
+);
+const MIN = new RegExp(
+  String.raw`${START}(?:über|ab|mindestens|min(?:destens)?\.?|over|above|from|more\s+than|>|≥)\s*${PRICE}`,
+  'giu'
+);
+const CONNECTOR = /^(?:und|and|&|bei|von|at|from)(?:\s+|$)|\s+(?:und|and|&|bei|von|at|from)$/iu;
+
+/** Das letzte Trennzeichen mit ein, zwei Ziffern dahinter ist das Dezimalzeichen, alle anderen trennen Tausender. */
+function num(v: string): number {
+  const s = v.replace(/\s/g, '');
+  const dec = /[.,](\d{1,2})$/.exec(s);
+  const int = (dec ? s.slice(0, dec.index) : s).replace(/[.,]/g, '');
+  return Number(dec ? `${int}.${dec[1]}` : int);
+}
+const escapeRe = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** Zerlegt die Eingabe; `knownMerchants` sind die Händler der aktuellen Treffer. */
+export function parseRefinement(input: string, knownMerchants: readonly string[]): Refinement {
+  let rest = ` ${input} `;
+  const out: Refinement = { text: '', merchants: [] };
+  /** Erster Treffer von `re` (bei `price` nur einer, der sicher ein Preis ist) – aus `rest` herausgeschnitten. */
+  const take = (re: RegExp, price = false): RegExpExecArray | null => {
+    for (const m of rest.matchAll(re)) {
+      // Das Preiswort gehört mit zum Filter, nicht in den Text
+      const word = price ? PRICE_WORD.exec(rest.slice(0, m.index)) : null;
+      if (price && !word && !CURRENCY_MARK.test(m[0])) continue;
+      const start = word ? word.index : m.index;
+      rest = rest.slice(0, start) + ' , ' + rest.slice(m.index + m[0].length);
+      return m as RegExpExecArray;
+    }
+    return null;
+  };
+
+  for (const re of RANGE) {
+    const m = take(re, true);
+    if (m) {
+      const [a, b] = [num(m[1]), num(m[2])].sort((x, y) => x - y);
+      out.priceMin = a;
+      out.priceMax = b;
+      break;
+    }
+  }
+  if (out.priceMax === undefined) {
+    const m = take(MAX, true);
+    if (m) out.priceMax = num(m[1]);
+  }
+  if (out.priceMin === undefined) {
+    const m = take(MIN, true);
+    if (m) out.priceMin = num(m[1]);
+  }
+
+  // Längere Namen zuerst („About You“ vor „You“)
+  for (const name of [...new Set(knownMerchants)].filter(Boolean).sort((a, b) => b.length - a.length)) {
+    const re = new RegExp(String.raw`${START}(?:(?:bei|von|auf|at|from|on)\s+)?${escapeRe(name)}(?![\p{L}\p{N}])`, 'giu');
+    if (take(re)) out.merchants.push(name);
+  }
+
+  out.text = rest
+    .split(/[,;]/)
+    .map((part) => part.replace(/\s+/g, ' ').trim().replace(CONNECTOR, '').trim())
+    .filter(Boolean)
+    .join(', ');
+  return out;
+}
@@ -0,0 +1,32 @@
+import type { Crop } from 'react-image-crop';
+import { describe, expect, it } from 'vitest';
+import { keyboardCrop } from './regions';
+
+const box = (x: number, y: number, width: number, height: number): Crop => ({ unit: '%', x, y, width, height });
+
+describe('keyboardCrop', () => {
+  it('verschiebt um 1 %, mit Umschalt um 5 %', () => {
+    expect(keyboardCrop(box(10, 10, 50, 50), 'ArrowRight')).toEqual(box(11, 10, 50, 50));
+    expect(keyboardCrop(box(10, 10, 50, 50), 'ArrowUp', { large: true })).toEqual(box(10, 5, 50, 50));
+  });
+
+  it('schiebt die Box nicht aus dem Bild', () => {
+    expect(keyboardCrop(box(0, 0, 50, 50), 'ArrowLeft')).toEqual(box(0, 0, 50, 50));
+    expect(keyboardCrop(box(48, 10, 50, 50), 'ArrowRight', { large: true })).toEqual(box(50, 10, 50, 50));
+    expect(keyboardCrop(box(10, 97, 50, 3), 'ArrowDown', { large: true })).toEqual(box(10, 97, 50, 3));
+  });
+
+  it('ändert mit resize die Größe: rechts/unten wächst, links/oben schrumpft', () => {
+    expect(keyboardCrop(box(10, 10, 50, 50), 'ArrowRight', { resize: true })).toEqual(box(10, 10, 51, 50));
+    expect(keyboardCrop(box(10, 10, 50, 50), 'ArrowUp', { resize: true, large: true })).toEqual(box(10, 10, 50, 45));
+  });
+
+  it('hält beim Vergrößern den Bildrand und beim Verkleinern die Mindestgröße', () => {
+    expect(keyboardCrop(box(30, 20, 68, 50), 'ArrowRight', { resize: true, large: true })).toEqual(box(30, 20, 70, 50));
+    expect(keyboardCrop(box(10, 10, 7, 50), 'ArrowLeft', { resize: true, large: true })).toEqual(box(10, 10, 5, 50));
+  });
+
+  it('liefert null für andere Tasten', () => {
+    expect(keyboardCrop(box(10, 10, 50, 50), 'Enter')).toBeNull();
+  });
+});
@@ -0,0 +1,198 @@
+import type { Crop, PixelCrop } from 'react-image-crop';
+import type { SearchFeedback } from '@/lib/api/search';
+import type { DetectionBox, Hit } from '@/lib/api/types';
+import type { ColorView, Swatch } from '@/lib/colors/colors';
+import type { CompareItem } from '@/lib/compare';
+import { emptyFeedback, type FeedbackSnapshot } from '@/lib/feedback';
+import type { CropTransform } from '@/lib/image/cropEdit';
+import type { PreprocessResult } from '@/lib/image/preprocess';
+import { MESSAGES } from '@/lib/i18n/translate';
+import { PAGE_SIZE, defaultFilters, type Filters, type SortKey } from '@/lib/results';
+
+/* ---------------- Suchbereiche (mehrere Kleidungsstücke pro Foto) ---------------- */
+
+export const MAX_REGIONS = 6;
+
+/** Weiterblättern beim Backend: womit gesucht wurde und ab wo es weitergeht (null = alles geladen). */
+export type RegionPage = {
+  searchId: string;
+  nextOffset: number | null;
+  total: number | null;
+  /** filterKey() der Filter, mit denen `results` geladen wurden. */
+  filterKey: string;
+};
+
+export type Region = {
+  id: string;
+  name: string;
+  /** Entwurf im Zuschneide-Dialog (in %). */
+  crop?: Crop;
+  /** Bestätigter Ausschnitt in Pixeln des Originals (bei `transform`: der Rahmen darum). */
+  cropPx: PixelCrop | null;
+  /** Gedreht, gezoomt oder maskiert (erweiterter Editor); null = einfacher Rahmen. */
+  transform: CropTransform | null;
+  /** Label der Kleidungserkennung, wenn der Bereich aus einem Vorschlag stammt – wählt das Seitenverhältnis vor. */
+  garment: string | null;
+  previewUrl: string | null;
+  blob: Blob | null;
+  uploadStats: PreprocessResult | null;
+  /** Hauptfarben des Crops; null = noch nicht bestimmt. */
+  palette: Swatch[] | null;
+
+  results: Hit[];
+  /** null: Backend ohne Seiten (oder offline nachgeholt) – dann gibt es nur `results`. */
+  page: RegionPage | null;
+  loading: boolean;
+  /** Nächste Seite bzw. neu gefilterte erste Seite lädt; die bisherigen Treffer bleiben sichtbar. */
+  loadingMore: boolean;
+  error: string | null;
+  /** Offline gestartet – wartet in der Suchwarteschlange. */
+  queued: boolean;
+
+  // Jeder Bereich hat seine eigene Ansicht
+  sortBy: SortKey;
+  visibleCount: number;
+  filters: Filters;
+  /** Textverfeinerung, die mit dem Crop gesucht wurde (ohne die als Filter erkannten Teile); '' = keine. */
+  query: string;
+  /** Treffer mit „mehr davon“ / „nicht das“ – gehen bei jeder Suche des Bereichs mit. */
+  feedback: SearchFeedback;
+  /** Plätze vor der letzten Feedback-Suche (für die Auf/Ab-Marken); null = nichts zu vergleichen. */
+  rankBefore: ReadonlyMap<number, number> | null;
+  /** Zustände vor den Feedback-Suchen, neuester zuletzt. */
+  feedbackUndo: FeedbackSnapshot[];
+  /** Nach Farbe filtern bzw. ordnen (Trefferbilder werden dafür analysiert); null = aus. */
+  colorView: ColorView | null;
+  /** Zum Vergleich ausgewählt – bleibt bei Filtern, Weiterblättern und neuen Suchen, ein neuer Ausschnitt leert ihn. */
+  compare: CompareItem[];
+};
+
+/** Was außer dem Bild in eine Suche des Bereichs eingeht. */
+export type RegionSearchSpec = Pick<Region, 'filters' | 'query' | 'feedback'>;
+
+/** Bereich ändern: Teilstand oder eine Funktion des aktuellen Stands. */
+export type PatchRegion = (id: string, patch: Partial<Region> | ((r: Region) => Partial<Region>)) => void;
+
+let seq = 0;
+const nextId = () => `r${Date.now().toString(36)}${(seq++).toString(36)}`;
+
+/** Startbox: erster Bereich wie bisher groß, weitere kleiner und versetzt. */
+export function defaultCropFor(index: number): Crop {
+  if (index === 0) return { unit: '%', x: 12, y: 12, width: 76, height: 76 };
+  const off = 8 + ((index * 14) % 48);
+  return { unit: '%', x: off, y: off, width: 40, height: 40 };
+}
+
+/** `name` kommt aus dem Katalog der Seite (regions.defaultName), die Region selbst ist sprachneutral. */
+export function createRegion(name: string, crop?: Crop): Region {
+  return {
+    id: nextId(),
+    name,
+    crop,
+    cropPx: null,
+    transform: null,
+    garment: null,
+    previewUrl: null,
+    blob: null,
+    uploadStats: null,
+    palette: null,
+    results: [],
+    page: null,
+    loading: false,
+    loadingMore: false,
+    error: null,
+    queued: false,
+    sortBy: 'relevance',
+    visibleCount: PAGE_SIZE,
+    filters: defaultFilters(),
+    query: '',
+    feedback: emptyFeedback(),
+    rankBefore: null,
+    feedbackUndo: [],
+    colorView: null,
+    compare: [],
+  };
+}
+
+/** Nächster freier Standardname („Bereich 3“), auch nach Löschen. */
+export function nextRegionName(regions: Region[], nameFor: (n: number) => string): string {
+  const taken = new Set(regions.map((r) => r.name));
+  for (let i = 1; ; i++) {
+    if (!taken.has(nameFor(i))) return nameFor(i);
+  }
+}
+
+// Standardnamen aller Sprachen – ein „Area 2“ aus dem Verlauf gilt auch auf /de als unbenannt
+const DEFAULT_NAME_PATTERNS = Object.values(MESSAGES).map(
+  (m) => new RegExp(`^${m.regions.defaultName.replace(/[.*+?^$()|[\]\\]/g, '\\$&').replace('{n}', '\\d+')}$`)
+);
+
+export const isDefaultRegionName = (name: string) => DEFAULT_NAME_PATTERNS.some((re) => re.test(name));
+
+export const sameCrop = (a: Crop, b: Crop) =>
+  a.unit === b.unit && a.x === b.x && a.y === b.y && a.width === b.width && a.height === b.height;
+
+/** Noch nicht vom Nutzer verändert (fehlt oder ist die Startbox des ersten Bereichs)? */
+export function isUntouchedCrop(crop: Crop | undefined): boolean {
+  return !crop || sameCrop(crop, defaultCropFor(0));
+}
+
+export const boxToCrop = (b: DetectionBox): Crop => ({
+  unit: '%',
+  x: b.x * 100,
+  y: b.y * 100,
+  width: b.width * 100,
+  height: b.height * 100,
+});
+
+/** Rahmen (in % oder Pixeln des angezeigten Bildes) in Pixel des Originals. */
+export function toPixelCrop(c: Crop, img: HTMLImageElement): PixelCrop {
+  const naturalW = img.naturalWidth;
+  const naturalH = img.naturalHeight;
+  const renderedW = img.width || img.getBoundingClientRect().width || naturalW;
+  const renderedH = img.height || img.getBoundingClientRect().height || naturalH;
+  const scaleX = naturalW / renderedW;
+  const scaleY = naturalH / renderedH;
+  const isPct = c.unit === '%';
+  const rx = c.x ?? 0, ry = c.y ?? 0, rw = c.width ?? 0, rh = c.height ?? 0;
+  const x = Math.round(isPct ? (rx / 100) * naturalW : rx * scaleX);
+  const y = Math.round(isPct ? (ry / 100) * naturalH : ry * scaleY);
+  const w = Math.round(isPct ? (rw / 100) * naturalW : rw * scaleX);
+  const h = Math.round(isPct ? (rh / 100) * naturalH : rh * scaleY);
+  return { unit: 'px', x: Math.max(0, x), y: Math.max(0, y), width: Math.max(1, w), height: Math.max(1, h) };
+}
+
+/** Pixel des Originals zurück in einen %-Rahmen. */
+export function pixelToPercentCropWithSize(px: PixelCrop, naturalW: number, naturalH: number): Crop {
+  return {
+    unit: '%',
+    x: (px.x / naturalW) * 100,
+    y: (px.y / naturalH) * 100,
+    width: (px.width / naturalW) * 100,
+    height: (px.height / naturalH) * 100,
+  };
+}
+
+/** Schrittweite der Tastatur in % des Bildes; mit Umschalt der große Schritt. */
+const CROP_KEY_STEP = 1;
+const CROP_KEY_STEP_LARGE = 5;
+const CROP_MIN_PERCENT = 5;
+
+/**
+ * Rahmen (in %) per Pfeiltaste verschieben oder – mit `resize` – vergrößern/verkleinern:
+ * rechts/unten wächst die Box, links/oben schrumpft sie. Bleibt immer im Bild;
+ * null = keine Pfeiltaste.
+ */
+export function keyboardCrop(crop: Crop, key: string, { resize = false, large = false } = {}): Crop | null {
+  const step = large ? CROP_KEY_STEP_LARGE : CROP_KEY_STEP;
+  const dx = key === 'ArrowRight' ? step : key === 'ArrowLeft' ? -step : 0;
+  const dy = key === 'ArrowDown' ? step : key === 'ArrowUp' ? -step : 0;
+  if (!dx && !dy) return null;
+  const clamp = (v: number, min: number, max: number) => Math.min(max, Math.max(min, v));
+  if (resize) {
+    const width = clamp(crop.width + dx, CROP_MIN_PERCENT, 100 - crop.x);
+    const height = clamp(crop.height + dy, CROP_MIN_PERCENT, 100 - crop.y);
+    return { ...crop, width, height };
+  }
+  return { ...crop, x: clamp(crop.x + dx, 0, 100 - crop.width), y: clamp(crop.y + dy, 0, 100 - crop.height) };
+}
@@ -0,0 +1,188 @@
+import type { SearchFilters } from '@/lib/api/search';
+import type { Hit } from '@/lib/api/types';
+
+/* ---------------- Treffer: Dedupe, Sortierung, Filter ---------------- */
+
+export type LabelBucket = 'Exact' | 'Sehr ähnlich' | 'Alternative';
+export const LABEL_BUCKETS: readonly LabelBucket[] = ['Exact', 'Sehr ähnlich', 'Alternative'];
+
+export type SortKey = 'relevance' | 'priceAsc' | 'priceDesc' | 'scoreDesc' | 'scoreAsc';
+export const SORT_KEYS: readonly SortKey[] = ['relevance', 'priceAsc', 'priceDesc', 'scoreDesc', 'scoreAsc'];
+
+export type Filters = {
+  labels: Record<LabelBucket, boolean>;
+  priceMin: string;
+  priceMax: string;
+  /** Ausgewählte Händler (genauer Name, '' = ohne Händlerangabe); leer = alle. */
+  merchants: string[];
+  /** Mindest-Score; '' = aus. */
+  minScore: string;
+};
+
+export const PAGE_SIZE = 12;
+
+export const defaultFilters = (): Filters => ({
+  labels: { Exact: true, 'Sehr ähnlich': true, Alternative: true },
+  priceMin: '',
+  priceMax: '',
+  merchants: [],
+  minScore: '',
+});
+
+/** Gespeicherte Filter (Verlauf) auf den aktuellen Stand – ältere Einträge kennen nur die Händler-Textsuche. */
+export function restoreFilters(saved: Partial<Filters> & { merchant?: string }): Filters {
+  const d = defaultFilters();
+  return {
+    labels: { ...d.labels, ...saved.labels },
+    priceMin: saved.priceMin ?? '',
+    priceMax: saved.priceMax ?? '',
+    merchants: saved.merchants ?? (saved.merchant?.trim() ? [saved.merchant.trim()] : []),
+    minScore: saved.minScore ?? '',
+  };
+}
+
+export const normalizeBucket = (lbl?: string): LabelBucket =>
+  lbl === 'Exact' ? 'Exact' : lbl === 'Sehr ähnlich' ? 'Sehr ähnlich' : 'Alternative';
+
+/** Identische Treffer (gleiches Produkt, gleicher Link, gleiches Bild) nur einmal. */
+export function dedupeHits<T extends Hit>(hits: T[]): T[] {
+  const seen = new Set<string>();
+  return hits.filter((h) => {
+    const id = `${h.product_id}-${h.deeplink ?? ''}-${h.image_url ?? ''}`;
+    if (seen.has(id)) return false;
+    seen.add(id);
+    return true;
+  });
+}
+
+/** Preis zum Sortieren; nicht umrechenbare (NaN) landen immer am Ende. */
+const sortPrice = (p: number | undefined, missing: number) => (Number.isFinite(p) ? (p as number) : missing);
+
+export function sortHits<T extends Hit>(hits: T[], sortBy: SortKey): T[] {
+  const arr = [...hits];
+  switch (sortBy) {
+    case 'priceAsc': arr.sort((a, b) => sortPrice(a.price, Infinity) - sortPrice(b.price, Infinity)); break;
+    case 'priceDesc': arr.sort((a, b) => sortPrice(b.price, -Infinity) - sortPrice(a.price, -Infinity)); break;
+    case 'scoreDesc': arr.sort((a, b) => (b.score ?? 0) - (a.score ?? 0)); break;
+    case 'scoreAsc': arr.sort((a, b) => (a.score ?? 0) - (b.score ?? 0)); break;
+    default: break;
+  }
+  return arr;
+}
+
+const numOrUndef = (v: string) => (v.trim() !== '' && Number.isFinite(parseFloat(v)) ? parseFloat(v) : undefined);
+
+type Facet = 'labels' | 'price' | 'merchants' | 'score';
+
+/** Ein Prüfer je Facette – so lassen sich Treffer auch „mit allen Filtern außer einem“ zählen. */
+function facetTests(filters: Filters): Record<Facet, (h: Hit) => boolean> {
+  const min = numOrUndef(filters.priceMin);
+  const max = numOrUndef(filters.priceMax);
+  const minScore = numOrUndef(filters.minScore);
+  const merchants = new Set(filters.merchants);
+  return {
+    labels: (h) => filters.labels[normalizeBucket(h.label)] === true,
+    price: (h) => (min === undefined || (h.price ?? Infinity) >= min) && (max === undefined || (h.price ?? -Infinity) <= max),
+    merchants: (h) => merchants.size === 0 || merchants.has(h.merchant ?? ''),
+    score: (h) => minScore === undefined || (h.score ?? -Infinity) >= minScore,
+  };
+}
+
+const FACETS = ['labels', 'price', 'merchants', 'score'] as const satisfies readonly Facet[];
+
+const passes = (tests: Record<Facet, (h: Hit) => boolean>, h: Hit, except?: Facet) =>
+  FACETS.every((f) => f === except || tests[f](h));
+
+export function filterHits<T extends Hit>(hits: T[], filters: Filters): T[] {
+  const tests = facetTests(filters);
+  return hits.filter((h) => passes(tests, h));
+}
+
+export const HISTOGRAM_BINS = 24;
+
+/** Preisverteilung für das Histogramm; `min`/`max` umfassen auch die gewählten Grenzen. */
+export type PriceFacet = { min: number; max: number; bins: number[] };
+
+/** Facetten einer Trefferliste – jede zählt mit allen *anderen* aktiven Filtern, nicht mit sich selbst. */
+export type Facets = {
+  labels: Record<LabelBucket, number>;
+  /** Nach Anzahl absteigend; gewählte Händler stehen auch ohne Treffer drin. */
+  merchants: { name: string; count: number }[];
+  price: PriceFacet | null;
+  score: { min: number; max: number } | null;
+};
+
+const extent = (values: number[]): [number, number] | null =>
+  values.length ? [Math.min(...values), Math.max(...values)] : null;
+
+export function computeFacets(hits: Hit[], filters: Filters): Facets {
+  const tests = facetTests(filters);
+  const without = (f: Facet) => hits.filter((h) => passes(tests, h, f));
+
+  const labels: Record<LabelBucket, number> = { Exact: 0, 'Sehr ähnlich': 0, Alternative: 0 };
+  for (const h of without('labels')) labels[normalizeBucket(h.label)] += 1;
+
+  const byMerchant = new Map<string, number>(filters.merchants.map((m) => [m, 0]));
+  for (const h of without('merchants')) byMerchant.set(h.merchant ?? '', (byMerchant.get(h.merchant ?? '') ?? 0) + 1);
+  const merchants = [...byMerchant].map(([name, count]) => ({ name, count }))
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+
+  const prices = without('price').map((h) => h.price).filter((p): p is number => Number.isFinite(p));
+  const chosen = [numOrUndef(filters.priceMin), numOrUndef(filters.priceMax)].filter((p): p is number => p !== undefined);
+  const range = extent([...prices, ...chosen]);
+  let price: PriceFacet | null = null;
+  if (range && prices.length) {
+    const lo = Math.floor(range[0]);
+    const hi = Math.max(Math.ceil(range[1]), lo + 1);
+    const bins = new Array<number>(HISTOGRAM_BINS).fill(0);
+    for (const p of prices) bins[Math.min(HISTOGRAM_BINS - 1, Math.max(0, Math.floor(((p - lo) / (hi - lo)) * HISTOGRAM_BINS)))] += 1;
+    price = { min: lo, max: hi, bins };
+  }
+
+  const scores = without('score').map((h) => h.score).filter((s) => Number.isFinite(s));
+  const minScore = numOrUndef(filters.minScore);
+  const scoreRange = extent(minScore === undefined ? scores : [...scores, minScore]);
+  const score = scoreRange && scores.length ? { min: scoreRange[0], max: scoreRange[1] } : null;
+
+  return { labels, merchants, price, score };
+}
+
+/**
+ * Filter für das Backend, damit gefilterte Ansichten trotzdem volle Seiten bekommen.
+ * Nur Preis und Mindest-Score: Händler- und Ähnlichkeitsfacetten brauchen die übrigen
+ * Treffer, um Alternativen samt Anzahl anzubieten. Preise gelten in der Anzeigewährung;
+ * im Browser wird danach trotzdem gefiltert.
+ */
+export function toSearchFilters(filters: Filters, currency: string): SearchFilters {
+  return {
+    minPrice: numOrUndef(filters.priceMin),
+    maxPrice: numOrUndef(filters.priceMax),
+    currency,
+    minScore: numOrUndef(filters.minScore),
+  };
+}
+
+/** Aktiver Filter als Badge: sein Wert (Text baut die Oberfläche) und der Patch, der ihn wieder entfernt. */
+export type FilterBadge = { key: string; reset: Partial<Filters> } & (
+  | { id: 'labels'; buckets: LabelBucket[] }
+  | { id: 'price'; min: string; max: string }
+  | { id: 'merchant'; merchant: string }
+  | { id: 'score'; min: string }
+);
+
+export function filterBadges(f: Filters): FilterBadge[] {
+  const out: FilterBadge[] = [];
+  if (!Object.values(f.labels).every(Boolean)) {
+    out.push({ id: 'labels', key: 'labels', buckets: LABEL_BUCKETS.filter((k) => f.labels[k]), reset: { labels: defaultFilters().labels } });
+  }
+  if (f.priceMin !== '' || f.priceMax !== '') {
+    out.push({ id: 'price', key: 'price', min: f.priceMin, max: f.priceMax, reset: { priceMin: '', priceMax: '' } });
+  }
+  for (const m of f.merchants) {
+    out.push({ id: 'merchant', key: `merchant:${m}`, merchant: m, reset: { merchants: f.merchants.filter((x) => x !== m) } });
+  }
+  if (f.minScore !== '') {
+    out.push({ id: 'score', key: 'score', min: f.minScore, reset: { minScore: '' } });
+  }
+  return out;
+}
@@ -0,0 +1,50 @@
+/* ---------------- Server-Konfiguration aus der Umgebung ---------------- */
+
+function intEnv(name: string, fallback: number): number {
+  const n = Number.parseInt(process.env[name] ?? '', 10);
+  return Number.isFinite(n) && n > 0 ? n : fallback;
+}
+
+/** Wie intEnv, aber 0 ist erlaubt. */
+function countEnv(name: string, fallback: number): number {
+  const n = Number.parseInt(process.env[name] ?? '', 10);
+  return Number.isFinite(n) && n >= 0 ? n : fallback;
+}
+
+export const serverEnv = {
+  maxUploadBytes: intEnv('SEARCH_MAX_UPLOAD_BYTES', 10 * 1024 * 1024),
+  rateLimitPerMinute: intEnv('SEARCH_RATE_LIMIT_PER_MINUTE', 30),
+  cacheTtlMs: intEnv('SEARCH_CACHE_TTL_SECONDS', 600) * 1000,
+  cacheMaxEntries: intEnv('SEARCH_CACHE_MAX_ENTRIES', 200),
+  /** Gemerkte Crops fürs Weiterblättern, zusammen höchstens so viele Bytes; Verdrängte werden neu hochgeladen. */
+  sessionCacheMaxBytes: intEnv('SEARCH_SESSION_CACHE_MAX_BYTES', 64 * 1024 * 1024),
+  /** Kurstabelle vom Backend; leer → mitgelieferte rates.json. */
+  ratesUrl: process.env.RATES_URL?.trim() || null,
+  ratesTtlMs: intEnv('RATES_TTL_SECONDS', 3600) * 1000,
+  /** Events pro Client und Minute an /api/events (Schieberegler feuern öfter als Suchen). */
+  eventsRateLimitPerMinute: intEnv('EVENTS_RATE_LIMIT_PER_MINUTE', 120),
+  /** Trefferbilder für die Farbanalyse: eine Ergebnisseite lädt viele auf einmal. */
+  imageProxyRateLimitPerMinute: intEnv('IMAGE_PROXY_RATE_LIMIT_PER_MINUTE', 300),
+  imageProxyMaxBytes: intEnv('IMAGE_PROXY_MAX_BYTES', 5 * 1024 * 1024),
+  /**
+   * Client-IP fürs Rate-Limit: ein Header, den die Plattform selbst setzt (z. B. x-real-ip,
+   * cf-connecting-ip, x-vercel-forwarded-for). Leer → x-forwarded-for mit TRUST_PROXY_HOPS.
+   */
+  clientIpHeader: process.env.CLIENT_IP_HEADER?.trim().toLowerCase() || null,
+  /** Reverse-Proxys vor der App, die x-forwarded-for anhängen; 0 = dem Header nie trauen. */
+  trustProxyHops: countEnv('TRUST_PROXY_HOPS', 1),
+  /** Preisabfragen der Preisbeobachtung (/api/prices) – je offenem Tab etwa eine pro Prüfung. */
+  pricesRateLimitPerMinute: intEnv('PRICES_RATE_LIMIT_PER_MINUTE', 30),
+};
+
+/**
+ * Wo der Server sein eigenes /api/demo erreicht: fest aus der Umgebung, nie aus dem
+ * Host-Header der Anfrage – den setzt der Client, der Server würde sonst beliebige Hosts abfragen.
+ * Ohne DEMO_ORIGIN der eigene Port auf 127.0.0.1 (PORT setzt Next beim Start).
+ */
+export function demoBaseUrl(): string {
+  const origin = process.env.DEMO_ORIGIN?.trim() || `http://127.0.0.1:${process.env.PORT || 3000}`;
+  return `${origin.replace(/\/+$/, '')}/api/demo`;
+}
+
+export const ALLOWED_UPLOAD_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif', 'image/avif'] as const;
@@ -0,0 +1,18 @@
+import { appendFile, mkdir } from 'node:fs/promises';
+import path from 'node:path';
+import type { TrackedEvent } from '@/lib/analytics/events';
+
+/* ---------------- Nutzungs-Events (lokales JSONL-Log) ---------------- */
+
+/** Eine Zeile pro Event, nur angehängt; reicht für eine Instanz und lässt sich mit jq auswerten. */
+const EVENTS_FILE = path.resolve(process.env.EVENTS_FILE || '.data/events.jsonl');
+
+/** Mehr nimmt /api/events pro Anfrage nicht an. */
+export const EVENTS_MAX_BATCH = 20;
+
+export async function appendEvents(events: TrackedEvent[]): Promise<void> {
+  if (!events.length) return;
+  await mkdir(path.dirname(EVENTS_FILE), { recursive: true });
+  // Ein appendFile pro Aufruf – Zeilen paralleler Anfragen vermischen sich nicht
+  await appendFile(EVENTS_FILE, events.map((e) => `${JSON.stringify(e)}\n`).join(''));
+}
@@ -0,0 +1,49 @@
+import { serverEnv } from '@/lib/server/env';
+
+/* ---------------- Rate-Limit pro Client (Sliding Window, im Speicher) ---------------- */
+
+export type RateLimitResult = { ok: true; remaining: number } | { ok: false; retryAfterSec: number };
+
+export class RateLimiter {
+  private readonly hits = new Map<string, number[]>();
+
+  constructor(private readonly limit: number, private readonly windowMs: number) {}
+
+  check(key: string): RateLimitResult {
+    const now = Date.now();
+    const from = now - this.windowMs;
+    const recent = (this.hits.get(key) ?? []).filter((t) => t > from);
+
+    if (recent.length >= this.limit) {
+      this.hits.set(key, recent);
+      return { ok: false, retryAfterSec: Math.max(1, Math.ceil((recent[0] + this.windowMs - now) / 1000)) };
+    }
+    recent.push(now);
+    this.hits.set(key, recent);
+    if (this.hits.size > 5_000) this.sweep(from);
+    return { ok: true, remaining: this.limit - recent.length };
+  }
+
+  /** Verwaiste Clients entfernen, damit die Map nicht unbegrenzt wächst. */
+  private sweep(from: number) {
+    for (const [k, ts] of this.hits) {
+      if (!ts.length || ts[ts.length - 1] <= from) this.hits.delete(k);
+    }
+  }
+}
+
+/**
+ * Client-Kennung: bevorzugt der Header der Plattform (CLIENT_IP_HEADER), sonst aus
+ * x-forwarded-for der Eintrag, den der äußerste von TRUST_PROXY_HOPS eigenen Proxys
+ * angehängt hat – alles links davon kann der Client selbst mitschicken. Ohne vertrauten
+ * Proxy teilen sich alle Clients ein Limit.
+ */
+export function clientKey(headers: Headers, env: Pick<typeof serverEnv, 'clientIpHeader' | 'trustProxyHops'> = serverEnv): string {
+  if (env.clientIpHeader) {
+    const ip = headers.get(env.clientIpHeader)?.split(',')[0].trim();
+    if (ip) return ip;
+  }
+  if (!env.trustProxyHops) return 'unknown';
+  const hops = (headers.get('x-forwarded-for') ?? '').split(',').map((s) => s.trim()).filter(Boolean);
+  return hops[Math.max(0, hops.length - env.trustProxyHops)] ?? 'unknown';
+}
@@ -0,0 +1,68 @@
+// @vitest-environment node
+import { EventEmitter } from 'node:events';
+import { lookup } from 'node:dns/promises';
+import { request as httpRequest, type ClientRequest, type RequestOptions } from 'node:http';
+import type { LookupFunction } from 'node:net';
+import { describe, expect, it, vi } from 'vitest';
+import { embeddedIpv4, fetchImageOnly, isPrivateAddress } from './remoteImage';
+
+vi.mock('node:dns/promises', () => ({ lookup: vi.fn() }));
+vi.mock('node:http', async (importOriginal) => ({ ...(await importOriginal<typeof import('node:http')>()), request: vi.fn() }));
+
+describe('isPrivateAddress', () => {
+  it.each([
+    '127.0.0.1', '10.1.2.3', '172.16.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0',
+    '198.18.0.1', '198.19.255.255', '224.0.0.1',
+    '::', '::1', 'fd00::1', 'fe80::1%eth0', 'ff02::1',
+    '::ffff:127.0.0.1', '::ffff:7f00:1', '::ffff:a9fe:a9fe', '64:ff9b::7f00:1', '64:ff9b::10.0.0.1', '2002:c0a8:101::1',
+  ])('sperrt %s', (ip) => {
+    expect(isPrivateAddress(ip)).toBe(true);
+  });
+
+  it.each(['93.184.216.34', '198.20.0.1', '2606:4700::1111', '::ffff:5db8:d822', '64:ff9b::5db8:d822'])('erlaubt %s', (ip) => {
+    expect(isPrivateAddress(ip)).toBe(false);
+  });
+
+  it('sperrt alles, was keine IP-Adresse ist', () => {
+    expect(isPrivateAddress('localhost')).toBe(true);
+  });
+});
+
+describe('embeddedIpv4', () => {
+  it('holt IPv4 aus mapped-, NAT64- und 6to4-Adressen', () => {
+    expect(embeddedIpv4('::ffff:7f00:1')).toBe('127.0.0.1');
+    expect(embeddedIpv4('0:0:0:0:0:ffff:c0a8:0101')).toBe('192.168.1.1');
+    expect(embeddedIpv4('64:ff9b::a00:1')).toBe('10.0.0.1');
+    expect(embeddedIpv4('2002:a9fe:a9fe::')).toBe('169.254.169.254');
+    expect(embeddedIpv4('2606:4700::1111')).toBe('2606:4700::1111');
+  });
+});
+
+describe('fetchImageOnly', () => {
+  it('lehnt Hosts ab, die auf private Adressen zeigen', async () => {
+    vi.mocked(lookup).mockResolvedValueOnce([{ address: '::ffff:7f00:1', family: 6 }] as never);
+    await expect(fetchImageOnly('http://intern.example/a.jpg', 1000)).rejects.toMatchObject({ status: 400 });
+    await expect(fetchImageOnly('http://[64:ff9b::7f00:1]/a.jpg', 1000)).rejects.toMatchObject({ status: 400 });
+    expect(httpRequest).not.toHaveBeenCalled();
+  });
+
+  it('verbindet mit der geprüften Adresse, auch wenn DNS danach anders antwortet', async () => {
+    let options: RequestOptions | undefined;
+    vi.mocked(httpRequest).mockImplementationOnce(((_url: URL, opts: RequestOptions) => {
+      options = opts;
+      const req = new EventEmitter() as ClientRequest;
+      req.end = (() => { req.emit('error', new Error('offline')); return req; }) as ClientRequest['end'];
+      return req;
+    }) as typeof httpRequest);
+    vi.mocked(lookup)
+      .mockResolvedValueOnce([{ address: '93.184.216.34', family: 4 }] as never)
+      .mockResolvedValue([{ address: '127.0.0.1', family: 4 }] as never);
+
+    await expect(fetchImageOnly('http://shop.example/a.jpg', 1000)).rejects.toMatchObject({ kind: 'network' });
+    const pinned = options?.lookup as LookupFunction;
+    const all = await new Promise((resolve) => pinned('shop.example', { all: true }, (_e, addrs) => resolve(addrs)));
+    expect(all).toEqual([{ address: '93.184.216.34', family: 4 }]);
+    const one = await new Promise((resolve) => pinned('shop.example', {}, (_e, address) => resolve(address)));
+    expect(one).toBe('93.184.216.34');
+  });
+});
@@ -0,0 +1,223 @@
+import { lookup } from 'node:dns/promises';
+import { request as httpRequest, type IncomingMessage } from 'node:http';
+import { request as httpsRequest } from 'node:https';
+import { isIP, type LookupFunction } from 'node:net';
+import { Readable } from 'node:stream';
+import { ApiError } from '@/lib/api/errors';
+import { ALLOWED_UPLOAD_TYPES, serverEnv } from './env';
+
+/* ---------------- Bild von fremder URL laden (nur Server) ---------------- */
+
+const MAX_REDIRECTS = 3;
+const FETCH_TIMEOUT_MS = 10_000;
+const MAX_HTML_BYTES = 1024 * 1024;
+
+/** IPv6-Adresse (von isIP geprüft) als acht 16-Bit-Gruppen; ein IPv4-Teil am Ende zählt als zwei. */
+function ipv6Groups(ip: string): number[] {
+  let s = ip.toLowerCase().replace(/%.*$/, '');
+  const dotted = /(\d+)\.(\d+)\.(\d+)\.(\d+)$/.exec(s);
+  if (dotted) {
+    const [a, b, c, d] = dotted.slice(1).map(Number);
+    s = `${s.slice(0, dotted.index)}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+  const [head, tail] = s.split('::');
+  const part = (p = '') => (p ? p.split(':').map((h) => Number.parseInt(h, 16)) : []);
+  const h = part(head);
+  const t = part(tail);
+  return [...h, ...Array<number>(8 - h.length - t.length).fill(0), ...t];
+}
+
+/**
+ * IPv4 hinter einer IPv6-Adresse – IPv4-mapped (auch hexadezimal wie ::ffff:7f00:1),
+ * IPv4-kompatibel (::1 wird so zu 0.0.0.1), NAT64 (64:ff9b::/96) und 6to4 (2002::/16).
+ * Andere Adressen bleiben unverändert.
+ */
+export function embeddedIpv4(ip: string): string {
+  if (isIP(ip) !== 6) return ip;
+  const g = ipv6Groups(ip);
+  const v4 = (hi: number, lo: number) => `${hi >> 8}.${hi & 0xff}.${lo >> 8}.${lo & 0xff}`;
+  const zeros = (from: number, to: number) => g.slice(from, to).every((x) => x === 0);
+  if (zeros(0, 5) && (g[5] === 0xffff || g[5] === 0)) return v4(g[6], g[7]);
+  if (g[0] === 0x64 && g[1] === 0xff9b && zeros(2, 6)) return v4(g[6], g[7]);
+  if (g[0] === 0x2002) return v4(g[1], g[2]);
+  return ip;
+}
+
+/** Private, lokale und reservierte Adressen – dorthin darf der Server nicht fetchen. */
+export function isPrivateAddress(ip: string): boolean {
+  const addr = embeddedIpv4(ip);
+  if (isIP(addr) === 4) {
+    const [a, b] = addr.split('.').map(Number);
+    return (
+      a === 0 || a === 10 || a === 127 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168) ||
+      (a === 198 && (b === 18 || b === 19)) ||
+      a >= 224
+    );
+  }
+  if (isIP(addr) !== 6) return true;
+  const [g0, g1, g2] = ipv6Groups(addr);
+  return (
+    (g0 & 0xfe00) === 0xfc00 || // Unique Local fc00::/7
+    (g0 & 0xffc0) === 0xfe80 || // Link-Local fe80::/10
+    (g0 & 0xffc0) === 0xfec0 || // Site-Local fec0::/10
+    (g0 & 0xff00) === 0xff00 || // Multicast
+    (g0 === 0x64 && g1 === 0xff9b && g2 === 1) // lokales NAT64 64:ff9b:1::/48
+  );
+}
+
+type Resolved = { address: string; family: number };
+
+/**
+ * Nur http(s) auf öffentliche Hosts. Liefert die geprüfte Adresse, mit der dann auch
+ * verbunden wird – ein zweites Auflösen beim Verbinden (DNS-Rebinding) gibt es nicht.
+ */
+async function assertPublicUrl(raw: string): Promise<{ url: URL; resolved: Resolved }> {
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    throw new ApiError('http', 'Ungültige URL.', { status: 400 });
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new ApiError('http', 'Nur http- und https-Adressen sind erlaubt.', { status: 400 });
+  }
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  const addrs: Resolved[] = isIP(host)
+    ? [{ address: host, family: isIP(host) }]
+    : await lookup(host, { all: true }).catch(() => []);
+  if (!addrs.length) throw new ApiError('network', 'Host nicht gefunden.', { status: 400 });
+  if (addrs.some((a) => isPrivateAddress(a.address))) {
+    throw new ApiError('http', 'Diese Adresse ist nicht erlaubt.', { status: 400 });
+  }
+  return { url, resolved: addrs[0] };
+}
+
+/** lookup für den Socket: immer die geprüfte Adresse, egal was DNS inzwischen meint. */
+const pinnedLookup = ({ address, family }: Resolved): LookupFunction =>
+  (_host, opts, cb) => {
+    if (opts.all) cb(null, [{ address, family }]);
+    else cb(null, address, family);
+  };
+
+/** Ein GET ohne Redirect-Folgen, verbunden mit `resolved`; Antwort als Web-Response. */
+function get(url: URL, resolved: Resolved, accept: string): Promise<Response> {
+  const send = url.protocol === 'https:' ? httpsRequest : httpRequest;
+  return new Promise((resolve, reject) => {
+    const req = send(url, {
+      lookup: pinnedLookup(resolved),
+      headers: { Accept: accept, 'Accept-Encoding': 'identity', 'User-Agent': 'CloFind/0.1 (+image search)' },
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+    });
+    req.on('error', reject);
+    req.on('response', (res: IncomingMessage) => {
+      const headers = new Headers();
+      for (let i = 0; i < res.rawHeaders.length; i += 2) headers.append(res.rawHeaders[i], res.rawHeaders[i + 1]);
+      const status = res.statusCode ?? 502;
+      const empty = status === 204 || status === 304;
+      if (empty) res.resume();
+      resolve(new Response(empty ? null : (Readable.toWeb(res) as ReadableStream<Uint8Array>), { status, headers }));
+    });
+    req.end();
+  });
+}
+
+/** Antwort samt der URL, von der sie nach allen Weiterleitungen kam. */
+async function fetchPublic(raw: string, accept: string): Promise<{ r: Response; url: string }> {
+  let current = raw;
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    const { url, resolved } = await assertPublicUrl(current);
+    let r: Response;
+    try {
+      r = await get(url, resolved, accept);
+    } catch (e) {
+      const timeout = e instanceof Error && (e.name === 'TimeoutError' || e.name === 'AbortError');
+      throw new ApiError(timeout ? 'timeout' : 'network', timeout ? 'Zeitüberschreitung beim Laden des Bildes.' : 'Bild konnte nicht geladen werden.');
+    }
+    if (r.status >= 300 && r.status < 400 && r.headers.get('location')) {
+      await r.body?.cancel();
+      current = new URL(r.headers.get('location')!, url).toString();
+      continue;
+    }
+    if (!r.ok) {
+      await r.body?.cancel();
+      throw new ApiError(r.status === 404 ? 'not-found' : 'http', `Bild konnte nicht geladen werden (${r.status}).`, { status: r.status });
+    }
+    return { r, url: url.toString() };
+  }
+  throw new ApiError('http', 'Zu viele Weiterleitungen.');
+}
+
+/** Liest höchstens `limit` Bytes; größere Antworten brechen ab. */
+async function readLimited(r: Response, limit: number): Promise<Uint8Array> {
+  const declared = Number(r.headers.get('content-length') ?? 0);
+  if (declared > limit) throw new ApiError('http', 'Bild ist zu groß.', { status: 413 });
+  const reader = r.body?.getReader();
+  if (!reader) return new Uint8Array(await r.arrayBuffer());
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > limit) {
+      await reader.cancel();
+      throw new ApiError('http', 'Bild ist zu groß.', { status: 413 });
+    }
+    chunks.push(value);
+  }
+  const out = new Uint8Array(size);
+  let offset = 0;
+  for (const c of chunks) { out.set(c, offset); offset += c.byteLength; }
+  return out;
+}
+
+/** og:image / twitter:image aus einer Produkt- oder Instagram-Seite. */
+export function findPreviewImage(html: string, base: string): string | null {
+  const metas = html.match(/<meta\b[^>]*>/gi) ?? [];
+  for (const key of ['og:image:secure_url', 'og:image', 'twitter:image']) {
+    for (const tag of metas) {
+      const prop = /(?:property|name)\s*=\s*["']([^"']+)["']/i.exec(tag)?.[1]?.toLowerCase();
+      const content = /content\s*=\s*["']([^"']+)["']/i.exec(tag)?.[1];
+      if (prop === key && content) {
+        try { return new URL(content.replace(/&amp;/g, '&'), base).toString(); } catch { /* weiter suchen */ }
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Lädt ein Bild von einer URL. Zeigt die URL auf eine HTML-Seite (Shop,
+ * Instagram-Post), wird einmal dem og:image gefolgt.
+ */
+export async function fetchRemoteImage(raw: string): Promise<{ bytes: Uint8Array; type: string }> {
+  let { r, url } = await fetchPublic(raw, 'image/*,text/html;q=0.8');
+  let type = (r.headers.get('content-type') ?? '').split(';')[0].trim().toLowerCase();
+
+  if (type === 'text/html') {
+    const html = new TextDecoder().decode(await readLimited(r, MAX_HTML_BYTES));
+    const preview = findPreviewImage(html, url);
+    if (!preview) throw new ApiError('bad-response', 'Auf dieser Seite wurde kein Bild gefunden.');
+    ({ r, url } = await fetchPublic(preview, 'image/*'));
+    type = (r.headers.get('content-type') ?? '').split(';')[0].trim().toLowerCase();
+  }
+
+  if (!(ALLOWED_UPLOAD_TYPES as readonly string[]).includes(type)) {
+    throw new ApiError('http', `Kein unterstütztes Bild (${type || 'unbekannter Typ'}).`, { status: 415 });
+  }
+  return { bytes: await readLimited(r, serverEnv.maxUploadBytes), type };
+}
+
+/** Nur ein Bild, ohne Umweg über HTML-Seiten – für den Bild-Proxy der Farbanalyse. */
+export async function fetchImageOnly(raw: string, limit: number): Promise<{ bytes: Uint8Array; type: string }> {
+  const { r } = await fetchPublic(raw, 'image/*');
+  const type = (r.headers.get('content-type') ?? '').split(';')[0].trim().toLowerCase();
+  if (!(ALLOWED_UPLOAD_TYPES as readonly string[]).includes(type)) {
+    throw new ApiError('http', `Kein unterstütztes Bild (${type || 'unbekannter Typ'}).`, { status: 415 });
+  }
+  return { bytes: await readLimited(r, limit), type };
+}
@@ -0,0 +1,29 @@
+import { ApiError, type ApiErrorKind } from '@/lib/api/errors';
+
+/* ---------------- Einheitliche Fehlerantworten der Route-Handler ---------------- */
+
+const STATUS_BY_KIND: Record<ApiErrorKind, number> = {
+  config: 500,
+  network: 502,
+  timeout: 504,
+  aborted: 499,
+  unavailable: 503,
+  'not-found': 404,
+  'bad-response': 502,
+  http: 502,
+};
+
+/** Form `{ error: { kind, message } }` – der Browser-Client baut daraus wieder einen ApiError. */
+export function errorJson(kind: ApiErrorKind, message: string, status = STATUS_BY_KIND[kind], headers?: HeadersInit) {
+  return Response.json({ error: { kind, message } }, { status, headers });
+}
+
+export function apiErrorResponse(e: unknown): Response {
+  if (e instanceof ApiError) {
+    // Client-Fehler (z. B. 413/415 bei zu großem Bild) unverändert weitergeben
+    const clientError = e.kind === 'http' && e.status !== undefined && e.status >= 400 && e.status < 500;
+    return errorJson(e.kind, e.message, clientError ? e.status : STATUS_BY_KIND[e.kind]);
+  }
+  console.error('Unerwarteter Fehler im Route-Handler:', e);
+  return errorJson('http', 'Interner Fehler.', 500);
+}
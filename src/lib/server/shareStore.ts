@@ -0,0 +1,48 @@
+import { randomBytes } from 'node:crypto';
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { Hit } from '@/lib/api/types';
+
+/* ---------------- Geteilte Ergebnisse (lokaler JSON-Store) ---------------- */
+
+/** Eine Datei pro Link; reicht für eine Instanz, für mehrere bräuchte es eine DB. */
+const SHARE_DIR = path.resolve(process.env.SHARE_DIR || '.data/shares');
+
+export const SHARE_MAX_RESULTS = 200;
+
+export type SharedResults = {
+  id: string;
+  createdAt: number;
+  name: string;
+  /** Der gesuchte Ausschnitt. */
+  image: { type: string; base64: string };
+  /** Ansicht als Query-String (siehe viewToQueryString). */
+  view: string;
+  results: Hit[];
+};
+
+const ID_RE = /^[A-Za-z0-9_-]{8}$/;
+export const isShareId = (id: string) => ID_RE.test(id);
+
+const fileFor = (id: string) => path.join(SHARE_DIR, `${id}.json`);
+
+export async function saveShare(input: Omit<SharedResults, 'id' | 'createdAt'>): Promise<SharedResults> {
+  await mkdir(SHARE_DIR, { recursive: true });
+  const share: SharedResults = { ...input, id: randomBytes(6).toString('base64url'), createdAt: Date.now() };
+  // Erst vollständig schreiben, dann umbenennen – halbe Dateien sind nie lesbar
+  const tmp = `${fileFor(share.id)}.${process.pid}.tmp`;
+  await writeFile(tmp, JSON.stringify(share));
+  await rename(tmp, fileFor(share.id));
+  return share;
+}
+
+/** null, wenn die ID ungültig ist oder es den Link nicht gibt. */
+export async function loadShare(id: string): Promise<SharedResults | null> {
+  if (!isShareId(id)) return null;
+  try {
+    return JSON.parse(await readFile(fileFor(id), 'utf8')) as SharedResults;
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw e;
+  }
+}
@@ -0,0 +1,52 @@
+/* ---------------- Kleiner LRU-Cache mit Ablaufzeit (nur Server) ---------------- */
+
+type Entry<V> = { value: V; expires: number; size: number };
+
+/** Optional zusätzlich nach Größe begrenzen (z. B. Bytes gemerkter Uploads). */
+export type CacheBudget<V> = { maxSize: number; sizeOf: (value: V) => number };
+
+export class TtlCache<V> {
+  private readonly map = new Map<string, Entry<V>>();
+  private total = 0;
+
+  constructor(
+    private readonly maxEntries: number,
+    private readonly ttlMs: number,
+    private readonly budget?: CacheBudget<V>
+  ) {}
+
+  get(key: string): V | undefined {
+    const e = this.map.get(key);
+    if (!e) return undefined;
+    if (e.expires <= Date.now()) { this.remove(key); return undefined; }
+    // Map behält die Einfügereihenfolge → neu einsetzen = „zuletzt benutzt“
+    this.map.delete(key);
+    this.map.set(key, e);
+    return e.value;
+  }
+
+  set(key: string, value: V): void {
+    this.remove(key);
+    const size = this.budget?.sizeOf(value) ?? 0;
+    // Größer als das ganze Budget: gar nicht erst merken, statt alles andere zu verdrängen
+    if (this.budget && size > this.budget.maxSize) return;
+    this.map.set(key, { value, expires: Date.now() + this.ttlMs, size });
+    this.total += size;
+    while (this.map.size > this.maxEntries || (this.budget && this.total > this.budget.maxSize)) {
+      const oldest = this.map.keys().next().value;
+      if (oldest === undefined) break;
+      this.remove(oldest);
+    }
+  }
+
+  get size(): number {
+    return this.map.size;
+  }
+
+  private remove(key: string) {
+    const e = this.map.get(key);
+    if (!e) return;
+    this.map.delete(key);
+    this.total -= e.size;
+  }
+}
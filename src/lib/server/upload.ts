@@ -0,0 +1,30 @@
+import { ALLOWED_UPLOAD_TYPES, serverEnv } from './env';
+import { errorJson } from './respond';
+
+/* ---------------- Upload-Prüfung für die Proxy-Routen ---------------- */
+
+export type UploadResult = { ok: true; form: FormData; file: Blob } | { ok: false; response: Response };
+
+/** Liest `file` aus dem multipart-Body und prüft Größe und Typ. */
+export async function readImageUpload(req: Request): Promise<UploadResult> {
+  // Content-Length vorab prüfen, damit große Uploads nicht erst geparst werden
+  const declared = Number(req.headers.get('content-length') ?? 0);
+  if (declared > serverEnv.maxUploadBytes + 64 * 1024) {
+    return { ok: false, response: errorJson('http', 'Bild ist zu groß.', 413) };
+  }
+
+  let form: FormData;
+  try {
+    form = await req.formData();
+  } catch {
+    return { ok: false, response: errorJson('http', 'Ungültiger Upload.', 400) };
+  }
+
+  const file = form.get('file');
+  if (!(file instanceof Blob)) return { ok: false, response: errorJson('http', 'Kein Bild im Upload.', 400) };
+  if (file.size > serverEnv.maxUploadBytes) return { ok: false, response: errorJson('http', 'Bild ist zu groß.', 413) };
+  if (!(ALLOWED_UPLOAD_TYPES as readonly string[]).includes(file.type)) {
+    return { ok: false, response: errorJson('http', `Dateityp nicht unterstützt (${file.type || 'unbekannt'}).`, 415) };
+  }
+  return { ok: true, form, file };
+}
@@ -0,0 +1,53 @@
+import {
+  LABEL_BUCKETS, PAGE_SIZE, SORT_KEYS, defaultFilters, type Filters, type LabelBucket, type SortKey,
+} from '@/lib/results';
+
+/* ---------------- Ansicht (Sortierung, Filter, Seite) ↔ Query-String ---------------- */
+
+export type ViewState = { sortBy: SortKey; filters: Filters; visibleCount: number };
+
+/** Parameter, die zur Ansicht gehören – alle anderen (z. B. ?demo=) bleiben unberührt. */
+const VIEW_PARAMS = ['sort', 'labels', 'min', 'max', 'merchant', 'score', 'n'] as const;
+
+const numParam = (v: string | null) => (v !== null && v.trim() !== '' && Number.isFinite(Number(v)) ? v.trim() : '');
+
+/** Liest die Ansicht aus dem Query-String; Ungültiges fällt auf den Standard zurück. */
+export function viewFromQuery(q: URLSearchParams): ViewState {
+  const sort = q.get('sort') as SortKey | null;
+  const filters = defaultFilters();
+
+  const labels = q.get('labels');
+  if (labels !== null) {
+    const picked = new Set(labels.split(','));
+    for (const k of LABEL_BUCKETS) filters.labels[k] = picked.has(k);
+  }
+  filters.priceMin = numParam(q.get('min'));
+  filters.priceMax = numParam(q.get('max'));
+  // Mehrfach möglich (?merchant=A&merchant=B); ältere Links mit einem Suchtext landen als ein Händler hier
+  filters.merchants = [...new Set(q.getAll('merchant').map((m) => m.slice(0, 100)))].slice(0, 50);
+  filters.minScore = numParam(q.get('score'));
+
+  const n = Number.parseInt(q.get('n') ?? '', 10);
+  return {
+    sortBy: sort && SORT_KEYS.includes(sort) ? sort : 'relevance',
+    filters,
+    visibleCount: Number.isFinite(n) && n > PAGE_SIZE ? Math.min(n, 500) : PAGE_SIZE,
+  };
+}
+
+/** Schreibt die Ansicht in `q` (in place); Standardwerte erscheinen nicht in der URL. */
+export function writeViewToQuery(q: URLSearchParams, v: ViewState | null): URLSearchParams {
+  for (const k of VIEW_PARAMS) q.delete(k);
+  if (!v) return q;
+  if (v.sortBy !== 'relevance') q.set('sort', v.sortBy);
+  const labels = (Object.keys(v.filters.labels) as LabelBucket[]).filter((k) => v.filters.labels[k]);
+  if (labels.length !== LABEL_BUCKETS.length) q.set('labels', labels.join(','));
+  if (v.filters.priceMin !== '') q.set('min', v.filters.priceMin);
+  if (v.filters.priceMax !== '') q.set('max', v.filters.priceMax);
+  for (const m of v.filters.merchants) q.append('merchant', m);
+  if (v.filters.minScore !== '') q.set('score', v.filters.minScore);
+  if (v.visibleCount > PAGE_SIZE) q.set('n', String(v.visibleCount));
+  return q;
+}
+
+export const viewToQueryString = (v: ViewState) => writeViewToQuery(new URLSearchParams(), v).toString();
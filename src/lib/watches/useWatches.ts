@@ -0,0 +1,44 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import type { Hit } from '@/lib/api/types';
+import {
+  addWatch, listWatches, markAlertsSeen, removeWatches, setWatchTarget, subscribeWatches, unseenAlertCount, watchKey,
+  type PriceWatch,
+} from './watches';
+
+/** Preisbeobachtungen als React-State, tab-übergreifend synchron. */
+export function useWatches() {
+  const [watches, setWatches] = useState<PriceWatch[]>([]);
+  const [ready, setReady] = useState(false);
+
+  const refresh = useCallback(async () => {
+    try {
+      setWatches(await listWatches());
+    } catch {
+      setWatches([]);
+    } finally {
+      setReady(true);
+    }
+  }, []);
+
+  useEffect(() => {
+    void refresh();
+    return subscribeWatches(() => void refresh());
+  }, [refresh]);
+
+  const byKey = useMemo(() => new Map(watches.map((w) => [w.key, w])), [watches]);
+  const watchOf = useCallback((h: Hit) => byKey.get(watchKey(h)), [byKey]);
+  const unseen = useMemo(() => unseenAlertCount(watches), [watches]);
+
+  return {
+    watches,
+    ready,
+    watchOf,
+    unseen,
+    watch: addWatch,
+    remove: removeWatches,
+    setTarget: setWatchTarget,
+    markSeen: markAlertsSeen,
+  };
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import type { PriceQuote } from '@/lib/api/types';
+import { applyQuote, matchingQuote, type PriceWatch } from './watches';
+
+const watch = (over: Partial<PriceWatch> = {}): PriceWatch => ({
+  key: '1|https://a.example/k', product_id: 1, title: 'Kleid', image_url: null, merchant: 'Shop A',
+  deeplink: 'https://a.example/k', currency: 'EUR', target: 50, createdAt: 0, checkedAt: null,
+  history: [{ price: 60, at: 0 }], alerts: [], alertedPrice: null, ...over,
+});
+
+const quote = (price: number, over: Partial<PriceQuote> = {}): PriceQuote => ({
+  product_id: 1, price, currency: 'EUR', merchant: 'Shop A', deeplink: 'https://a.example/k', ...over,
+});
+
+describe('applyQuote', () => {
+  it('meldet den ersten Preis unter dem Ziel', () => {
+    const { watch: w, alert } = applyQuote(watch(), quote(45), 10);
+    expect(alert).toEqual({ price: 45, previous: 60, target: 50, at: 10, seen: false });
+    expect(w).toMatchObject({ checkedAt: 10, alertedPrice: 45, alerts: [alert] });
+    expect(w.history).toEqual([{ price: 60, at: 0 }, { price: 45, at: 10 }]);
+  });
+
+  it('meldet denselben Preis nicht zweimal – einen neuen Tiefstand schon', () => {
+    const first = applyQuote(watch(), quote(45), 10).watch;
+    expect(applyQuote(first, quote(45), 20).alert).toBeNull();
+    expect(applyQuote(first, quote(46), 20).alert).toBeNull();
+    expect(applyQuote(first, quote(40), 20).alert).toMatchObject({ price: 40, previous: 45 });
+  });
+
+  it('meldet wieder, nachdem der Preis über das Ziel gestiegen war', () => {
+    const up = applyQuote(applyQuote(watch(), quote(45), 10).watch, quote(55), 20).watch;
+    expect(up.alertedPrice).toBeNull();
+    expect(applyQuote(up, quote(48), 30).alert).toMatchObject({ price: 48, previous: 55 });
+  });
+
+  it('schreibt unveränderte Preise nicht in die Historie', () => {
+    const { watch: w, alert } = applyQuote(watch(), quote(60.001), 10);
+    expect(alert).toBeNull();
+    expect(w.history).toHaveLength(1);
+  });
+
+  it('zählt ohne Angebot nur die Prüfung', () => {
+    const before = watch();
+    expect(applyQuote(before, null, 10)).toEqual({ watch: { ...before, checkedAt: 10 }, alert: null });
+    expect(applyQuote(before, quote(Number.NaN), 10).watch.history).toBe(before.history);
+  });
+});
+
+describe('matchingQuote', () => {
+  it('nimmt den gleichen Shop-Link, sonst den gleichen Händler – nur in gleicher Währung', () => {
+    const w = watch();
+    const other = quote(40, { deeplink: 'https://a.example/anders' });
+    expect(matchingQuote(w, [other, quote(42)])?.price).toBe(42);
+    expect(matchingQuote(w, [other])?.price).toBe(40);
+    expect(matchingQuote(w, [quote(30, { currency: 'USD' })])).toBeNull();
+  });
+});
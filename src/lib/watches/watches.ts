@@ -0,0 +1,213 @@
+import type { Hit, PriceQuote } from '@/lib/api/types';
+import { favoriteKey } from '@/lib/favorites/favorites';
+import { STORES, del, getAll, hasIndexedDb, update } from '@/lib/history/db';
+
+/* ---------------- Preisbeobachtung ---------------- */
+
+export type PricePoint = { price: number; at: number };
+
+/** Ein gemeldeter Preisrutsch unter das Ziel; `seen` = in der Alarmliste angesehen. */
+export type PriceAlert = { price: number; previous: number; target: number; at: number; seen: boolean };
+
+/**
+ * Ein beobachtetes Angebot – Produkt beim selben Shop-Link, alle Preise in dessen Währung.
+ * `history` beginnt mit dem Preis beim Anlegen und wächst nur, wenn er sich ändert.
+ */
+export type PriceWatch = {
+  /** Wie bei den Favoriten: product_id + Shop-Link. */
+  key: string;
+  product_id: number;
+  title: string | null;
+  image_url: string | null;
+  merchant: string | null;
+  deeplink: string | null;
+  currency: string | null;
+  /** Melden, sobald der Preis höchstens so hoch ist. */
+  target: number;
+  createdAt: number;
+  /** Letzte Prüfung; null = noch nie. */
+  checkedAt: number | null;
+  history: PricePoint[];
+  /** Neueste zuletzt. */
+  alerts: PriceAlert[];
+  /** Zuletzt gemeldeter Preis unter dem Ziel; erneut gemeldet wird erst ein neuer Tiefstand (oder nach einem Anstieg). */
+  alertedPrice: number | null;
+};
+
+const HISTORY_MAX_POINTS = 60;
+const ALERTS_MAX = 20;
+
+const channel = () =>
+  typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel('clofind-watches') : null;
+
+/** Andere Tabs (und Hooks im selben Tab) über Änderungen informieren. */
+function notifyChange() {
+  const ch = channel();
+  ch?.postMessage('changed');
+  ch?.close();
+  if (typeof window !== 'undefined') window.dispatchEvent(new Event('clofind:watches'));
+}
+
+/** Änderungen aus diesem und anderen Tabs abonnieren; liefert die Abmeldung. */
+export function subscribeWatches(onChange: () => void): () => void {
+  const ch = channel();
+  if (ch) ch.onmessage = onChange;
+  window.addEventListener('clofind:watches', onChange);
+  return () => {
+    ch?.close();
+    window.removeEventListener('clofind:watches', onChange);
+  };
+}
+
+export const watchKey = favoriteKey;
+
+/** Vorschlag fürs Ziel: gut 10 % unter dem aktuellen Preis, auf ganze Einheiten abgerundet. */
+export const defaultTarget = (price: number) => Math.max(0, Math.floor(price * 0.9));
+
+export const currentPrice = (w: PriceWatch) => w.history[w.history.length - 1]?.price ?? null;
+
+export async function listWatches(): Promise<PriceWatch[]> {
+  if (!hasIndexedDb()) return [];
+  const all = await getAll<PriceWatch>(STORES.priceWatches);
+  return all.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/** Beobachtung anlegen (oder das Ziel einer bestehenden ändern). `hit` mit Shop-Preis, nicht umgerechnet. */
+export async function addWatch(hit: Hit, target: number): Promise<void> {
+  const now = Date.now();
+  await update<PriceWatch>(STORES.priceWatches, watchKey(hit), (existing) =>
+    existing
+      ? { ...existing, target, alertedPrice: null }
+      : {
+          key: watchKey(hit),
+          product_id: hit.product_id,
+          title: hit.title,
+          image_url: hit.image_url,
+          merchant: hit.merchant,
+          deeplink: hit.deeplink,
+          currency: hit.currency,
+          target,
+          createdAt: now,
+          checkedAt: null,
+          history: [{ price: hit.price, at: now }],
+          alerts: [],
+          alertedPrice: null,
+        }
+  );
+  notifyChange();
+}
+
+export async function removeWatches(keys: string | string[]): Promise<void> {
+  await del(STORES.priceWatches, keys);
+  notifyChange();
+}
+
+/** Ziel ändern; ein schon gemeldeter Preis wird beim nächsten Prüfen neu bewertet. */
+export async function setWatchTarget(key: string, target: number): Promise<void> {
+  const w = await update<PriceWatch>(STORES.priceWatches, key, (cur) => cur && { ...cur, target, alertedPrice: null });
+  if (w) notifyChange();
+}
+
+/** Alle Alarme (ohne `keys`: aller Beobachtungen) als gesehen markieren. */
+export async function markAlertsSeen(keys?: string[]): Promise<void> {
+  let changed = false;
+  for (const w of await listWatches()) {
+    if (keys && !keys.includes(w.key)) continue;
+    if (!w.alerts.some((a) => !a.seen)) continue;
+    // Auf dem aktuellen Stand: ein anderer Tab kann inzwischen einen Alarm ergänzt haben
+    await update<PriceWatch>(STORES.priceWatches, w.key, (cur) => cur && { ...cur, alerts: cur.alerts.map((a) => ({ ...a, seen: true })) });
+    changed = true;
+  }
+  if (changed) notifyChange();
+}
+
+export const unseenAlertCount = (watches: readonly PriceWatch[]) =>
+  watches.reduce((n, w) => n + w.alerts.filter((a) => !a.seen).length, 0);
+
+/** Angebot derselben Beobachtung: gleicher Shop-Link, sonst gleicher Händler – nur in gleicher Währung. */
+export function matchingQuote(w: PriceWatch, quotes: readonly PriceQuote[]): PriceQuote | null {
+  const same = quotes.filter((q) => q.product_id === w.product_id && (q.currency ?? 'EUR') === (w.currency ?? 'EUR'));
+  return (
+    (w.deeplink ? same.find((q) => q.deeplink === w.deeplink) : undefined) ??
+    same.find((q) => q.merchant === w.merchant) ??
+    null
+  );
+}
+
+/**
+ * Neuen Preis eintragen. Liefert den Alarm, wenn der Preis (erstmals oder weiter)
+ * unter das Ziel gefallen ist; ohne Angebot zählt nur die Prüfung.
+ */
+export function applyQuote(w: PriceWatch, quote: PriceQuote | null, at: number): { watch: PriceWatch; alert: PriceAlert | null } {
+  if (!quote || !Number.isFinite(quote.price)) return { watch: { ...w, checkedAt: at }, alert: null };
+  const previous = currentPrice(w) ?? quote.price;
+  const history = Math.abs(previous - quote.price) < 0.005
+    ? w.history
+    : [...w.history, { price: quote.price, at }].slice(-HISTORY_MAX_POINTS);
+
+  if (quote.price > w.target) {
+    return { watch: { ...w, checkedAt: at, history, alertedPrice: null }, alert: null };
+  }
+  if (w.alertedPrice !== null && quote.price >= w.alertedPrice - 0.005) {
+    return { watch: { ...w, checkedAt: at, history }, alert: null };
+  }
+  const alert: PriceAlert = { price: quote.price, previous, target: w.target, at, seen: false };
+  return {
+    watch: { ...w, checkedAt: at, history, alerts: [...w.alerts, alert].slice(-ALERTS_MAX), alertedPrice: quote.price },
+    alert,
+  };
+}
+
+/**
+ * Ergebnis einer Prüfung zurückschreiben – auf den aktuellen Stand, falls das Ziel inzwischen
+ * geändert wurde. Lesen, Vergleichen und Schreiben in einer Transaktion: prüfen zwei Tabs
+ * zugleich, sieht der zweite den Alarm des ersten schon in `alertedPrice` und meldet nicht doppelt.
+ */
+async function saveChecked(key: string, quote: PriceQuote | null, at: number): Promise<PriceAlert | null> {
+  let alert = null as PriceAlert | null;
+  await update<PriceWatch>(STORES.priceWatches, key, (w) => {
+    if (!w) return undefined;
+    const next = applyQuote(w, quote, at);
+    alert = next.alert;
+    return next.watch;
+  });
+  return alert;
+}
+
+export type PriceDrop = { watch: PriceWatch; alert: PriceAlert };
+
+/**
+ * Fällige Beobachtungen (zuletzt vor mindestens `minAgeMs` geprüft) in Paketen von
+ * `batchSize` Produkten abfragen. Liefert die neuen Alarme; ein fehlgeschlagenes
+ * Paket bleibt fällig und wird beim nächsten Mal wieder versucht.
+ */
+export async function checkPriceWatches(
+  fetchQuotes: (ids: number[]) => Promise<PriceQuote[]>,
+  { minAgeMs, batchSize }: { minAgeMs: number; batchSize: number }
+): Promise<PriceDrop[]> {
+  const now = Date.now();
+  const due = (await listWatches()).filter((w) => w.checkedAt === null || now - w.checkedAt >= minAgeMs);
+  const ids = [...new Set(due.map((w) => w.product_id))];
+  const drops: PriceDrop[] = [];
+  let changed = false;
+  let firstError: unknown = null;
+
+  for (let i = 0; i < ids.length; i += batchSize) {
+    const batch = ids.slice(i, i + batchSize);
+    let quotes: PriceQuote[];
+    try {
+      quotes = await fetchQuotes(batch);
+    } catch (e) {
+      firstError ??= e;
+      continue;
+    }
+    for (const w of due.filter((d) => batch.includes(d.product_id))) {
+      const alert = await saveChecked(w.key, matchingQuote(w, quotes), now);
+      changed = true;
+      if (alert) drops.push({ watch: w, alert });
+    }
+  }
+  if (changed) notifyChange();
+  if (firstError !== null && !changed) throw firstError;
+  return drops;
+}
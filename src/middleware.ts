@@ -0,0 +1,32 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { DEFAULT_LOCALE, LOCALE_COOKIE, isLocale, localeFromPath, matchLocale } from '@/lib/i18n/config';
+
+/**
+ * Jede Seite liegt unter /[locale]. Pfade ohne Präfix (alte Links, geteilte
+ * /s/…-Links, „/?h=…“ aus Benachrichtigungen) werden auf die passende Sprache
+ * umgeleitet: zuletzt benutzte (Cookie) → Accept-Language → Standard.
+ */
+export function middleware(req: NextRequest) {
+  const { pathname, search } = req.nextUrl;
+  const current = localeFromPath(pathname);
+
+  if (current) {
+    const res = NextResponse.next();
+    if (req.cookies.get(LOCALE_COOKIE)?.value !== current) {
+      res.cookies.set(LOCALE_COOKIE, current, { path: '/', maxAge: 60 * 60 * 24 * 365, sameSite: 'lax' });
+    }
+    return res;
+  }
+
+  const saved = req.cookies.get(LOCALE_COOKIE)?.value;
+  const locale = isLocale(saved) ? saved : matchLocale(req.headers.get('accept-language')) ?? DEFAULT_LOCALE;
+  const url = req.nextUrl.clone();
+  url.pathname = `/${locale}${pathname === '/' ? '' : pathname}`;
+  url.search = search;
+  return NextResponse.redirect(url);
+}
+
+export const config = {
+  // API, Next-Interna und Dateien (sw.js, Icons, Manifest) bleiben ohne Sprachpräfix
+  matcher: ['/((?!api/|_next/|.*\\..*).*)'],
+};
@@ -0,0 +1,5 @@
+import { cleanup } from '@testing-library/react';
+import { afterEach } from 'vitest';
+
+// Ohne `globals: true` räumt Testing Library nicht selbst auf
+afterEach(() => cleanup());